@@ -6,6 +6,21 @@ import { currentUserExistsGuard } from './utils/guards/current-user-exists.guard
 import { ImprintComponent } from './start/imprint/imprint.component';
 import { PolicyComponent } from './start/policy/policy.component';
 
+/**
+ * Child routes of the chatcontent route.
+ * They have no component of their own, so the ChatcontentComponent stays alive while switching
+ * between conversations. The NavigationService reads the params and sets the matching chat- and threadview.
+ */
+const chatcontentRoutes: Routes = [
+  { path: '', children: [] },
+  { path: 'channel/:channelId', children: [] },
+  { path: 'channel/:channelId/message/:messageId', children: [] },
+  { path: 'channel/:channelId/message/:messageId/thread', children: [], data: { thread: true } },
+  { path: 'chat/:userId', children: [] },
+  { path: 'chat/:userId/message/:messageId', children: [] },
+  { path: 'chat/:userId/message/:messageId/thread', children: [], data: { thread: true } },
+];
+
 export const routes: Routes = [
   { path: '', component: LoginComponent },
   { path: 'signup', component: SignupComponent },
@@ -15,5 +30,6 @@ export const routes: Routes = [
     path: 'chatcontent',
     component: ChatcontentComponent,
     canActivate: [currentUserExistsGuard],
+    children: chatcontentRoutes,
   },
 ];
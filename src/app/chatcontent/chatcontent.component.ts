@@ -1,6 +1,7 @@
 import { Component, inject, OnDestroy, OnInit } from '@angular/core';
 import { BreakpointObserver, BreakpointState } from '@angular/cdk/layout';
-import { Subscription } from 'rxjs';
+import { ActivatedRoute, NavigationEnd, Router } from '@angular/router';
+import { filter, startWith, Subscription } from 'rxjs';
 
 import { HeaderComponent } from './header/header.component';
 import { WorkspacemenuComponent } from './workspacemenu/workspacemenu.component';
@@ -9,6 +10,16 @@ import { ThreadviewComponent } from './threadview/threadview.component';
 import { CommonModule } from '@angular/common';
 import { NavigationService } from '../utils/services/navigation.service';
 import { EmojipickerComponent } from './emojipicker/emojipicker.component';
+import { SearchService } from '../utils/services/search.service';
+import { MessageService } from '../utils/services/message.service';
+import { ScheduledMessageService } from '../utils/services/scheduled-message.service';
+import { ChannelService } from '../utils/services/channel.service';
+import { DraftService } from '../utils/services/draft.service';
+import { ReminderService } from '../utils/services/reminder.service';
+import { ThreadService } from '../utils/services/thread.service';
+import { ActivityService } from '../utils/services/activity.service';
+import { UserGroupService } from '../utils/services/user-group.service';
+import { OutboxService } from '../utils/services/outbox.service';
 
 @Component({
   selector: 'app-chatcontent',
@@ -27,6 +38,7 @@ import { EmojipickerComponent } from './emojipicker/emojipicker.component';
 })
 export class ChatcontentComponent implements OnInit, OnDestroy {
   private breakpointSubscription: Subscription | undefined;
+  private routeSubscription: Subscription | undefined;
 
   currentLayout:
     | 'three-columns'
@@ -40,15 +52,32 @@ export class ChatcontentComponent implements OnInit, OnDestroy {
   isSingleColumn = false;
   isThreadViewFullWidth = false;
   navigationService = inject(NavigationService);
+  private searchService = inject(SearchService);
+  private messageService = inject(MessageService);
+  private scheduledMessageService = inject(ScheduledMessageService);
+  private channelService = inject(ChannelService);
+  private draftService = inject(DraftService);
+  private reminderService = inject(ReminderService);
+  private threadService = inject(ThreadService);
+  private activityService = inject(ActivityService);
+  private userGroupService = inject(UserGroupService);
+  private outboxService = inject(OutboxService);
+  private router = inject(Router);
+  private route = inject(ActivatedRoute);
 
   constructor(private breakpointObserver: BreakpointObserver) {}
 
   /**
    * Initializes the layout of the chat content component based on the current screen size.
    * Subscribes to breakpoint changes and updates the layout accordingly.
-   * Also subscribes to navigation service changes to update the visibility of different views.
+   * Also subscribes to navigation service changes to update the visibility of different views
+   * and starts the publish job of the scheduled messages and the reminder job of the saved messages
+   * of the current user. The drafts of the current user are loaded before the editors are created.
+   * Messages that are still in the outbox are sent again.
    */
   ngOnInit() {
+    this.draftService.loadDrafts();
+
     const layoutBreakpoints = {
       'three-columns': '(min-width: 1200px)',
       'two-broad-columns': '(min-width: 892px) and (max-width: 1199px)',
@@ -95,15 +124,53 @@ export class ChatcontentComponent implements OnInit, OnDestroy {
       }
       this.setLayout();
     });
+
+    this.routeSubscription = this.router.events
+      .pipe(filter((event) => event instanceof NavigationEnd), startWith(null))
+      .subscribe(() => this.openCurrentRoute());
+
+    this.scheduledMessageService.startPublishJob();
+
+    this.reminderService.startReminderJob();
+    this.threadService.startFollowedThreadsListener();
+    this.activityService.startActivityListener();
+    this.userGroupService.startUserGroupsListener();
+    this.outboxService.startOutbox();
   }
 
   /**
-   * Unsubscribes from the breakpoint subscription when the component is destroyed.
+   * Unsubscribes from the breakpoint and route subscriptions and stops the jobs and listeners
+   * of the workspace, e.g. the publish job of the scheduled messages and the reminder job, when the component is destroyed.
    */
   ngOnDestroy() {
     if (this.breakpointSubscription) {
       this.breakpointSubscription.unsubscribe();
     }
+    if (this.routeSubscription) {
+      this.routeSubscription.unsubscribe();
+    }
+    this.scheduledMessageService.stopPublishJob();
+    this.reminderService.stopReminderJob();
+    this.threadService.stopFollowedThreadsListener();
+    this.activityService.stopActivityListener();
+    this.userGroupService.stopUserGroupsListener();
+    this.outboxService.stopOutbox();
+  }
+
+  /**
+   * Reads the params of the active chatcontent child route and passes them to the navigation service.
+   * If the route points to a single message, the message list is asked to scroll to it.
+   */
+  async openCurrentRoute() {
+    const snapshot = this.route.firstChild?.snapshot;
+    if (!snapshot) return;
+    const message = await this.navigationService.openRoute({
+      channelID: snapshot.paramMap.get('channelId') ?? undefined,
+      userID: snapshot.paramMap.get('userId') ?? undefined,
+      messageID: snapshot.paramMap.get('messageId') ?? undefined,
+      thread: snapshot.data['thread'] === true,
+    });
+    if (message) this.searchService.scrollToMessage(message);
   }
 
   /**
@@ -242,4 +309,12 @@ export class ChatcontentComponent implements OnInit, OnDestroy {
 
     this.setLayout();
   }
+
+
+  /**
+   * Undoes the deletion of the last deleted message.
+   */
+  undoDeleteMessage() {
+    this.messageService.undoDeleteMessage();
+  }
 }
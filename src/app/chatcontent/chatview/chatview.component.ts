@@ -8,6 +8,7 @@ import {
 } from '@angular/core';
 import { MessageDateComponent } from './messages-list-view/message-date/message-date.component';
 import { MessageTextareaComponent } from '../message-textarea/message-textarea.component';
+import { TypingIndicatorComponent } from '../typing-indicator/typing-indicator.component';
 import { CommonModule } from '@angular/common';
 import { MessageComponent } from './messages-list-view/message/message.component';
 import { PopoverChannelEditorComponent } from './popover-chatview/popover-channel-editor/popover-channel-editor.component';
@@ -21,6 +22,9 @@ import { UsersService } from '../../utils/services/user.service';
 import { MessageGreetingComponent } from './messages-list-view/message-greeting/message-greeting.component';
 import { AvatarDirective } from '../../utils/directives/avatar.directive';
 import { PopoverMemberProfileComponent } from './popover-chatview/popover-member-profile/popover-member-profile.component';
+import { PopoverMessageRevisionsComponent } from './popover-chatview/popover-message-revisions/popover-message-revisions.component';
+import { PopoverMessageReminderComponent } from './popover-chatview/popover-message-reminder/popover-message-reminder.component';
+import { PopoverPinnedMessagesComponent } from './popover-chatview/popover-pinned-messages/popover-pinned-messages.component';
 import { BehaviorSubject } from 'rxjs';
 import { ChannelService } from '../../utils/services/channel.service';
 import { User } from '../../shared/models/user.class';
@@ -34,6 +38,7 @@ import { ifChatWhitSelf } from '../../utils/firebase/utils';
     MessageDateComponent,
     MessageComponent,
     MessageTextareaComponent,
+    TypingIndicatorComponent,
     PopoverChannelEditorComponent,
     PopoverChannelMemberOverviewComponent,
     PopoverChannelMemberOverviewComponent,
@@ -41,6 +46,9 @@ import { ifChatWhitSelf } from '../../utils/firebase/utils';
     MessageGreetingComponent,
     AvatarDirective,
     PopoverMemberProfileComponent,
+    PopoverMessageRevisionsComponent,
+    PopoverMessageReminderComponent,
+    PopoverPinnedMessagesComponent,
   ],
   templateUrl: './chatview.component.html',
   styleUrl: './chatview.component.scss',
@@ -0,0 +1,63 @@
+import { ChangeDetectorRef, Component, inject, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PollService } from '../../../../utils/services/poll.service';
+import { Message } from '../../../../shared/models/message.class';
+import { getFormatedDateTime } from '../../../../utils/date';
+
+@Component({
+  selector: 'app-message-poll',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './message-poll.component.html',
+  styleUrl: './message-poll.component.scss'
+})
+export class MessagePollComponent {
+  public pollService = inject(PollService);
+
+  /**
+   * The message of the poll. The vote counts are updated when the `MessageComponent`
+   * detects changes on `changeMessage$` of the message.
+   */
+  @Input() message!: Message;
+
+  public errorInfo = '';
+  public isVoting = false;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  /**
+   * Adds or removes the vote of the current user for an option.
+   *
+   * @param optionID - The ID of the option.
+   */
+  async toggleVote(optionID: string) {
+    if (this.isVoting) return;
+    this.isVoting = true;
+    this.errorInfo = await this.pollService.toggleVote(this.message, optionID);
+    this.isVoting = false;
+    this._cdr.detectChanges();
+  }
+
+
+  /**
+   * Returns the type of the poll and the number of voters, e.g. 'Mehrfachauswahl · Anonym · 3 Stimmen'.
+   */
+  getPollInfo(): string {
+    const poll = this.message.poll!;
+    const voterCount = this.pollService.getVoterCount(this.message);
+    const info = [poll.multipleChoice ? 'Mehrfachauswahl' : 'Einfachauswahl', voterCount === 1 ? '1 Stimme' : voterCount + ' Stimmen'];
+    if (poll.anonymous) info.splice(1, 0, 'Anonym');
+    return info.join(' · ');
+  }
+
+
+  /**
+   * Returns the closing time of the poll, e.g. 'Endet am 24.12.2024, 18:00 Uhr'.
+   */
+  getClosingInfo(): string {
+    const poll = this.message.poll!;
+    if (!poll.closesAt) return '';
+    return (poll.isClosed() ? 'Beendet am ' : 'Endet am ') + getFormatedDateTime(poll.closesAt);
+  }
+}
@@ -10,10 +10,19 @@ import { AvatarDirective } from '../../../../utils/directives/avatar.directive';
 import { User } from '../../../../shared/models/user.class';
 import { MessageEditorComponent } from '../../../message-editor/message-editor.component';
 import { ChannelService } from '../../../../utils/services/channel.service';
+import { SavedMessageService } from '../../../../utils/services/saved-message.service';
+import { ReminderService } from '../../../../utils/services/reminder.service';
+import { UserGroupService } from '../../../../utils/services/user-group.service';
+import { Reminder } from '../../../../shared/models/reminder.class';
+import { getFormatedDateTime } from '../../../../utils/date';
 import { Channel } from '../../../../shared/models/channel.class';
 import { EmojipickerService } from '../../../../utils/services/emojipicker.service';
 import { EmojiModule } from '@ctrl/ngx-emoji-mart/ngx-emoji';
 import { EditedTextLength, isEmptyMessage } from '../../../../utils/quil/utility';
+import { Chat } from '../../../../shared/models/chat.class';
+import { getCollectionPath } from '../../../../utils/firebase/utils';
+import { MessagePollComponent } from '../message-poll/message-poll.component';
+import { OutboxService } from '../../../../utils/services/outbox.service';
 
 @Component({
   selector: 'app-message',
@@ -24,6 +33,7 @@ import { EditedTextLength, isEmptyMessage } from '../../../../utils/quil/utility
     AvatarDirective,
     MessageEditorComponent,
     EmojiModule,
+    MessagePollComponent,
   ],
   templateUrl: './message.component.html',
   styleUrl: './message.component.scss',
@@ -41,6 +51,11 @@ export class MessageComponent implements OnDestroy, AfterViewInit, AfterViewChec
   public messageService = inject(MessageService);
   public channelService = inject(ChannelService);
   public emojiService = inject(EmojipickerService);
+  public savedMessageService = inject(SavedMessageService);
+  public reminderService = inject(ReminderService);
+  private userGroupService = inject(UserGroupService);
+  private outboxService = inject(OutboxService);
+  public getFormatedDateTime = getFormatedDateTime;
   private resizeobserver!: ResizeObserver;
   public showSmallButtons = false;
   public showBigButtons = false;
@@ -159,7 +174,10 @@ export class MessageComponent implements OnDestroy, AfterViewInit, AfterViewChec
    * Initializes a subscription to the `changeMessage$` observable of the `_messageData` property.
    * 
    * When the `_messageData` object emits a change, this method updates the `isAttachmentsHovered` array,
-   * calls the `fillMessageContentHTML` method to update the message content, and triggers change detection.
+   * calls the `fillMessageContentHTML` method to update the message content, purges the message if it was
+   * deleted and its undo time is over, and triggers change detection.
+   * The content is filled again after the view is checked, as the message text element is recreated when
+   * a deletion is undone.
    * 
    * This method is called to set up the subscription when the component is initialized, and it also
    * unsubscribes from any previous subscription to avoid memory leaks.
@@ -169,6 +187,9 @@ export class MessageComponent implements OnDestroy, AfterViewInit, AfterViewChec
     this.messageChangeSubscription = this._messageData.changeMessage$.subscribe(() => {
       this.isAttachmentsHovered = new Array(this._messageData.attachments.length).fill(false);
       this.fillMessageContentHTML();
+      this.needContentUpdate = true;
+      this.messageService.purgeDeletedMessageIfExpired(this._messageData);
+      this.savedMessageService.removeSavedMessageIfDeleted(this._messageData);
       this._cdr.detectChanges();
     });
   }
@@ -315,8 +336,9 @@ export class MessageComponent implements OnDestroy, AfterViewInit, AfterViewChec
    * This method is responsible for iterating through all the `<span>` elements
    * within the message content and preparing them based on their CSS class.
    * Spans with a class ending in "channel" are prepared using the `prepareChannelSpan`
-   * method, and spans with a class ending in "user" are prepared using the
-   * `prepareUserSpan` method.
+   * method, spans with a class ending in "user" are prepared using the
+   * `prepareUserSpan` method, and spans with a class ending in "group" are
+   * prepared using the `prepareGroupSpan` method.
    */
   calculateMessageSpans() {
     const spans = this.messageDiv.nativeElement.querySelectorAll('span');
@@ -325,6 +347,7 @@ export class MessageComponent implements OnDestroy, AfterViewInit, AfterViewChec
         if (span.classList[0].endsWith('channel'))
           this.prepareChannelSpan(span);
         else if (span.classList[0].endsWith('user')) this.prepareUserSpan(span);
+        else if (span.classList[0].endsWith('group')) this.prepareGroupSpan(span);
       }
     });
   }
@@ -391,6 +414,23 @@ export class MessageComponent implements OnDestroy, AfterViewInit, AfterViewChec
     });
   }
 
+  /**
+   * Prepares a user group span element within the message content.
+   *
+   * The span shows the current name of the group, so renamed groups are
+   * displayed with their new name, and lists the members as tooltip.
+   * Mentions of deleted groups keep the name stored in the message.
+   *
+   * @param span - The `HTMLSpanElement` representing the group reference.
+   */
+  prepareGroupSpan(span: HTMLSpanElement) {
+    const group = this.userGroupService.getUserGroupByID(span.id);
+    if (!group) return;
+    span.textContent = '@' + group.name;
+    span.title = group.memberIDs.map((memberID) => this.userService.getUserByID(memberID)?.name).filter((name) => name).join(', ');
+    span.classList.add('highlight-item');
+  }
+
 
   /**
    * Updates the content of a message and marks it as edited.
@@ -419,6 +459,117 @@ export class MessageComponent implements OnDestroy, AfterViewInit, AfterViewChec
     this.closeMessageEditor();
   }
 
+  /**
+   * Deletes the current message. The deletion can be undone for a few seconds.
+   */
+  async deleteMessage() {
+    if (await this.userService.ifCurrentUserVerified()) {
+      this.messageService.softDeleteMessage(this._messageData);
+    }
+  }
+
+  /**
+   * Returns the channel or chat of the chatview, if the message belongs to it.
+   * Only these messages can be pinned, answers in threads can't.
+   *
+   * @returns The channel or chat, or `undefined` if the message can't be pinned.
+   */
+  private getPinCollectionObject(): Channel | Chat | undefined {
+    const chatViewObject = this.navigationService.chatViewObject;
+    if (!this._messageData.answerable || this._messageData.collectionPath !== getCollectionPath(chatViewObject)) return undefined;
+    return chatViewObject;
+  }
+
+  /**
+   * Checks if the message is pinned to its channel or chat.
+   *
+   * @returns `true` if the message is pinned, otherwise `false`.
+   */
+  isPinned(): boolean {
+    const collectionObject = this.getPinCollectionObject();
+    return !!collectionObject && this.channelService.isMessagePinned(collectionObject, this._messageData.id);
+  }
+
+  /**
+   * Checks if the current user may pin or unpin the message.
+   *
+   * @returns `true` if the message belongs to the chatview and the user is a member of it, otherwise `false`.
+   */
+  canPinMessage(): boolean {
+    const collectionObject = this.getPinCollectionObject();
+    return !!collectionObject && this.channelService.isAllowedToPinMessages(collectionObject);
+  }
+
+  /**
+   * Pins the message to its channel or chat, or removes the pin if it is already pinned.
+   */
+  async togglePinMessage() {
+    const collectionObject = this.getPinCollectionObject();
+    if (!collectionObject || !(await this.userService.ifCurrentUserVerified())) return;
+    if (this.isPinned()) await this.channelService.unpinMessage(collectionObject, this._messageData.id);
+    else await this.channelService.pinMessage(collectionObject, this._messageData);
+  }
+
+  /**
+   * Saves the message to the saved messages of the current user, or removes it if it is already saved.
+   */
+  async toggleSavedMessage() {
+    if (await this.userService.ifCurrentUserVerified()) {
+      this.savedMessageService.toggleSavedMessage(this._messageData);
+    }
+  }
+
+  /**
+   * Opens the thread of the answer, that the message is the channel copy of.
+   */
+  openThreadOfChannelCopy() {
+    if (this._messageData.threadAnswerPath) this.navigationService.openMessagePath(this._messageData.threadAnswerPath);
+  }
+
+  /**
+   * Opens the popover to set a reminder on the message for the current user.
+   */
+  async showReminderPopover() {
+    if (await this.userService.ifCurrentUserVerified()) {
+      this.reminderService.selectReminderMessage(this._messageData);
+      document.getElementById('popover-message-reminder')?.showPopover();
+    }
+  }
+
+  /**
+   * Returns the reminder a reminder message of the DABubble bot belongs to.
+   *
+   * @returns The reminder, or `undefined` if it is done or the message isn't a reminder message.
+   */
+  getReminderOfBotMessage(): Reminder | undefined {
+    return this._messageData.reminder ? this.reminderService.getReminder(this._messageData.reminder.reminderID) : undefined;
+  }
+
+  /**
+   * Opens the message a reminder message of the DABubble bot links to.
+   */
+  openRemindedMessage() {
+    if (this._messageData.reminder) this.navigationService.openMessagePath(this._messageData.reminder.messagePath);
+  }
+
+  /**
+   * Reminds the current user again of the message in a few minutes.
+   *
+   * @param reminder - The reminder of the reminder message.
+   */
+  snoozeReminder(reminder: Reminder) {
+    this.reminderService.snoozeReminder(reminder);
+  }
+
+  /**
+   * Marks the reminder of a reminder message as done.
+   *
+   * @param reminder - The reminder of the reminder message.
+   */
+  markReminderDone(reminder: Reminder) {
+    this.reminderService.markReminderDone(reminder);
+  }
+
   /**
    * Adds a reaction to the current message.
    *
@@ -550,6 +701,29 @@ export class MessageComponent implements OnDestroy, AfterViewInit, AfterViewChec
     if (popoverElement) (popoverElement as any).showPopover();
   }
 
+  /**
+   * Shows the revisions popover with the edit history of the message.
+   */
+  showMessageRevisions() {
+    this.messageService.showMessageRevisions(this._messageData);
+    const popoverElement = document.getElementById('popover-message-revisions');
+    if (popoverElement) (popoverElement as any).showPopover();
+  }
+
+  /**
+   * Sends the message again, after it failed to be sent from the outbox.
+   */
+  retrySendMessage() {
+    this.outboxService.retryMessage(this._messageData.id);
+  }
+
+  /**
+   * Removes the message from the outbox, after it failed to be sent.
+   */
+  discardUnsentMessage() {
+    this.outboxService.discardMessage(this._messageData.id);
+  }
+
   /**
    * Sets the selected user object by calling `updateSelectedUser` on the `userService`, passing in the user object for the specified `messageCreatorID`.
    *
@@ -1,7 +1,7 @@
-import { ChangeDetectionStrategy, ChangeDetectorRef, Component, ElementRef, inject, Input, OnDestroy, OnInit, ViewChild, } from '@angular/core';
+import { AfterViewInit, ChangeDetectionStrategy, ChangeDetectorRef, Component, inject, Input, OnDestroy, OnInit, ViewChild, } from '@angular/core';
 import { MessageComponent } from './message/message.component';
 import { MessageDateComponent } from './message-date/message-date.component';
-import { collection, Firestore, onSnapshot } from '@angular/fire/firestore';
+import { Unsubscribe } from '@angular/fire/firestore';
 import { Message } from '../../../shared/models/message.class';
 import { MessageGreetingComponent } from './message-greeting/message-greeting.component';
 import { CommonModule, Time } from '@angular/common';
@@ -13,6 +13,13 @@ import { NavigationService } from '../../../utils/services/navigation.service';
 import { UsersService } from '../../../utils/services/user.service';
 import { LastReadMessage, User } from '../../../shared/models/user.class';
 import { ChannelService } from '../../../utils/services/channel.service';
+import { CdkVirtualScrollViewport, ScrollingModule, VIRTUAL_SCROLL_STRATEGY } from '@angular/cdk/scrolling';
+import { ListRange } from '@angular/cdk/collections';
+import { MessageScrollStrategy } from '../../../utils/scrolling/message-scroll-strategy';
+import { MessageWindow } from '../../../utils/firebase/message-window';
+import { Repository } from '../../../utils/firebase/repository';
+import { ifChatWhitSelf } from '../../../utils/firebase/utils';
+import { OutboxService } from '../../../utils/services/outbox.service';
 
 @Component({
   selector: 'app-messages-list-view',
@@ -23,43 +30,64 @@ import { ChannelService } from '../../../utils/services/channel.service';
     MessageDateComponent,
     MessageGreetingComponent,
     CommonModule,
+    ScrollingModule,
   ],
+  providers: [{ provide: VIRTUAL_SCROLL_STRATEGY, useFactory: () => new MessageScrollStrategy() }],
   templateUrl: './messages-list-view.component.html',
   styleUrl: './messages-list-view.component.scss',
 })
-export class MessagesListViewComponent implements OnInit, OnDestroy {
-  private firestore = inject(Firestore);
+export class MessagesListViewComponent implements OnInit, AfterViewInit, OnDestroy {
+  private repository = inject(Repository);
   public navigationService = inject(NavigationService);
   public userService = inject(UsersService);
   public channelService = inject(ChannelService);
+  private outboxService = inject(OutboxService);
   private currentUserSubscription: any;
-  private unsubMessages: any = null;
+  private outboxSubscription: Subscription | undefined;
+  private scrollStrategy = inject(VIRTUAL_SCROLL_STRATEGY) as MessageScrollStrategy;
+  private messageWindow: MessageWindow | undefined;
+  private renderedRangeSubscription: Subscription | undefined;
+  public readonly pageSize = 30;
   public messages: Message[] = [];
   public messagesDates: Date[] = [];
   public noMessagesAvailable = true;
   public messageEditorOpen = false;
-  public newMessagesSeparatorIndex = -1;
+  public newMessagesSeparatorID = '';
+  private newMessagesSeparatorTime: number | undefined;
   private newCollectionIsSet = false;
+  private messageWindowRenderedResolvers: (() => void)[] = [];
+  private currentMessagesPath: string | undefined;
   private currentCollection!: Channel | Chat | Message;
   private collectionLRM: LastReadMessage | undefined;
+  private partnerLRM: LastReadMessage | undefined;
+  private unsubPartnerLRM: Unsubscribe | undefined;
 
-  @ViewChild('newmessageseparator', { static: false }) newMessageSeparator!: ElementRef;
+  @ViewChild(CdkVirtualScrollViewport, { static: true }) viewport!: CdkVirtualScrollViewport;
 
   @Input() set currentObject(currentObject: Channel | Chat | Message) {
     this.currentCollection = currentObject;
     this.updateLastReadMessage();
+    this.subscribePartnerLastReadMessage();
   }
 
   @Input()
   set messagesPath(value: string | undefined) {
     this.messages = [];
-    this.subscribeMessages(value);
+    this.currentMessagesPath = value;
     this.messageEditorOpen = false;
-    this.newMessagesSeparatorIndex = -1;
-    this.newCollectionIsSet = true;
+    this.newMessagesSeparatorID = '';
+    this.newMessagesSeparatorTime = undefined;
+    this.newCollectionIsSet = false;
+    this.scrollStrategy.setItemIDs([]);
+    this.scrollStrategy.scrollToBottom();
+    this.openMessageWindow(value);
     this._cdr.detectChanges();
   }
 
+  get loadingOlderMessages(): boolean {
+    return !!this.messageWindow?.loading && this.messageWindow.hasOlder;
+  }
+
   private messageScrollSubscription: Subscription | undefined;
 
   constructor(
@@ -76,16 +104,41 @@ export class MessagesListViewComponent implements OnInit, OnDestroy {
         }
       );
     this.initCurrentUserWatchDog();
+    this.outboxSubscription = this.outboxService.outboxMessages$.subscribe(() => this.messageWindowChanged(false));
+  }
+
+
+  /**
+   * Watches the rendered range of the virtual scroll viewport.
+   * When the first or the last loaded message is rendered, the next older or newer page of messages is loaded.
+   */
+  ngAfterViewInit(): void {
+    this.renderedRangeSubscription = this.viewport.renderedRangeStream.subscribe((range) => this.checkPageBoundaries(range));
+  }
+
+
+  /**
+   * Tracks the rendered messages by their ID.
+   *
+   * @param index - The index of the message.
+   * @param message - The message.
+   * @returns The ID of the message.
+   */
+  trackByMessageID(index: number, message: Message): string {
+    return message.id;
   }
 
 
   /**
    * Marks a message as viewed by the user.
    *
+   * Messages that are still in the outbox are skipped.
+   *
    * @param message - The message that has been viewed.
    * @returns void
    */
   messageViewed(message: Message): void {
+    if (message.sendState) return;
     this.userService.setLastReadMessage(message, this.currentCollection);
   }
 
@@ -102,27 +155,89 @@ export class MessagesListViewComponent implements OnInit, OnDestroy {
   }
 
 
+  /**
+   * Subscribes to the last read message of the chat partner, if the list shows a chat with another user.
+   * The read receipts are updated whenever the partner reads a message.
+   */
+  private subscribePartnerLastReadMessage(): void {
+    if (this.unsubPartnerLRM) this.unsubPartnerLRM();
+    this.unsubPartnerLRM = undefined;
+    this.partnerLRM = undefined;
+    const chat = this.currentCollection;
+    if (!(chat instanceof Chat) || ifChatWhitSelf(chat)) return;
+    const partner = this.channelService.getChatPartner(chat);
+    if (!partner) return;
+    this.unsubPartnerLRM = this.userService.subscribeLastReadMessageOfUser(partner.id, chat, (lrm) => {
+      this.partnerLRM = lrm;
+      this.setReadReceipts();
+      this._cdr.detectChanges();
+    });
+  }
+
+
+  /**
+   * Sets the read receipts of the latest messages of the current user in a chat: the messages after
+   * the last message of the partner are 'seen' if the partner read them, otherwise 'delivered'.
+   * Read receipts are only shown if both users turned them on, and only if the newest messages are loaded.
+   */
+  private setReadReceipts(): void {
+    this.messages.forEach((message) => message.readReceipt = '');
+    if (!this.showReadReceipts() || this.messageWindow?.hasNewer) return;
+    for (let index = this.messages.length - 1; index >= 0; index--) {
+      const message = this.messages[index];
+      if (message.creatorID !== this.userService.currentUserID) break;
+      if (message.sendState) continue;
+      message.readReceipt = this.partnerLRM && this.partnerLRM.messageCreateAt >= message.createdAt.getTime() ? 'seen' : 'delivered';
+    }
+  }
+
+
+  /**
+   * Checks if read receipts are shown in the current collection.
+   *
+   * @returns `true` in chats with another user, if both users turned read receipts on.
+   */
+  private showReadReceipts(): boolean {
+    const chat = this.currentCollection;
+    if (!(chat instanceof Chat) || ifChatWhitSelf(chat) || !this.userService.currentUser?.readReceipts) return false;
+    return !!this.channelService.getChatPartner(chat)?.readReceipts;
+  }
+
+
   /**
    * Initializes a subscription to watch for changes in the current user.
-   * When the current user changes, it triggers an update to the last read message.
+   * When the current user changes, it triggers an update to the last read message and the read receipts.
    *
    * @private
    */
   initCurrentUserWatchDog() {
     this.currentUserSubscription = this.userService.currentUser?.changeUser$.subscribe(() => {
       this.updateLastReadMessage();
+      this.setReadReceipts();
+      this._cdr.markForCheck();
     });
   }
 
 
   /**
    * Scrolls the view to a specific message element identified by its ID.
+   * Messages of other collections are ignored. If the message is not part of the loaded messages,
+   * the messages around the message are loaded first. The virtual scroll viewport scrolls to the message,
+   * so it gets rendered.
    * If the element is not found, it will retry up to a maximum number of attempts.
    * Once the element is found, it scrolls smoothly to the element and applies a temporary color change.
    *
    * @param message - The message object containing the ID of the target element.
    */
-  private scrollToMessageInView(message: Message) {
+  private async scrollToMessageInView(message: Message) {
+    if (!this.isMessageOfCurrentCollection(message)) return;
+    if (this.messageWindow && !this.messageWindow.contains(message.id)) {
+      this.newCollectionIsSet = false;
+      await this.messageWindow.loadAround(message.createdAt);
+      await this.messageWindowRendered();
+    }
+    const index = this.messages.findIndex((loadedMessage) => loadedMessage.id === message.id);
+    if (index !== -1) this.scrollStrategy.scrollToIndex(index);
     const maxAttempts = 5;
     let attempts = 0;
 
@@ -145,60 +260,150 @@ export class MessagesListViewComponent implements OnInit, OnDestroy {
 
 
   /**
-   * Subscribes to Firestore messages collection and handles real-time updates.
-   * 
-   * @param messagesPath - The path to the Firestore messages collection. If undefined, unsubscribes from the current collection.
-   * 
-   * This method performs the following actions:
-   * - Unsubscribes from the current messages collection if already subscribed.
-   * - Subscribes to the new messages collection if `messagesPath` is provided.
-   * - Listens for document changes (added, modified, removed) in the collection.
-   * - Adds new messages to the `messages` array and marks them as unread if applicable.
-   * - Updates existing messages in the `messages` array.
-   * - Removes deleted messages from the `messages` array.
-   * - Sorts the `messages` array by creation time after new messages are added.
-   * - Sets properties for rendering each message.
-   * - Triggers change detection to update the view.
-   * - Scrolls to the new message separator if a new collection is set.
+   * Checks if a message belongs to the collection that is shown in this list.
+   * The paths are compared without leading and trailing slashes, as messages from the search
+   * carry the path of their firestore collection reference.
+   *
+   * @param message - The message to check.
+   * @returns `true` if the message belongs to the current collection, otherwise `false`.
    */
-  private subscribeMessages(messagesPath: string | undefined) {
-    if (this.unsubMessages) this.unsubMessages();
-    if (messagesPath) {
-      this.unsubMessages = onSnapshot(collection(this.firestore, messagesPath), (snapshot) => {
-        let newMessagesAdded = false;
-        snapshot.docChanges().forEach((change) => {
-          if (change.type === 'added') {
-            newMessagesAdded = true;
-            this.messages.push(new Message(change.doc.data(), messagesPath, change.doc.id));
-          }
-          if (change.type === 'modified') {
-            const message = this.messages.find((message) => message.id === change.doc.id);
-            if (message) {
-              message.update(change.doc.data());
-              message.unread = this.getIfMessageIsUnread(message);
-            }
-          }
-          if (change.type === 'removed') {
-            this.messages = this.messages.filter((message) => message.id !== change.doc.id);
-          }
-        });
-        if (newMessagesAdded) {
-          this.messages.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-          this.newMessagesSeparatorIndex = -1;
-          this.messages.forEach((message, index) => { if (message.propertysUnSet) this.setPropertysForRendering(message, index); });
-          this._cdr.detectChanges();
-        }
-        if (this.newCollectionIsSet) {
-          this.newCollectionIsSet = false;
-          setTimeout(() => {
-            if (this.newMessageSeparator) this.newMessageSeparator.nativeElement.scrollIntoView({ behavior: 'auto', block: 'start' });
-          }, 500);
-        }
-      });
+  private isMessageOfCurrentCollection(message: Message): boolean {
+    if (!this.currentMessagesPath) return false;
+    const normalize = (path: string) => path.replace(/^\/+|\/+$/g, '');
+    return normalize(message.collectionPath) === normalize(this.currentMessagesPath);
+  }
+
+
+  /**
+   * Opens a message window for the given messages collection and loads the first messages.
+   *
+   * - Destroys the window of the previous collection.
+   * - Loads the newest page of messages.
+   * - If the last read message of the user is older than the loaded page, the messages around
+   *   the last read message are loaded instead, so the user starts reading at the first unread message.
+   * - Scrolls to the new messages separator once the messages are rendered.
+   *
+   * @param messagesPath - The path to the Firestore messages collection. If undefined, no messages are loaded.
+   */
+  private async openMessageWindow(messagesPath: string | undefined) {
+    this.messageWindow?.destroy();
+    this.messageWindow = undefined;
+    if (!messagesPath) return;
+    const messageWindow = new MessageWindow(this.repository, messagesPath, this.pageSize, (newMessagesAdded) => {
+      if (this.messageWindow === messageWindow) this.messageWindowChanged(newMessagesAdded);
+    });
+    this.messageWindow = messageWindow;
+    await messageWindow.loadLatest();
+    if (this.messageWindow !== messageWindow) return;
+    this.newMessagesSeparatorTime = this.collectionLRM?.messageCreateAt;
+    const oldestLoadedDate = messageWindow.oldestLoadedDate;
+    if (this.newMessagesSeparatorTime && messageWindow.hasOlder && oldestLoadedDate && oldestLoadedDate.getTime() > this.newMessagesSeparatorTime) {
+      await messageWindow.loadAround(new Date(this.newMessagesSeparatorTime));
+      if (this.messageWindow !== messageWindow) return;
+    }
+    if (messageWindow.messages.length > 0) this.scrollToNewMessagesSeparator();
+    else this.newCollectionIsSet = true;
+  }
+
+
+  /**
+   * Handles changes of the message window.
+   * Takes over the messages of the window and the outbox, sets the properties for rendering of all messages,
+   * passes the message IDs to the virtual scroll strategy, triggers change detection and scrolls to the new messages separator if a new collection is set.
+   *
+   * @param newMessagesAdded - `true` if messages were added to the window.
+   */
+  private messageWindowChanged(newMessagesAdded: boolean) {
+    if (!this.messageWindow) return;
+    this.messages = this.getMessagesWithOutbox(this.messageWindow);
+    this.setNewMessagesSeparatorID();
+    this.messages.forEach((message, index) => this.setPropertysForRendering(message, index));
+    this.setReadReceipts();
+    this.scrollStrategy.setItemIDs(this.messages.map((message) => message.id));
+    this._cdr.detectChanges();
+    this.resolveMessageWindowRendered();
+    if (this.newCollectionIsSet && newMessagesAdded) {
+      this.newCollectionIsSet = false;
+      this.scrollToNewMessagesSeparator();
     }
   }
 
 
+  /**
+   * Returns the messages of the window, followed by the messages of the current collection that are still in the outbox.
+   * Messages of the outbox that are already stored locally get the send state of the outbox instead of being shown twice.
+   * The outbox is only shown if the newest messages are loaded.
+   *
+   * @param messageWindow - The message window.
+   * @returns The messages to show.
+   */
+  private getMessagesWithOutbox(messageWindow: MessageWindow): Message[] {
+    messageWindow.messages.forEach((message) => message.sendState = this.outboxService.getOutboxMessage(message.id)?.status ?? '');
+    if (messageWindow.hasNewer || !this.currentMessagesPath) return [...messageWindow.messages];
+    const previewMessages = this.outboxService.getPreviewMessages(this.currentMessagesPath).filter((message) => !messageWindow.contains(message.id));
+    return [...messageWindow.messages, ...previewMessages];
+  }
+
+
+  /**
+   * Waits until the message window has delivered its messages to the list.
+   *
+   * @returns A promise that resolves with the next change of the message window.
+   */
+  private messageWindowRendered(): Promise<void> {
+    return new Promise((resolve) => this.messageWindowRenderedResolvers.push(resolve));
+  }
+
+
+  private resolveMessageWindowRendered() {
+    this.messageWindowRenderedResolvers.forEach((resolve) => resolve());
+    this.messageWindowRenderedResolvers = [];
+  }
+
+
+  /**
+   * Scrolls to the new messages separator. Without a separator the list stays scrolled to the bottom.
+   */
+  private scrollToNewMessagesSeparator() {
+    const index = this.messages.findIndex((message) => message.id === this.newMessagesSeparatorID);
+    if (index !== -1) this.scrollStrategy.scrollToIndex(index);
+    else this.scrollStrategy.scrollToBottom();
+  }
+
+
+  /**
+   * Loads the next page of messages, if the first or the last loaded message is rendered.
+   *
+   * @param range - The rendered range of the virtual scroll viewport.
+   */
+  private checkPageBoundaries(range: ListRange) {
+    if (this.messages.length === 0) return;
+    if (range.start === 0) this.loadPage('older');
+    else if (range.end >= this.messages.length) this.loadPage('newer');
+  }
+
+
+  /**
+   * Loads the next older or newer page of messages.
+   * As long as the first or last message is still rendered after loading, the next page is loaded.
+   *
+   * @param direction - 'older' to load older messages, 'newer' to load newer messages.
+   */
+  private async loadPage(direction: 'older' | 'newer') {
+    const messageWindow = this.messageWindow;
+    if (!messageWindow || messageWindow.loading) return;
+    const canLoad = direction === 'older' ? messageWindow.hasOlder : messageWindow.hasNewer;
+    if (!canLoad) return;
+    const pageLoaded = direction === 'older' ? messageWindow.loadOlder() : messageWindow.loadNewer();
+    this._cdr.detectChanges();
+    await pageLoaded;
+    this._cdr.detectChanges();
+    setTimeout(() => {
+      if (this.messageWindow === messageWindow) this.checkPageBoundaries(this.viewport.getRenderedRange());
+    }, 500);
+  }
+
+
   /**
    * Sets various properties on a message object to determine how it should be rendered.
    * 
@@ -215,33 +420,39 @@ export class MessagesListViewComponent implements OnInit, OnDestroy {
   setPropertysForRendering(message: Message, index: number): void {
     message.newDaySeparator = this.ifDaySeparatorIsNeeded(index);
     message.newMessageSeparator = this.ifNewMessagesSeparatorIsNeeded(index);
-    if (!message.newDaySeparator && !message.newMessageSeparator) message.sameUserAsPrevious = this.ifMessageFromSameUserAsPrevious(index);
+    message.sameUserAsPrevious = !message.newDaySeparator && !message.newMessageSeparator && this.ifMessageFromSameUserAsPrevious(index);
     message.unread = this.getIfMessageIsUnread(message);
     message.propertysUnSet = false;
   }
 
 
+  /**
+   * Determines the message in front of which the new messages separator is shown.
+   *
+   * The separator is placed in front of the first message that was created after the last read message
+   * at the time the collection was opened and that was not created by the current user.
+   * If this message is the oldest loaded message and older messages exist, the first unread message may not
+   * be loaded yet, so no separator is shown until the older messages are loaded.
+   */
+  setNewMessagesSeparatorID(): void {
+    this.newMessagesSeparatorID = '';
+    if (this.newMessagesSeparatorTime === undefined) return;
+    const index = this.messages.findIndex((message) =>
+      message.createdAt.getTime() > this.newMessagesSeparatorTime! && message.creatorID !== this.userService.currentUserID
+    );
+    if (index === -1 || (index === 0 && this.messageWindow?.hasOlder)) return;
+    this.newMessagesSeparatorID = this.messages[index].id;
+  }
+
+
   /**
    * Determines if a new messages separator is needed at the given index.
    *
    * @param index - The index of the message in the messages array.
-   * @returns `true` if a new messages separator is needed at the given index, otherwise `false`.
-   *
-   * This method checks if the current message at the specified index was created after the last read message (LRM)
-   * and if the message was not created by the current user. If these conditions are met and a new messages separator
-   * index has not been set, it sets the new messages separator index to the current index and returns `true`.
-   * Otherwise, it returns `false`.
+   * @returns `true` if the new messages separator is shown in front of the message at the given index, otherwise `false`.
    */
   ifNewMessagesSeparatorIsNeeded(index: number): boolean {
-    if (this.collectionLRM) {
-      if (this.newMessagesSeparatorIndex === index) return true;
-      const result = this.messages[index].createdAt.getTime() > this.collectionLRM.messageCreateAt;
-      if (result && this.messages[index].creatorID !== this.userService.currentUserID && this.newMessagesSeparatorIndex === -1) {
-        this.newMessagesSeparatorIndex = index;
-        return result;
-      }
-    }
-    return false;
+    return this.newMessagesSeparatorID !== '' && this.messages[index].id === this.newMessagesSeparatorID;
   }
 
 
@@ -251,15 +462,15 @@ export class MessagesListViewComponent implements OnInit, OnDestroy {
    * @param index - The index of the current message in the messages array.
    * @returns `true` if a day separator is needed, `false` otherwise.
    *
-   * A day separator is needed if the current message is the first message
+   * A day separator is needed if the current message is the first loaded message
    * in the list or if the current message was created on a different day
    * than the previous message.
    */
   ifDaySeparatorIsNeeded(index: number): boolean {
     if (index === 0) return true;
     return (
-      this.messages[index].createdAt.getDate() !==
-      this.messages[index - 1].createdAt.getDate()
+      this.messages[index].createdAt.toDateString() !==
+      this.messages[index - 1].createdAt.toDateString()
     );
   }
 
@@ -295,13 +506,18 @@ export class MessagesListViewComponent implements OnInit, OnDestroy {
    * This method performs cleanup by unsubscribing from various subscriptions
    * to prevent memory leaks.
    * 
-   * - Unsubscribes from `unsubMessages` if it exists.
+   * - Destroys the `messageWindow` if it exists.
+   * - Unsubscribes from `renderedRangeSubscription` if it exists.
    * - Unsubscribes from `messageScrollSubscription` if it exists.
    * - Unsubscribes from `currentUserSubscription` if it exists.
+   * - Unsubscribes from the last read message of the chat partner and from the outbox.
    */
   ngOnDestroy(): void {
-    if (this.unsubMessages) {
-      this.unsubMessages();
+    if (this.messageWindow) {
+      this.messageWindow.destroy();
+    }
+    if (this.renderedRangeSubscription) {
+      this.renderedRangeSubscription.unsubscribe();
     }
     if (this.messageScrollSubscription) {
       this.messageScrollSubscription.unsubscribe();
@@ -309,5 +525,7 @@ export class MessagesListViewComponent implements OnInit, OnDestroy {
     if (this.currentUserSubscription) {
       this.currentUserSubscription.unsubscribe();
     }
+    if (this.unsubPartnerLRM) this.unsubPartnerLRM();
+    if (this.outboxSubscription) this.outboxSubscription.unsubscribe();
   }
 }
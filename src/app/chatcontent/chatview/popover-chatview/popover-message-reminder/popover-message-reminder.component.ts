@@ -0,0 +1,112 @@
+import { ChangeDetectorRef, Component, inject, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { ReminderService } from '../../../../utils/services/reminder.service';
+import { Message } from '../../../../shared/models/message.class';
+import { Reminder } from '../../../../shared/models/reminder.class';
+import { fromDateTimeLocalString, getFormatedDateTime, getTomorrowMorning, toDateTimeLocalString } from '../../../../utils/date';
+
+@Component({
+  selector: 'app-popover-message-reminder',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './popover-message-reminder.component.html',
+  styleUrl: './popover-message-reminder.component.scss'
+})
+export class PopoverMessageReminderComponent implements OnInit, OnDestroy {
+  private subscription!: Subscription;
+  public reminderService = inject(ReminderService);
+
+  public message: Message | undefined;
+  public customDate = '';
+  public minCustomDate = '';
+  public errorMessage = '';
+  public saving = false;
+  public getFormatedDateTime = getFormatedDateTime;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  ngOnInit(): void {
+    this.subscription = this.reminderService.selectedReminderMessage$.subscribe((message) => {
+      this.message = message;
+      this.errorMessage = '';
+      this.minCustomDate = toDateTimeLocalString(new Date());
+      const pendingReminder = this.getPendingReminder();
+      this.customDate = pendingReminder ? toDateTimeLocalString(pendingReminder.remindAt) : '';
+      this._cdr.detectChanges();
+    });
+  }
+
+
+  /**
+   * Returns the pending reminder of the current user on the selected message.
+   */
+  getPendingReminder(): Reminder | undefined {
+    return this.message ? this.reminderService.getPendingReminderOfMessage(this.message) : undefined;
+  }
+
+
+  remindInMinutes(minutes: number) {
+    this.remindAt(new Date(Date.now() + minutes * 60 * 1000));
+  }
+
+
+  remindTomorrow() {
+    this.remindAt(getTomorrowMorning());
+  }
+
+
+  /**
+   * Sets the reminder to the date selected in the date input.
+   */
+  remindAtCustomDate() {
+    const remindAt = fromDateTimeLocalString(this.customDate);
+    if (!remindAt) {
+      this.errorMessage = 'Bitte wähle einen Zeitpunkt.';
+      return;
+    }
+    this.remindAt(remindAt);
+  }
+
+
+  /**
+   * Stores the reminder on the selected message and closes the popover.
+   *
+   * @param remindAt - The date of the reminder.
+   */
+  async remindAt(remindAt: Date) {
+    if (!this.message || this.saving) return;
+    this.saving = true;
+    this.errorMessage = await this.reminderService.addReminder(this.message, remindAt);
+    this.saving = false;
+    if (!this.errorMessage) this.closePopover();
+    this._cdr.detectChanges();
+  }
+
+
+  /**
+   * Deletes the pending reminder on the selected message.
+   */
+  async deleteReminder() {
+    const pendingReminder = this.getPendingReminder();
+    if (!pendingReminder) return;
+    this.errorMessage = await this.reminderService.markReminderDone(pendingReminder);
+    if (!this.errorMessage) this.closePopover();
+    this._cdr.detectChanges();
+  }
+
+
+  /**
+   * Closes the reminder popover.
+   */
+  closePopover() {
+    document.getElementById('popover-message-reminder')?.hidePopover();
+  }
+
+
+  ngOnDestroy(): void {
+    if (this.subscription) this.subscription.unsubscribe();
+  }
+}
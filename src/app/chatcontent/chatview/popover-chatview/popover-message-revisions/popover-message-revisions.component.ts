@@ -0,0 +1,144 @@
+import { ChangeDetectorRef, Component, inject, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { MessageService } from '../../../../utils/services/message.service';
+import { UsersService } from '../../../../utils/services/user.service';
+import { Message } from '../../../../shared/models/message.class';
+import { DiffPart, diffWords } from '../../../../utils/diff';
+
+/**
+ * A version of a message, as shown in the revisions popover.
+ *
+ * @property {string} content - The content of the message in this version.
+ * @property {string} editorID - The ID of the user who created this version.
+ * @property {Date} createdAt - The date this version was created.
+ * @property {DiffPart[]} diff - The changes compared to the previous version.
+ * @property {boolean} original - Whether this is the original version of the message.
+ * @property {boolean} current - Whether this is the current version of the message.
+ */
+type MessageVersion = {
+  content: string;
+  editorID: string;
+  createdAt: Date;
+  diff: DiffPart[];
+  original: boolean;
+  current: boolean;
+};
+
+@Component({
+  selector: 'app-popover-message-revisions',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './popover-message-revisions.component.html',
+  styleUrl: './popover-message-revisions.component.scss'
+})
+export class PopoverMessageRevisionsComponent implements OnInit, OnDestroy {
+  private subscription!: Subscription;
+  private messageService = inject(MessageService);
+  public userService = inject(UsersService);
+
+  public message: Message | undefined;
+  public versions: MessageVersion[] = [];
+  public loading = false;
+  public errorMessage = '';
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  ngOnInit(): void {
+    this.subscription = this.messageService.selectedRevisionsMessage$.subscribe((message) => {
+      this.message = message;
+      this.errorMessage = '';
+      this.loadVersions();
+    });
+  }
+
+
+  /**
+   * Checks if the current user may restore earlier versions of the message.
+   *
+   * @returns `true` if the current user is the creator of the message, otherwise `false`.
+   */
+  canRestore(): boolean {
+    return !!this.message && this.message.creatorID === this.userService.currentUserID;
+  }
+
+
+  /**
+   * Loads the revisions of the selected message and builds the list of versions, newest first.
+   * The first version is the original message, every revision adds the version it created.
+   */
+  async loadVersions() {
+    this.versions = [];
+    if (!this.message) return;
+    const message = this.message;
+    this.loading = true;
+    const revisions = await this.messageService.getMessageRevisions(message);
+    if (message !== this.message) return;
+    if (revisions.length > 0) {
+      const versions: MessageVersion[] = [{
+        content: revisions[0].previousContent,
+        editorID: message.creatorID,
+        createdAt: message.createdAt,
+        diff: [{ type: 'equal', text: revisions[0].previousPlainContent }],
+        original: true,
+        current: false,
+      }];
+      revisions.forEach((revision) => versions.push({
+        content: revision.content,
+        editorID: revision.editorID,
+        createdAt: revision.editedAt,
+        diff: diffWords(revision.previousPlainContent, revision.plainContent),
+        original: false,
+        current: false,
+      }));
+      versions[versions.length - 1].current = true;
+      this.versions = versions.reverse();
+    }
+    this.loading = false;
+    this._cdr.detectChanges();
+  }
+
+
+  /**
+   * Restores the content of an earlier version and reloads the versions.
+   *
+   * @param version - The version to restore.
+   */
+  async restoreVersion(version: MessageVersion) {
+    if (!this.message) return;
+    this.errorMessage = await this.messageService.restoreMessageRevision(this.message, version.content);
+    if (!this.errorMessage) await this.loadVersions();
+  }
+
+
+  /**
+   * Formats the date of a version as a localized string with the format "dd.MM.yyyy, HH:mm Uhr".
+   *
+   * @param date - The date to format.
+   * @returns The formatted date.
+   */
+  getFormatedDate(date: Date): string {
+    const formatedDate = date.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+    const formatedTime = date.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+    return `${formatedDate}, ${formatedTime} Uhr`;
+  }
+
+
+  /**
+   * Closes the revisions popover.
+   */
+  closePopover() {
+    document.getElementById('popover-message-revisions')?.hidePopover();
+  }
+
+
+  /**
+   * Unsubscribes from the `selectedRevisionsMessage$` subscription when the component is destroyed.
+   */
+  ngOnDestroy() {
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+    }
+  }
+}
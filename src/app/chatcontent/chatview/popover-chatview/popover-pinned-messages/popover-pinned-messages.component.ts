@@ -0,0 +1,114 @@
+import { ChangeDetectorRef, Component, inject, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Channel } from '../../../../shared/models/channel.class';
+import { Chat } from '../../../../shared/models/chat.class';
+import { Message } from '../../../../shared/models/message.class';
+import { PinnedMessage } from '../../../../shared/models/pinned-message.class';
+import { ChannelService } from '../../../../utils/services/channel.service';
+import { MessageService } from '../../../../utils/services/message.service';
+import { SearchService } from '../../../../utils/services/search.service';
+import { UsersService } from '../../../../utils/services/user.service';
+import { getCollectionPath, removeAllHTMLTagsFromString } from '../../../../utils/firebase/utils';
+import { getFormatedDateTime } from '../../../../utils/date';
+
+/**
+ * A pin as shown in the pinned messages popover.
+ *
+ * @property {PinnedMessage} pin - The pin of the channel or chat.
+ * @property {Message | undefined} message - The pinned message, `undefined` if it doesn't exist anymore.
+ */
+type PinnedMessageEntry = {
+  pin: PinnedMessage;
+  message: Message | undefined;
+};
+
+@Component({
+  selector: 'app-popover-pinned-messages',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './popover-pinned-messages.component.html',
+  styleUrl: './popover-pinned-messages.component.scss'
+})
+export class PopoverPinnedMessagesComponent {
+  private messageService = inject(MessageService);
+  private searchService = inject(SearchService);
+  public channelService = inject(ChannelService);
+  public userService = inject(UsersService);
+
+  @Input() currentChannel!: Channel | Chat;
+
+  public entries: PinnedMessageEntry[] = [];
+  public loading = false;
+  public errorMessage = '';
+  public getFormatedDateTime = getFormatedDateTime;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  /**
+   * Loads the pinned messages whenever the popover is opened.
+   *
+   * @param event - The toggle event of the popover.
+   */
+  onToggle(event: Event) {
+    if ((event as ToggleEvent).newState === 'open') this.loadPinnedMessages();
+  }
+
+
+  /**
+   * Loads the messages of all pins of the current channel or chat, newest pin first.
+   */
+  async loadPinnedMessages() {
+    const channel = this.currentChannel;
+    this.errorMessage = '';
+    this.loading = true;
+    const collectionPath = getCollectionPath(channel);
+    const pins = [...channel.pinnedMessages].sort((a, b) => b.pinnedAt.getTime() - a.pinnedAt.getTime());
+    const messages = await Promise.all(pins.map((pin) => this.messageService.getMessageByID(collectionPath, pin.messageID)));
+    if (channel !== this.currentChannel) return;
+    this.entries = pins.map((pin, index) => ({ pin: pin, message: messages[index] }));
+    this.loading = false;
+    this._cdr.detectChanges();
+  }
+
+
+  /**
+   * Returns the text of a message without HTML tags, as preview in the list.
+   *
+   * @param message - The pinned message.
+   * @returns The plain text of the message.
+   */
+  getPreviewText(message: Message): string {
+    return removeAllHTMLTagsFromString(message.content);
+  }
+
+
+  /**
+   * Closes the popover and scrolls the message list to the pinned message.
+   *
+   * @param message - The pinned message.
+   */
+  jumpToMessage(message: Message) {
+    this.closePopover();
+    this.searchService.scrollToMessage(message);
+  }
+
+
+  /**
+   * Removes the pin of a message and removes it from the list.
+   *
+   * @param entry - The entry of the pin to remove.
+   */
+  async unpinMessage(entry: PinnedMessageEntry) {
+    this.errorMessage = await this.channelService.unpinMessage(this.currentChannel, entry.pin.messageID);
+    if (!this.errorMessage) this.entries = this.entries.filter((e) => e !== entry);
+  }
+
+
+  /**
+   * Closes the pinned messages popover.
+   */
+  closePopover() {
+    document.getElementById('pinned-messages-popover')?.hidePopover();
+  }
+}
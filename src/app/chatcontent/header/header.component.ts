@@ -1,11 +1,12 @@
 import { Component } from '@angular/core';
 import { SearchbarComponent } from './searchbar/searchbar.component';
 import { ProfileComponent } from './profile/profile.component';
+import { UserGroupsComponent } from './user-groups/user-groups.component';
 
 @Component({
   selector: 'app-header',
   standalone: true,
-  imports: [SearchbarComponent, ProfileComponent],
+  imports: [SearchbarComponent, ProfileComponent, UserGroupsComponent],
   templateUrl: './header.component.html',
   styleUrl: './header.component.scss',
 })
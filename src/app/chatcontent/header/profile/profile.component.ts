@@ -293,6 +293,21 @@ export class ProfileComponent implements OnInit {
     }
   }
 
+  /**
+   * Turns the read receipts of the current user on or off.
+   */
+  toggleReadReceipts() {
+    if (this.userservice.currentUser) this.userservice.setReadReceipts(!this.userservice.currentUser.readReceipts);
+  }
+
+  /**
+   * Closes the profile menu and opens the dialog to manage the user groups.
+   */
+  openUserGroups() {
+    document.getElementById('profile-popover')?.hidePopover();
+    document.getElementById('user-groups-popover')?.showPopover();
+  }
+
   /**
    * Logs out the current user and navigates to the home page.
    */
@@ -0,0 +1,137 @@
+import { ChangeDetectorRef, Component, inject, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { UserGroupService } from '../../../utils/services/user-group.service';
+import { UsersService } from '../../../utils/services/user.service';
+import { UserGroup } from '../../../shared/models/user-group.class';
+import { User } from '../../../shared/models/user.class';
+import { AvatarDirective } from '../../../utils/directives/avatar.directive';
+import { isRealUser } from '../../../utils/firebase/utils';
+
+@Component({
+  selector: 'app-user-groups',
+  standalone: true,
+  imports: [CommonModule, FormsModule, AvatarDirective],
+  templateUrl: './user-groups.component.html',
+  styleUrl: './user-groups.component.scss'
+})
+export class UserGroupsComponent implements OnInit, OnDestroy {
+  private subscription!: Subscription;
+  public userGroupService = inject(UserGroupService);
+  public userService = inject(UsersService);
+
+  public userGroups: UserGroup[] = [];
+  public editedGroup: UserGroup | undefined;
+  public showForm = false;
+  public groupName = '';
+  public groupDescription = '';
+  public groupMemberIDs: string[] = [];
+  public errorMessage = '';
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  ngOnInit(): void {
+    this.subscription = this.userGroupService.userGroups$.subscribe((userGroups) => {
+      this.userGroups = userGroups;
+      this._cdr.detectChanges();
+    });
+  }
+
+
+  /**
+   * Returns the users that can be added to a group, guests and the DABubble bot are excluded.
+   *
+   * @returns The users.
+   */
+  getSelectableUsers(): User[] {
+    return this.userService.users.filter((user) => isRealUser(user));
+  }
+
+
+  /**
+   * Returns the names of the members of a group.
+   *
+   * @param group - The group.
+   * @returns The names, separated by commas.
+   */
+  getMemberNames(group: UserGroup): string {
+    return group.memberIDs.map((memberID) => this.userService.getUserByID(memberID)?.name).filter((name) => name).join(', ');
+  }
+
+
+  /**
+   * Shows the form for a new group, or for editing an existing group.
+   *
+   * @param group - The edited group, `undefined` for a new group.
+   */
+  openForm(group: UserGroup | undefined = undefined) {
+    this.editedGroup = group;
+    this.groupName = group ? group.name : '';
+    this.groupDescription = group ? group.description : '';
+    this.groupMemberIDs = group ? [...group.memberIDs] : [];
+    this.errorMessage = '';
+    this.showForm = true;
+  }
+
+
+  /**
+   * Hides the form without saving.
+   */
+  closeForm() {
+    this.showForm = false;
+    this.editedGroup = undefined;
+    this.errorMessage = '';
+  }
+
+
+  /**
+   * Adds a user to the members of the edited group, or removes them.
+   *
+   * @param userID - The ID of the user.
+   */
+  toggleMember(userID: string) {
+    if (this.groupMemberIDs.includes(userID)) this.groupMemberIDs = this.groupMemberIDs.filter((memberID) => memberID !== userID);
+    else this.groupMemberIDs = [...this.groupMemberIDs, userID];
+  }
+
+
+  /**
+   * Creates the new group or saves the edited group. The form is closed on success.
+   */
+  async saveGroup() {
+    const name = this.groupName.trim().toLowerCase();
+    const description = this.groupDescription.trim();
+    if (this.editedGroup) {
+      this.errorMessage = await this.userGroupService.updateUserGroup(this.editedGroup, { name: name, description: description, memberIDs: this.groupMemberIDs });
+    } else {
+      this.errorMessage = await this.userGroupService.addUserGroup(name, description, this.groupMemberIDs);
+    }
+    if (!this.errorMessage) this.closeForm();
+  }
+
+
+  /**
+   * Deletes a group.
+   *
+   * @param group - The group.
+   */
+  async deleteGroup(group: UserGroup) {
+    this.errorMessage = await this.userGroupService.deleteUserGroup(group);
+  }
+
+
+  /**
+   * Closes the user groups popover.
+   */
+  closePopover() {
+    this.closeForm();
+    document.getElementById('user-groups-popover')?.hidePopover();
+  }
+
+
+  ngOnDestroy(): void {
+    if (this.subscription) this.subscription.unsubscribe();
+  }
+}
@@ -5,13 +5,18 @@ import Quill from 'quill';
 import { Range as QuillRange } from 'quill/core/selection';
 import { Channel } from '../../shared/models/channel.class';
 import { User } from '../../shared/models/user.class';
+import { UserGroup } from '../../shared/models/user-group.class';
 import { UsersService } from '../../utils/services/user.service';
 import { ChannelService } from '../../utils/services/channel.service';
 import { AvatarDirective } from '../../utils/directives/avatar.directive';
 import { FormsModule } from '@angular/forms';
 import { EmojipickerService } from '../../utils/services/emojipicker.service';
-import { EditedTextLength, getTextBeforePreviousSign, insertItemAsSpan, isEmptyMessage, registerLockedSpanBlot } from '../../utils/quil/utility';
-import { isRealUser } from '../../utils/firebase/utils';
+import { BroadcastMention, broadcastMentions, EditedTextLength, getTextBeforePreviousSign, insertItemAsSpan, isEmptyMessage, registerLockedSpanBlot } from '../../utils/quil/utility';
+import { getObjectsPath, isRealUser } from '../../utils/firebase/utils';
+import { SlashCommandService, SlashCommandSuggestion } from '../../utils/services/slash-command.service';
+import { UserGroupService } from '../../utils/services/user-group.service';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
 
 
 @Component({
@@ -30,6 +35,7 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
   @Input() placeholder = 'Schreib etwas...';
   @Input() minHeight_rem = 3.325;
   @Input() maxHeight_rem = 10;
+  @Input() slashCommandObject: Channel | Chat | Message | undefined;
 
   @Output() enterPressed = new EventEmitter<string>();
   @Output() escapePressed = new EventEmitter<string>();
@@ -38,6 +44,8 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
   public userservice = inject(UsersService);
   private channelservice = inject(ChannelService);
   private emojiService = inject(EmojipickerService);
+  private slashCommandService = inject(SlashCommandService);
+  private userGroupService = inject(UserGroupService);
   private resizeobserver!: ResizeObserver;
 
   // Quill Editor variables and configuration
@@ -70,19 +78,22 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
         enter: {
           key: 13,
           handler: () => {
-            if (this.showPicker) this.handlePickerSelectionKeys('Select');
-            else this.enterPressed.emit(this.getMessageAsHTML());
+            if (this.showPicker && !this.ifSlashCommandWithoutSelection()) this.handlePickerSelectionKeys('Select');
+            else {
+              if (this.showPicker) this.closeListPicker();
+              this.enterPressed.emit(this.getMessageAsHTML());
+            }
           },
         },
       },
     },
   };
 
-  // ListPicker for users and channels
+  // ListPicker for users, channels and slash commands
   public showPicker = false;
   private pickersign = '';
-  public pickerItems: User[] | Channel[] = [];
-  private lastItem: User | Channel | null = null;
+  public pickerItems: (User | Channel | UserGroup | SlashCommandSuggestion | BroadcastMention)[] = [];
+  private lastItem: User | Channel | UserGroup | SlashCommandSuggestion | BroadcastMention | null = null;
   public currentPickerIndex = -1;
 
   constructor(private _cdr: ChangeDetectorRef) { }
@@ -105,7 +116,7 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
    * - Registers a custom blot for locked spans.
    * - Assigns the Quill editor instance to a component property.
    * - Adds controllers for text changes, focus, and key events.
-   * - Sets the initial HTML content of the editor.
+   * - Sets the initial HTML content of the editor and emits its text length.
    * - Focuses the editor.
    *
    * @memberof MessageEditorComponent
@@ -118,7 +129,7 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
         this.addTextChangeController();
         this.addFocusController();
         this.addKeyController();
-        this.quill.root.innerHTML = this.messageAsHTML;
+        this.setMessageAsHTML(this.messageAsHTML);
         this.quill.focus();
       });
     }
@@ -165,11 +176,44 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
    * @param item - The item to check, which can be either a User or a Channel.
    * @returns A boolean indicating whether the item is a User.
    */
-  isUser(item: User | Channel): item is User {
+  isUser(item: User | Channel | UserGroup | SlashCommandSuggestion | BroadcastMention): item is User {
     return item instanceof User;
   }
 
 
+  /**
+   * Determines if the given picker item is a suggestion for a slash command.
+   *
+   * @param item - The picker item.
+   * @returns A boolean indicating whether the item is a slash command suggestion.
+   */
+  isSlashCommandSuggestion(item: User | Channel | UserGroup | SlashCommandSuggestion | BroadcastMention): item is SlashCommandSuggestion {
+    return !(item instanceof User) && !(item instanceof Channel) && !(item instanceof UserGroup) && 'insertText' in item;
+  }
+
+
+  /**
+   * Determines if the given picker item is a user group.
+   *
+   * @param item - The picker item.
+   * @returns A boolean indicating whether the item is a user group.
+   */
+  isUserGroup(item: User | Channel | UserGroup | SlashCommandSuggestion | BroadcastMention): item is UserGroup {
+    return item instanceof UserGroup;
+  }
+
+
+  /**
+   * Determines if the given picker item is `@channel` or `@here`.
+   *
+   * @param item - The picker item.
+   * @returns A boolean indicating whether the item is a broadcast mention.
+   */
+  isBroadcastMention(item: User | Channel | UserGroup | SlashCommandSuggestion | BroadcastMention): item is BroadcastMention {
+    return !(item instanceof User) && !(item instanceof Channel) && !(item instanceof UserGroup) && !('insertText' in item);
+  }
+
+
   /**
    * Retrieves the current message content from the Quill editor as semantic HTML.
    *
@@ -180,6 +224,16 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
   }
 
 
+  /**
+   * Retrieves the current message content from the Quill editor as plain text, e.g. to parse a slash command.
+   *
+   * @returns {string} The trimmed text of the message.
+   */
+  getMessageAsText() {
+    return this.quill.getText().trim();
+  }
+
+
   /**
    * Clears the text editor by setting its content to an empty string
    * and clearing the editor's history.
@@ -190,6 +244,28 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
   }
 
 
+  /**
+   * Replaces the content of the editor with the given HTML, e.g. to restore a draft,
+   * clears the editor's history and emits the new text length.
+   *
+   * @param html - The new content of the editor as HTML.
+   */
+  setMessageAsHTML(html: string) {
+    this.quill.root.innerHTML = html;
+    this.quill.update(Quill.sources.SILENT);
+    this.quill.history.clear();
+    this.emitTextLength();
+  }
+
+
+  /**
+   * Emits the current text length of the editor on `textLengthChanged`.
+   */
+  private emitTextLength() {
+    this.textLengthChanged.emit({ messageEmpty: isEmptyMessage(this.quill.root.innerHTML), maxLength: this.maxMessageLength, textLength: this.quill.getLength() });
+  }
+
+
   private handleToolBarResize(width: number) {
     if (width < 300) this.showToolBarElements = [1, 3, 5];
     else if (width < 400) this.showToolBarElements = [1, 3, 4, 5];
@@ -214,7 +290,9 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
     this.quill.on('editor-change', (eventName: string, ...args: any[]) => {
       const [delta, oldDelta, source] = args;
       if (source === 'user' && eventName === 'text-change') {
-        if (this.showPicker) {
+        if (this.slashCommandObject && (!this.showPicker || this.pickersign === '/')) {
+          this.updateSlashCommandPicker();
+        } else if (this.showPicker) {
           const newSearchString = getTextBeforePreviousSign(this.quill, this.getLastOrCurrentSelection(), this.pickersign);
           if (newSearchString === null) this.closeListPicker();
           else this.updatePickerItems(newSearchString);
@@ -223,7 +301,7 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
         const messageLength = this.quill.getLength();
         if (source === 'user' && hasImage) this.quill.history.undo();
         else if (messageLength > this.maxMessageLength) this.quill.deleteText(this.maxMessageLength, messageLength - this.maxMessageLength);
-        this.textLengthChanged.emit({ messageEmpty: isEmptyMessage(this.quill.root.innerHTML), maxLength: this.maxMessageLength, textLength: this.quill.getLength() });
+        this.emitTextLength();
         this._cdr.detectChanges();
       }
     });
@@ -327,17 +405,69 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
 
   /**
    * Handles the selection of an item from the picker.
-   * Depending on the type of the item (User or Channel), it inserts the item as a span
+   * Depending on the type of the item (User, Channel, user group or broadcast mention), it inserts the item as a span
    * and then closes the list picker.
    *
-   * @param item - The selected item from the picker, which can be either a User or a Channel.
+   * @param item - The selected item from the picker, which can be a User, a Channel, a user group, a broadcast mention or a slash command suggestion.
    */
-  choosePickerItem(item: User | Channel) {
+  choosePickerItem(item: User | Channel | UserGroup | SlashCommandSuggestion | BroadcastMention) {
+    if (this.isSlashCommandSuggestion(item)) {
+      this.chooseSlashCommandSuggestion(item);
+      return;
+    }
     insertItemAsSpan(this.quill, this.getLastOrCurrentSelection(), item);
     this.closeListPicker();
   }
 
 
+  /**
+   * Replaces the typed slash command with the chosen suggestion and shows the suggestions
+   * for the argument of the command, if there are any.
+   *
+   * @param suggestion - The chosen suggestion.
+   */
+  private chooseSlashCommandSuggestion(suggestion: SlashCommandSuggestion) {
+    const range = this.getLastOrCurrentSelection();
+    this.quill.deleteText(0, range ? range.index : this.quill.getLength() - 1);
+    this.quill.insertText(0, suggestion.insertText);
+    this.quill.setSelection(suggestion.insertText.length, Quill.sources.SILENT);
+    this.closeListPicker();
+    this.updateSlashCommandPicker();
+    this.emitTextLength();
+  }
+
+
+  /**
+   * Shows the suggestions of the slash command typed so far in the picker,
+   * or closes the picker if the text isn't a command or there are no suggestions.
+   */
+  private updateSlashCommandPicker() {
+    const range = this.getLastOrCurrentSelection();
+    const text = range ? this.quill.getText(0, range.index) : '';
+    const suggestions = this.slashCommandObject && text.startsWith('/') ? this.slashCommandService.getSuggestions(text, this.slashCommandObject) : [];
+    if (suggestions.length === 0) {
+      if (this.showPicker && this.pickersign === '/') this.closeListPicker();
+      return;
+    }
+    this.showPicker = true;
+    this.pickersign = '/';
+    this.pickerItems = suggestions;
+    this.setCurrentPickerIndex(-1);
+    this._cdr.detectChanges();
+  }
+
+
+  /**
+   * Checks if the picker shows slash command suggestions and none of them is selected,
+   * so pressing enter sends the command as typed.
+   *
+   * @returns `true` if no slash command suggestion is selected, otherwise `false`.
+   */
+  private ifSlashCommandWithoutSelection(): boolean {
+    return this.pickersign === '/' && this.currentPickerIndex === -1;
+  }
+
+
   /**
    * Retrieves the last or current selection range in the Quill editor.
    *
@@ -393,11 +523,25 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
   }
 
 
+  /**
+   * Returns `@channel` and `@here`, if the current user may use them in the conversation of the editor.
+   * The editor of an existing message has no conversation, there they can't be inserted.
+   *
+   * @returns The broadcast mentions, or an empty array.
+   */
+  private getAllowedBroadcastMentions(): BroadcastMention[] {
+    if (!this.slashCommandObject) return [];
+    return this.channelservice.getBroadcastMentionsError(getObjectsPath(this.slashCommandObject)) === '' ? broadcastMentions : [];
+  }
+
+
   /**
    * Updates the picker items based on the search term and the current picker sign.
    *
    * If the picker sign is '@', it filters the users from the user service to exclude guests
    * and includes users whose names match the search term (case insensitive).
+   * In channels the current user is a member of, `@channel` and `@here` are offered first, followed by the
+   * user groups whose names start with the search term.
    *
    * If the picker sign is '#', it filters the channels from the channel service to exclude
    * default channels and includes channels whose names match the search term (case insensitive).
@@ -408,7 +552,11 @@ export class MessageEditorComponent implements AfterViewInit, OnDestroy {
    */
   updatePickerItems(searchTerm: string) {
     if (this.pickersign === '@') {
-      this.pickerItems = this.userservice.users.filter((user) => isRealUser(user) && (searchTerm === '' || user.name.toLowerCase().includes(searchTerm.toLowerCase())));
+      this.pickerItems = [
+        ...this.getAllowedBroadcastMentions().filter((mention) => mention.name.startsWith(searchTerm.toLowerCase())),
+        ...this.userGroupService.userGroups.filter((group) => group.name.startsWith(searchTerm.toLowerCase())),
+        ...this.userservice.users.filter((user) => isRealUser(user) && (searchTerm === '' || user.name.toLowerCase().includes(searchTerm.toLowerCase()))),
+      ];
       this.setCurrentPickerIndex(-1);
     } else if (this.pickersign === '#') {
       this.pickerItems = this.channelservice.channels.filter((channel) => !channel.defaultChannel && channel.name.toLowerCase().includes(searchTerm.toLowerCase()));
@@ -1,5 +1,6 @@
 import { CommonModule } from '@angular/common';
-import { ChangeDetectorRef, Component, ElementRef, HostListener, inject, Input, ViewChild } from '@angular/core';
+import { ChangeDetectorRef, Component, ElementRef, HostListener, inject, Input, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { Subscription } from 'rxjs';
 import { MessageAttachment, MessageService } from '../../utils/services/message.service';
 import { FormsModule } from '@angular/forms';
 import { Channel } from '../../shared/models/channel.class';
@@ -8,26 +9,66 @@ import { UsersService } from '../../utils/services/user.service';
 import { MessageEditorComponent } from '../message-editor/message-editor.component';
 import { Message } from '../../shared/models/message.class';
 import { EditedTextLength, isEmptyMessage } from '../../utils/quil/utility';
+import { ScheduledMessageService } from '../../utils/services/scheduled-message.service';
+import { fromDateTimeLocalString, toDateTimeLocalString } from '../../utils/date';
+import { DraftService } from '../../utils/services/draft.service';
+import { getObjectsPath } from '../../utils/firebase/utils';
+import { SlashCommandService } from '../../utils/services/slash-command.service';
+import { TypingService } from '../../utils/services/typing.service';
+import { OutboxService } from '../../utils/services/outbox.service';
+import { PopoverCreatePollComponent } from './popover-create-poll/popover-create-poll.component';
 
 @Component({
   selector: 'app-message-textarea',
   standalone: true,
-  imports: [CommonModule, FormsModule, MessageEditorComponent],
+  imports: [CommonModule, FormsModule, MessageEditorComponent, PopoverCreatePollComponent],
   templateUrl: './message-textarea.component.html',
   styleUrls: ['./message-textarea.component.scss'],
 })
-export class MessageTextareaComponent {
+export class MessageTextareaComponent implements OnInit, OnDestroy {
 
   @ViewChild('messageeditor', { static: true }) messageeditor!: MessageEditorComponent;
+  @ViewChild('pollpopover', { static: true }) pollPopover!: PopoverCreatePollComponent;
 
+  /**
+   * Sets the channel, chat or message (thread) the editor sends messages to.
+   * The content and the attachments of the previous conversation are kept as its draft,
+   * the draft of the new conversation is restored. The typing entry of the previous conversation is removed.
+   */
   @Input() set messagesCollectionObject(value: Channel | Chat | Message) {
-    this._messagesCollectionObject = value;
     if (this.messageeditor && this.messageeditor.quill) {
-      this.resetEditor();
+      if (this._messagesCollectionObject) this.saveDraft();
+      this.typingService.stopTyping();
+      this._messagesCollectionObject = value;
+      this.restoreDraft();
       this.messageeditor.quill.focus();
+    } else {
+      this._messagesCollectionObject = value;
+      const draft = this.draftService.getDraft(value);
+      this.initialContent = draft ? draft.content : '';
+      this.attachments = draft ? [...draft.attachments] : [];
     }
   }
 
+  get messagesCollectionObject(): Channel | Chat | Message {
+    return this._messagesCollectionObject;
+  }
+
+  /**
+   * Checks if the editor sends answers to a thread, only then the answer can also be sent to the channel.
+   */
+  get isThreadEditor(): boolean {
+    return this._messagesCollectionObject instanceof Message;
+  }
+
+  /**
+   * Returns the label of the option to send a thread answer also to the channel or chat of the thread.
+   */
+  get alsoSendToChannelLabel(): string {
+    const isChatThread = this._messagesCollectionObject instanceof Message && this._messagesCollectionObject.collectionPath.startsWith('chats');
+    return isChatThread ? 'Auch im Chat senden' : 'Auch im Channel senden';
+  }
+
 
   private _messagesCollectionObject!: Channel | Chat | Message;
   isHovered = false;
@@ -36,12 +77,20 @@ export class MessageTextareaComponent {
   showTextLength = false;
   allowSendMessage = false;
   textLengthInfo = '0/0';
+  initialContent = '';
+  private discardedDraftSubscription: Subscription | undefined;
 
   attachments: MessageAttachment[] = [];
   dropzonehighlighted = false;
   ifMessageUploading = false;
   errorInfo = '';
   errorInfoTimeout: any;
+  commandInfo = '';
+  commandInfoTimeout: any;
+  scheduleDate = '';
+  minScheduleDate = '';
+  scheduleErrorInfo = '';
+  alsoSendToChannel = false;
 
 
   /**
@@ -74,9 +123,28 @@ export class MessageTextareaComponent {
 
   public messageService = inject(MessageService);
   private userservice = inject(UsersService);
+  private scheduledMessageService = inject(ScheduledMessageService);
+  private draftService = inject(DraftService);
+  private slashCommandService = inject(SlashCommandService);
+  private typingService = inject(TypingService);
+  private outboxService = inject(OutboxService);
 
   constructor(private el: ElementRef, private _cdr: ChangeDetectorRef) { }
 
+
+  /**
+   * Clears the editor when the user discards the draft of the current conversation in the list of drafts.
+   */
+  ngOnInit(): void {
+    this.discardedDraftSubscription = this.draftService.discardedDraft$.subscribe((path) => {
+      if (!this.messageeditor.quill || path !== getObjectsPath(this._messagesCollectionObject)) return;
+      this.messageeditor.clearEditor();
+      this.attachments = [];
+      this.allowSendMessage = false;
+      this._cdr.detectChanges();
+    });
+  }
+
   /**
    * Handles the change in the length of the text in the editor.
    * 
@@ -87,12 +155,17 @@ export class MessageTextareaComponent {
    * 
    * Updates the text length information, determines if the text length warning should be shown,
    * and sets whether sending the message is allowed based on the text length and message emptiness.
-   * Triggers change detection to update the view.
+   * Stores the content as draft of the conversation and triggers change detection to update the view.
+   * While the user types, the other members see a typing indicator. Restored drafts don't count as typing.
    */
   handleEditorTextLengthChanged(event: EditedTextLength) {
     this.textLengthInfo = `${event.textLength}/${event.maxLength}`;
     this.showTextLength = event.textLength > event.maxLength * 0.8;
     this.allowSendMessage = !event.messageEmpty && event.textLength <= event.maxLength;
+    this.saveDraft();
+    if (this._messagesCollectionObject && (event.messageEmpty || this.messageeditor.quill.hasFocus())) {
+      this.typingService.setTyping(this._messagesCollectionObject, !event.messageEmpty);
+    }
     this._cdr.detectChanges();
   }
 
@@ -141,20 +214,26 @@ export class MessageTextareaComponent {
    * Asynchronously adds a new message to the collection.
    * 
    * This method first checks if a message is currently being uploaded. If so, it returns early.
+   * A message starting with a slash is executed as slash command instead of being sent.
    * It then retrieves the message content as HTML and clears any existing error information.
    * If the message content is empty and there are no attachments, it handles the error by displaying
    * a message indicating that the message cannot be empty.
    * 
-   * If the current user is verified, it disables the message editor, sets the uploading flag, and
-   * attempts to add the new message to the collection. If an error occurs during this process, it
-   * handles the error accordingly. Otherwise, it clears the message editor and resets the attachments.
+   * If the current user is verified, the message is queued in the outbox, which shows it right away in a
+   * pending state and sends it, also after the connection was lost. If the message can't be queued, e.g. because
+   * of a broadcast mention that isn't allowed, the error is shown. Otherwise, it clears the message editor and resets the attachments.
+   * Thread answers are also sent to the channel or chat of the thread, if the option is checked.
    * 
-   * Finally, it re-enables the message editor, resets the uploading flag, and triggers change detection.
+   * Finally, it triggers change detection.
    * 
-   * @returns {Promise<void>} A promise that resolves when the message has been added or an error has been handled.
+   * @returns {Promise<void>} A promise that resolves when the message has been queued or an error has been handled.
    */
   async addNewMessage() {
     if (this.ifMessageUploading || !this.allowSendMessage) return;
+    if (this.slashCommandService.parseCommand(this.messageeditor.getMessageAsText())) {
+      await this.executeSlashCommand();
+      return;
+    }
     if (!this.userservice.isUserMemberOfCurrentChannel) {
       this.showErrorWithDelay('Nur Channelmitglieder dürfen Nachrichten senden.');
       return;
@@ -165,19 +244,124 @@ export class MessageTextareaComponent {
       if (isEmptyMessage(newHTMLMessage) && this.attachments.length === 0) {
         this.showErrorWithDelay('Nachricht darf nicht leer sein.');
       } else {
-        this.messageeditor.quill.disable();
-        this.ifMessageUploading = true;
-        const error = await this.messageService.addNewMessageToCollection(this._messagesCollectionObject, newHTMLMessage, this.attachments);
+        const error = await this.outboxService.enqueueMessage(this._messagesCollectionObject, newHTMLMessage, this.attachments, this.isThreadEditor && this.alsoSendToChannel);
         if (error) this.showErrorWithDelay(error);
-        else this.resetEditor();
-        this.ifMessageUploading = false;
-        this.messageeditor.quill.enable();
+        else {
+          this.resetEditor();
+          this.alsoSendToChannel = false;
+        }
       }
       this._cdr.detectChanges();
     }
   }
 
 
+  /**
+   * Executes the slash command of the editor. Commands can't have attachments.
+   * If the command results in a message, e.g. `/shrug`, the message is sent to the current conversation.
+   * On success the editor is reset and the confirmation of the command is shown, otherwise the error.
+   * The draft of the conversation the command was typed in is deleted, even if the command left it, e.g. `/leave`.
+   */
+  private async executeSlashCommand() {
+    if (this.attachments.length > 0) {
+      this.showErrorWithDelay('Befehle können keine Anhänge haben.');
+      return;
+    }
+    if (!(await this.userservice.ifCurrentUserVerified())) return;
+    const collectionObject = this._messagesCollectionObject;
+    this.errorInfo = '';
+    this.messageeditor.quill.disable();
+    this.ifMessageUploading = true;
+    const result = await this.slashCommandService.executeCommand(this.messageeditor.getMessageAsText(), collectionObject);
+    let error = result.error;
+    if (!error && result.messageContent) {
+      if (!this.userservice.isUserMemberOfCurrentChannel) error = 'Nur Channelmitglieder dürfen Nachrichten senden.';
+      else error = await this.messageService.addNewMessageToCollection(collectionObject, result.messageContent, []);
+    }
+    if (error) this.showErrorWithDelay(error);
+    else {
+      this.resetEditor();
+      this.draftService.deleteDraft(getObjectsPath(collectionObject));
+      if (result.info) this.showCommandInfoWithDelay(result.info);
+    }
+    this.ifMessageUploading = false;
+    this.messageeditor.quill.enable();
+    this._cdr.detectChanges();
+  }
+
+
+  /**
+   * Opens the popover to schedule the message, preset to one hour from now.
+   * Attachments and slash commands can't be scheduled, so an error is shown instead.
+   */
+  openSchedulePopover() {
+    if (this.ifMessageUploading || !this.allowSendMessage) return;
+    if (this.attachments.length > 0) {
+      this.showErrorWithDelay('Nachrichten mit Anhängen können nicht geplant werden.');
+      return;
+    }
+    if (this.slashCommandService.parseCommand(this.messageeditor.getMessageAsText())) {
+      this.showErrorWithDelay('Befehle können nicht geplant werden.');
+      return;
+    }
+    const now = new Date();
+    this.minScheduleDate = toDateTimeLocalString(now);
+    this.scheduleDate = toDateTimeLocalString(new Date(now.getTime() + 60 * 60 * 1000));
+    this.scheduleErrorInfo = '';
+    document.getElementById('schedule-message' + this.inputID)?.showPopover();
+  }
+
+
+  /**
+   * Opens the popover to create a poll in the current conversation. Only members of the current channel may create polls.
+   */
+  openPollPopover() {
+    if (this.ifMessageUploading) return;
+    if (!this.userservice.isUserMemberOfCurrentChannel) {
+      this.showErrorWithDelay('Nur Channelmitglieder dürfen Umfragen erstellen.');
+      return;
+    }
+    this.pollPopover.open();
+  }
+
+
+  /**
+   * Closes the popover to schedule the message.
+   */
+  closeSchedulePopover() {
+    document.getElementById('schedule-message' + this.inputID)?.hidePopover();
+  }
+
+
+  /**
+   * Schedules the message of the editor for the selected date, instead of sending it now.
+   * The same checks as for sending a message apply. On success the editor is reset and the popover is closed.
+   */
+  async scheduleMessage() {
+    if (this.ifMessageUploading || !this.allowSendMessage) return;
+    if (!this.userservice.isUserMemberOfCurrentChannel) {
+      this.scheduleErrorInfo = 'Nur Channelmitglieder dürfen Nachrichten senden.';
+      return;
+    }
+    const sendAt = fromDateTimeLocalString(this.scheduleDate);
+    if (!sendAt) {
+      this.scheduleErrorInfo = 'Bitte wähle einen Zeitpunkt.';
+      return;
+    }
+    if (await this.userservice.ifCurrentUserVerified()) {
+      const newHTMLMessage = this.messageeditor.getMessageAsHTML();
+      this.ifMessageUploading = true;
+      this.scheduleErrorInfo = await this.scheduledMessageService.scheduleMessage(this._messagesCollectionObject, newHTMLMessage, sendAt);
+      if (!this.scheduleErrorInfo) {
+        this.resetEditor();
+        this.closeSchedulePopover();
+      }
+      this.ifMessageUploading = false;
+      this._cdr.detectChanges();
+    }
+  }
+
+
   /**
    * Handles errors by setting the error information and clearing it after a timeout.
    *
@@ -193,6 +377,22 @@ export class MessageTextareaComponent {
   }
 
 
+  /**
+   * Shows the confirmation of an executed slash command and clears it after a timeout.
+   *
+   * @param info - The confirmation to be shown.
+   */
+  private showCommandInfoWithDelay(info: string, delay: number = 8000) {
+    if (this.commandInfoTimeout) clearTimeout(this.commandInfoTimeout);
+    this.commandInfo = info;
+    this.commandInfoTimeout = setTimeout(() => {
+      this.commandInfo = '';
+      this.commandInfoTimeout = null;
+      this._cdr.detectChanges();
+    }, delay);
+  }
+
+
   /**
    * Removes a specified attachment from the list of attachments.
    *
@@ -200,6 +400,7 @@ export class MessageTextareaComponent {
    */
   removeAttachment(attachment: MessageAttachment) {
     this.attachments = this.attachments.filter((a) => a !== attachment);
+    this.saveDraft();
   }
 
 
@@ -247,6 +448,7 @@ export class MessageTextareaComponent {
         this.attachments.push(this.readPDF(file));
       }
     }
+    this.saveDraft();
   }
 
 
@@ -308,7 +510,7 @@ export class MessageTextareaComponent {
 
   /**
    * Resets the message editor by clearing its content, 
-   * removing all attachments, and disabling the send message option.
+   * removing all attachments, disabling the send message option and deleting the draft.
    *
    * @private
    */
@@ -316,5 +518,41 @@ export class MessageTextareaComponent {
     this.messageeditor.clearEditor();
     this.attachments = [];
     this.allowSendMessage = false;
+    this.draftService.deleteDraft(getObjectsPath(this._messagesCollectionObject));
+  }
+
+
+  /**
+   * Stores the content and the attachments of the editor as draft of the current conversation.
+   */
+  private saveDraft() {
+    if (!this._messagesCollectionObject || !this.messageeditor.quill) return;
+    this.draftService.saveDraft(this._messagesCollectionObject, this.messageeditor.getMessageAsHTML(), this.attachments);
+  }
+
+
+  /**
+   * Restores the draft of the current conversation, or clears the editor if there is none.
+   */
+  private restoreDraft() {
+    const draft = this.draftService.getDraft(this._messagesCollectionObject);
+    this.attachments = draft ? [...draft.attachments] : [];
+    if (draft) {
+      this.messageeditor.setMessageAsHTML(draft.content);
+    } else {
+      this.messageeditor.clearEditor();
+      this.allowSendMessage = false;
+    }
+  }
+
+
+  /**
+   * Stores the draft of the current conversation when the editor is destroyed, e.g. when the thread is closed,
+   * and unsubscribes from the discarded drafts.
+   */
+  ngOnDestroy() {
+    this.saveDraft();
+    this.typingService.stopTyping();
+    if (this.discardedDraftSubscription) this.discardedDraftSubscription.unsubscribe();
   }
 }
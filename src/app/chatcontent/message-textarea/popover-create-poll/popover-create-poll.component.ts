@@ -0,0 +1,89 @@
+import { ChangeDetectorRef, Component, inject, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { PollService } from '../../../utils/services/poll.service';
+import { UsersService } from '../../../utils/services/user.service';
+import { Channel } from '../../../shared/models/channel.class';
+import { Chat } from '../../../shared/models/chat.class';
+import { Message } from '../../../shared/models/message.class';
+import { fromDateTimeLocalString, toDateTimeLocalString } from '../../../utils/date';
+
+@Component({
+  selector: 'app-popover-create-poll',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './popover-create-poll.component.html',
+  styleUrl: './popover-create-poll.component.scss'
+})
+export class PopoverCreatePollComponent {
+  public pollService = inject(PollService);
+  private userservice = inject(UsersService);
+
+  @Input() collectionObject!: Channel | Chat | Message;
+
+  public popoverID = 'create-poll' + Math.random().toString(36).substring(2, 9);
+  public question = '';
+  public options: string[] = [];
+  public multipleChoice = false;
+  public anonymous = false;
+  public closesAt = '';
+  public minClosesAt = '';
+  public errorInfo = '';
+  public isSending = false;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  /**
+   * Opens the popover with an empty poll with two options.
+   */
+  open() {
+    this.question = '';
+    this.options = ['', ''];
+    this.multipleChoice = false;
+    this.anonymous = false;
+    this.closesAt = '';
+    this.minClosesAt = toDateTimeLocalString(new Date());
+    this.errorInfo = '';
+    document.getElementById(this.popoverID)?.showPopover();
+  }
+
+
+  /**
+   * Closes the popover.
+   */
+  close() {
+    document.getElementById(this.popoverID)?.hidePopover();
+  }
+
+
+  addOption() {
+    if (this.options.length < this.pollService.maxOptions) this.options.push('');
+  }
+
+
+  removeOption(index: number) {
+    if (this.options.length > this.pollService.minOptions) this.options.splice(index, 1);
+  }
+
+
+  /**
+   * Sends the poll to the conversation of the editor. Only members of the current channel may send polls.
+   * On success the popover is closed, otherwise the error is shown.
+   */
+  async createPoll() {
+    if (this.isSending) return;
+    if (!this.userservice.isUserMemberOfCurrentChannel) {
+      this.errorInfo = 'Nur Channelmitglieder dürfen Umfragen erstellen.';
+      return;
+    }
+    const closesAt = this.closesAt ? fromDateTimeLocalString(this.closesAt) : undefined;
+    this.errorInfo = this.pollService.validatePoll(this.question, this.options, closesAt);
+    if (this.errorInfo || !(await this.userservice.ifCurrentUserVerified())) return;
+    this.isSending = true;
+    this.errorInfo = await this.pollService.createPoll(this.collectionObject, this.question, this.options, this.multipleChoice, this.anonymous, closesAt);
+    this.isSending = false;
+    if (!this.errorInfo) this.close();
+    this._cdr.detectChanges();
+  }
+}
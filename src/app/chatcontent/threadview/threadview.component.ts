@@ -9,7 +9,10 @@ import { Message } from '../../shared/models/message.class';
 import { UsersService } from '../../utils/services/user.service';
 import { MessagesListViewComponent } from '../chatview/messages-list-view/messages-list-view.component';
 import { MessageTextareaComponent } from '../message-textarea/message-textarea.component';
+import { TypingIndicatorComponent } from '../typing-indicator/typing-indicator.component';
 import { MessageDateComponent } from '../chatview/messages-list-view/message-date/message-date.component';
+import { CdkVirtualScrollableElement } from '@angular/cdk/scrolling';
+import { ThreadService } from '../../utils/services/thread.service';
 
 @Component({
   selector: 'app-threadview',
@@ -21,12 +24,15 @@ import { MessageDateComponent } from '../chatview/messages-list-view/message-dat
     MessageDateComponent,
     MessagesListViewComponent,
     MessageTextareaComponent,
+    TypingIndicatorComponent,
+    CdkVirtualScrollableElement,
   ],
   templateUrl: './threadview.component.html',
   styleUrl: './threadview.component.scss',
 })
 export class ThreadviewComponent {
   public navigationService = inject(NavigationService);
+  public threadService = inject(ThreadService);
 
   constructor(private cdr: ChangeDetectorRef) {}
 
@@ -40,4 +46,11 @@ export class ThreadviewComponent {
     if (object instanceof Channel) return object.name;
     return '';
   }
+
+  /**
+   * Follows the open thread, or stops following it.
+   */
+  toggleFollowThread() {
+    if (this.navigationService.threadViewObject) this.threadService.toggleFollowThread(this.navigationService.threadViewObject);
+  }
 }
@@ -0,0 +1,57 @@
+import { ChangeDetectorRef, Component, inject, Input, OnDestroy } from '@angular/core';
+import { TypingService } from '../../utils/services/typing.service';
+import { UsersService } from '../../utils/services/user.service';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
+
+@Component({
+  selector: 'app-typing-indicator',
+  standalone: true,
+  imports: [],
+  templateUrl: './typing-indicator.component.html',
+  styleUrl: './typing-indicator.component.scss'
+})
+export class TypingIndicatorComponent implements OnDestroy {
+  private typingService = inject(TypingService);
+  private userService = inject(UsersService);
+  private unsubTypingUsers: (() => void) | undefined;
+
+  public typingText = '';
+
+  /**
+   * Sets the channel, chat or message (thread) whose typing users are shown.
+   */
+  @Input() set collectionObject(value: Channel | Chat | Message | undefined) {
+    if (this.unsubTypingUsers) this.unsubTypingUsers();
+    this.unsubTypingUsers = undefined;
+    this.typingText = '';
+    if (value) this.unsubTypingUsers = this.typingService.subscribeTypingUsers(value, (userIDs) => {
+      this.typingText = this.getTypingText(userIDs);
+      this._cdr.detectChanges();
+    });
+  }
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  /**
+   * Returns the text of the indicator, e.g. 'Anna schreibt…' or 'Anna, Ben und 2 weitere schreiben…'.
+   *
+   * @param userIDs - The IDs of the typing users.
+   * @returns The text, or an empty string if nobody is typing.
+   */
+  getTypingText(userIDs: string[]): string {
+    const names = userIDs.map((userID) => this.userService.getUserByID(userID)?.name).filter((name) => name) as string[];
+    if (names.length === 0) return '';
+    if (names.length === 1) return names[0] + ' schreibt…';
+    if (names.length === 2) return names[0] + ' und ' + names[1] + ' schreiben…';
+    if (names.length === 3) return names[0] + ', ' + names[1] + ' und ' + names[2] + ' schreiben…';
+    return names[0] + ', ' + names[1] + ' und ' + (names.length - 2) + ' weitere schreiben…';
+  }
+
+
+  ngOnDestroy(): void {
+    if (this.unsubTypingUsers) this.unsubTypingUsers();
+  }
+}
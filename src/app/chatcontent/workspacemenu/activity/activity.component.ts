@@ -0,0 +1,95 @@
+import { ChangeDetectorRef, Component, inject, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { ActivityService } from '../../../utils/services/activity.service';
+import { NavigationService } from '../../../utils/services/navigation.service';
+import { ChannelService } from '../../../utils/services/channel.service';
+import { UsersService } from '../../../utils/services/user.service';
+import { Activity } from '../../../shared/models/activity.class';
+import { getFormatedDateTime } from '../../../utils/date';
+
+@Component({
+  selector: 'app-activity',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './activity.component.html',
+  styleUrl: './activity.component.scss'
+})
+export class ActivityComponent implements OnInit, OnDestroy {
+  private subscription!: Subscription;
+  private navigationService = inject(NavigationService);
+  public activityService = inject(ActivityService);
+  public channelService = inject(ChannelService);
+  public userService = inject(UsersService);
+
+  public activities: Activity[] = [];
+  public errorMessage = '';
+  public getFormatedDateTime = getFormatedDateTime;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  ngOnInit(): void {
+    this.subscription = this.activityService.activities$.subscribe((activities) => {
+      this.activities = activities;
+      this._cdr.detectChanges();
+    });
+  }
+
+
+  /**
+   * Returns the description of an activity.
+   *
+   * @param activity - The activity.
+   * @returns The description, e.g. 'hat dich erwähnt'.
+   */
+  getActivityText(activity: Activity): string {
+    if (activity.type === 'reaction') return 'hat mit ' + activity.emoji + ' auf deine Nachricht reagiert';
+    if (activity.type === 'reply') return 'hat in einem Thread geantwortet';
+    return 'hat dich erwähnt';
+  }
+
+
+  /**
+   * Marks an activity as read, closes the popover and opens the message of the activity.
+   *
+   * @param activity - The activity.
+   */
+  async openActivity(activity: Activity) {
+    this.activityService.markActivityRead(activity);
+    if (await this.navigationService.openMessagePath(activity.messagePath)) this.closePopover();
+    else this.errorMessage = 'Die Unterhaltung der Nachricht ist nicht verfügbar.';
+  }
+
+
+  /**
+   * Marks an activity as read without opening the message.
+   *
+   * @param activity - The activity.
+   */
+  async markRead(activity: Activity) {
+    this.errorMessage = await this.activityService.markActivityRead(activity);
+  }
+
+
+  /**
+   * Marks all activities as read.
+   */
+  async markAllRead() {
+    this.errorMessage = await this.activityService.markAllActivitiesRead();
+  }
+
+
+  /**
+   * Closes the activity popover.
+   */
+  closePopover() {
+    this.errorMessage = '';
+    document.getElementById('activity-popover')?.hidePopover();
+  }
+
+
+  ngOnDestroy(): void {
+    if (this.subscription) this.subscription.unsubscribe();
+  }
+}
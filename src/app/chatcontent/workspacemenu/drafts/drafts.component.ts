@@ -0,0 +1,97 @@
+import { ChangeDetectorRef, Component, inject, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { Draft, DraftService } from '../../../utils/services/draft.service';
+import { NavigationService } from '../../../utils/services/navigation.service';
+import { removeAllHTMLTagsFromString } from '../../../utils/firebase/utils';
+import { getFormatedDateTime } from '../../../utils/date';
+
+@Component({
+  selector: 'app-drafts',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './drafts.component.html',
+  styleUrl: './drafts.component.scss'
+})
+export class DraftsComponent implements OnInit, OnDestroy {
+  private subscription!: Subscription;
+  private navigationService = inject(NavigationService);
+  public draftService = inject(DraftService);
+
+  public drafts: Draft[] = [];
+  public errorMessage = '';
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  ngOnInit(): void {
+    this.subscription = this.draftService.drafts$.subscribe((drafts) => {
+      this.drafts = drafts;
+      this._cdr.detectChanges();
+    });
+  }
+
+
+  /**
+   * Returns the text of a draft without HTML tags, as preview in the list.
+   *
+   * @param draft - The draft.
+   * @returns The plain text of the draft.
+   */
+  getPreviewText(draft: Draft): string {
+    return removeAllHTMLTagsFromString(draft.content);
+  }
+
+
+  /**
+   * Returns the date the draft was changed last, as shown in the list.
+   *
+   * @param draft - The draft.
+   * @returns The formated date and time.
+   */
+  getDraftDate(draft: Draft): string {
+    return getFormatedDateTime(new Date(draft.updatedAt));
+  }
+
+
+  /**
+   * Closes the popover and opens the channel, chat or thread of the draft, the editor restores the draft.
+   *
+   * @param draft - The draft to open.
+   */
+  async openDraft(draft: Draft) {
+    this.errorMessage = '';
+    if (await this.navigationService.openConversationPath(draft.path)) this.closePopover();
+    else this.errorMessage = 'Die Unterhaltung des Entwurfs ist nicht verfügbar.';
+  }
+
+
+  /**
+   * Discards a draft, an open editor with the draft is cleared.
+   *
+   * @param draft - The draft to discard.
+   */
+  discardDraft(draft: Draft) {
+    this.errorMessage = '';
+    this.draftService.discardDraft(draft.path);
+  }
+
+
+  /**
+   * Closes the drafts popover.
+   */
+  closePopover() {
+    this.errorMessage = '';
+    document.getElementById('drafts-popover')?.hidePopover();
+  }
+
+
+  /**
+   * Unsubscribes from the `drafts$` subscription when the component is destroyed.
+   */
+  ngOnDestroy() {
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { ChangeDetectorRef, Component, inject, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { ReminderService } from '../../../utils/services/reminder.service';
+import { NavigationService } from '../../../utils/services/navigation.service';
+import { UsersService } from '../../../utils/services/user.service';
+import { Reminder } from '../../../shared/models/reminder.class';
+import { fromDateTimeLocalString, getFormatedDateTime, toDateTimeLocalString } from '../../../utils/date';
+
+@Component({
+  selector: 'app-reminders',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './reminders.component.html',
+  styleUrl: './reminders.component.scss'
+})
+export class RemindersComponent implements OnInit, OnDestroy {
+  private subscription!: Subscription;
+  private navigationService = inject(NavigationService);
+  public reminderService = inject(ReminderService);
+  public userService = inject(UsersService);
+
+  public reminders: Reminder[] = [];
+  public rescheduledReminderID = '';
+  public rescheduleDate = '';
+  public minRescheduleDate = '';
+  public errorMessage = '';
+  public getFormatedDateTime = getFormatedDateTime;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  ngOnInit(): void {
+    this.subscription = this.reminderService.reminders$.subscribe((reminders) => {
+      this.reminders = reminders;
+      if (!reminders.some((reminder) => reminder.id === this.rescheduledReminderID)) this.rescheduledReminderID = '';
+      this._cdr.detectChanges();
+    });
+  }
+
+
+  /**
+   * Closes the popover and opens the channel, chat or thread of the message of a reminder.
+   *
+   * @param reminder - The reminder.
+   */
+  async openMessage(reminder: Reminder) {
+    if (await this.navigationService.openMessagePath(reminder.messagePath)) this.closePopover();
+    else this.errorMessage = 'Die Unterhaltung der Nachricht ist nicht verfügbar.';
+  }
+
+
+  /**
+   * Opens the date input to move a reminder, preset to its current date.
+   *
+   * @param reminder - The reminder.
+   */
+  openReschedule(reminder: Reminder) {
+    this.errorMessage = '';
+    this.minRescheduleDate = toDateTimeLocalString(new Date());
+    this.rescheduleDate = toDateTimeLocalString(reminder.remindAt);
+    this.rescheduledReminderID = reminder.id;
+  }
+
+
+  /**
+   * Moves a reminder to the selected date.
+   *
+   * @param reminder - The reminder.
+   */
+  async saveReschedule(reminder: Reminder) {
+    const remindAt = fromDateTimeLocalString(this.rescheduleDate);
+    if (!remindAt) {
+      this.errorMessage = 'Bitte wähle einen Zeitpunkt.';
+      return;
+    }
+    this.errorMessage = await this.reminderService.rescheduleReminder(reminder, remindAt);
+    if (!this.errorMessage) this.closeReschedule();
+  }
+
+
+  /**
+   * Closes the date input without saving.
+   */
+  closeReschedule() {
+    this.rescheduledReminderID = '';
+    this.errorMessage = '';
+  }
+
+
+  /**
+   * Marks a reminder as done, it is removed from the list.
+   *
+   * @param reminder - The reminder.
+   */
+  async markDone(reminder: Reminder) {
+    this.errorMessage = await this.reminderService.markReminderDone(reminder);
+  }
+
+
+  /**
+   * Closes the reminders popover.
+   */
+  closePopover() {
+    this.closeReschedule();
+    document.getElementById('reminders-popover')?.hidePopover();
+  }
+
+
+  ngOnDestroy(): void {
+    if (this.subscription) this.subscription.unsubscribe();
+  }
+}
@@ -0,0 +1,158 @@
+import { ChangeDetectorRef, Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Message } from '../../../shared/models/message.class';
+import { SavedMessageEntry, SavedMessageGroup, SavedMessageService } from '../../../utils/services/saved-message.service';
+import { NavigationService } from '../../../utils/services/navigation.service';
+import { UsersService } from '../../../utils/services/user.service';
+import { removeAllHTMLTagsFromString } from '../../../utils/firebase/utils';
+import { fromDateTimeLocalString, getFormatedDateTime, toDateTimeLocalString } from '../../../utils/date';
+
+@Component({
+  selector: 'app-saved-messages',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './saved-messages.component.html',
+  styleUrl: './saved-messages.component.scss'
+})
+export class SavedMessagesComponent {
+  private navigationService = inject(NavigationService);
+  public savedMessageService = inject(SavedMessageService);
+  public userService = inject(UsersService);
+
+  public groups: SavedMessageGroup[] = [];
+  public loading = false;
+  public reminderMessagePath = '';
+  public reminderDate = '';
+  public minReminderDate = '';
+  public errorMessage = '';
+  public getFormatedDateTime = getFormatedDateTime;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  /**
+   * Loads the saved messages whenever the popover is opened.
+   *
+   * @param event - The toggle event of the popover.
+   */
+  onToggle(event: Event) {
+    if ((event as ToggleEvent).newState === 'open') this.loadSavedMessages();
+    else this.closeReminder();
+  }
+
+
+  /**
+   * Loads the saved messages of the current user, grouped by channel or chat.
+   */
+  async loadSavedMessages() {
+    this.errorMessage = '';
+    this.loading = true;
+    this.groups = await this.savedMessageService.loadSavedMessageGroups();
+    this.loading = false;
+    this._cdr.detectChanges();
+  }
+
+
+  /**
+   * Returns the text of a message without HTML tags, as preview in the list.
+   *
+   * @param message - The saved message.
+   * @returns The plain text of the message.
+   */
+  getPreviewText(message: Message): string {
+    return removeAllHTMLTagsFromString(message.content);
+  }
+
+
+  /**
+   * Returns the current reminder date of a saved message.
+   *
+   * @param entry - The entry of the saved message.
+   * @returns The reminder date, or `undefined` if no reminder is set.
+   */
+  getReminderDate(entry: SavedMessageEntry): Date | undefined {
+    return this.savedMessageService.getReminder(entry.message)?.remindAt;
+  }
+
+
+  /**
+   * Closes the popover and opens the channel, chat or thread of the saved message.
+   *
+   * @param entry - The entry of the saved message.
+   */
+  async openMessage(entry: SavedMessageEntry) {
+    if (await this.navigationService.openMessagePath(entry.savedMessage.messagePath)) this.closePopover();
+    else this.errorMessage = 'Die Unterhaltung der Nachricht ist nicht verfügbar.';
+  }
+
+
+  /**
+   * Opens the date input to set the reminder of a saved message, preset to its current reminder.
+   *
+   * @param entry - The entry of the saved message.
+   */
+  openReminder(entry: SavedMessageEntry) {
+    const reminderDate = this.getReminderDate(entry);
+    this.errorMessage = '';
+    this.minReminderDate = toDateTimeLocalString(new Date());
+    this.reminderDate = reminderDate ? toDateTimeLocalString(reminderDate) : '';
+    this.reminderMessagePath = entry.savedMessage.messagePath;
+  }
+
+
+  /**
+   * Saves the selected date as reminder of the saved message.
+   *
+   * @param entry - The entry of the saved message.
+   */
+  async saveReminder(entry: SavedMessageEntry) {
+    const remindAt = fromDateTimeLocalString(this.reminderDate);
+    if (!remindAt) {
+      this.errorMessage = 'Bitte wähle einen Zeitpunkt.';
+      return;
+    }
+    this.errorMessage = await this.savedMessageService.setReminder(entry.message, remindAt);
+    if (!this.errorMessage) this.closeReminder();
+  }
+
+
+  /**
+   * Removes the reminder of a saved message.
+   *
+   * @param entry - The entry of the saved message.
+   */
+  async clearReminder(entry: SavedMessageEntry) {
+    this.errorMessage = await this.savedMessageService.setReminder(entry.message, undefined);
+  }
+
+
+  /**
+   * Closes the date input without saving.
+   */
+  closeReminder() {
+    this.reminderMessagePath = '';
+    this.errorMessage = '';
+  }
+
+
+  /**
+   * Removes a message from the saved messages and from the list.
+   *
+   * @param group - The group of the saved message.
+   * @param entry - The entry of the saved message.
+   */
+  async removeSavedMessage(group: SavedMessageGroup, entry: SavedMessageEntry) {
+    await this.savedMessageService.removeSavedMessage(entry.savedMessage.messagePath);
+    group.entries = group.entries.filter((e) => e !== entry);
+    if (group.entries.length === 0) this.groups = this.groups.filter((g) => g !== group);
+  }
+
+
+  /**
+   * Closes the saved messages popover.
+   */
+  closePopover() {
+    document.getElementById('saved-messages-popover')?.hidePopover();
+  }
+}
@@ -0,0 +1,141 @@
+import { ChangeDetectorRef, Component, inject, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+import { ScheduledMessageService } from '../../../utils/services/scheduled-message.service';
+import { ScheduledMessage } from '../../../shared/models/scheduled-message.class';
+import { MessageEditorComponent } from '../../message-editor/message-editor.component';
+import { isEmptyMessage } from '../../../utils/quil/utility';
+import { fromDateTimeLocalString, getFormatedDateTime, toDateTimeLocalString } from '../../../utils/date';
+
+@Component({
+  selector: 'app-scheduled-messages',
+  standalone: true,
+  imports: [CommonModule, FormsModule, MessageEditorComponent],
+  templateUrl: './scheduled-messages.component.html',
+  styleUrl: './scheduled-messages.component.scss'
+})
+export class ScheduledMessagesComponent implements OnInit, OnDestroy {
+  private subscription!: Subscription;
+  public scheduledMessageService = inject(ScheduledMessageService);
+
+  @ViewChild('messageeditor') messageEditor: MessageEditorComponent | undefined;
+
+  public scheduledMessages: ScheduledMessage[] = [];
+  public editedMessageID = '';
+  public rescheduledMessageID = '';
+  public rescheduleDate = '';
+  public minScheduleDate = '';
+  public errorMessage = '';
+  public getFormatedDateTime = getFormatedDateTime;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  ngOnInit(): void {
+    this.subscription = this.scheduledMessageService.scheduledMessages$.subscribe((scheduledMessages) => {
+      this.scheduledMessages = scheduledMessages;
+      if (!scheduledMessages.some((scheduledMessage) => scheduledMessage.id === this.editedMessageID)) this.editedMessageID = '';
+      if (!scheduledMessages.some((scheduledMessage) => scheduledMessage.id === this.rescheduledMessageID)) this.rescheduledMessageID = '';
+      this._cdr.detectChanges();
+    });
+  }
+
+
+  /**
+   * Opens the editor for the content of a scheduled message.
+   *
+   * @param scheduledMessage - The scheduled message to edit.
+   */
+  editMessage(scheduledMessage: ScheduledMessage) {
+    this.rescheduledMessageID = '';
+    this.errorMessage = '';
+    this.editedMessageID = scheduledMessage.id;
+  }
+
+
+  /**
+   * Saves the content of the editor as new content of the scheduled message.
+   *
+   * @param scheduledMessage - The edited scheduled message.
+   */
+  async saveContent(scheduledMessage: ScheduledMessage) {
+    if (!this.messageEditor) return;
+    const content = this.messageEditor.getMessageAsHTML();
+    if (isEmptyMessage(content)) {
+      this.errorMessage = 'Nachricht darf nicht leer sein.';
+      return;
+    }
+    this.errorMessage = await this.scheduledMessageService.updateScheduledMessage(scheduledMessage, { content: content });
+    if (!this.errorMessage) this.editedMessageID = '';
+  }
+
+
+  /**
+   * Opens the date input to reschedule a message, preset to its current send date.
+   *
+   * @param scheduledMessage - The scheduled message to reschedule.
+   */
+  rescheduleMessage(scheduledMessage: ScheduledMessage) {
+    this.editedMessageID = '';
+    this.errorMessage = '';
+    this.minScheduleDate = toDateTimeLocalString(new Date());
+    this.rescheduleDate = toDateTimeLocalString(scheduledMessage.sendAt);
+    this.rescheduledMessageID = scheduledMessage.id;
+  }
+
+
+  /**
+   * Saves the selected date as new send date of the scheduled message.
+   *
+   * @param scheduledMessage - The rescheduled message.
+   */
+  async saveSendDate(scheduledMessage: ScheduledMessage) {
+    const sendAt = fromDateTimeLocalString(this.rescheduleDate);
+    if (!sendAt) {
+      this.errorMessage = 'Bitte wähle einen Zeitpunkt.';
+      return;
+    }
+    this.errorMessage = await this.scheduledMessageService.updateScheduledMessage(scheduledMessage, { sendAt: sendAt });
+    if (!this.errorMessage) this.rescheduledMessageID = '';
+  }
+
+
+  /**
+   * Cancels a scheduled message, so it will not be sent.
+   *
+   * @param scheduledMessage - The scheduled message to cancel.
+   */
+  async cancelMessage(scheduledMessage: ScheduledMessage) {
+    this.errorMessage = await this.scheduledMessageService.cancelScheduledMessage(scheduledMessage);
+  }
+
+
+  /**
+   * Closes the editor and the date input without saving.
+   */
+  closeEditing() {
+    this.editedMessageID = '';
+    this.rescheduledMessageID = '';
+    this.errorMessage = '';
+  }
+
+
+  /**
+   * Closes the scheduled messages popover.
+   */
+  closePopover() {
+    this.closeEditing();
+    document.getElementById('scheduled-messages-popover')?.hidePopover();
+  }
+
+
+  /**
+   * Unsubscribes from the `scheduledMessages$` subscription when the component is destroyed.
+   */
+  ngOnDestroy() {
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { ChangeDetectorRef, Component, inject, OnDestroy, OnInit } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { ThreadService } from '../../../utils/services/thread.service';
+import { NavigationService } from '../../../utils/services/navigation.service';
+import { ChannelService } from '../../../utils/services/channel.service';
+import { UsersService } from '../../../utils/services/user.service';
+import { Message } from '../../../shared/models/message.class';
+import { removeAllHTMLTagsFromString } from '../../../utils/firebase/utils';
+import { getFormatedDateTime } from '../../../utils/date';
+
+@Component({
+  selector: 'app-threads',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './threads.component.html',
+  styleUrl: './threads.component.scss'
+})
+export class ThreadsComponent implements OnInit, OnDestroy {
+  private subscription!: Subscription;
+  private navigationService = inject(NavigationService);
+  public threadService = inject(ThreadService);
+  public channelService = inject(ChannelService);
+  public userService = inject(UsersService);
+
+  public threads: Message[] = [];
+  public errorMessage = '';
+  public getFormatedDateTime = getFormatedDateTime;
+
+  constructor(private _cdr: ChangeDetectorRef) { }
+
+
+  ngOnInit(): void {
+    this.subscription = this.threadService.followedThreads$.subscribe((threads) => {
+      this.threads = threads;
+      this._cdr.detectChanges();
+    });
+  }
+
+
+  /**
+   * Recalculates the unread answers whenever the popover is opened, threads may have been read in the meantime.
+   *
+   * @param event - The toggle event of the popover.
+   */
+  onToggle(event: Event) {
+    this.errorMessage = '';
+    if ((event as ToggleEvent).newState === 'open') this.threadService.calculateUnreadAnswersCounts();
+  }
+
+
+  /**
+   * Returns the text of the thread message without HTML tags, as preview in the list.
+   *
+   * @param thread - The message of the thread.
+   * @returns The plain text of the message.
+   */
+  getPreviewText(thread: Message): string {
+    return thread.deleted ? 'Nachricht gelöscht' : removeAllHTMLTagsFromString(thread.content);
+  }
+
+
+  /**
+   * Closes the popover and opens the thread.
+   *
+   * @param thread - The message of the thread.
+   */
+  async openThread(thread: Message) {
+    if (await this.navigationService.openConversationPath(thread.messagePath)) this.closePopover();
+    else this.errorMessage = 'Die Unterhaltung des Threads ist nicht verfügbar.';
+  }
+
+
+  /**
+   * Stops following a thread, it is removed from the list.
+   *
+   * @param thread - The message of the thread.
+   */
+  async unfollowThread(thread: Message) {
+    this.errorMessage = await this.threadService.toggleFollowThread(thread);
+  }
+
+
+  /**
+   * Closes the threads popover.
+   */
+  closePopover() {
+    document.getElementById('threads-popover')?.hidePopover();
+  }
+
+
+  ngOnDestroy(): void {
+    if (this.subscription) this.subscription.unsubscribe();
+  }
+}
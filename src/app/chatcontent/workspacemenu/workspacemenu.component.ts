@@ -17,6 +17,18 @@ import { AddchannelComponent } from '../../chatcontent/workspacemenu/addchannel/
 import { Channel } from '../../shared/models/channel.class';
 import { User } from '../../shared/models/user.class';
 import { Chat } from '../../shared/models/chat.class';
+import { ScheduledMessageService } from '../../utils/services/scheduled-message.service';
+import { ScheduledMessagesComponent } from './scheduled-messages/scheduled-messages.component';
+import { SavedMessageService } from '../../utils/services/saved-message.service';
+import { SavedMessagesComponent } from './saved-messages/saved-messages.component';
+import { ReminderService } from '../../utils/services/reminder.service';
+import { RemindersComponent } from './reminders/reminders.component';
+import { DraftService } from '../../utils/services/draft.service';
+import { ThreadService } from '../../utils/services/thread.service';
+import { ThreadsComponent } from './threads/threads.component';
+import { ActivityService } from '../../utils/services/activity.service';
+import { ActivityComponent } from './activity/activity.component';
+import { DraftsComponent } from './drafts/drafts.component';
 
 @Component({
   selector: 'app-workspacemenu',
@@ -28,6 +40,12 @@ import { Chat } from '../../shared/models/chat.class';
     ReactiveFormsModule,
     AvatarDirective,
     AddchannelComponent,
+    ScheduledMessagesComponent,
+    SavedMessagesComponent,
+    RemindersComponent,
+    DraftsComponent,
+    ThreadsComponent,
+    ActivityComponent,
   ],
   templateUrl: './workspacemenu.component.html',
   styleUrl: './workspacemenu.component.scss',
@@ -35,6 +53,12 @@ import { Chat } from '../../shared/models/chat.class';
 export class WorkspacemenuComponent implements OnInit, OnDestroy {
   public userservice = inject(UsersService);
   public channelservice = inject(ChannelService);
+  public scheduledMessageService = inject(ScheduledMessageService);
+  public savedMessageService = inject(SavedMessageService);
+  public reminderService = inject(ReminderService);
+  public draftService = inject(DraftService);
+  public threadService = inject(ThreadService);
+  public activityService = inject(ActivityService);
   private navigationService = inject(NavigationService);
   private renderer = inject(Renderer2);
 
@@ -118,6 +142,48 @@ export class WorkspacemenuComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Opens the popover with the activities of the current user.
+   */
+  openActivity() {
+    document.getElementById('activity-popover')?.showPopover();
+  }
+
+  /**
+   * Opens the popover with the threads the current user follows.
+   */
+  openThreads() {
+    document.getElementById('threads-popover')?.showPopover();
+  }
+
+  /**
+   * Opens the popover with the list of scheduled messages of the current user.
+   */
+  openScheduledMessages() {
+    document.getElementById('scheduled-messages-popover')?.showPopover();
+  }
+
+  /**
+   * Opens the popover with the saved messages of the current user.
+   */
+  openSavedMessages() {
+    document.getElementById('saved-messages-popover')?.showPopover();
+  }
+
+  /**
+   * Opens the popover with the reminders of the current user.
+   */
+  openReminders() {
+    document.getElementById('reminders-popover')?.showPopover();
+  }
+
+  /**
+   * Opens the popover with the drafts of the current user.
+   */
+  openDrafts() {
+    document.getElementById('drafts-popover')?.showPopover();
+  }
+
   /**
    * Gets the count of unread messages for the specified user.
    *
@@ -0,0 +1,46 @@
+import { Timestamp } from '@angular/fire/firestore';
+
+/**
+ * The kind of an activity: the user was mentioned, someone reacted to a message of the user,
+ * or someone answered in a thread the user started or follows.
+ */
+export type ActivityType = 'mention' | 'reaction' | 'reply';
+
+/**
+ * An activity document as stored in `users/{userID}/activities/{activityID}`, validated by the `activityConverter`.
+ */
+export type ActivityData = {
+  type: ActivityType;
+  actorID: string;
+  messagePath: string;
+  excerpt?: string;
+  emoji?: string;
+  createdAt?: Timestamp | null;
+  read?: boolean;
+};
+
+/**
+ * An entry of the activity feed of a user.
+ * It is stored in the `activities` subcollection of the user by the user that caused it.
+ */
+export class Activity {
+  readonly id: string;
+  readonly type: ActivityType;
+  readonly actorID: string;
+  readonly messagePath: string;
+  readonly excerpt: string;
+  readonly emoji: string;
+  readonly createdAt: Date;
+  readonly read: boolean;
+
+  constructor(data: Partial<ActivityData>, id: string) {
+    this.id = id;
+    this.type = data.type === 'reaction' || data.type === 'reply' ? data.type : 'mention';
+    this.actorID = data.actorID ? data.actorID : '';
+    this.messagePath = data.messagePath ? data.messagePath : '';
+    this.excerpt = data.excerpt ? data.excerpt : '';
+    this.emoji = data.emoji ? data.emoji : '';
+    this.createdAt = data.createdAt ? data.createdAt.toDate() : new Date();
+    this.read = data.read ? data.read : false;
+  }
+}
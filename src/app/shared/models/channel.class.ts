@@ -1,4 +1,19 @@
 import { Timestamp } from '@angular/fire/firestore';
+import { PinnedMessage } from './pinned-message.class';
+
+/**
+ * A channel document as stored in `channels/{channelID}`, validated by the `channelConverter`.
+ */
+export type ChannelData = {
+  name: string;
+  description?: string;
+  createdAt?: Timestamp | null;
+  creatorID?: string;
+  memberIDs: string[];
+  defaultChannel?: boolean;
+  messagesCount?: number;
+  pinnedMessages?: ReturnType<PinnedMessage['toFirestoreData']>[];
+};
 
 export class Channel {
   readonly id: string;
@@ -23,11 +38,17 @@ export class Channel {
     return this._memberIDs;
   }
 
+  private _pinnedMessages: PinnedMessage[];
+  get pinnedMessages(): PinnedMessage[] {
+    return this._pinnedMessages;
+  }
+
   readonly createdAt: Date;
   readonly creatorID: string; // User id
   readonly defaultChannel: boolean;
 
   public unreadMessagesCount = 0;
+  public unreadMentionsCount = 0;
 
   get channelMessagesPath(): string {
     if (this.id == '') return '';
@@ -35,7 +56,7 @@ export class Channel {
   }
 
 
-  constructor(data: any, channelID: string = '') {
+  constructor(data: Partial<ChannelData>, channelID: string = '') {
     this.id = channelID;
     this._name = data.name ? data.name : 'New Channel';
     this._description = data.description ? data.description : '';
@@ -44,6 +65,7 @@ export class Channel {
     this._memberIDs = data.memberIDs ? data.memberIDs : [];
     this.defaultChannel = data.defaultChannel ? data.defaultChannel : false;
     this._messagesCount = data.messagesCount ? data.messagesCount : 0;
+    this._pinnedMessages = data.pinnedMessages ? data.pinnedMessages.map((pin) => new PinnedMessage(pin)) : [];
   }
 
 
@@ -56,11 +78,13 @@ export class Channel {
    *               - `description`: The new description of the channel.
    *               - `memberIDs`: An array of new member IDs.
    *               - `messagesCount`: The new count of messages in the channel.
+   *               - `pinnedMessages`: The pinned messages of the channel.
    */
-  update(data: any) {
+  update(data: Partial<ChannelData>) {
     if (data.name) this._name = data.name;
     if (data.description) this._description = data.description;
     if (data.memberIDs) this._memberIDs = data.memberIDs;
-    if (data.messagesCount) this._messagesCount = data.messagesCount;
+    if (data.messagesCount !== undefined) this._messagesCount = data.messagesCount;
+    if (data.pinnedMessages) this._pinnedMessages = data.pinnedMessages.map((pin) => new PinnedMessage(pin));
   }
 }
@@ -1,4 +1,15 @@
 import { Timestamp } from "@angular/fire/firestore";
+import { PinnedMessage } from "./pinned-message.class";
+
+/**
+ * A chat document as stored in `chats/{chatID}`, validated by the `chatConverter`.
+ */
+export type ChatData = {
+  memberIDs: string[];
+  messagesCount?: number;
+  createdAt?: Timestamp | null;
+  pinnedMessages?: ReturnType<PinnedMessage['toFirestoreData']>[];
+};
 
 export class Chat {
   readonly id: string;
@@ -6,6 +17,8 @@ export class Chat {
   readonly createdAt: Date;
   public messagesCount: number = 0;
   public unreadMessagesCount:  number = 0;
+  public unreadMentionsCount:  number = 0;
+  public pinnedMessages: PinnedMessage[] = [];
 
 
   get chatMessagesPath(): string {
@@ -13,11 +26,12 @@ export class Chat {
   }
 
 
-  constructor(data: any, id: string) {
+  constructor(data: Partial<ChatData>, id: string) {
     this.id = id;
     this.memberIDs = data.memberIDs ? data.memberIDs : [];
     this.messagesCount = data.messagesCount ? data.messagesCount : 0;
     this.createdAt = data.createdAt ? (data.createdAt as Timestamp).toDate() : new Date();
+    this.pinnedMessages = data.pinnedMessages ? data.pinnedMessages.map((pin) => new PinnedMessage(pin)) : [];
   }
 
 
@@ -26,9 +40,11 @@ export class Chat {
    * 
    * @param data - An object containing the new data for the chat instance.
    * @param data.messagesCount - The new messages count to update the chat instance with.
+   * @param data.pinnedMessages - The pinned messages of the chat.
    */
-  update(data: any) {
-    if (data.messagesCount) this.messagesCount = data.messagesCount;
+  update(data: Partial<ChatData>) {
+    if (data.messagesCount !== undefined) this.messagesCount = data.messagesCount;
+    if (data.pinnedMessages) this.pinnedMessages = data.pinnedMessages.map((pin) => new PinnedMessage(pin));
   }
 
 }
\ No newline at end of file
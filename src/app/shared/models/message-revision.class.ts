@@ -0,0 +1,37 @@
+import { Timestamp } from '@angular/fire/firestore';
+
+/**
+ * A revision of a message, stored for every edit in the `revisions` subcollection of the message.
+ * It holds the content before and after the edit, so every edit can be shown as a diff.
+ */
+/**
+ * A revision document as stored in the `revisions` subcollection of a message, validated by the `messageRevisionConverter`.
+ */
+export type MessageRevisionData = {
+  editorID: string;
+  editedAt?: Timestamp | null;
+  previousContent: string;
+  previousPlainContent?: string;
+  content: string;
+  plainContent?: string;
+};
+
+export class MessageRevision {
+  readonly id: string;
+  readonly editorID: string;
+  readonly editedAt: Date;
+  readonly previousContent: string;
+  readonly previousPlainContent: string;
+  readonly content: string;
+  readonly plainContent: string;
+
+  constructor(data: Partial<MessageRevisionData>, id: string) {
+    this.id = id;
+    this.editorID = data.editorID ? data.editorID : '';
+    this.editedAt = data.editedAt ? (data.editedAt as Timestamp).toDate() : new Date();
+    this.previousContent = data.previousContent ? data.previousContent : '';
+    this.previousPlainContent = data.previousPlainContent ? data.previousPlainContent : '';
+    this.content = data.content ? data.content : '';
+    this.plainContent = data.plainContent ? data.plainContent : '';
+  }
+}
@@ -1,5 +1,6 @@
 import { Timestamp } from '@angular/fire/firestore';
 import { BehaviorSubject } from 'rxjs';
+import { Poll } from './poll.class';
 
 /**
  * Interface representing a collection of reactions.
@@ -31,6 +32,50 @@ export type StoredAttachment = {
 };
 
 
+/**
+ * The link of a reminder message of the DABubble bot to the reminder and the original message.
+ *
+ * @typedef {Object} MessageReminder
+ * @property {string} reminderID - The ID of the reminder in the `reminders` subcollection of the user.
+ * @property {string} messagePath - The path of the message the user is reminded of.
+ */
+export type MessageReminder = {
+  reminderID: string;
+  messagePath: string;
+};
+
+
+/**
+ * A message or thread answer document as stored in `{channels|chats}/{id}/messages/` or `.../answers/`,
+ * validated by the `messageConverter`. `emojies` and `attachments` of older versions may still have their JSON string
+ * format, which is read but never written.
+ */
+export type MessageData = {
+  creatorID: string;
+  createdAt?: Timestamp | null;
+  content: string;
+  plainContent?: string;
+  answerable?: boolean;
+  answerCount?: number;
+  lastAnswerAt?: Timestamp | null;
+  emojies?: (IReactions | string)[];
+  attachments?: StoredAttachment[] | string;
+  edited?: boolean;
+  editedAt?: Timestamp | null;
+  deleted?: boolean;
+  deletedAt?: Timestamp | null;
+  purged?: boolean;
+  poll?: ReturnType<Poll['toFirestoreData']>;
+  pollVotes?: { [optionID: string]: string[] };
+  mentionedUserIDs?: string[];
+  threadFollowerIDs?: string[];
+  reminder?: MessageReminder;
+  channelCopyPath?: string;
+  threadAnswerPath?: string;
+  schemaVersion?: number;
+};
+
+
 export class Message {
   private changeMessage = new BehaviorSubject<void>(undefined);
   public changeMessage$ = this.changeMessage.asObservable();
@@ -42,12 +87,15 @@ export class Message {
   readonly answerable: boolean;
 
   public unreadMessagesCount: number = 0;
+  public unreadMentionsCount: number = 0;
 
   public propertysUnSet = true;
   public unread: boolean = false;
   public sameUserAsPrevious: boolean = false;
   public newMessageSeparator: boolean = false;
   public newDaySeparator: boolean = false;
+  public readReceipt: '' | 'seen' | 'delivered' = '';
+  public sendState: '' | 'pending' | 'failed' = ''; // set while the message is in the outbox
 
   private _content: string;
   get content(): string {
@@ -79,6 +127,21 @@ export class Message {
     return this._edited;
   }
 
+  private _deleted: boolean;
+  get deleted(): boolean {
+    return this._deleted;
+  }
+
+  private _deletedAt: Date | undefined;
+  get deletedAt(): Date | undefined {
+    return this._deletedAt;
+  }
+
+  private _purged: boolean;
+  get purged(): boolean {
+    return this._purged;
+  }
+
   get messagePath(): string {
     return this.collectionPath + this.id;
   }
@@ -87,11 +150,53 @@ export class Message {
     return this.messagePath + '/answers/';
   }
 
+  /**
+   * The revisions of a channel copy of a thread answer are stored with the answer.
+   */
+  get revisionsPath(): string {
+    return (this.threadAnswerPath ? this.threadAnswerPath : this.messagePath) + '/revisions/';
+  }
+
   private _attachments: StoredAttachment[];
   get attachments(): StoredAttachment[] {
     return this._attachments;
   }
 
+  private _poll: Poll | undefined;
+  get poll(): Poll | undefined {
+    return this._poll;
+  }
+
+  private _pollVotes: { [optionID: string]: string[] };
+  get pollVotes(): { [optionID: string]: string[] } {
+    return this._pollVotes;
+  }
+
+  private _mentionedUserIDs: string[];
+  get mentionedUserIDs(): string[] {
+    return this._mentionedUserIDs;
+  }
+
+  private _threadFollowerIDs: string[];
+  get threadFollowerIDs(): string[] {
+    return this._threadFollowerIDs;
+  }
+
+  readonly reminder: MessageReminder | undefined;
+
+  /** The path of the copy in the channel or chat, set on thread answers that were also sent there. */
+  readonly channelCopyPath: string | undefined;
+
+  /** The path of the thread answer, set on the copy of the answer in the channel or chat. */
+  readonly threadAnswerPath: string | undefined;
+
+  /**
+   * The path of the other copy of a thread answer that was also sent to the channel or chat.
+   */
+  get linkedMessagePath(): string | undefined {
+    return this.channelCopyPath ? this.channelCopyPath : this.threadAnswerPath;
+  }
+
   get searchContext(): string | undefined {
     return this.searchContext;
   }
@@ -100,32 +205,42 @@ export class Message {
     this.searchContext = value;
   }
 
-  constructor(data: any, collectionPath: string, id: string) {
+  constructor(data: Partial<MessageData>, collectionPath: string, id: string) {
     this.id = id;
     this.collectionPath = collectionPath;
     this.creatorID = data.creatorID ? data.creatorID : '';
     this.createdAt = data.createdAt ? (data.createdAt as Timestamp).toDate() : new Date();
     if (data.emojies) this.calculateReaction(data.emojies);
     this._content = data.content ? data.content : '';
-    this.answerable = data.answerable;
+    this.answerable = data.answerable ? data.answerable : false;
     this._answerCount = data.answerCount ? data.answerCount : 0;
     this._lastAnswerAt = data.lastAnswerAt ? (data.lastAnswerAt as Timestamp).toDate() : new Date();
     this._edited = data.edited ? data.edited : false;
     this._editedAt = data.editedAt ? (data.editedAt as Timestamp).toDate() : undefined;
+    this._deleted = data.deleted ? data.deleted : false;
+    this._deletedAt = data.deletedAt ? (data.deletedAt as Timestamp).toDate() : undefined;
+    this._purged = data.purged ? data.purged : false;
     this._attachments = this.parseAttachments(data.attachments);
+    this._poll = data.poll ? new Poll(data.poll) : undefined;
+    this._pollVotes = data.pollVotes ? data.pollVotes : {};
+    this._mentionedUserIDs = data.mentionedUserIDs ? data.mentionedUserIDs : [];
+    this._threadFollowerIDs = data.threadFollowerIDs ? data.threadFollowerIDs : [];
+    this.reminder = data.reminder ? data.reminder : undefined;
+    this.channelCopyPath = data.channelCopyPath ? data.channelCopyPath : undefined;
+    this.threadAnswerPath = data.threadAnswerPath ? data.threadAnswerPath : undefined;
   }
 
 
   /**
    * Calculates and updates the emojis based on the provided reactions array.
    * 
-   * @param reactionsArray - An array of strings representing reactions in JSON format.
+   * @param reactionsArray - An array of reaction maps, or of JSON strings as stored by older versions.
    */
-  calculateReaction(reactionsArray: string[]) {
+  calculateReaction(reactionsArray: (IReactions | string)[]) {
     this._emojies = [];
     if (reactionsArray) {
-      reactionsArray.forEach((reaction: string) => {
-        this.emojies.push(JSON.parse(reaction));
+      reactionsArray.forEach((reaction) => {
+        this.emojies.push(typeof reaction === 'string' ? JSON.parse(reaction) : reaction);
       });
     }
   }
@@ -134,10 +249,11 @@ export class Message {
   /**
    * Parses the provided data to extract stored attachments.
    *
-   * @param data - The data to be parsed, expected to be a JSON string.
+   * @param data - The data to be parsed, an array of attachment maps or a JSON string as stored by older versions.
    * @returns An array of `StoredAttachment` objects if the data is valid, otherwise an empty array.
    */
   parseAttachments(data: any): StoredAttachment[] {
+    if (Array.isArray(data)) return data;
     if (data !== undefined && data !== '') return JSON.parse(data);
     return [];
   }
@@ -154,15 +270,38 @@ export class Message {
    *   - `edited` (optional): A boolean indicating if the message was edited.
    *   - `editedAt` (optional): The timestamp of when the message was edited.
    *   - `attachments` (optional): The new attachments to be parsed.
+   *   - `deleted` (optional): A boolean indicating if the message was deleted.
+   *   - `deletedAt` (optional): The timestamp of when the message was deleted.
+   *   - `purged` (optional): A boolean indicating if the content of the deleted message was removed.
+   *   - `poll` (optional): The poll payload of the message.
+   *   - `pollVotes` (optional): The user IDs that voted, per option of the poll.
+   *   - `mentionedUserIDs` (optional): The IDs of the users mentioned in the content.
+   *   - `threadFollowerIDs` (optional): The IDs of the users that follow the thread of the message.
    */
-  update(data: any): void {
+  update(data: Partial<MessageData>): void {
     if (data.content) this._content = data.content;
     if (data.emojies) this.calculateReaction(data.emojies);
-    if (data.answerCount) this._answerCount = data.answerCount;
+    if (data.answerCount !== undefined) this._answerCount = data.answerCount;
     if (data.lastAnswerAt) this._lastAnswerAt = (data.lastAnswerAt as Timestamp).toDate();
     if (data.edited !== undefined) this._edited = data.edited;
     if (data.editedAt) this._editedAt = (data.editedAt as Timestamp).toDate();
     if (data.attachments) this._attachments = this.parseAttachments(data.attachments);
+    if (data.deleted !== undefined) {
+      this._deleted = data.deleted;
+      this._deletedAt = data.deletedAt ? (data.deletedAt as Timestamp).toDate() : undefined;
+    }
+    if (data.purged !== undefined) this._purged = data.purged;
+    if (data.poll) this._poll = new Poll(data.poll);
+    if (data.pollVotes) this._pollVotes = data.pollVotes;
+    if (data.mentionedUserIDs) this._mentionedUserIDs = data.mentionedUserIDs;
+    if (data.threadFollowerIDs) this._threadFollowerIDs = data.threadFollowerIDs;
+    if (this._purged) {
+      this._content = '';
+      this._attachments = [];
+      this._emojies = [];
+      this._poll = undefined;
+      this._pollVotes = {};
+    }
     this.changeMessage.next();
   }
 }
@@ -0,0 +1,27 @@
+import { Timestamp } from '@angular/fire/firestore';
+
+/**
+ * A message that is pinned to a channel or chat.
+ * The pins are stored as `pinnedMessages` array on the channel or chat document.
+ */
+export class PinnedMessage {
+  readonly messageID: string;
+  readonly pinnedBy: string;
+  readonly pinnedAt: Date;
+
+  constructor(data: any) {
+    this.messageID = data.messageID ? data.messageID : '';
+    this.pinnedBy = data.pinnedBy ? data.pinnedBy : '';
+    this.pinnedAt = data.pinnedAt ? (data.pinnedAt as Timestamp).toDate() : new Date();
+  }
+
+
+  /**
+   * Returns the pin as it is stored in the `pinnedMessages` array of the channel or chat document.
+   *
+   * @returns The data of the pin.
+   */
+  toFirestoreData(): { messageID: string; pinnedBy: string; pinnedAt: Timestamp } {
+    return { messageID: this.messageID, pinnedBy: this.pinnedBy, pinnedAt: Timestamp.fromDate(this.pinnedAt) };
+  }
+}
@@ -0,0 +1,59 @@
+import { Timestamp } from '@angular/fire/firestore';
+
+/**
+ * An option of a poll. The ID is used as key of the votes in the `pollVotes` map of the message document.
+ *
+ * @property {string} id - The ID of the option, e.g. 'o0'.
+ * @property {string} text - The text of the option.
+ */
+export type PollOption = {
+  id: string;
+  text: string;
+};
+
+/**
+ * The payload of a message that is a poll. It is stored as `poll` map on the message document,
+ * the votes are stored separately in the `pollVotes` map, so they can be changed atomically.
+ */
+export class Poll {
+  readonly question: string;
+  readonly options: PollOption[];
+  readonly multipleChoice: boolean;
+  readonly anonymous: boolean;
+  readonly closesAt: Date | undefined;
+
+  constructor(data: any) {
+    this.question = data.question ? data.question : '';
+    this.options = data.options ? data.options : [];
+    this.multipleChoice = data.multipleChoice ? data.multipleChoice : false;
+    this.anonymous = data.anonymous ? data.anonymous : false;
+    this.closesAt = data.closesAt ? (data.closesAt as Timestamp).toDate() : undefined;
+  }
+
+
+  /**
+   * Checks if the closing time of the poll is reached.
+   *
+   * @param now - The date to compare with, the current date by default.
+   * @returns `true` if no more votes are accepted, otherwise `false`.
+   */
+  isClosed(now: Date = new Date()): boolean {
+    return !!this.closesAt && this.closesAt.getTime() <= now.getTime();
+  }
+
+
+  /**
+   * Returns the poll as it is stored in the `poll` map of the message document.
+   *
+   * @returns The data of the poll.
+   */
+  toFirestoreData(): { question: string; options: PollOption[]; multipleChoice: boolean; anonymous: boolean; closesAt: Timestamp | null } {
+    return {
+      question: this.question,
+      options: this.options.map((option) => ({ id: option.id, text: option.text })),
+      multipleChoice: this.multipleChoice,
+      anonymous: this.anonymous,
+      closesAt: this.closesAt ? Timestamp.fromDate(this.closesAt) : null,
+    };
+  }
+}
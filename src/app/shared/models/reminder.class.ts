@@ -0,0 +1,48 @@
+import { Timestamp } from '@angular/fire/firestore';
+
+/**
+ * The state of a reminder: `pending` until it is due, `sent` after the DABubble bot sent the reminder message.
+ */
+export type ReminderStatus = 'pending' | 'sent';
+
+/**
+ * A reminder document as stored in `users/{userID}/reminders/{reminderID}`, validated by the `reminderConverter`.
+ * `claimedAt` and `claimedBy` are set while a reminder job sends the reminder.
+ */
+export type ReminderData = {
+  messagePath: string;
+  messageCreatorID?: string;
+  conversationName?: string;
+  excerpt?: string;
+  remindAt: Timestamp;
+  createdAt?: Timestamp | null;
+  status: ReminderStatus;
+  claimedAt?: Timestamp | null;
+  claimedBy?: string;
+};
+
+/**
+ * A reminder of the current user on a message.
+ * It is stored in the `reminders` subcollection of the user until the user marks it as done.
+ */
+export class Reminder {
+  readonly id: string;
+  readonly messagePath: string;
+  readonly messageCreatorID: string;
+  readonly conversationName: string;
+  readonly excerpt: string;
+  readonly remindAt: Date;
+  readonly createdAt: Date;
+  readonly status: ReminderStatus;
+
+  constructor(data: Partial<ReminderData>, id: string) {
+    this.id = id;
+    this.messagePath = data.messagePath ? data.messagePath : '';
+    this.messageCreatorID = data.messageCreatorID ? data.messageCreatorID : '';
+    this.conversationName = data.conversationName ? data.conversationName : '';
+    this.excerpt = data.excerpt ? data.excerpt : '';
+    this.remindAt = data.remindAt ? data.remindAt.toDate() : new Date();
+    this.createdAt = data.createdAt ? data.createdAt.toDate() : new Date();
+    this.status = data.status === 'sent' ? 'sent' : 'pending';
+  }
+}
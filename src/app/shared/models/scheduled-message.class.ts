@@ -0,0 +1,48 @@
+import { Timestamp } from '@angular/fire/firestore';
+import { CollectionType } from './user.class';
+
+/**
+ * A scheduled message document as stored in `users/{userID}/scheduledMessages/{id}`, validated by the
+ * `scheduledMessageConverter`. `claimedAt` and `claimedBy` are set while a publish job publishes the message.
+ */
+export type ScheduledMessageData = {
+  creatorID: string;
+  targetType: CollectionType;
+  targetPath: string;
+  targetName?: string;
+  content: string;
+  sendAt: Timestamp;
+  createdAt?: Timestamp | null;
+  error?: string;
+  claimedAt?: Timestamp | null;
+  claimedBy?: string;
+};
+
+/**
+ * A message that is written now and published at a later time.
+ * It is stored as pending document in the `scheduledMessages` subcollection of its creator
+ * until it is published to its target channel, chat or thread.
+ */
+export class ScheduledMessage {
+  readonly id: string;
+  readonly creatorID: string;
+  readonly targetType: CollectionType;
+  readonly targetPath: string;
+  readonly targetName: string;
+  readonly createdAt: Date;
+  readonly content: string;
+  readonly sendAt: Date;
+  readonly error: string;
+
+  constructor(data: Partial<ScheduledMessageData>, id: string) {
+    this.id = id;
+    this.creatorID = data.creatorID ? data.creatorID : '';
+    this.targetType = data.targetType ? data.targetType : 'channel';
+    this.targetPath = data.targetPath ? data.targetPath : '';
+    this.targetName = data.targetName ? data.targetName : '';
+    this.createdAt = data.createdAt ? data.createdAt.toDate() : new Date();
+    this.content = data.content ? data.content : '';
+    this.sendAt = data.sendAt ? data.sendAt.toDate() : new Date();
+    this.error = data.error ? data.error : '';
+  }
+}
@@ -0,0 +1,37 @@
+import { Timestamp } from '@angular/fire/firestore';
+
+/**
+ * A user group document as stored in `userGroups/{groupID}`, validated by the `userGroupConverter`.
+ */
+export type UserGroupData = {
+  name: string;
+  description?: string;
+  memberIDs: string[];
+  creatorID?: string;
+  createdAt?: Timestamp | null;
+};
+
+/**
+ * A group of users of the workspace, e.g. `frontend`, that can be mentioned as `@frontend`.
+ * Mentioning a group mentions all its members.
+ */
+export class UserGroup {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  private _memberIDs: string[]; // User ids
+  get memberIDs(): string[] {
+    return this._memberIDs;
+  }
+  readonly creatorID: string;
+  readonly createdAt: Date;
+
+  constructor(data: Partial<UserGroupData>, id: string) {
+    this.id = id;
+    this.name = data.name ? data.name : '';
+    this.description = data.description ? data.description : '';
+    this._memberIDs = data.memberIDs ? data.memberIDs : [];
+    this.creatorID = data.creatorID ? data.creatorID : '';
+    this.createdAt = data.createdAt ? data.createdAt.toDate() : new Date();
+  }
+}
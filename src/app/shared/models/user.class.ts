@@ -1,3 +1,4 @@
+import { Timestamp } from '@angular/fire/firestore';
 import { BehaviorSubject } from 'rxjs';
 
 /**
@@ -29,6 +30,44 @@ export type LastReadMessage = {
   messageCreateAt: number;
 };
 
+/**
+ * Represents a message saved by a user (bookmark).
+ * 
+ * @typedef {Object} SavedMessage
+ * @property {string} messagePath - The path of the saved message or thread answer.
+ * @property {number} savedAt - The time the message was saved.
+ * Reminders on saved messages are stored as `Reminder`, older versions stored them as `remindAt` here, see migration 5.
+ */
+export type SavedMessage = {
+  messagePath: string;
+  savedAt: number;
+};
+
+/**
+ * A user document as stored in `users/{userID}`, validated by the `userConverter`.
+ * `lastReadMessages` and `savedMessages` as JSON string are only set by older versions, they are read but never written.
+ * `markedToDeleteAT` is set on guests by the `CleanupService`, before their data is deleted.
+ */
+export type UserData = {
+  name: string;
+  email?: string;
+  avatar?: number;
+  online?: boolean;
+  status?: string;
+  signupAt?: Timestamp | null;
+  pictureURL?: string;
+  chatIDs?: string[];
+  lastReadMessages?: string;
+  savedMessages?: SavedMessage[] | string;
+  emailVerified?: boolean;
+  readReceipts?: boolean;
+  guest?: boolean;
+  provider?: authProvider;
+  schemaVersion?: number;
+  markedToDeleteAT?: number;
+};
+
+
 export class User {
 
   private changeUser = new BehaviorSubject<User | null>(null);
@@ -44,6 +83,11 @@ export class User {
     return this._lastReadMessages;
   }
 
+  private _savedMessages: SavedMessage[];
+  get savedMessages(): SavedMessage[] {
+    return this._savedMessages;
+  }
+
   private _pictureURL: string | undefined;
   get pictureURL(): string | undefined {
     return this._pictureURL;
@@ -69,6 +113,11 @@ export class User {
     return this._online;
   }
 
+  private _status: string;
+  get status(): string {
+    return this._status;
+  }
+
   private _chatIDs: string[] = [];
   get chatIDs(): string[] {
     return this._chatIDs;
@@ -79,18 +128,26 @@ export class User {
     return this._emailVerified;
   }
 
+  private _readReceipts: boolean;
+  get readReceipts(): boolean {
+    return this._readReceipts;
+  }
+
 
-  constructor(userObj: any, userID: string) {
+  constructor(userObj: Partial<UserData>, userID: string) {
     this.id = userID;
     this._name = userObj.name ? userObj.name : '';
     this._email = userObj.email ? userObj.email : '';
     this._avatar = userObj.avatar ? userObj.avatar : 1;
     this._online = userObj.online ? userObj.online : false;
-    this.signupAt = userObj.signupAt ? (userObj.signupAt as any).toDate() : new Date();
+    this._status = userObj.status ? userObj.status : '';
+    this.signupAt = userObj.signupAt ? userObj.signupAt.toDate() : new Date();
     this.setSavePictureURL(userObj.pictureURL);
     this._chatIDs = userObj.chatIDs ? userObj.chatIDs : [];
     this._lastReadMessages = this.parseLRM(userObj.lastReadMessages);
+    this._savedMessages = this.parseSavedMessages(userObj.savedMessages);
     this._emailVerified = userObj.emailVerified ? userObj.emailVerified : false;
+    this._readReceipts = userObj.readReceipts === false ? false : true;
     if (userObj.guest) {
       this.guest = true;
       this.provider = 'guest';
@@ -125,13 +182,39 @@ export class User {
   }
 
 
-  private parseLRM(lrmString: string): LastReadMessage[] {
+  /**
+   * Parses the last read messages of older versions, stored as JSON string on the user document.
+   * They are moved to the `lastReadMessages` subcollection of the user by the `UsersService` on login,
+   * or by the document migrations (see `runMigrations`).
+   */
+  private parseLRM(lrmString: string | undefined): LastReadMessage[] {
     if (lrmString === undefined) return [];
     const lrmArray = JSON.parse(lrmString);
     return lrmArray;
   }
 
 
+  /**
+   * Reads the saved messages, stored as array of maps or, by older versions, as JSON string.
+   */
+  private parseSavedMessages(savedMessages: SavedMessage[] | string | undefined): SavedMessage[] {
+    if (Array.isArray(savedMessages)) return savedMessages;
+    if (savedMessages === undefined || savedMessages === '') return [];
+    return JSON.parse(savedMessages);
+  }
+
+
+  /**
+   * Replaces the last read messages of the user, loaded from the `lastReadMessages` subcollection.
+   *
+   * @param lastReadMessages - The last read messages, one per channel, chat and thread.
+   */
+  setLastReadMessages(lastReadMessages: LastReadMessage[]): void {
+    this._lastReadMessages = lastReadMessages;
+    this.changeUser.next(this);
+  }
+
+
   /**
    * Updates the user properties with the provided data.
    * 
@@ -140,20 +223,25 @@ export class User {
    * @param data.email - The new email of the user.
    * @param data.avatar - The new avatar of the user.
    * @param data.online - The online status of the user.
+   * @param data.status - The custom status text of the user, empty if none is set.
    * @param data.chatIDs - The new chat IDs associated with the user.
    * @param data.pictureURL - The new picture URL of the user.
    * @param data.emailVerified - The email verification status of the user.
+   * @param data.savedMessages - The saved messages of the user.
+   * @param data.readReceipts - Whether the user sends and sees read receipts in chats.
    */
-  update(data: any): void {
+  update(data: Partial<UserData>): void {
     if (data.name) this._name = data.name;
     if (data.email) this._email = data.email;
     if (data.avatar) this._avatar = data.avatar;
     if (data.online !== undefined) this._online = data.online;
+    if (data.status !== undefined) this._status = data.status;
     if (data.chatIDs) this._chatIDs = data.chatIDs;
-    if (data.lastReadMessages) this._lastReadMessages = this.parseLRM(data.lastReadMessages);
+    if (data.savedMessages !== undefined) this._savedMessages = this.parseSavedMessages(data.savedMessages);
     this.setSavePictureURL(data.pictureURL);
     if (data.emailVerified !== undefined)
       this._emailVerified = data.emailVerified;
+    if (data.readReceipts !== undefined) this._readReceipts = data.readReceipts;
     this.changeUser.next(this);
   }
 }
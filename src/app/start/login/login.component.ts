@@ -29,6 +29,7 @@ import {
 import { CommonModule } from '@angular/common';
 import { ChannelService } from '../../utils/services/channel.service';
 import { MessageService } from '../../utils/services/message.service';
+import { NavigationService } from '../../utils/services/navigation.service';
 import {
   dabubbleBotId,
   newGoogleUserMessages,
@@ -52,6 +53,7 @@ export class LoginComponent implements OnDestroy, OnInit {
   private firestore = inject(Firestore);
   private firebaseauth = inject(Auth);
   private router: Router = inject(Router);
+  private navigationService = inject(NavigationService);
 
   private subCurrentUser: any;
 
@@ -495,11 +497,12 @@ export class LoginComponent implements OnDestroy, OnInit {
    * Redirects the user to the chat content page.
    *
    * This method hides any informational messages and navigates the user to the
-   * '/chatcontent' route using the Angular Router.
+   * '/chatcontent' route using the Angular Router. If a deep link was requested
+   * before the login, the user is navigated to that url instead.
    */
   redirectToChatContent() {
     this.showInfoMessage('', false);
-    this.router.navigate(['/chatcontent']);
+    this.router.navigateByUrl(this.navigationService.consumeDeepLinkUrl());
   }
 
   /**
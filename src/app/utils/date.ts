@@ -0,0 +1,79 @@
+/**
+ * Formats a date as value of an `<input type="datetime-local">`, in the local time zone.
+ *
+ * @param date - The date to format.
+ * @returns The date in the format "yyyy-MM-ddTHH:mm".
+ */
+export function toDateTimeLocalString(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+
+/**
+ * Parses the value of an `<input type="datetime-local">` as date in the local time zone.
+ *
+ * @param value - The value in the format "yyyy-MM-ddTHH:mm".
+ * @returns The date, or `undefined` if the value is empty or invalid.
+ */
+export function fromDateTimeLocalString(value: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+
+/**
+ * Formats a date as a localized string with the format "dd.MM.yyyy, HH:mm Uhr".
+ *
+ * @param date - The date to format.
+ * @returns The formatted date.
+ */
+export function getFormatedDateTime(date: Date): string {
+  const formatedDate = date.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+  const formatedTime = date.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+  return `${formatedDate}, ${formatedTime} Uhr`;
+}
+
+
+/**
+ * Parses a point in time at the start of a text, as used by the `/remind` command.
+ *
+ * Supported formats:
+ * - `in 30 min`, `in 2 h`, `in 3 tagen` - relative to now (units: min, minuten, h, std, stunden, tag, tage, tagen)
+ * - `morgen` - tomorrow at 9:00
+ * - `um 14:30` - today at the given time, tomorrow if the time has passed
+ *
+ * @param text - The text that starts with the point in time.
+ * @param now - The current date.
+ * @returns The parsed date and the remaining text, or `undefined` if the text doesn't start with a point in time.
+ */
+export function parseReminderTime(text: string, now: Date = new Date()): { date: Date; rest: string } | undefined {
+  const relative = text.match(/^in\s+(\d+)\s*(min|minuten|minute|h|std|stunden|stunde|tag|tage|tagen|d)(?=\s|$)/i);
+  if (relative) {
+    const amount = parseInt(relative[1]);
+    const unit = relative[2].toLowerCase();
+    const minutes = unit.startsWith('min') ? 1 : unit === 'h' || unit.startsWith('st') ? 60 : 24 * 60;
+    return { date: new Date(now.getTime() + amount * minutes * 60 * 1000), rest: text.substring(relative[0].length).trim() };
+  }
+  const tomorrow = text.match(/^morgen(?=\s|$)/i);
+  if (tomorrow) return { date: getTomorrowMorning(now), rest: text.substring(tomorrow[0].length).trim() };
+  const time = text.match(/^um\s+(\d{1,2})[:.](\d{2})(?:\s*uhr)?(?=\s|$)/i);
+  if (time && parseInt(time[1]) < 24 && parseInt(time[2]) < 60) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate(), parseInt(time[1]), parseInt(time[2]));
+    if (date.getTime() <= now.getTime()) date.setDate(date.getDate() + 1);
+    return { date: date, rest: text.substring(time[0].length).trim() };
+  }
+  return undefined;
+}
+
+
+/**
+ * Returns tomorrow at 9:00, the default time of reminders for "morgen".
+ *
+ * @param now - The current date.
+ * @returns The date of tomorrow at 9:00.
+ */
+export function getTomorrowMorning(now: Date = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 9, 0);
+}
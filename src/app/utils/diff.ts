@@ -0,0 +1,70 @@
+/**
+ * A part of a diff between two texts.
+ *
+ * @property {'equal' | 'added' | 'removed'} type - Whether the text is in both texts, only in the new text or only in the old text.
+ * @property {string} text - The text of the part.
+ */
+export type DiffPart = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+
+/**
+ * Calculates a word based diff between two texts.
+ * Whitespace is kept as separate tokens, so the parts can be joined to the original texts again.
+ *
+ * @param oldText - The text before the change.
+ * @param newText - The text after the change.
+ * @returns The parts of the diff in reading order, consecutive parts of the same type are merged.
+ */
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const oldWords = splitIntoWords(oldText);
+  const newWords = splitIntoWords(newText);
+  const lcs = getLongestCommonSubsequenceTable(oldWords, newWords);
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldWords.length || j < newWords.length) {
+    if (i < oldWords.length && j < newWords.length && oldWords[i] === newWords[j]) {
+      addDiffPart(parts, 'equal', oldWords[i]);
+      i++;
+      j++;
+    } else if (j < newWords.length && (i === oldWords.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      addDiffPart(parts, 'added', newWords[j]);
+      j++;
+    } else {
+      addDiffPart(parts, 'removed', oldWords[i]);
+      i++;
+    }
+  }
+  return parts;
+}
+
+
+function splitIntoWords(text: string): string[] {
+  return text.split(/(\s+)/).filter((word) => word !== '');
+}
+
+
+/**
+ * Calculates the lengths of the longest common subsequences of all suffixes of both word lists.
+ *
+ * @returns A table where `table[i][j]` is the length for `oldWords[i..]` and `newWords[j..]`.
+ */
+function getLongestCommonSubsequenceTable(oldWords: string[], newWords: string[]): number[][] {
+  const table = Array.from({ length: oldWords.length + 1 }, () => new Array<number>(newWords.length + 1).fill(0));
+  for (let i = oldWords.length - 1; i >= 0; i--) {
+    for (let j = newWords.length - 1; j >= 0; j--) {
+      table[i][j] = oldWords[i] === newWords[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+}
+
+
+function addDiffPart(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  const lastPart = parts[parts.length - 1];
+  if (lastPart && lastPart.type === type) lastPart.text += text;
+  else parts.push({ type, text });
+}
@@ -0,0 +1,48 @@
+import { isFirestoreEmulatorReachable, runConcurrencyHarness, runConcurrentClients } from './concurrency-harness';
+import { MemoryRepository } from './memory-repository';
+import { getToggledReactions } from './transactions';
+
+describe('getToggledReactions', () => {
+  it('adds a new reaction', () => {
+    expect(getToggledReactions([], '👍', 'a')).toEqual([{ type: '👍', userIDs: ['a'] }]);
+  });
+
+  it('adds the user to an existing reaction without losing the other users', () => {
+    expect(getToggledReactions([{ type: '👍', userIDs: ['a'] }], '👍', 'b')).toEqual([{ type: '👍', userIDs: ['a', 'b'] }]);
+  });
+
+  it('removes the reaction when its last user is removed', () => {
+    expect(getToggledReactions([{ type: '👍', userIDs: ['a'] }, { type: '🎉', userIDs: ['b'] }], '👍', 'a')).toEqual([{ type: '🎉', userIDs: ['b'] }]);
+  });
+
+  it('does not change the passed reactions', () => {
+    const reactions = [{ type: '👍', userIDs: ['a'] }];
+    getToggledReactions(reactions, '👍', 'b');
+    expect(reactions).toEqual([{ type: '👍', userIDs: ['a'] }]);
+  });
+});
+
+describe('Concurrent writes against the MemoryRepository', () => {
+  it('loses no counter or reaction updates of interleaved transactions', async () => {
+    const repository = new MemoryRepository();
+    const report = await runConcurrentClients([repository, repository, repository, repository], 5);
+    expect(report.messagesCount).toBe(report.expectedMessagesCount);
+    expect(report.storedMessages).toBe(report.expectedMessagesCount);
+    expect(report.reactionUserIDs).toBe(report.expectedReactionUserIDs);
+    expect(report.lostUpdates).toBe(0);
+  });
+});
+
+describe('Concurrent writes against the Firestore emulator', () => {
+  it('loses no counter or reaction updates', async () => {
+    if (!(await isFirestoreEmulatorReachable())) {
+      pending('The Firestore emulator is not running on localhost:8080.');
+      return;
+    }
+    const report = await runConcurrencyHarness({ clients: 10, writesPerClient: 5 });
+    expect(report.messagesCount).toBe(report.expectedMessagesCount);
+    expect(report.storedMessages).toBe(report.expectedMessagesCount);
+    expect(report.reactionUserIDs).toBe(report.expectedReactionUserIDs);
+    expect(report.lostUpdates).toBe(0);
+  }, 60000);
+});
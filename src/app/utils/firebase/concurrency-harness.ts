@@ -0,0 +1,138 @@
+import { deleteApp, initializeApp } from '@angular/fire/app';
+import { connectFirestoreEmulator, Firestore, initializeFirestore } from '@angular/fire/firestore';
+import { Channel } from '../../shared/models/channel.class';
+import { Message } from '../../shared/models/message.class';
+import { deleteCountedMessage, storeNewMessage, toggleReaction } from './transactions';
+import { readReactions } from './migrations';
+import { FirestoreRepository } from './firestore-repository';
+import { channelConverter, messageConverter } from './converters';
+import { Repository } from './repository';
+
+/**
+ * The options of a harness run.
+ *
+ * @property {number} clients - The number of clients, each with its own Firebase app and Firestore connection.
+ * @property {number} writesPerClient - The number of messages every client adds at once.
+ * @property {string} [emulatorHost] - The host of the Firestore emulator, `localhost` by default.
+ * @property {number} [emulatorPort] - The port of the Firestore emulator, `8080` by default.
+ */
+export type ConcurrencyHarnessOptions = {
+  clients: number;
+  writesPerClient: number;
+  emulatorHost?: string;
+  emulatorPort?: number;
+};
+
+/**
+ * The result of a harness run. `lostUpdates` is the sum of all differences between the expected and the stored values.
+ */
+export type ConcurrencyHarnessReport = {
+  expectedMessagesCount: number;
+  messagesCount: number;
+  storedMessages: number;
+  expectedReactionUserIDs: number;
+  reactionUserIDs: number;
+  lostUpdates: number;
+};
+
+const harnessProjectID = 'demo-dabubble';
+
+
+/**
+ * Runs many clients against the Firestore emulator at once, to show that no counter or reaction update is lost.
+ * Only the emulator is used, the `demo-` project ID can't reach a real project.
+ *
+ * Every client of a new test channel, at the same time:
+ * - adds `writesPerClient` messages with `storeNewMessage`, which increments `messagesCount`,
+ * - toggles the same reaction on a shared message with `toggleReaction`,
+ * - deletes its first message twice with `deleteCountedMessage`, which must decrement `messagesCount` only once.
+ *
+ * @param options - The options of the run.
+ * @returns A promise that resolves to the report of the run.
+ */
+export async function runConcurrencyHarness(options: ConcurrencyHarnessOptions): Promise<ConcurrencyHarnessReport> {
+  const runID = Date.now().toString(36);
+  const apps = Array.from({ length: options.clients }, (_, index) => initializeApp({ projectId: harnessProjectID, apiKey: 'harness' }, 'harness-' + runID + '-' + index));
+  const firestores: Firestore[] = apps.map((app) => {
+    const firestore = initializeFirestore(app, {});
+    connectFirestoreEmulator(firestore, options.emulatorHost ?? 'localhost', options.emulatorPort ?? 8080);
+    return firestore;
+  });
+  try {
+    return await runConcurrentClients(firestores.map((firestore) => new FirestoreRepository(firestore)), options.writesPerClient);
+  } finally {
+    await Promise.all(apps.map((app) => deleteApp(app)));
+  }
+}
+
+
+/**
+ * Runs the writes of all clients at once on a new test channel and counts the stored result.
+ * The clients may share one repository, e.g. a `MemoryRepository`, whose transactions then interleave.
+ *
+ * @param repositories - The repositories of the clients, one per client.
+ * @param writesPerClient - The number of messages every client adds at once.
+ * @returns A promise that resolves to the report of the run.
+ */
+export async function runConcurrentClients(repositories: Repository[], writesPerClient: number): Promise<ConcurrencyHarnessReport> {
+  const runID = Date.now().toString(36);
+  const repository = repositories[0];
+  const channel = new Channel({ name: 'harness-' + runID }, 'harness-' + runID);
+  const sharedMessagePath = channel.channelMessagesPath + 'shared';
+  await repository.setDocument('channels/' + channel.id, { name: channel.name, memberIDs: [], messagesCount: 1 }, channelConverter);
+  await repository.setDocument(sharedMessagePath, { creatorID: 'harness', content: 'shared', answerable: true, emojies: [] }, messageConverter);
+  await Promise.all(repositories.map((clientRepository, index) => runClient(clientRepository, channel, sharedMessagePath, 'harness-user-' + index, writesPerClient)));
+  const channelDoc = await repository.getDocument('channels/' + channel.id, channelConverter);
+  const messageDocs = await repository.getDocuments({ collectionPath: channel.channelMessagesPath }, messageConverter);
+  const sharedMessageDoc = await repository.getDocument(sharedMessagePath, messageConverter);
+  const reactions = readReactions(sharedMessageDoc.data?.emojies);
+  const clients = repositories.length;
+  const expectedMessagesCount = 1 + clients * (writesPerClient - 1);
+  const messagesCount = channelDoc.data?.messagesCount ?? 0;
+  const reactionUserIDs = reactions.find((reaction) => reaction.type === '👍')?.userIDs.length ?? 0;
+  return {
+    expectedMessagesCount: expectedMessagesCount,
+    messagesCount: messagesCount,
+    storedMessages: messageDocs.length,
+    expectedReactionUserIDs: clients,
+    reactionUserIDs: reactionUserIDs,
+    lostUpdates: Math.abs(expectedMessagesCount - messagesCount) + Math.abs(expectedMessagesCount - messageDocs.length) + Math.abs(clients - reactionUserIDs),
+  };
+}
+
+
+/**
+ * Checks if the Firestore emulator answers, so the harness can run.
+ *
+ * @param host - The host of the emulator.
+ * @param port - The port of the emulator.
+ * @returns A promise that resolves to `true` if the emulator is reachable.
+ */
+export async function isFirestoreEmulatorReachable(host: string = 'localhost', port: number = 8080): Promise<boolean> {
+  try {
+    await fetch('http://' + host + ':' + port + '/');
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+
+/**
+ * The writes of one client, started at the same time as the writes of all other clients.
+ *
+ * @param repository - The repository of the client.
+ * @param channel - The test channel.
+ * @param sharedMessagePath - The path of the message all clients react to.
+ * @param userID - The user of the client.
+ * @param writes - The number of messages the client adds.
+ */
+async function runClient(repository: Repository, channel: Channel, sharedMessagePath: string, userID: string, writes: number) {
+  const messageIDs = Array.from({ length: writes }, () => repository.createDocumentID(channel.channelMessagesPath));
+  await Promise.all([
+    ...messageIDs.map((messageID) => storeNewMessage(repository, channel, channel.channelMessagesPath + messageID, { creatorID: userID, content: messageID, answerable: true, emojies: [] })),
+    toggleReaction(repository, sharedMessagePath, '👍', userID),
+  ]);
+  const firstMessage = new Message({ creatorID: userID, answerable: true }, channel.channelMessagesPath, messageIDs[0]);
+  await Promise.all([deleteCountedMessage(repository, firstMessage), deleteCountedMessage(repository, firstMessage)]);
+}
@@ -0,0 +1,317 @@
+import { DocumentData, DocumentSnapshot, FieldValue, FirestoreDataConverter, PartialWithFieldValue, QueryDocumentSnapshot, SetOptions, SnapshotOptions, Timestamp, UpdateData, WithFieldValue } from '@angular/fire/firestore';
+import { ChannelData } from '../../shared/models/channel.class';
+import { ChatData } from '../../shared/models/chat.class';
+import { MessageData } from '../../shared/models/message.class';
+import { MessageRevisionData } from '../../shared/models/message-revision.class';
+import { LastReadMessage, UserData } from '../../shared/models/user.class';
+import { UserGroupData } from '../../shared/models/user-group.class';
+import { ScheduledMessageData } from '../../shared/models/scheduled-message.class';
+import { ActivityData } from '../../shared/models/activity.class';
+import { ReminderData } from '../../shared/models/reminder.class';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'timestamp' | 'array' | 'map';
+
+/**
+ * The rule of a field of a document schema.
+ *
+ * @property {FieldType[]} types - The allowed types of the value. `null` is treated like a missing value.
+ * @property {FieldType[]} [items] - The allowed types of the items, if the value is an array.
+ * @property {boolean} [required] - The field must be set, except for updates.
+ * @property {FieldType[]} [legacyTypes] - Types stored by older versions. They are still read, but never written again.
+ * @property {FieldType[]} [legacyItems] - Item types stored by older versions, read like `legacyTypes`.
+ */
+export type FieldRule = {
+  types: FieldType[];
+  items?: FieldType[];
+  required?: boolean;
+  legacyTypes?: FieldType[];
+  legacyItems?: FieldType[];
+};
+
+/**
+ * The rules of the fields of a document. Fields without rule are not checked.
+ */
+export type DocumentSchema = { [field: string]: FieldRule };
+
+
+/**
+ * The error of a document that doesn't match its schema, with all invalid fields.
+ */
+export class FirestoreSchemaError extends Error {
+  constructor(readonly documentName: string, readonly issues: string[]) {
+    super('Invalid document ' + documentName + ': ' + issues.join('; '));
+    this.name = 'FirestoreSchemaError';
+  }
+}
+
+
+/**
+ * A `FirestoreDataConverter` that validates the data of a model against a schema, in both directions.
+ * Documents read with it that don't match the schema throw a `FirestoreSchemaError` on `data()`, see `getValidatedData`.
+ * Updates don't pass converters in Firestore, they are validated with `toUpdateData`.
+ * Field values like `serverTimestamp()` or `increment()` are not checked, so legacy fields can be removed with `deleteField()`.
+ */
+export class SchemaConverter<D extends DocumentData> implements FirestoreDataConverter<D, D> {
+  constructor(readonly modelName: string, readonly schema: DocumentSchema) { }
+
+
+  /**
+   * Validates the data of a new or replaced document. With merge options only the given fields are checked.
+   */
+  toFirestore(data: WithFieldValue<D>): WithFieldValue<D>;
+  toFirestore(data: PartialWithFieldValue<D>, options: SetOptions): PartialWithFieldValue<D>;
+  toFirestore(data: PartialWithFieldValue<D>, options?: SetOptions): PartialWithFieldValue<D> {
+    this.validate(data, 'new ' + this.modelName, options !== undefined, false);
+    return data;
+  }
+
+
+  /**
+   * Validates the data of a read document.
+   *
+   * @throws A `FirestoreSchemaError` with the path of the document if the data doesn't match the schema.
+   */
+  fromFirestore(snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): D {
+    return this.fromDocumentData(snapshot.data(options), snapshot.ref.path);
+  }
+
+
+  /**
+   * Validates the data of a document that isn't read with the Firestore SDK, e.g. by the `MemoryRepository`.
+   *
+   * @param data - The data of the document.
+   * @param path - The path of the document.
+   * @returns The unchanged data.
+   * @throws A `FirestoreSchemaError` with the path of the document if the data doesn't match the schema.
+   */
+  fromDocumentData(data: DocumentData, path: string): D {
+    this.validate(data, path, false, true);
+    return data as D;
+  }
+
+
+  /**
+   * Validates the fields of an update. Nested field paths like `pollVotes.o0` are not checked.
+   *
+   * @param data - The fields to update.
+   * @returns The unchanged fields.
+   * @throws A `FirestoreSchemaError` if a field doesn't match the schema.
+   */
+  toUpdateData(data: UpdateData<D>): UpdateData<D> {
+    this.validate(data, 'update of ' + this.modelName, true, false);
+    return data;
+  }
+
+
+  private validate(data: DocumentData, documentName: string, partial: boolean, read: boolean) {
+    const issues = getSchemaIssues(this.schema, data, partial, read);
+    if (issues.length > 0) throw new FirestoreSchemaError(documentName, issues);
+  }
+}
+
+
+export const channelConverter = new SchemaConverter<ChannelData>('channel', {
+  name: { types: ['string'], required: true },
+  description: { types: ['string'] },
+  createdAt: { types: ['timestamp'] },
+  creatorID: { types: ['string'] },
+  memberIDs: { types: ['array'], items: ['string'], required: true },
+  defaultChannel: { types: ['boolean'] },
+  messagesCount: { types: ['number'] },
+  pinnedMessages: { types: ['array'], items: ['map'] },
+});
+
+export const chatConverter = new SchemaConverter<ChatData>('chat', {
+  memberIDs: { types: ['array'], items: ['string'], required: true },
+  messagesCount: { types: ['number'] },
+  createdAt: { types: ['timestamp'] },
+  pinnedMessages: { types: ['array'], items: ['map'] },
+});
+
+export const messageConverter = new SchemaConverter<MessageData>('message', {
+  creatorID: { types: ['string'], required: true },
+  createdAt: { types: ['timestamp'] },
+  content: { types: ['string'], required: true },
+  plainContent: { types: ['string'] },
+  answerable: { types: ['boolean'] },
+  answerCount: { types: ['number'] },
+  lastAnswerAt: { types: ['timestamp'] },
+  emojies: { types: ['array'], items: ['map'], legacyItems: ['string'] },
+  attachments: { types: ['array'], legacyTypes: ['string'] },
+  edited: { types: ['boolean'] },
+  editedAt: { types: ['timestamp'] },
+  deleted: { types: ['boolean'] },
+  deletedAt: { types: ['timestamp'] },
+  purged: { types: ['boolean'] },
+  poll: { types: ['map'] },
+  pollVotes: { types: ['map'] },
+  mentionedUserIDs: { types: ['array'], items: ['string'] },
+  threadFollowerIDs: { types: ['array'], items: ['string'] },
+  reminder: { types: ['map'] },
+  channelCopyPath: { types: ['string'] },
+  threadAnswerPath: { types: ['string'] },
+  schemaVersion: { types: ['number'] },
+});
+
+export const messageRevisionConverter = new SchemaConverter<MessageRevisionData>('message revision', {
+  editorID: { types: ['string'], required: true },
+  editedAt: { types: ['timestamp'] },
+  previousContent: { types: ['string'], required: true },
+  previousPlainContent: { types: ['string'] },
+  content: { types: ['string'], required: true },
+  plainContent: { types: ['string'] },
+});
+
+export const scheduledMessageConverter = new SchemaConverter<ScheduledMessageData>('scheduled message', {
+  creatorID: { types: ['string'], required: true },
+  targetType: { types: ['string'], required: true },
+  targetPath: { types: ['string'], required: true },
+  targetName: { types: ['string'] },
+  content: { types: ['string'], required: true },
+  sendAt: { types: ['timestamp'], required: true },
+  createdAt: { types: ['timestamp'] },
+  error: { types: ['string'] },
+  claimedAt: { types: ['timestamp'] },
+  claimedBy: { types: ['string'] },
+});
+
+export const userConverter = new SchemaConverter<UserData>('user', {
+  name: { types: ['string'], required: true },
+  email: { types: ['string'] },
+  avatar: { types: ['number'] },
+  online: { types: ['boolean'] },
+  status: { types: ['string'] },
+  signupAt: { types: ['timestamp'] },
+  pictureURL: { types: ['string'] },
+  chatIDs: { types: ['array'], items: ['string'] },
+  lastReadMessages: { types: [], legacyTypes: ['string'] },
+  savedMessages: { types: ['array'], items: ['map'], legacyTypes: ['string'] },
+  emailVerified: { types: ['boolean'] },
+  readReceipts: { types: ['boolean'] },
+  guest: { types: ['boolean'] },
+  provider: { types: ['string'] },
+  schemaVersion: { types: ['number'] },
+  markedToDeleteAT: { types: ['number'] },
+});
+
+export const userGroupConverter = new SchemaConverter<UserGroupData>('user group', {
+  name: { types: ['string'], required: true },
+  description: { types: ['string'] },
+  memberIDs: { types: ['array'], items: ['string'], required: true },
+  creatorID: { types: ['string'] },
+  createdAt: { types: ['timestamp'] },
+});
+
+export const activityConverter = new SchemaConverter<ActivityData>('activity', {
+  type: { types: ['string'], required: true },
+  actorID: { types: ['string'], required: true },
+  messagePath: { types: ['string'], required: true },
+  excerpt: { types: ['string'] },
+  emoji: { types: ['string'] },
+  createdAt: { types: ['timestamp'] },
+  read: { types: ['boolean'] },
+});
+
+export const reminderConverter = new SchemaConverter<ReminderData>('reminder', {
+  messagePath: { types: ['string'], required: true },
+  messageCreatorID: { types: ['string'] },
+  conversationName: { types: ['string'] },
+  excerpt: { types: ['string'] },
+  remindAt: { types: ['timestamp'], required: true },
+  createdAt: { types: ['timestamp'] },
+  status: { types: ['string'], required: true },
+  claimedAt: { types: ['timestamp'] },
+  claimedBy: { types: ['string'] },
+});
+
+/**
+ * A typing entry as stored in `{conversation}/typing/{userID}`, see the `TypingService`.
+ */
+export type TypingEntryData = {
+  expiresAt: Timestamp;
+};
+
+export const typingEntryConverter = new SchemaConverter<TypingEntryData>('typing entry', {
+  expiresAt: { types: ['timestamp'], required: true },
+});
+
+export const lastReadMessageConverter = new SchemaConverter<LastReadMessage>('last read message', {
+  collectionType: { types: ['string'], required: true },
+  collectionID: { types: ['string'], required: true },
+  messageID: { types: ['string'], required: true },
+  messageCreateAt: { types: ['number'], required: true },
+});
+
+
+/**
+ * Returns the validated data of a document read with a `SchemaConverter`.
+ * Invalid documents are logged with all their invalid fields and skipped, instead of being turned into defaults.
+ *
+ * @param snapshot - The document.
+ * @returns The data, or `undefined` if the document doesn't exist or is invalid.
+ */
+export function getValidatedData<D>(snapshot: DocumentSnapshot<D>): D | undefined {
+  return readValidatedData(() => snapshot.data());
+}
+
+
+/**
+ * Reads the data of a document with a function that validates it. Invalid documents are logged and skipped, see `getValidatedData`.
+ *
+ * @param read - Returns the validated data, e.g. with `SchemaConverter.fromDocumentData`.
+ * @returns The data, or `undefined` if the document is invalid.
+ */
+export function readValidatedData<D>(read: () => D | undefined): D | undefined {
+  try {
+    return read();
+  } catch (error) {
+    if (!(error instanceof FirestoreSchemaError)) throw error;
+    console.error('FirestoreSchemaError: ' + error.message);
+    return undefined;
+  }
+}
+
+
+/**
+ * Collects the fields of the data that don't match the schema.
+ *
+ * @param schema - The schema.
+ * @param data - The data of the document.
+ * @param partial - Missing required fields are allowed, e.g. for updates.
+ * @returns A description of every invalid field, empty if the data is valid.
+ */
+function getSchemaIssues(schema: DocumentSchema, data: DocumentData, partial: boolean, read: boolean): string[] {
+  const issues: string[] = [];
+  Object.entries(schema).forEach(([field, rule]) => {
+    const value = data[field];
+    if (value === undefined || value === null) {
+      if (rule.required && !partial) issues.push(`"${field}" is missing`);
+      return;
+    }
+    if (value instanceof FieldValue) return;
+    const type = getFieldType(value);
+    if (rule.legacyTypes?.includes(type as FieldType)) {
+      if (!read) issues.push(`"${field}" can't be written as ${type} anymore, it is only read from older documents`);
+      return;
+    }
+    if (rule.types.length === 0) issues.push(`"${field}" is not stored anymore, but is ${type}`);
+    else if (!rule.types.includes(type as FieldType)) issues.push(`"${field}" must be ${rule.types.join(' or ')}, but is ${type}`);
+    else if (rule.items && Array.isArray(value)) {
+      const itemTypes = read ? [...rule.items, ...(rule.legacyItems ?? [])] : rule.items;
+      const index = value.findIndex((item) => !itemTypes.includes(getFieldType(item) as FieldType));
+      if (index < 0) return;
+      const itemType = getFieldType(value[index]);
+      if (rule.legacyItems?.includes(itemType as FieldType)) issues.push(`"${field}[${index}]" can't be written as ${itemType} anymore, it is only read from older documents`);
+      else issues.push(`"${field}[${index}]" must be ${rule.items.join(' or ')}, but is ${itemType}`);
+    }
+  });
+  return issues;
+}
+
+
+function getFieldType(value: any): FieldType | string {
+  if (value === null) return 'null';
+  if (value instanceof Timestamp || value instanceof Date) return 'timestamp';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'map' : typeof value;
+}
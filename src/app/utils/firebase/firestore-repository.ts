@@ -0,0 +1,166 @@
+import { addDoc, arrayRemove, arrayUnion, collection, collectionGroup, deleteDoc, deleteField, doc, documentId, DocumentData, DocumentReference, DocumentSnapshot, Firestore, getDoc, getDocs, increment, limit, onSnapshot, orderBy, query, Query, QueryConstraint, runTransaction, serverTimestamp, setDoc, startAfter, startAt, endAt, endBefore, updateDoc, UpdateData, where, WithFieldValue, writeBatch } from '@angular/fire/firestore';
+import { deleteObject, getDownloadURL, getStorage, ref, uploadBytes } from '@angular/fire/storage';
+import { getValidatedData, SchemaConverter } from './converters';
+import { documentIDField, Repository, RepositoryBatch, RepositoryChange, RepositoryDocument, RepositoryQuery, RepositoryTransaction } from './repository';
+
+/**
+ * The writes that a `WriteBatch` and a `Transaction` have in common.
+ */
+type FirestoreWriter = {
+  set<D extends DocumentData>(documentRef: DocumentReference<D, D>, data: WithFieldValue<D>): unknown;
+  update(documentRef: DocumentReference, data: UpdateData<DocumentData>): unknown;
+  delete(documentRef: DocumentReference): unknown;
+};
+
+/**
+ * The `Repository` of the app, backed by Firestore and the Storage of the same Firebase app.
+ * The methods are documented in `Repository`.
+ */
+export class FirestoreRepository extends Repository {
+  constructor(private firestore: Firestore) {
+    super();
+  }
+
+
+  async getDocument<D extends DocumentData>(path: string, converter: SchemaConverter<D>): Promise<RepositoryDocument<D>> {
+    return toRepositoryDocument(await getDoc(doc(this.firestore, path).withConverter(converter)));
+  }
+
+
+  async getDocuments<D extends DocumentData>(repositoryQuery: RepositoryQuery, converter: SchemaConverter<D>): Promise<RepositoryDocument<D>[]> {
+    const querySnapshot = await getDocs(this.createQuery(repositoryQuery, converter));
+    return querySnapshot.docs.map((docSnapshot) => toRepositoryDocument(docSnapshot));
+  }
+
+
+  subscribeDocuments<D extends DocumentData>(repositoryQuery: RepositoryQuery, converter: SchemaConverter<D>, onChanges: (changes: RepositoryChange<D>[]) => void, onError?: (error: Error) => void): () => void {
+    return onSnapshot(
+      this.createQuery(repositoryQuery, converter),
+      (snapshot) => onChanges(snapshot.docChanges().map((change) => ({
+        type: change.type,
+        document: change.type === 'removed' ? { id: change.doc.id, path: change.doc.ref.path, exists: false, data: undefined } : toRepositoryDocument(change.doc),
+      }))),
+      (error) => onError?.(error)
+    );
+  }
+
+
+  createDocumentID(collectionPath: string): string {
+    return doc(collection(this.firestore, collectionPath)).id;
+  }
+
+
+  async addDocument<D extends DocumentData>(collectionPath: string, data: WithFieldValue<D>, converter: SchemaConverter<D>): Promise<string> {
+    return (await addDoc(collection(this.firestore, collectionPath).withConverter(converter), data)).id;
+  }
+
+
+  async setDocument<D extends DocumentData>(path: string, data: WithFieldValue<D>, converter: SchemaConverter<D>): Promise<void> {
+    await setDoc(doc(this.firestore, path).withConverter(converter), data);
+  }
+
+
+  async updateDocument<D extends DocumentData = DocumentData>(path: string, data: UpdateData<D>, converter?: SchemaConverter<D>): Promise<void> {
+    await updateDoc(doc(this.firestore, path), converter ? converter.toUpdateData(data) : data);
+  }
+
+
+  async deleteDocument(path: string): Promise<void> {
+    await deleteDoc(doc(this.firestore, path));
+  }
+
+
+  batch(): RepositoryBatch {
+    const batch = writeBatch(this.firestore);
+    return { ...this.createWriter(batch), commit: () => batch.commit() };
+  }
+
+
+  async runTransaction<T>(updateFunction: (transaction: RepositoryTransaction) => Promise<T>): Promise<T> {
+    return await runTransaction(this.firestore, async (transaction) => updateFunction({
+      ...this.createWriter(transaction),
+      get: async (path, converter) => toRepositoryDocument(await transaction.get(doc(this.firestore, path).withConverter(converter))),
+    }));
+  }
+
+
+  serverTimestamp() {
+    return serverTimestamp();
+  }
+
+
+  increment(value: number) {
+    return increment(value);
+  }
+
+
+  arrayUnion(...elements: any[]) {
+    return arrayUnion(...elements);
+  }
+
+
+  arrayRemove(...elements: any[]) {
+    return arrayRemove(...elements);
+  }
+
+
+  deleteField() {
+    return deleteField();
+  }
+
+
+  async uploadFile(path: string, file: Blob): Promise<string> {
+    const storageRef = ref(getStorage(this.firestore.app), path);
+    await uploadBytes(storageRef, file);
+    return await getDownloadURL(storageRef);
+  }
+
+
+  async deleteFile(path: string): Promise<void> {
+    await deleteObject(ref(getStorage(this.firestore.app), path));
+  }
+
+
+  /**
+   * Creates the Firestore query of a repository query, with the converter of its documents.
+   */
+  private createQuery<D extends DocumentData>(repositoryQuery: RepositoryQuery, converter: SchemaConverter<D>): Query<D, D> {
+    const constraints: QueryConstraint[] = [
+      ...(repositoryQuery.where ?? []).map((filter) => where(filter.field, filter.op, filter.value)),
+      ...(repositoryQuery.orderBy ?? []).map((order) => orderBy(order.field === documentIDField ? documentId() : order.field, order.direction)),
+    ];
+    if (repositoryQuery.startAt) constraints.push(startAt(...repositoryQuery.startAt));
+    if (repositoryQuery.startAfter) constraints.push(startAfter(...repositoryQuery.startAfter));
+    if (repositoryQuery.endAt) constraints.push(endAt(...repositoryQuery.endAt));
+    if (repositoryQuery.endBefore) constraints.push(endBefore(...repositoryQuery.endBefore));
+    if (repositoryQuery.limit !== undefined) constraints.push(limit(repositoryQuery.limit));
+    const source = repositoryQuery.collectionGroup ? collectionGroup(this.firestore, repositoryQuery.collectionPath) : collection(this.firestore, repositoryQuery.collectionPath);
+    return query(source.withConverter(converter), ...constraints);
+  }
+
+
+  /**
+   * Creates the writes of a batch or transaction. Updates are validated with `toUpdateData` of the converter.
+   */
+  private createWriter(writer: FirestoreWriter) {
+    return {
+      set: <D extends DocumentData>(path: string, data: WithFieldValue<D>, converter: SchemaConverter<D>) => {
+        writer.set(doc(this.firestore, path).withConverter(converter), data);
+      },
+      update: <D extends DocumentData = DocumentData>(path: string, data: UpdateData<D>, converter?: SchemaConverter<D>) => {
+        writer.update(doc(this.firestore, path), converter ? converter.toUpdateData(data) : data);
+      },
+      delete: (path: string) => {
+        writer.delete(doc(this.firestore, path));
+      },
+    };
+  }
+}
+
+
+/**
+ * Converts a document snapshot, invalid documents are logged and get `data: undefined`.
+ */
+function toRepositoryDocument<D>(snapshot: DocumentSnapshot<D>): RepositoryDocument<D> {
+  return { id: snapshot.id, path: snapshot.ref.path, exists: snapshot.exists(), data: getValidatedData(snapshot) };
+}
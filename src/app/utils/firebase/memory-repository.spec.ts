@@ -0,0 +1,137 @@
+import { Timestamp } from '@angular/fire/firestore';
+import { channelConverter, messageConverter, SchemaConverter, userConverter } from './converters';
+import { MemoryRepository } from './memory-repository';
+import { documentIDField, RepositoryChange } from './repository';
+import { ChannelData } from '../../shared/models/channel.class';
+
+describe('MemoryRepository', () => {
+  let repository: MemoryRepository;
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    await repository.setDocument('channels/c1', { name: 'Allgemein', memberIDs: ['a'] }, channelConverter);
+  });
+
+  it('reads stored documents and missing documents', async () => {
+    expect(await repository.getDocument('/channels/c1/', channelConverter)).toEqual({ id: 'c1', path: 'channels/c1', exists: true, data: { name: 'Allgemein', memberIDs: ['a'] } });
+    expect(await repository.getDocument('channels/c2', channelConverter)).toEqual({ id: 'c2', path: 'channels/c2', exists: false, data: undefined });
+  });
+
+  it('rejects new documents that do not match the schema', async () => {
+    await expectAsync(repository.setDocument('channels/c2', { name: 'Ohne Mitglieder' } as ChannelData, channelConverter)).toBeRejectedWithError(/"memberIDs" is missing/);
+    expect((await repository.getDocument('channels/c2', channelConverter)).exists).toBeFalse();
+  });
+
+  it('reads legacy fields of older documents but does not write them again', async () => {
+    await repository.setDocument('users/a', { name: 'Anna', lastReadMessages: '[]', savedMessages: '[]' }, new SchemaConverter('older user', {}));
+    expect((await repository.getDocument('users/a', userConverter)).data?.savedMessages).toBe('[]');
+    await expectAsync(repository.updateDocument('users/a', { savedMessages: '[]' }, userConverter)).toBeRejectedWithError(/"savedMessages" can't be written as string/);
+    await expectAsync(repository.updateDocument('users/a', { lastReadMessages: '[]' }, userConverter)).toBeRejectedWithError(/"lastReadMessages" can't be written as string/);
+    await repository.updateDocument('users/a', { lastReadMessages: repository.deleteField(), savedMessages: [{ messagePath: 'channels/c1/messages/m1', savedAt: 1 }] }, userConverter);
+    expect((await repository.getDocument('users/a', userConverter)).data).toEqual({ name: 'Anna', savedMessages: [{ messagePath: 'channels/c1/messages/m1', savedAt: 1 }] });
+  });
+
+  it('reads reactions and attachments of older messages but does not write them again', async () => {
+    await repository.setDocument('channels/c1/messages/m1', { creatorID: 'a', content: 'Alt', emojies: ['{"type":"👍","userIDs":["a"]}'], attachments: '[]' }, new SchemaConverter('older message', {}));
+    expect((await repository.getDocument('channels/c1/messages/m1', messageConverter)).data?.attachments).toBe('[]');
+    await expectAsync(repository.setDocument('channels/c1/messages/m2', { creatorID: 'a', content: 'Neu', emojies: [{ type: '👍', userIDs: ['a'] }, '{}'] }, messageConverter)).toBeRejectedWithError(/"emojies\[1\]" can't be written as string/);
+    await expectAsync(repository.updateDocument('channels/c1/messages/m1', { attachments: '[]' }, messageConverter)).toBeRejectedWithError(/"attachments" can't be written as string/);
+  });
+
+  it('reads invalid documents without data', async () => {
+    spyOn(console, 'error');
+    await repository.setDocument('channels/c1/messages/m1', { creatorID: 'a', content: 'Hallo' }, messageConverter);
+    expect((await repository.getDocument('channels/c1/messages/m1', channelConverter)).data).toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('does not share stored data with readers', async () => {
+    const channelDoc = await repository.getDocument('channels/c1', channelConverter);
+    channelDoc.data!.memberIDs.push('b');
+    expect((await repository.getDocument('channels/c1', channelConverter)).data!.memberIDs).toEqual(['a']);
+  });
+
+  it('filters, orders and limits queries and compares timestamps with dates', async () => {
+    await repository.setDocument('channels/c1/messages/m1', { creatorID: 'a', content: '1', createdAt: Timestamp.fromMillis(1000) }, messageConverter);
+    await repository.setDocument('channels/c1/messages/m2', { creatorID: 'a', content: '2', createdAt: Timestamp.fromMillis(2000) }, messageConverter);
+    await repository.setDocument('channels/c1/messages/m3', { creatorID: 'a', content: '3', createdAt: Timestamp.fromMillis(3000) }, messageConverter);
+    await repository.setDocument('channels/c1/messages/m4', { creatorID: 'a', content: 'ohne Datum' }, messageConverter);
+    const newerDocs = await repository.getDocuments({ collectionPath: 'channels/c1/messages/', where: [{ field: 'createdAt', op: '>', value: new Date(1500) }] }, messageConverter);
+    expect(newerDocs.map((messageDoc) => messageDoc.id)).toEqual(['m2', 'm3']);
+    const latestDocs = await repository.getDocuments({ collectionPath: 'channels/c1/messages', orderBy: [{ field: 'createdAt', direction: 'desc' }], limit: 2 }, messageConverter);
+    expect(latestDocs.map((messageDoc) => messageDoc.id)).toEqual(['m3', 'm2']);
+  });
+
+  it('bounds ordered queries by cursors', async () => {
+    for (const id of ['m1', 'm2', 'm3', 'm4']) {
+      await repository.setDocument('channels/c1/messages/' + id, { creatorID: 'a', content: id, createdAt: Timestamp.fromMillis(id === 'm4' ? 3000 : Number(id[1]) * 1000) }, messageConverter);
+    }
+    const query = { collectionPath: 'channels/c1/messages', orderBy: [{ field: 'createdAt' }, { field: documentIDField }] };
+    const getIDs = async (cursors: object) => (await repository.getDocuments({ ...query, ...cursors }, messageConverter)).map((messageDoc) => messageDoc.id);
+    expect(await getIDs({ startAt: [Timestamp.fromMillis(2000)], endAt: [Timestamp.fromMillis(3000), 'm3'] })).toEqual(['m2', 'm3']);
+    expect(await getIDs({ startAfter: [Timestamp.fromMillis(3000), 'm3'] })).toEqual(['m4']);
+    expect(await getIDs({ endBefore: [Timestamp.fromMillis(3000)] })).toEqual(['m1', 'm2']);
+  });
+
+  it('queries collection groups', async () => {
+    await repository.setDocument('channels/c1/messages/m1', { creatorID: 'a', content: 'Channel' }, messageConverter);
+    await repository.setDocument('chats/x/messages/m2', { creatorID: 'a', content: 'Chat' }, messageConverter);
+    await repository.setDocument('channels/c1/messages/m1/answers/a1', { creatorID: 'a', content: 'Antwort' }, messageConverter);
+    const messageDocs = await repository.getDocuments({ collectionPath: 'messages', collectionGroup: true }, messageConverter);
+    expect(messageDocs.map((messageDoc) => messageDoc.path)).toEqual(['channels/c1/messages/m1', 'chats/x/messages/m2']);
+  });
+
+  it('passes added, modified and removed documents to subscriptions', async () => {
+    const calls: RepositoryChange<ChannelData>[][] = [];
+    const unsubscribe = repository.subscribeDocuments({ collectionPath: 'channels' }, channelConverter, (changes) => calls.push(changes));
+    const newChannelID = await repository.addDocument('channels', { name: 'Neu', memberIDs: [] }, channelConverter);
+    await repository.updateDocument('channels/c1', { name: 'Umbenannt' }, channelConverter);
+    await repository.deleteDocument('channels/c1');
+    unsubscribe();
+    await repository.deleteDocument('channels/' + newChannelID);
+    expect(calls.map((changes) => changes.map((change) => change.type))).toEqual([['added'], ['added'], ['modified'], ['removed']]);
+    expect(calls[2][0].document.data?.name).toBe('Umbenannt');
+  });
+
+  it('resolves field values', async () => {
+    await repository.updateDocument('channels/c1', {
+      messagesCount: repository.increment(2),
+      memberIDs: repository.arrayUnion('a', 'b'),
+      createdAt: repository.serverTimestamp(),
+      description: repository.deleteField(),
+    }, channelConverter);
+    const channelData = (await repository.getDocument('channels/c1', channelConverter)).data!;
+    expect(channelData.messagesCount).toBe(2);
+    expect(channelData.memberIDs).toEqual(['a', 'b']);
+    expect(channelData.createdAt).toEqual(jasmine.any(Timestamp));
+    expect('description' in channelData).toBeFalse();
+    await repository.updateDocument('channels/c1', { memberIDs: repository.arrayRemove('a', 'c') }, channelConverter);
+    expect((await repository.getDocument('channels/c1', channelConverter)).data!.memberIDs).toEqual(['b']);
+  });
+
+  it('writes a batch completely or not at all', async () => {
+    const batch = repository.batch();
+    batch.update('channels/c1', { name: 'Geändert' }, channelConverter);
+    batch.update('channels/missing', { name: 'Fehlt' }, channelConverter);
+    await expectAsync(batch.commit()).toBeRejected();
+    expect((await repository.getDocument('channels/c1', channelConverter)).data!.name).toBe('Allgemein');
+  });
+
+  it('repeats transactions whose documents were changed in the meantime', async () => {
+    const addMember = (memberID: string) => repository.runTransaction(async (transaction) => {
+      const channelDoc = await transaction.get('channels/c1', channelConverter);
+      await Promise.resolve();
+      transaction.update('channels/c1', { memberIDs: [...channelDoc.data!.memberIDs, memberID] }, channelConverter);
+    });
+    await Promise.all([addMember('b'), addMember('c'), addMember('d')]);
+    expect((await repository.getDocument('channels/c1', channelConverter)).data!.memberIDs.sort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('stores and deletes files', async () => {
+    expect(await repository.uploadFile('message-attachments/m1/bild.png', new Blob(['x']))).toBe('memory://message-attachments/m1/bild.png');
+    expect(repository.hasFile('message-attachments/m1/bild.png')).toBeTrue();
+    await repository.deleteFile('message-attachments/m1/bild.png');
+    expect(repository.hasFile('message-attachments/m1/bild.png')).toBeFalse();
+    await expectAsync(repository.deleteFile('message-attachments/m1/bild.png')).toBeRejected();
+  });
+});
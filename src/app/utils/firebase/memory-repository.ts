@@ -0,0 +1,404 @@
+import { DocumentData, FieldValue, Timestamp, UpdateData, WhereFilterOp, WithFieldValue } from '@angular/fire/firestore';
+import { readValidatedData, SchemaConverter } from './converters';
+import { documentIDField, Repository, RepositoryBatch, RepositoryChange, RepositoryDocument, RepositoryQuery, RepositoryTransaction } from './repository';
+
+type MemoryWrite =
+  | { type: 'set'; path: string; data: DocumentData; converter: SchemaConverter<any> }
+  | { type: 'update'; path: string; data: DocumentData; converter?: SchemaConverter<any> }
+  | { type: 'delete'; path: string };
+
+type MemoryListener = {
+  query: RepositoryQuery;
+  converter: SchemaConverter<any>;
+  onChanges: (changes: RepositoryChange<any>[]) => void;
+  versions: Map<string, number>;
+};
+
+/**
+ * The field values of the `MemoryRepository`, resolved when they are written.
+ */
+class MemoryFieldValue {
+  constructor(readonly kind: 'serverTimestamp' | 'increment' | 'arrayUnion' | 'arrayRemove' | 'deleteField', readonly operand?: any) { }
+}
+
+const maxTransactionAttempts = 5;
+
+
+/**
+ * A `Repository` that keeps all documents and files in memory, for tests. Writes are applied and passed to the
+ * subscriptions at once, so the changes are visible as soon as the write resolves.
+ *
+ * It behaves like Firestore where the services rely on it:
+ * - documents are validated with their converters, invalid documents are read with `data: undefined`,
+ * - queries compare timestamps and dates by time, `orderBy` leaves out documents without the field,
+ * - cursors compare the values of the `orderBy` fields, `documentIDField` with the ID or, in collection groups, the path,
+ * - batches are written completely or not at all, updates of missing documents fail,
+ * - transactions are repeated if a read document was changed in the meantime.
+ */
+export class MemoryRepository extends Repository {
+  private documents = new Map<string, { data: DocumentData; version: number }>();
+  private files = new Map<string, Blob>();
+  private listeners = new Set<MemoryListener>();
+  private lastVersion = 0;
+
+
+  async getDocument<D extends DocumentData>(path: string, converter: SchemaConverter<D>): Promise<RepositoryDocument<D>> {
+    return this.readDocument(normalizePath(path), converter);
+  }
+
+
+  async getDocuments<D extends DocumentData>(query: RepositoryQuery, converter: SchemaConverter<D>): Promise<RepositoryDocument<D>[]> {
+    return this.getQueryPaths(query).map((path) => this.readDocument(path, converter));
+  }
+
+
+  subscribeDocuments<D extends DocumentData>(query: RepositoryQuery, converter: SchemaConverter<D>, onChanges: (changes: RepositoryChange<D>[]) => void, onError?: (error: Error) => void): () => void {
+    const listener: MemoryListener = { query: query, converter: converter, onChanges: onChanges, versions: new Map() };
+    this.listeners.add(listener);
+    this.notifyListener(listener, true);
+    return () => this.listeners.delete(listener);
+  }
+
+
+  createDocumentID(collectionPath: string): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    return Array.from({ length: 20 }, () => characters.charAt(Math.floor(Math.random() * characters.length))).join('');
+  }
+
+
+  async addDocument<D extends DocumentData>(collectionPath: string, data: WithFieldValue<D>, converter: SchemaConverter<D>): Promise<string> {
+    const id = this.createDocumentID(collectionPath);
+    this.commit([{ type: 'set', path: normalizePath(collectionPath) + '/' + id, data: data, converter: converter }]);
+    return id;
+  }
+
+
+  async setDocument<D extends DocumentData>(path: string, data: WithFieldValue<D>, converter: SchemaConverter<D>): Promise<void> {
+    this.commit([{ type: 'set', path: normalizePath(path), data: data, converter: converter }]);
+  }
+
+
+  async updateDocument<D extends DocumentData = DocumentData>(path: string, data: UpdateData<D>, converter?: SchemaConverter<D>): Promise<void> {
+    this.commit([{ type: 'update', path: normalizePath(path), data: data, converter: converter }]);
+  }
+
+
+  async deleteDocument(path: string): Promise<void> {
+    this.commit([{ type: 'delete', path: normalizePath(path) }]);
+  }
+
+
+  batch(): RepositoryBatch {
+    const writes: MemoryWrite[] = [];
+    return { ...createWriter(writes), commit: async () => this.commit(writes) };
+  }
+
+
+  async runTransaction<T>(updateFunction: (transaction: RepositoryTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const readVersions = new Map<string, number>();
+      const writes: MemoryWrite[] = [];
+      const result = await updateFunction({
+        ...createWriter(writes),
+        get: async (path, converter) => {
+          if (writes.length > 0) throw new Error('MemoryRepository: all reads of a transaction must be executed before its writes.');
+          readVersions.set(normalizePath(path), this.documents.get(normalizePath(path))?.version ?? 0);
+          return this.readDocument(normalizePath(path), converter);
+        },
+      });
+      const readDocumentChanged = [...readVersions].some(([path, version]) => (this.documents.get(path)?.version ?? 0) !== version);
+      if (!readDocumentChanged) {
+        this.commit(writes);
+        return result;
+      }
+      if (attempt === maxTransactionAttempts) throw new Error('MemoryRepository: transaction failed after ' + attempt + ' attempts.');
+    }
+  }
+
+
+  serverTimestamp(): FieldValue {
+    return new MemoryFieldValue('serverTimestamp') as unknown as FieldValue;
+  }
+
+
+  increment(value: number): FieldValue {
+    return new MemoryFieldValue('increment', value) as unknown as FieldValue;
+  }
+
+
+  arrayUnion(...elements: any[]): FieldValue {
+    return new MemoryFieldValue('arrayUnion', elements) as unknown as FieldValue;
+  }
+
+
+  arrayRemove(...elements: any[]): FieldValue {
+    return new MemoryFieldValue('arrayRemove', elements) as unknown as FieldValue;
+  }
+
+
+  deleteField(): FieldValue {
+    return new MemoryFieldValue('deleteField') as unknown as FieldValue;
+  }
+
+
+  async uploadFile(path: string, file: Blob): Promise<string> {
+    this.files.set(normalizePath(path), file);
+    return 'memory://' + normalizePath(path);
+  }
+
+
+  async deleteFile(path: string): Promise<void> {
+    if (!this.files.delete(normalizePath(path))) throw new Error('MemoryRepository: file "' + path + '" does not exist.');
+  }
+
+
+  /**
+   * Checks if a file is stored, e.g. to check in tests that attachments are deleted.
+   *
+   * @param path - The path of the file in the storage.
+   * @returns `true` if the file is stored, otherwise `false`.
+   */
+  hasFile(path: string): boolean {
+    return this.files.has(normalizePath(path));
+  }
+
+
+  /**
+   * Reads a stored document with a copy of its data, so changes of the reader don't change the stored document.
+   */
+  private readDocument<D extends DocumentData>(path: string, converter: SchemaConverter<D>): RepositoryDocument<D> {
+    const storedDocument = this.documents.get(path);
+    const id = path.substring(path.lastIndexOf('/') + 1);
+    if (!storedDocument) return { id: id, path: path, exists: false, data: undefined };
+    return { id: id, path: path, exists: true, data: readValidatedData(() => converter.fromDocumentData(copyValue(storedDocument.data), path)) };
+  }
+
+
+  /**
+   * Returns the paths of the documents of a query, in the order of the query.
+   */
+  private getQueryPaths(query: RepositoryQuery): string[] {
+    const collectionPath = normalizePath(query.collectionPath);
+    let paths = [...this.documents.keys()].filter((path) => {
+      const parentPath = path.substring(0, path.lastIndexOf('/'));
+      return query.collectionGroup ? parentPath.split('/').pop() === collectionPath : parentPath === collectionPath;
+    });
+    (query.where ?? []).forEach((filter) => {
+      paths = paths.filter((path) => matchesFilter(getFieldValue(this.documents.get(path)!.data, filter.field), filter.op, filter.value));
+    });
+    const orders = query.orderBy ?? [];
+    const getOrderValues = (path: string) => orders.map((order) => {
+      if (order.field !== documentIDField) return getFieldValue(this.documents.get(path)!.data, order.field);
+      return query.collectionGroup ? path : path.substring(path.lastIndexOf('/') + 1);
+    });
+    const compareOrderValues = (valuesA: any[], valuesB: any[]) => {
+      for (let index = 0; index < Math.min(valuesA.length, valuesB.length); index++) {
+        const comparison = compareValues(valuesA[index], valuesB[index]);
+        if (comparison !== 0) return orders[index].direction === 'desc' ? -comparison : comparison;
+      }
+      return 0;
+    };
+    paths = paths.filter((path) => getOrderValues(path).every((value) => value !== undefined));
+    paths.sort((a, b) => compareOrderValues(getOrderValues(a), getOrderValues(b)) || (a < b ? -1 : a > b ? 1 : 0));
+    if (query.startAt) paths = paths.filter((path) => compareOrderValues(getOrderValues(path), query.startAt!) >= 0);
+    if (query.startAfter) paths = paths.filter((path) => compareOrderValues(getOrderValues(path), query.startAfter!) > 0);
+    if (query.endAt) paths = paths.filter((path) => compareOrderValues(getOrderValues(path), query.endAt!) <= 0);
+    if (query.endBefore) paths = paths.filter((path) => compareOrderValues(getOrderValues(path), query.endBefore!) < 0);
+    return query.limit !== undefined ? paths.slice(0, query.limit) : paths;
+  }
+
+
+  /**
+   * Applies writes at once. All writes are validated first, if one of them fails nothing is written.
+   *
+   * @throws An error if a document doesn't match its schema or an updated document doesn't exist.
+   */
+  private commit(writes: MemoryWrite[]) {
+    const changedDocuments = new Map<string, DocumentData | undefined>();
+    const getCurrentData = (path: string) => (changedDocuments.has(path) ? changedDocuments.get(path) : this.documents.get(path)?.data);
+    writes.forEach((write) => {
+      if (write.type === 'delete') changedDocuments.set(write.path, undefined);
+      else if (write.type === 'set') {
+        const data = resolveFieldValues(write.data, {});
+        write.converter.toFirestore(data);
+        changedDocuments.set(write.path, data);
+      } else {
+        const currentData = getCurrentData(write.path);
+        if (!currentData) throw new Error('MemoryRepository: no document to update: ' + write.path);
+        const data = applyUpdate(currentData, write.data);
+        write.converter?.toUpdateData(Object.fromEntries(Object.keys(write.data).filter((field) => !field.includes('.')).map((field) => [field, data[field]])));
+        changedDocuments.set(write.path, data);
+      }
+    });
+    changedDocuments.forEach((data, path) => {
+      if (data) this.documents.set(path, { data: data, version: ++this.lastVersion });
+      else this.documents.delete(path);
+    });
+    if (changedDocuments.size > 0) this.listeners.forEach((listener) => this.notifyListener(listener, false));
+  }
+
+
+  /**
+   * Passes the changes of the documents of a subscribed query since its last call to the listener.
+   *
+   * @param listener - The subscription.
+   * @param initial - The first call, which is made even if there are no documents.
+   */
+  private notifyListener(listener: MemoryListener, initial: boolean) {
+    const paths = this.getQueryPaths(listener.query);
+    const changes: RepositoryChange<any>[] = [];
+    listener.versions.forEach((version, path) => {
+      if (paths.includes(path)) return;
+      changes.push({ type: 'removed', document: { id: path.substring(path.lastIndexOf('/') + 1), path: path, exists: false, data: undefined } });
+      listener.versions.delete(path);
+    });
+    paths.forEach((path) => {
+      const version = this.documents.get(path)!.version;
+      const listenedVersion = listener.versions.get(path);
+      if (listenedVersion === version) return;
+      changes.push({ type: listenedVersion === undefined ? 'added' : 'modified', document: this.readDocument(path, listener.converter) });
+      listener.versions.set(path, version);
+    });
+    if (initial || changes.length > 0) listener.onChanges(changes);
+  }
+}
+
+
+/**
+ * Creates the writes of a batch or transaction, they are collected and applied by `commit`.
+ */
+function createWriter(writes: MemoryWrite[]) {
+  return {
+    set: <D extends DocumentData>(path: string, data: WithFieldValue<D>, converter: SchemaConverter<D>) => {
+      writes.push({ type: 'set', path: normalizePath(path), data: data, converter: converter });
+    },
+    update: <D extends DocumentData = DocumentData>(path: string, data: UpdateData<D>, converter?: SchemaConverter<D>) => {
+      writes.push({ type: 'update', path: normalizePath(path), data: data, converter: converter });
+    },
+    delete: (path: string) => {
+      writes.push({ type: 'delete', path: normalizePath(path) });
+    },
+  };
+}
+
+
+function normalizePath(path: string): string {
+  return path.split('/').filter((segment) => segment !== '').join('/');
+}
+
+
+/**
+ * Returns the data of a document with the updated fields. Field paths like `pollVotes.o0` update nested fields.
+ */
+function applyUpdate(currentData: DocumentData, updateData: DocumentData): DocumentData {
+  const data = copyValue(currentData);
+  Object.entries(updateData).forEach(([fieldPath, value]) => {
+    const fields = fieldPath.split('.');
+    let parent = data;
+    fields.slice(0, -1).forEach((field) => {
+      if (typeof parent[field] !== 'object' || parent[field] === null || Array.isArray(parent[field])) parent[field] = {};
+      parent = parent[field];
+    });
+    const field = fields[fields.length - 1];
+    if (value instanceof MemoryFieldValue && value.kind === 'deleteField') delete parent[field];
+    else parent[field] = resolveFieldValue(value, parent[field], fieldPath);
+  });
+  return data;
+}
+
+
+/**
+ * Replaces the field values of new data by their values. Fields with `deleteField()` are left out.
+ */
+function resolveFieldValues(data: DocumentData, currentData: DocumentData): DocumentData {
+  const resolvedData: DocumentData = {};
+  Object.entries(data).forEach(([field, value]) => {
+    if (value instanceof MemoryFieldValue && value.kind === 'deleteField') return;
+    resolvedData[field] = resolveFieldValue(value, currentData[field], field);
+  });
+  return resolvedData;
+}
+
+
+function resolveFieldValue(value: any, currentValue: any, fieldPath: string): any {
+  if (value === undefined) throw new Error('MemoryRepository: unsupported field value undefined in field "' + fieldPath + '".');
+  if (value instanceof FieldValue) throw new Error('MemoryRepository: the field value of field "' + fieldPath + '" must be created by the repository.');
+  if (value instanceof MemoryFieldValue) {
+    if (value.kind === 'serverTimestamp') return Timestamp.now();
+    if (value.kind === 'increment') return (typeof currentValue === 'number' ? currentValue : 0) + value.operand;
+    if (value.kind === 'arrayUnion') {
+      const elements: any[] = Array.isArray(currentValue) ? [...currentValue] : [];
+      (value.operand as any[]).forEach((element) => { if (!elements.some((stored) => isEqualValue(stored, element))) elements.push(copyValue(element)); });
+      return elements;
+    }
+    if (value.kind === 'arrayRemove') {
+      const elements: any[] = Array.isArray(currentValue) ? currentValue : [];
+      return elements.filter((stored) => !(value.operand as any[]).some((element) => isEqualValue(stored, element)));
+    }
+    throw new Error('MemoryRepository: deleteField() can only be used in updates.');
+  }
+  if (Array.isArray(value)) return value.map((item, index) => resolveFieldValue(item, undefined, fieldPath + '.' + index));
+  if (isMap(value)) return resolveFieldValues(value, {});
+  return value;
+}
+
+
+/**
+ * Copies maps and arrays, timestamps are immutable and kept.
+ */
+function copyValue<T>(value: T): T {
+  if (Array.isArray(value)) return value.map((item) => copyValue(item)) as T;
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (isMap(value)) return Object.fromEntries(Object.entries(value as object).map(([key, item]) => [key, copyValue(item)])) as T;
+  return value;
+}
+
+
+function isMap(value: any): value is DocumentData {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+
+function getFieldValue(data: DocumentData, fieldPath: string): any {
+  return fieldPath.split('.').reduce((value, field) => (value === undefined || value === null ? undefined : value[field]), data as any);
+}
+
+
+function matchesFilter(value: any, op: WhereFilterOp, filterValue: any): boolean {
+  if (value === undefined) return false;
+  switch (op) {
+    case '==': return isEqualValue(value, filterValue);
+    case '!=': return !isEqualValue(value, filterValue);
+    case '<': return compareValues(value, filterValue) < 0;
+    case '<=': return compareValues(value, filterValue) <= 0;
+    case '>': return compareValues(value, filterValue) > 0;
+    case '>=': return compareValues(value, filterValue) >= 0;
+    case 'array-contains': return Array.isArray(value) && value.some((item) => isEqualValue(item, filterValue));
+    case 'array-contains-any': return Array.isArray(value) && value.some((item) => (filterValue as any[]).some((element) => isEqualValue(item, element)));
+    case 'in': return (filterValue as any[]).some((element) => isEqualValue(value, element));
+    case 'not-in': return !(filterValue as any[]).some((element) => isEqualValue(value, element));
+  }
+}
+
+
+/**
+ * Compares two values of the same type, timestamps and dates by their time.
+ */
+function compareValues(a: any, b: any): number {
+  const valueA = toComparableValue(a);
+  const valueB = toComparableValue(b);
+  if (typeof valueA !== typeof valueB) return typeof valueA < typeof valueB ? -1 : 1;
+  return valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+}
+
+
+function isEqualValue(a: any, b: any): boolean {
+  return JSON.stringify(toComparableValue(a)) === JSON.stringify(toComparableValue(b));
+}
+
+
+function toComparableValue(value: any): any {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+}
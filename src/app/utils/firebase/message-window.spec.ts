@@ -0,0 +1,75 @@
+import { Timestamp } from '@angular/fire/firestore';
+import { messageConverter, SchemaConverter } from './converters';
+import { MemoryRepository } from './memory-repository';
+import { MessageWindow } from './message-window';
+
+describe('MessageWindow', () => {
+  const messagesPath = 'channels/c1/messages/';
+  let repository: MemoryRepository;
+  let messageWindow: MessageWindow;
+  let onChange: jasmine.Spy;
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    for (const [id, millis] of [['m1', 1000], ['m2', 2000], ['m3', 3000], ['m4', 3000], ['m5', 5000]] as const) {
+      await addMessage(id, millis);
+    }
+    onChange = jasmine.createSpy('onChange');
+    messageWindow = new MessageWindow(repository, messagesPath, 2, onChange);
+  });
+
+  afterEach(() => messageWindow.destroy());
+
+  async function addMessage(id: string, millis: number) {
+    await repository.setDocument(messagesPath + id, { creatorID: 'anna', content: 'Nachricht ' + id, createdAt: Timestamp.fromMillis(millis) }, messageConverter);
+  }
+
+  function getMessageIDs(): string[] {
+    return messageWindow.messages.map((message) => message.id);
+  }
+
+  it('loads the newest page and the older pages', async () => {
+    await messageWindow.loadLatest();
+    expect(getMessageIDs()).toEqual(['m4', 'm5']);
+    expect(messageWindow.hasOlder).toBeTrue();
+    await messageWindow.loadOlder();
+    expect(getMessageIDs()).toEqual(['m2', 'm3', 'm4', 'm5']);
+    await messageWindow.loadOlder();
+    expect(getMessageIDs()).toEqual(['m1', 'm2', 'm3', 'm4', 'm5']);
+    expect(messageWindow.hasOlder).toBeFalse();
+    expect(messageWindow.oldestLoadedDate).toEqual(new Date(1000));
+  });
+
+  it('loads the messages around a date and the newer pages', async () => {
+    await messageWindow.loadAround(new Date(2000));
+    expect(getMessageIDs()).toEqual(['m2', 'm3']);
+    expect(messageWindow.hasNewer).toBeTrue();
+    await messageWindow.loadNewer();
+    expect(getMessageIDs()).toEqual(['m2', 'm3', 'm4', 'm5']);
+    await messageWindow.loadNewer();
+    expect(messageWindow.hasNewer).toBeFalse();
+    await addMessage('m6', 6000);
+    expect(getMessageIDs()).toEqual(['m2', 'm3', 'm4', 'm5', 'm6']);
+  });
+
+  it('keeps the loaded messages live', async () => {
+    await messageWindow.loadLatest();
+    await messageWindow.loadOlder();
+    await repository.updateDocument(messagesPath + 'm3', { content: 'Bearbeitet', edited: true }, messageConverter);
+    await repository.deleteDocument(messagesPath + 'm4');
+    await addMessage('m6', 6000);
+    expect(getMessageIDs()).toEqual(['m2', 'm3', 'm5', 'm6']);
+    expect(messageWindow.messages[1].content).toBe('Bearbeitet');
+    expect(onChange).toHaveBeenCalledWith(true);
+  });
+
+  it('leaves out invalid messages', async () => {
+    spyOn(console, 'error');
+    await repository.setDocument(messagesPath + 'm6', { creatorID: 'anna', createdAt: Timestamp.fromMillis(6000) }, new SchemaConverter('invalid message', {}));
+    await messageWindow.loadLatest();
+    expect(getMessageIDs()).toEqual(['m5']);
+    expect(messageWindow.hasOlder).toBeTrue();
+    await messageWindow.loadOlder();
+    expect(getMessageIDs()).toEqual(['m3', 'm4', 'm5']);
+  });
+});
@@ -0,0 +1,271 @@
+import { Timestamp } from '@angular/fire/firestore';
+import { Message, MessageData } from '../../shared/models/message.class';
+import { messageConverter } from './converters';
+import { documentIDField, Repository, RepositoryDocument, RepositoryQuery } from './repository';
+
+/**
+ * The position of a message in the window: its creation time and, for messages created at the same time, its ID.
+ */
+type MessageCursor = [Timestamp, string];
+
+/**
+ * The cursors that bound a page of messages, as in `RepositoryQuery`.
+ */
+type PageCursors = Pick<RepositoryQuery, 'startAt' | 'startAfter' | 'endAt' | 'endBefore'>;
+
+
+/**
+ * A cursor based window over a message collection.
+ *
+ * The window always holds a continuous range of messages, sorted by their creation time.
+ * It starts with the newest page (`loadLatest`) or with a page around a given date (`loadAround`)
+ * and can be extended page by page in both directions (`loadOlder`, `loadNewer`).
+ *
+ * Every loaded page gets its own snapshot listener that is bounded by the cursors of the page,
+ * so edits, reactions and deletions stay live for all loaded messages. Only the newest page is
+ * open ended and receives new messages.
+ *
+ * The messages are read with the `messageConverter`, invalid documents are left out.
+ */
+export class MessageWindow {
+  public messages: Message[] = [];
+
+  private _hasOlder = false;
+  get hasOlder(): boolean {
+    return this._hasOlder;
+  }
+
+  private _hasNewer = false;
+  get hasNewer(): boolean {
+    return this._hasNewer;
+  }
+
+  private _loading = false;
+  get loading(): boolean {
+    return this._loading;
+  }
+
+  /**
+   * The creation date of the oldest loaded message, also known before the first snapshot arrived.
+   */
+  get oldestLoadedDate(): Date | undefined {
+    return this.oldestCursor?.[0].toDate();
+  }
+
+  private oldestCursor: MessageCursor | undefined;
+  private newestCursor: MessageCursor | undefined;
+  private unsubscribes: (() => void)[] = [];
+  private generation = 0;
+
+
+  /**
+   * @param repository - The repository with the messages.
+   * @param messagesPath - The path of the message collection, e.g. `channels/{id}/messages/`.
+   * @param pageSize - The number of messages that are loaded per page.
+   * @param onChange - Called after every change of the message list, with `true` if messages were added.
+   */
+  constructor(
+    private repository: Repository,
+    readonly messagesPath: string,
+    readonly pageSize: number,
+    private onChange: (newMessagesAdded: boolean) => void
+  ) { }
+
+
+  /**
+   * Checks if a message is part of the loaded window.
+   *
+   * @param messageID - The ID of the message.
+   * @returns `true` if the message is loaded, otherwise `false`.
+   */
+  contains(messageID: string): boolean {
+    return this.messages.some((message) => message.id === messageID);
+  }
+
+
+  /**
+   * Resets the window and loads the newest page of messages.
+   * The newest page stays open ended, so new messages are added to the window.
+   */
+  async loadLatest(): Promise<void> {
+    const generation = this.reset();
+    this._loading = true;
+    const documents = await this.getMessageDocuments({ orderBy: this.orderBy('desc'), limit: this.pageSize });
+    if (generation !== this.generation) return;
+    this.oldestCursor = getLastCursor(documents);
+    this._hasOlder = documents.length === this.pageSize;
+    this._hasNewer = false;
+    this.subscribePage(this.oldestCursor ? { startAt: this.oldestCursor } : {});
+    this._loading = false;
+  }
+
+
+  /**
+   * Resets the window and loads the messages around the given date.
+   * Half a page before and half a page after the date is loaded. If there are not enough newer messages,
+   * the window is open ended like the newest page.
+   *
+   * @param date - The date to load the messages around.
+   */
+  async loadAround(date: Date): Promise<void> {
+    const generation = this.reset();
+    this._loading = true;
+    const halfPageSize = Math.ceil(this.pageSize / 2);
+    const timestamp = Timestamp.fromDate(date);
+    const [olderDocuments, newerDocuments] = await Promise.all([
+      this.getMessageDocuments({ where: [{ field: 'createdAt', op: '<=', value: timestamp }], orderBy: this.orderBy('desc'), limit: halfPageSize }),
+      this.getMessageDocuments({ where: [{ field: 'createdAt', op: '>', value: timestamp }], orderBy: this.orderBy('asc'), limit: halfPageSize }),
+    ]);
+    if (generation !== this.generation) return;
+    this.oldestCursor = getLastCursor(olderDocuments) ?? getLastCursor([...newerDocuments].reverse());
+    if (!this.oldestCursor) return this.loadLatest();
+    this._hasOlder = olderDocuments.length === halfPageSize;
+    const newestCursor = getLastCursor(newerDocuments);
+    if (newerDocuments.length < halfPageSize || !newestCursor) {
+      this._hasNewer = false;
+      this.subscribePage({ startAt: this.oldestCursor });
+    } else {
+      this.newestCursor = newestCursor;
+      this._hasNewer = true;
+      this.subscribePage({ startAt: this.oldestCursor, endAt: this.newestCursor });
+    }
+    this._loading = false;
+  }
+
+
+  /**
+   * Extends the window by the next older page of messages.
+   * Does nothing if there are no older messages or another page is currently loading.
+   */
+  async loadOlder(): Promise<void> {
+    if (!this._hasOlder || this._loading || !this.oldestCursor) return;
+    const generation = this.generation;
+    this._loading = true;
+    const documents = await this.getMessageDocuments({ orderBy: this.orderBy('desc'), startAfter: this.oldestCursor, limit: this.pageSize });
+    if (generation !== this.generation) return;
+    this._hasOlder = documents.length === this.pageSize;
+    const oldestCursor = getLastCursor(documents);
+    if (oldestCursor) {
+      const pageEnd = this.oldestCursor;
+      this.oldestCursor = oldestCursor;
+      this.subscribePage({ startAt: this.oldestCursor, endBefore: pageEnd });
+    }
+    this._loading = false;
+  }
+
+
+  /**
+   * Extends the window by the next newer page of messages.
+   * If the newest message is reached, the new page is open ended and receives new messages.
+   * Does nothing if the window already contains the newest messages or another page is currently loading.
+   */
+  async loadNewer(): Promise<void> {
+    if (!this._hasNewer || this._loading || !this.newestCursor) return;
+    const generation = this.generation;
+    this._loading = true;
+    const documents = await this.getMessageDocuments({ orderBy: this.orderBy('asc'), startAfter: this.newestCursor, limit: this.pageSize });
+    if (generation !== this.generation) return;
+    const pageStart = this.newestCursor;
+    const newestCursor = getLastCursor(documents);
+    if (documents.length < this.pageSize || !newestCursor) {
+      this._hasNewer = false;
+      this.newestCursor = undefined;
+      this.subscribePage({ startAfter: pageStart });
+    } else {
+      this.newestCursor = newestCursor;
+      this.subscribePage({ startAfter: pageStart, endAt: this.newestCursor });
+    }
+    this._loading = false;
+  }
+
+
+  /**
+   * Unsubscribes all page listeners. Pending page loads are ignored afterwards.
+   */
+  destroy(): void {
+    this.reset();
+  }
+
+
+  /**
+   * Unsubscribes all page listeners, clears the messages and starts a new generation,
+   * so results of page loads that were started before are dropped.
+   *
+   * @returns The new generation.
+   */
+  private reset(): number {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes = [];
+    this.messages = [];
+    this.oldestCursor = undefined;
+    this.newestCursor = undefined;
+    this._hasOlder = false;
+    this._hasNewer = false;
+    this._loading = false;
+    return ++this.generation;
+  }
+
+
+  /**
+   * Returns the order of the messages by creation time, messages created at the same time are ordered by ID.
+   */
+  private orderBy(direction: 'asc' | 'desc'): RepositoryQuery['orderBy'] {
+    return [{ field: 'createdAt', direction: direction }, { field: documentIDField, direction: direction }];
+  }
+
+
+  /**
+   * Reads messages of the collection with the `messageConverter`.
+   */
+  private getMessageDocuments(constraints: Omit<RepositoryQuery, 'collectionPath'>): Promise<RepositoryDocument<MessageData>[]> {
+    return this.repository.getDocuments({ collectionPath: this.messagesPath, ...constraints }, messageConverter);
+  }
+
+
+  /**
+   * Subscribes to a page of messages, bounded by the given cursors.
+   *
+   * - 'added': Adds the message to the window, or updates it if it is already known.
+   * - 'modified': Updates the message.
+   * - 'removed': Removes the message, as it was deleted.
+   *
+   * Invalid documents are logged by the repository and skipped.
+   *
+   * After every snapshot the messages are sorted by creation time and ID, like the queries, and `onChange` is called.
+   *
+   * @param cursors - The cursors of the page.
+   */
+  private subscribePage(cursors: PageCursors): void {
+    const pageQuery: RepositoryQuery = { collectionPath: this.messagesPath, orderBy: this.orderBy('asc'), ...cursors };
+    this.unsubscribes.push(this.repository.subscribeDocuments(pageQuery, messageConverter, (changes) => {
+      let newMessagesAdded = false;
+      changes.forEach((change) => {
+        const message = this.messages.find((message) => message.id === change.document.id);
+        if (change.type === 'removed') {
+          this.messages = this.messages.filter((message) => message.id !== change.document.id);
+        } else if (!change.document.data) {
+          return;
+        } else if (message) {
+          message.update(change.document.data);
+        } else {
+          newMessagesAdded = true;
+          this.messages.push(new Message(change.document.data, this.messagesPath, change.document.id));
+        }
+      });
+      if (newMessagesAdded) this.messages.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id));
+      this.onChange(newMessagesAdded);
+    }, (error) => console.error('MessageWindow: error subscribing to messages', error)));
+  }
+}
+
+
+/**
+ * Returns the cursor of the last document with a valid creation time.
+ *
+ * @param documents - The documents in the order of the query.
+ * @returns The cursor, or `undefined` if no document has a valid creation time.
+ */
+function getLastCursor(documents: RepositoryDocument<MessageData>[]): MessageCursor | undefined {
+  const document = [...documents].reverse().find((document) => document.data?.createdAt);
+  return document ? [document.data!.createdAt!, document.id] : undefined;
+}
@@ -0,0 +1,92 @@
+import { DocumentData, Timestamp } from '@angular/fire/firestore';
+import { reminderConverter, SchemaConverter } from './converters';
+import { MemoryRepository } from './memory-repository';
+import { getSchemaVersion, runMigrations } from './migrations';
+
+describe('runMigrations', () => {
+  const olderDocumentConverter = new SchemaConverter<DocumentData>('older document', {});
+  let repository: MemoryRepository;
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    await repository.setDocument('channels/c1/messages/m1', {
+      creatorID: 'anna',
+      content: 'Alt',
+      emojies: ['{"type":"👍","userIDs":["anna"]}'],
+      attachments: '[{"name":"a.pdf","type":"application/pdf","url":"u","path":"p"}]',
+    }, olderDocumentConverter);
+    await repository.setDocument('channels/c1/messages/m2', { creatorID: 'anna', content: 'Neu', emojies: [], schemaVersion: getSchemaVersion('messages') }, olderDocumentConverter);
+    await repository.setDocument('channels/c1/messages/m1/answers/a1', { creatorID: 'ben', content: 'Antwort', emojies: ['{"type":"🎉","userIDs":["ben"]}'] }, olderDocumentConverter);
+    await repository.setDocument('users/anna', {
+      name: 'Anna',
+      lastReadMessages: JSON.stringify([
+        { collectionType: 'channel', collectionID: 'c1', messageID: 'm1', messageCreateAt: 1000 },
+        { collectionType: 'chat', collectionID: 'x', messageID: 'm9', messageCreateAt: 1000 },
+      ]),
+      savedMessages: '[{"messagePath":"channels/c1/messages/m1","savedAt":5,"remindAt":9000},{"messagePath":"channels/c1/messages/gone","savedAt":6,"remindAt":9000}]',
+    }, olderDocumentConverter);
+    await repository.setDocument('users/anna/lastReadMessages/chat_x', { collectionType: 'chat', collectionID: 'x', messageID: 'm10', messageCreateAt: 2000 }, olderDocumentConverter);
+  });
+
+  async function getData(path: string): Promise<DocumentData | undefined> {
+    return (await repository.getDocument(path, olderDocumentConverter)).data;
+  }
+
+  it('only counts the documents to upgrade in a dry run', async () => {
+    const report = await runMigrations(repository, { dryRun: true, pageSize: 1 });
+    expect(report).toEqual(jasmine.objectContaining({ dryRun: true, scannedDocuments: 4, upgradedDocuments: 3, failedDocuments: 0 }));
+    expect(report.migrations.map((migration) => migration.documents)).toEqual([2, 2, 1, 1, 1]);
+    expect((await getData('channels/c1/messages/m1'))?.['emojies']).toEqual(['{"type":"👍","userIDs":["anna"]}']);
+    expect((await getData('users/anna'))?.['lastReadMessages']).toEqual(jasmine.any(String));
+    expect((await getData('users/anna/lastReadMessages/channel_c1'))).toBeUndefined();
+    expect((await repository.getDocuments({ collectionPath: 'users/anna/reminders' }, olderDocumentConverter)).length).toBe(0);
+  });
+
+  it('upgrades the documents and sets their schema version', async () => {
+    const report = await runMigrations(repository, { pageSize: 1 });
+    expect(report).toEqual(jasmine.objectContaining({ dryRun: false, scannedDocuments: 4, upgradedDocuments: 3, failedDocuments: 0 }));
+    const message = await getData('channels/c1/messages/m1');
+    expect(message?.['emojies']).toEqual([{ type: '👍', userIDs: ['anna'] }]);
+    expect(message?.['attachments']).toEqual([{ name: 'a.pdf', type: 'application/pdf', url: 'u', path: 'p' }]);
+    expect(message?.['schemaVersion']).toBe(getSchemaVersion('messages'));
+    expect((await getData('channels/c1/messages/m1/answers/a1'))?.['emojies']).toEqual([{ type: '🎉', userIDs: ['ben'] }]);
+    const user = await getData('users/anna');
+    expect(user?.['lastReadMessages']).toBeUndefined();
+    expect(user?.['savedMessages']).toEqual([{ messagePath: 'channels/c1/messages/m1', savedAt: 5 }, { messagePath: 'channels/c1/messages/gone', savedAt: 6 }]);
+    expect(user?.['schemaVersion']).toBe(getSchemaVersion('users'));
+  });
+
+  it('moves the last read messages into the subcollection without replacing newer records', async () => {
+    await runMigrations(repository);
+    expect((await getData('users/anna/lastReadMessages/channel_c1'))?.['messageID']).toBe('m1');
+    expect((await getData('users/anna/lastReadMessages/chat_x'))?.['messageID']).toBe('m10');
+  });
+
+  it('moves the reminders of saved messages into the reminders, without those of deleted messages', async () => {
+    await runMigrations(repository);
+    const reminders = await repository.getDocuments({ collectionPath: 'users/anna/reminders' }, reminderConverter);
+    expect(reminders.map((reminder) => reminder.data)).toEqual([jasmine.objectContaining({
+      messagePath: 'channels/c1/messages/m1',
+      messageCreatorID: 'anna',
+      excerpt: 'Alt',
+      remindAt: Timestamp.fromMillis(9000),
+      status: 'pending',
+    })]);
+  });
+
+  it('skips the upgraded documents when it runs again', async () => {
+    await runMigrations(repository);
+    const report = await runMigrations(repository, { pageSize: 2 });
+    expect(report).toEqual(jasmine.objectContaining({ scannedDocuments: 4, upgradedDocuments: 0, failedDocuments: 0 }));
+    expect(await runMigrations(repository, { dryRun: true })).toEqual(jasmine.objectContaining({ upgradedDocuments: 0 }));
+  });
+
+  it('counts failed documents and continues the run', async () => {
+    spyOn(console, 'error');
+    await repository.setDocument('users/ben', { name: 'Ben', lastReadMessages: 'kein JSON' }, olderDocumentConverter);
+    const report = await runMigrations(repository);
+    expect(report).toEqual(jasmine.objectContaining({ scannedDocuments: 5, upgradedDocuments: 3, failedDocuments: 1 }));
+    expect((await getData('users/ben'))?.['schemaVersion']).toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
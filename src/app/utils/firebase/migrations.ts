@@ -0,0 +1,300 @@
+import { DocumentData, Timestamp } from '@angular/fire/firestore';
+import { IReactions, StoredAttachment } from '../../shared/models/message.class';
+import { ReminderData } from '../../shared/models/reminder.class';
+import { LastReadMessage, SavedMessage } from '../../shared/models/user.class';
+import { SchemaConverter } from './converters';
+import { documentIDField, Repository, RepositoryDocument } from './repository';
+import { removeAllHTMLTagsFromString } from './utils';
+
+/**
+ * The changes of one migration to a document.
+ *
+ * @property update - The fields of the document that are updated.
+ * @property [setDocuments] - Further documents that are written, e.g. into a subcollection of the document.
+ */
+export type MigrationChanges = {
+  update: { [field: string]: any };
+  setDocuments?: { path: string; data: { [field: string]: any } }[];
+};
+
+/**
+ * A versioned migration of the documents of some collections.
+ * Documents store the version of their last migration in `schemaVersion`, documents without it have version 0.
+ *
+ * @property {number} version - The version a document has after the migration, unique over all migrations.
+ * @property {string} description - A short description of the migration.
+ * @property {string[]} collectionIDs - The IDs of the collections, as collection groups, e.g. 'messages' and 'answers'.
+ * @property upgrade - Returns the changes of a document. `getDocumentData` reads further documents, in the same transaction.
+ * Field values like `deleteField()` are created by `repository`.
+ */
+export type DocumentMigration = {
+  version: number;
+  description: string;
+  collectionIDs: string[];
+  upgrade: (data: DocumentData, path: string, getDocumentData: (path: string) => Promise<DocumentData | undefined>, repository: Repository) => Promise<MigrationChanges>;
+};
+
+/**
+ * The state of a migration run, reported after every page of documents.
+ */
+export type MigrationProgress = {
+  collectionID: string;
+  scannedDocuments: number;
+  upgradedDocuments: number;
+  failedDocuments: number;
+};
+
+/**
+ * The result of a migration run. In a dry run the documents are counted as upgraded without being written.
+ */
+export type MigrationReport = {
+  dryRun: boolean;
+  scannedDocuments: number;
+  upgradedDocuments: number;
+  failedDocuments: number;
+  migrations: { version: number; description: string; documents: number }[];
+};
+
+/**
+ * The options of a migration run.
+ *
+ * @property {boolean} [dryRun] - Only counts the documents that would be upgraded, nothing is written.
+ * @property {number} [pageSize] - The number of documents read at once, 100 by default.
+ * @property [onProgress] - Called after every page of documents.
+ */
+export type MigrationOptions = {
+  dryRun?: boolean;
+  pageSize?: number;
+  onProgress?: (progress: MigrationProgress) => void;
+};
+
+/**
+ * Reads and writes the migrated documents without schema, they may still have the format of any older version.
+ */
+const migrationConverter = new SchemaConverter<DocumentData>('migrated document', {});
+
+
+export const documentMigrations: DocumentMigration[] = [
+  {
+    version: 1,
+    description: 'Reaktionen als Maps speichern',
+    collectionIDs: ['messages', 'answers'],
+    upgrade: async (data) => (Array.isArray(data['emojies']) ? { update: { emojies: readReactions(data['emojies']) } } : { update: {} }),
+  },
+  {
+    version: 2,
+    description: 'Anhänge als Maps speichern',
+    collectionIDs: ['messages', 'answers'],
+    upgrade: async (data) => (typeof data['attachments'] === 'string' ? { update: { attachments: readStoredAttachments(data['attachments']) } } : { update: {} }),
+  },
+  {
+    version: 3,
+    description: 'Zuletzt gelesene Nachrichten in die Subcollection verschieben',
+    collectionIDs: ['users'],
+    upgrade: upgradeLegacyLastReadMessages,
+  },
+  {
+    version: 4,
+    description: 'Gespeicherte Nachrichten als Maps speichern',
+    collectionIDs: ['users'],
+    upgrade: async (data) => (typeof data['savedMessages'] === 'string' ? { update: { savedMessages: readSavedMessages(data['savedMessages']) } } : { update: {} }),
+  },
+  {
+    version: 5,
+    description: 'Erinnerungen gespeicherter Nachrichten in die Erinnerungen verschieben',
+    collectionIDs: ['users'],
+    upgrade: upgradeSavedMessageReminders,
+  },
+];
+
+
+/**
+ * Returns the version of the newest migration of a collection, new documents of the collection are stored with it.
+ *
+ * @param collectionID - The ID of the collection, e.g. 'messages'.
+ * @returns The version, 0 if the collection has no migrations.
+ */
+export function getSchemaVersion(collectionID: string): number {
+  return Math.max(0, ...documentMigrations.filter((migration) => migration.collectionIDs.includes(collectionID)).map((migration) => migration.version));
+}
+
+
+/**
+ * Reads the reactions of a message, stored as maps or, by older versions, as JSON strings.
+ *
+ * @param value - The `emojies` field of the message.
+ * @returns The reactions.
+ */
+export function readReactions(value: any): IReactions[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((reaction) => (typeof reaction === 'string' ? JSON.parse(reaction) : reaction));
+}
+
+
+/**
+ * Reads the attachments of a message, stored as array of maps or, by older versions, as JSON string.
+ *
+ * @param value - The `attachments` field of the message.
+ * @returns The attachments.
+ */
+export function readStoredAttachments(value: any): StoredAttachment[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value !== '') return JSON.parse(value);
+  return [];
+}
+
+
+/**
+ * Reads the saved messages of a user, stored as array of maps or, by older versions, as JSON string.
+ *
+ * @param value - The `savedMessages` field of the user.
+ * @returns The saved messages.
+ */
+export function readSavedMessages(value: any): SavedMessage[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value !== '') return JSON.parse(value);
+  return [];
+}
+
+
+/**
+ * Upgrades the documents of all collections with migrations to their newest version, collection by collection
+ * and page by page. Every document is upgraded in its own transaction, so concurrent changes, e.g. new reactions,
+ * aren't overwritten. Documents that fail are logged and counted, the run continues.
+ *
+ * @param repository - The repository with the documents.
+ * @param options - The options of the run.
+ * @returns A promise that resolves to the report of the run.
+ */
+export async function runMigrations(repository: Repository, options: MigrationOptions = {}): Promise<MigrationReport> {
+  const report: MigrationReport = {
+    dryRun: options.dryRun ?? false,
+    scannedDocuments: 0,
+    upgradedDocuments: 0,
+    failedDocuments: 0,
+    migrations: documentMigrations.map((migration) => ({ version: migration.version, description: migration.description, documents: 0 })),
+  };
+  const collectionIDs = [...new Set(documentMigrations.flatMap((migration) => migration.collectionIDs))];
+  for (const collectionID of collectionIDs) {
+    let lastPath: string | undefined;
+    do {
+      const documents = await repository.getDocuments({
+        collectionPath: collectionID,
+        collectionGroup: true,
+        orderBy: [{ field: documentIDField }],
+        ...(lastPath ? { startAfter: [lastPath] } : {}),
+        limit: options.pageSize ?? 100,
+      }, migrationConverter);
+      for (const document of documents) {
+        report.scannedDocuments++;
+        try {
+          const appliedVersions = await upgradeDocument(repository, document, report.dryRun);
+          if (appliedVersions.length > 0) report.upgradedDocuments++;
+          report.migrations.filter((migration) => appliedVersions.includes(migration.version)).forEach((migration) => migration.documents++);
+        } catch (error) {
+          report.failedDocuments++;
+          console.error('runMigrations: error upgrading ' + document.path, error);
+        }
+      }
+      lastPath = documents[documents.length - 1]?.path;
+      options.onProgress?.({ collectionID: collectionID, scannedDocuments: report.scannedDocuments, upgradedDocuments: report.upgradedDocuments, failedDocuments: report.failedDocuments });
+    } while (lastPath);
+  }
+  return report;
+}
+
+
+/**
+ * Upgrades one document. In a dry run the changes are only calculated from the read document.
+ *
+ * @param repository - The repository with the documents.
+ * @param document - The document as read by the run.
+ * @param dryRun - Nothing is written.
+ * @returns A promise that resolves to the versions of the applied migrations, empty if the document is up to date.
+ */
+async function upgradeDocument(repository: Repository, document: RepositoryDocument<DocumentData>, dryRun: boolean): Promise<number[]> {
+  if (dryRun) {
+    const upgrade = await getUpgrade(document.data ?? {}, document.path, async (path) => (await repository.getDocument(path, migrationConverter)).data, repository);
+    return upgrade.versions;
+  }
+  return await repository.runTransaction(async (transaction) => {
+    const currentDoc = await transaction.get(document.path, migrationConverter);
+    if (!currentDoc.exists) return [];
+    const upgrade = await getUpgrade(currentDoc.data ?? {}, currentDoc.path, async (path) => (await transaction.get(path, migrationConverter)).data, repository);
+    if (upgrade.versions.length === 0) return [];
+    transaction.update(currentDoc.path, { ...upgrade.update, schemaVersion: upgrade.versions[upgrade.versions.length - 1] });
+    upgrade.setDocuments.forEach((setDocument) => transaction.set(setDocument.path, setDocument.data, migrationConverter));
+    return upgrade.versions;
+  });
+}
+
+
+/**
+ * Applies the pending migrations of a document one after another to its data and collects their changes.
+ * All documents are read before anything is written, as required by transactions.
+ *
+ * @param data - The data of the document.
+ * @param path - The path of the document.
+ * @param getDocumentData - Reads further documents.
+ * @param repository - The repository that creates the field values of the changes.
+ * @returns A promise that resolves to the collected changes and the versions of the pending migrations.
+ */
+async function getUpgrade(data: DocumentData, path: string, getDocumentData: (path: string) => Promise<DocumentData | undefined>, repository: Repository) {
+  const collectionID = path.split('/').slice(-2)[0];
+  const documentVersion: number = data['schemaVersion'] ?? 0;
+  const pendingMigrations = documentMigrations.filter((migration) => migration.collectionIDs.includes(collectionID) && migration.version > documentVersion);
+  const upgrade = { update: {} as { [field: string]: any }, setDocuments: [] as { path: string; data: { [field: string]: any } }[], versions: [] as number[] };
+  for (const migration of pendingMigrations.sort((a, b) => a.version - b.version)) {
+    const changes = await migration.upgrade(data, path, getDocumentData, repository);
+    data = { ...data, ...changes.update };
+    upgrade.update = { ...upgrade.update, ...changes.update };
+    upgrade.setDocuments.push(...(changes.setDocuments ?? []));
+    upgrade.versions.push(migration.version);
+  }
+  return upgrade;
+}
+
+
+/**
+ * Moves the last read messages of older versions, stored as JSON string on the user document, into the
+ * `lastReadMessages` subcollection. A record of the subcollection is only replaced if the legacy record is newer.
+ */
+async function upgradeLegacyLastReadMessages(data: DocumentData, path: string, getDocumentData: (path: string) => Promise<DocumentData | undefined>, repository: Repository): Promise<MigrationChanges> {
+  if (typeof data['lastReadMessages'] !== 'string') return { update: {} };
+  const legacyLastReadMessages: LastReadMessage[] = JSON.parse(data['lastReadMessages']);
+  const setDocuments: { path: string; data: LastReadMessage }[] = [];
+  for (const lrm of legacyLastReadMessages) {
+    const lrmPath = path + '/lastReadMessages/' + lrm.collectionType + '_' + lrm.collectionID;
+    const storedLRM = (await getDocumentData(lrmPath)) as LastReadMessage | undefined;
+    if (!storedLRM || storedLRM.messageCreateAt < lrm.messageCreateAt) setDocuments.push({ path: lrmPath, data: { ...lrm } });
+  }
+  return { update: { lastReadMessages: repository.deleteField() }, setDocuments: setDocuments };
+}
+
+
+/**
+ * Moves the reminders of saved messages of older versions, stored as `remindAt` on the saved message, into the
+ * `reminders` subcollection, where the `ReminderService` sends them. Reminders of deleted messages are dropped.
+ */
+async function upgradeSavedMessageReminders(data: DocumentData, path: string, getDocumentData: (path: string) => Promise<DocumentData | undefined>): Promise<MigrationChanges> {
+  const savedMessages: (SavedMessage & { remindAt?: number })[] = readSavedMessages(data['savedMessages']);
+  if (!savedMessages.some((savedMessage) => savedMessage.remindAt !== undefined)) return { update: {} };
+  const setDocuments: { path: string; data: ReminderData }[] = [];
+  for (const savedMessage of savedMessages) {
+    if (savedMessage.remindAt === undefined) continue;
+    const messageData = await getDocumentData(savedMessage.messagePath);
+    if (!messageData) continue;
+    setDocuments.push({
+      path: path + '/reminders/saved_' + savedMessage.messagePath.split('/').join('_'),
+      data: {
+        messagePath: savedMessage.messagePath,
+        messageCreatorID: messageData['creatorID'] ?? '',
+        excerpt: removeAllHTMLTagsFromString(messageData['content'] ?? '').trim().substring(0, 120),
+        remindAt: Timestamp.fromMillis(savedMessage.remindAt),
+        createdAt: Timestamp.fromMillis(savedMessage.savedAt),
+        status: 'pending',
+      },
+    });
+  }
+  return { update: { savedMessages: savedMessages.map(({ remindAt: _, ...savedMessage }) => savedMessage) }, setDocuments: setDocuments };
+}
@@ -0,0 +1,238 @@
+import { DocumentData, FieldValue, UpdateData, WhereFilterOp, WithFieldValue } from '@angular/fire/firestore';
+import { SchemaConverter } from './converters';
+
+/**
+ * A query of the documents of a collection.
+ *
+ * @property {string} collectionPath - The path of the collection, or the collection ID if `collectionGroup` is set.
+ * @property {boolean} [collectionGroup] - Queries all collections with the ID `collectionPath`, e.g. all 'messages'.
+ * @property [where] - Only documents whose fields match all filters. Timestamps and dates can be compared with each other.
+ * @property [orderBy] - The sort order. Documents without the field are left out, as in Firestore.
+ * `documentIDField` orders by the document ID, or by the path in collection group queries.
+ * @property [startAt] - Only documents at or after these values of the `orderBy` fields, like a Firestore cursor.
+ * @property [startAfter] - Only documents after these values of the `orderBy` fields.
+ * @property [endAt] - Only documents at or before these values of the `orderBy` fields.
+ * @property [endBefore] - Only documents before these values of the `orderBy` fields.
+ * @property {number} [limit] - The maximum number of documents.
+ */
+export type RepositoryQuery = {
+  collectionPath: string;
+  collectionGroup?: boolean;
+  where?: { field: string; op: WhereFilterOp; value: any }[];
+  orderBy?: { field: string; direction?: 'asc' | 'desc' }[];
+  startAt?: any[];
+  startAfter?: any[];
+  endAt?: any[];
+  endBefore?: any[];
+  limit?: number;
+};
+
+/**
+ * The field of `RepositoryQuery.orderBy` that stands for the document ID, like `documentId()` in Firestore.
+ */
+export const documentIDField = '__name__';
+
+/**
+ * A read document.
+ *
+ * @property {string} id - The ID of the document.
+ * @property {string} path - The path of the document, without leading slash.
+ * @property {boolean} exists - The document exists.
+ * @property data - The validated data, `undefined` if the document doesn't exist or doesn't match its schema.
+ */
+export type RepositoryDocument<D> = {
+  id: string;
+  path: string;
+  exists: boolean;
+  data: D | undefined;
+};
+
+/**
+ * A change of the documents of a subscribed query. The data of removed documents is `undefined`.
+ */
+export type RepositoryChange<D> = {
+  type: 'added' | 'modified' | 'removed';
+  document: RepositoryDocument<D>;
+};
+
+/**
+ * The writes of a batch or transaction. New documents are validated with the converter, updates with `toUpdateData`.
+ */
+export interface RepositoryWriter {
+  set<D extends DocumentData>(path: string, data: WithFieldValue<D>, converter: SchemaConverter<D>): void;
+  update<D extends DocumentData = DocumentData>(path: string, data: UpdateData<D>, converter?: SchemaConverter<D>): void;
+  delete(path: string): void;
+}
+
+/**
+ * The writes of a batch, written at once with `commit`.
+ */
+export interface RepositoryBatch extends RepositoryWriter {
+  commit(): Promise<void>;
+}
+
+/**
+ * A transaction. All documents must be read before the first write. The transaction is repeated if a read document is
+ * changed by someone else before it is committed.
+ */
+export interface RepositoryTransaction extends RepositoryWriter {
+  get<D extends DocumentData>(path: string, converter: SchemaConverter<D>): Promise<RepositoryDocument<D>>;
+}
+
+
+/**
+ * The storage of the documents and files of the app. The services read and write through it instead of calling
+ * Firestore and Storage directly, so they can run against the `MemoryRepository` in tests.
+ * `FirestoreRepository` is provided in `app.config.ts`.
+ *
+ * All documents are read and written with a `SchemaConverter`, see `converters.ts`. Invalid documents are logged and
+ * read with `data: undefined`. Field values like `increment()` must be created by the repository they are written to.
+ */
+export abstract class Repository {
+
+  /**
+   * Reads a document.
+   *
+   * @param path - The path of the document.
+   * @param converter - The converter of the document.
+   * @returns A promise that resolves to the document, with `exists: false` if there is none.
+   */
+  abstract getDocument<D extends DocumentData>(path: string, converter: SchemaConverter<D>): Promise<RepositoryDocument<D>>;
+
+
+  /**
+   * Reads the documents of a query.
+   *
+   * @param query - The query.
+   * @param converter - The converter of the documents.
+   * @returns A promise that resolves to the documents.
+   */
+  abstract getDocuments<D extends DocumentData>(query: RepositoryQuery, converter: SchemaConverter<D>): Promise<RepositoryDocument<D>[]>;
+
+
+  /**
+   * Subscribes the changes of the documents of a query. The current documents are passed as 'added' first.
+   *
+   * @param query - The query.
+   * @param converter - The converter of the documents.
+   * @param onChanges - Called with the changes since the last call.
+   * @param onError - Called if the subscription fails.
+   * @returns A function that ends the subscription.
+   */
+  abstract subscribeDocuments<D extends DocumentData>(query: RepositoryQuery, converter: SchemaConverter<D>, onChanges: (changes: RepositoryChange<D>[]) => void, onError?: (error: Error) => void): () => void;
+
+
+  /**
+   * Creates the ID of a new document, without writing anything.
+   *
+   * @param collectionPath - The path of the collection of the document.
+   * @returns The new ID.
+   */
+  abstract createDocumentID(collectionPath: string): string;
+
+
+  /**
+   * Adds a new document with a new ID.
+   *
+   * @param collectionPath - The path of the collection.
+   * @param data - The data of the document.
+   * @param converter - The converter of the document.
+   * @returns A promise that resolves to the ID of the new document.
+   */
+  abstract addDocument<D extends DocumentData>(collectionPath: string, data: WithFieldValue<D>, converter: SchemaConverter<D>): Promise<string>;
+
+
+  /**
+   * Writes a document, an existing document is replaced.
+   *
+   * @param path - The path of the document.
+   * @param data - The data of the document.
+   * @param converter - The converter of the document.
+   */
+  abstract setDocument<D extends DocumentData>(path: string, data: WithFieldValue<D>, converter: SchemaConverter<D>): Promise<void>;
+
+
+  /**
+   * Updates fields of an existing document. Nested fields can be given as paths, e.g. `pollVotes.o0`.
+   *
+   * @param path - The path of the document.
+   * @param data - The fields to update.
+   * @param converter - The converter that validates the fields, if any.
+   * @throws An error if the document doesn't exist or a field doesn't match the schema.
+   */
+  abstract updateDocument<D extends DocumentData = DocumentData>(path: string, data: UpdateData<D>, converter?: SchemaConverter<D>): Promise<void>;
+
+
+  /**
+   * Deletes a document. Its subcollections are not deleted.
+   *
+   * @param path - The path of the document.
+   */
+  abstract deleteDocument(path: string): Promise<void>;
+
+
+  /**
+   * Starts a batch of writes.
+   *
+   * @returns The batch.
+   */
+  abstract batch(): RepositoryBatch;
+
+
+  /**
+   * Runs a transaction.
+   *
+   * @param updateFunction - Reads and writes the documents of the transaction. It may be called more than once.
+   * @returns A promise that resolves to the result of the last call of `updateFunction`.
+   */
+  abstract runTransaction<T>(updateFunction: (transaction: RepositoryTransaction) => Promise<T>): Promise<T>;
+
+
+  /**
+   * Returns a field value that is replaced by the time of the write.
+   */
+  abstract serverTimestamp(): FieldValue;
+
+
+  /**
+   * Returns a field value that adds `value` to the stored number, missing numbers count as 0.
+   */
+  abstract increment(value: number): FieldValue;
+
+
+  /**
+   * Returns a field value that adds the elements to the stored array, except those it already contains.
+   */
+  abstract arrayUnion(...elements: any[]): FieldValue;
+
+
+  /**
+   * Returns a field value that removes all instances of the elements from the stored array.
+   */
+  abstract arrayRemove(...elements: any[]): FieldValue;
+
+
+  /**
+   * Returns a field value that deletes the field.
+   */
+  abstract deleteField(): FieldValue;
+
+
+  /**
+   * Uploads a file.
+   *
+   * @param path - The path of the file in the storage.
+   * @param file - The content of the file.
+   * @returns A promise that resolves to the download URL of the file.
+   */
+  abstract uploadFile(path: string, file: Blob): Promise<string>;
+
+
+  /**
+   * Deletes a file.
+   *
+   * @param path - The path of the file in the storage.
+   * @throws An error if the file doesn't exist.
+   */
+  abstract deleteFile(path: string): Promise<void>;
+}
@@ -0,0 +1,82 @@
+import { channelConverter, messageConverter, userConverter, userGroupConverter } from './converters';
+import { MemoryRepository } from './memory-repository';
+import { FixtureError, seedWorkspace, validateWorkspaceFixture, WorkspaceFixture } from './seeding';
+import { dabubbleBotId } from './utils';
+
+describe('seeding', () => {
+  let repository: MemoryRepository;
+  let fixture: WorkspaceFixture;
+
+  beforeEach(() => {
+    repository = new MemoryRepository();
+    fixture = {
+      name: 'Test',
+      users: [
+        { id: 'anna', name: 'Anna', email: 'anna@dabubble.test', password: 'dabubble' },
+        { id: 'ben', name: 'Ben', email: 'ben@dabubble.test', password: 'dabubble', avatar: 2 },
+      ],
+      userGroups: [{ id: 'team', name: 'team', creator: 'anna', members: ['anna', 'ben'] }],
+      channels: [{
+        id: 'allgemein',
+        name: 'Allgemein',
+        creator: 'anna',
+        members: ['anna', 'ben'],
+        messages: [
+          { creator: 'anna', createdAt: '2024-08-01T08:00:00Z', content: '<p>Hallo</p>', answers: [
+            { creator: 'ben', createdAt: '2024-08-01T08:05:00Z', content: '<p>Hallo Anna</p>' },
+            { creator: 'anna', createdAt: '2024-08-01T08:10:00Z', content: '<p>Hallo Ben</p>' },
+          ] },
+          { creator: 'ben', createdAt: '2024-08-01T09:00:00Z', content: '<p>Ohne Thread</p>' },
+        ],
+      }],
+    };
+  });
+
+  it('reports all references to unknown users and invalid dates', () => {
+    fixture.channels[0].members.push('carla');
+    fixture.channels[0].messages![0].answers![0].createdAt = 'gestern';
+    try {
+      validateWorkspaceFixture(fixture);
+      fail('expected a FixtureError');
+    } catch (error) {
+      expect(error).toEqual(jasmine.any(FixtureError));
+      expect((error as FixtureError).issues).toEqual([
+        'channel allgemein refers to the unknown user "carla"',
+        'answer 1 of message 1 of channel allgemein has the invalid date "gestern"',
+      ]);
+    }
+  });
+
+  it('writes the users and user groups with the IDs of the fixture', async () => {
+    await seedWorkspace(repository, fixture);
+    expect((await repository.getDocument('users/ben', userConverter)).data).toEqual(jasmine.objectContaining({ name: 'Ben', email: 'ben@dabubble.test', avatar: 2, emailVerified: true }));
+    expect((await repository.getDocument('userGroups/team', userGroupConverter)).data?.memberIDs).toEqual(['anna', 'ben']);
+  });
+
+  it('always writes the DABubble bot with its fixed ID', async () => {
+    fixture.channels[0].members.push(dabubbleBotId);
+    validateWorkspaceFixture(fixture);
+    await seedWorkspace(repository, fixture);
+    expect((await repository.getDocument('users/' + dabubbleBotId, userConverter)).data?.name).toBe('DABubble Bot');
+  });
+
+  it('writes the channels with counted messages and threads', async () => {
+    await seedWorkspace(repository, fixture);
+    expect((await repository.getDocument('channels/allgemein', channelConverter)).data?.messagesCount).toBe(2);
+    const threadMessage = (await repository.getDocument('channels/allgemein/messages/m1', messageConverter)).data!;
+    expect(threadMessage.plainContent).toBe('Hallo');
+    expect(threadMessage.answerCount).toBe(2);
+    expect(threadMessage.lastAnswerAt?.toDate()).toEqual(new Date('2024-08-01T08:10:00Z'));
+    expect(threadMessage.threadFollowerIDs).toEqual(['anna', 'ben']);
+    const answerDocs = await repository.getDocuments({ collectionPath: 'channels/allgemein/messages/m1/answers', orderBy: [{ field: 'createdAt' }] }, messageConverter);
+    expect(answerDocs.map((answerDoc) => answerDoc.data?.creatorID)).toEqual(['ben', 'anna']);
+    expect(answerDocs[0].data?.answerable).toBeFalse();
+  });
+
+  it('overwrites the documents when the fixture is seeded again', async () => {
+    await seedWorkspace(repository, fixture);
+    await seedWorkspace(repository, fixture);
+    expect((await repository.getDocuments({ collectionPath: 'channels/allgemein/messages' }, messageConverter)).length).toBe(2);
+    expect((await repository.getDocuments({ collectionPath: 'users' }, userConverter)).length).toBe(3);
+  });
+});
@@ -0,0 +1,277 @@
+import { Timestamp } from '@angular/fire/firestore';
+import { MessageData } from '../../shared/models/message.class';
+import { EmulatorEnvironment } from '../../../environments/environment-type';
+import { channelConverter, messageConverter, userConverter, userGroupConverter } from './converters';
+import { getSchemaVersion } from './migrations';
+import { RepositoryBatch, Repository } from './repository';
+import { dabubbleBotId, removeAllHTMLTagsFromString } from './utils';
+
+/**
+ * A message of a channel fixture, with its thread.
+ *
+ * @property {string} creator - The ID of the user fixture that wrote the message.
+ * @property {string} createdAt - The time of the message as ISO string, e.g. `2024-08-01T13:00:00Z`.
+ * @property {string} content - The HTML content.
+ * @property {MessageFixture[]} [answers] - The answers of the thread, without answers of their own.
+ */
+export type MessageFixture = {
+  creator: string;
+  createdAt: string;
+  content: string;
+  answers?: MessageFixture[];
+};
+
+/**
+ * A user fixture. The user is created in the Auth emulator with a verified email and in `users/{id}`.
+ */
+export type UserFixture = {
+  id: string;
+  name: string;
+  email: string;
+  password: string;
+  avatar?: number;
+  guest?: boolean;
+};
+
+/**
+ * A user group fixture. `creator` and `members` are IDs of user fixtures.
+ */
+export type UserGroupFixture = {
+  id: string;
+  name: string;
+  description?: string;
+  creator: string;
+  members: string[];
+};
+
+/**
+ * A channel fixture with its messages. `creator` and `members` are IDs of user fixtures.
+ */
+export type ChannelFixture = {
+  id: string;
+  name: string;
+  description?: string;
+  creator: string;
+  members: string[];
+  defaultChannel?: boolean;
+  messages?: MessageFixture[];
+};
+
+/**
+ * A workspace fixture, one JSON file in `src/fixtures`.
+ */
+export type WorkspaceFixture = {
+  name: string;
+  users: UserFixture[];
+  userGroups?: UserGroupFixture[];
+  channels: ChannelFixture[];
+};
+
+
+/**
+ * The error of a fixture that can't be seeded, with all its issues.
+ */
+export class FixtureError extends Error {
+  constructor(readonly fixtureName: string, readonly issues: string[]) {
+    super('Invalid fixture ' + fixtureName + ': ' + issues.join('; '));
+    this.name = 'FixtureError';
+  }
+}
+
+const maxBatchWrites = 500;
+
+/**
+ * The DABubble bot, written by every seeding. Signup, login and reminders write to the chat with it, see `dabubbleBotId`.
+ */
+const dabubbleBotFixture: Omit<UserFixture, 'password'> = { id: dabubbleBotId, name: 'DABubble Bot', email: 'bot@dabubble.test', avatar: 0 };
+
+
+/**
+ * Checks that a workspace fixture only refers to its own users or the DABubble bot and that its dates can be read.
+ *
+ * @param fixture - The parsed fixture.
+ * @throws {FixtureError} If the fixture has issues.
+ */
+export function validateWorkspaceFixture(fixture: WorkspaceFixture) {
+  const userIDs = new Set([dabubbleBotId, ...fixture.users.map((user) => user.id)]);
+  const issues: string[] = [];
+  const checkUser = (userID: string, context: string) => {
+    if (!userIDs.has(userID)) issues.push(context + ' refers to the unknown user "' + userID + '"');
+  };
+  const checkMessage = (message: MessageFixture, context: string) => {
+    checkUser(message.creator, context);
+    if (isNaN(Date.parse(message.createdAt))) issues.push(context + ' has the invalid date "' + message.createdAt + '"');
+  };
+  fixture.userGroups?.forEach((group) => [group.creator, ...group.members].forEach((userID) => checkUser(userID, 'user group ' + group.id)));
+  fixture.channels.forEach((channel) => {
+    [channel.creator, ...channel.members].forEach((userID) => checkUser(userID, 'channel ' + channel.id));
+    channel.messages?.forEach((message, index) => {
+      checkMessage(message, 'message ' + (index + 1) + ' of channel ' + channel.id);
+      message.answers?.forEach((answer, answerIndex) => checkMessage(answer, 'answer ' + (answerIndex + 1) + ' of message ' + (index + 1) + ' of channel ' + channel.id));
+    });
+  });
+  if (issues.length > 0) throw new FixtureError(fixture.name, issues);
+}
+
+
+/**
+ * Writes the users, user groups, channels, messages and threads of a workspace fixture, and the DABubble bot with
+ * its fixed ID, unless the fixture has a user with that ID.
+ * The documents get the IDs of the fixture, messages `m1`, `m2`, ... and answers `a1`, `a2`, ..., so seeding
+ * the same fixture again overwrites its documents instead of adding copies.
+ *
+ * @param repository - The repository to write to.
+ * @param fixture - The validated fixture, see `validateWorkspaceFixture`.
+ * @returns A promise that resolves when all documents are written.
+ */
+export async function seedWorkspace(repository: Repository, fixture: WorkspaceFixture) {
+  const writer = new BatchWriter(repository);
+  const users: Omit<UserFixture, 'password'>[] = fixture.users.some((user) => user.id === dabubbleBotId) ? fixture.users : [dabubbleBotFixture, ...fixture.users];
+  users.forEach((user) => {
+    writer.batch().set('users/' + user.id, {
+      name: user.name,
+      email: user.email,
+      avatar: user.avatar ?? 0,
+      online: false,
+      signupAt: repository.serverTimestamp(),
+      chatIDs: [],
+      emailVerified: true,
+      guest: user.guest ?? false,
+      provider: user.guest ? 'guest' : 'email',
+      schemaVersion: getSchemaVersion('users'),
+    }, userConverter);
+  });
+  fixture.userGroups?.forEach((group) => {
+    writer.batch().set('userGroups/' + group.id, {
+      name: group.name,
+      description: group.description ?? '',
+      memberIDs: group.members,
+      creatorID: group.creator,
+      createdAt: repository.serverTimestamp(),
+    }, userGroupConverter);
+  });
+  fixture.channels.forEach((channel) => seedChannel(writer, channel));
+  await writer.commit();
+}
+
+
+/**
+ * Adds the channel of a fixture with its messages and threads to the writer.
+ *
+ * @param writer - The writer of the seeding.
+ * @param channel - The channel fixture.
+ */
+function seedChannel(writer: BatchWriter, channel: ChannelFixture) {
+  const messages = channel.messages ?? [];
+  writer.batch().set('channels/' + channel.id, {
+    name: channel.name,
+    description: channel.description ?? '',
+    createdAt: writer.repository.serverTimestamp(),
+    creatorID: channel.creator,
+    memberIDs: channel.members,
+    defaultChannel: channel.defaultChannel ?? false,
+    messagesCount: messages.length,
+  }, channelConverter);
+  messages.forEach((message, index) => {
+    const messagePath = 'channels/' + channel.id + '/messages/m' + (index + 1);
+    const answers = message.answers ?? [];
+    const lastAnswer = answers[answers.length - 1];
+    writer.batch().set(messagePath, {
+      ...createMessageData(message, true),
+      answerCount: answers.length,
+      ...(lastAnswer ? { lastAnswerAt: toTimestamp(lastAnswer.createdAt) } : {}),
+      threadFollowerIDs: [...new Set([message.creator, ...answers.map((answer) => answer.creator)])],
+    }, messageConverter);
+    answers.forEach((answer, answerIndex) => {
+      writer.batch().set(messagePath + '/answers/a' + (answerIndex + 1), createMessageData(answer, false), messageConverter);
+    });
+  });
+}
+
+
+/**
+ * Creates the stored data of a message fixture, like `MessageService` stores new messages.
+ *
+ * @param message - The message fixture.
+ * @param answerable - Whether the message can get answers, `false` for answers.
+ * @returns The message data.
+ */
+function createMessageData(message: MessageFixture, answerable: boolean): MessageData {
+  return {
+    creatorID: message.creator,
+    createdAt: toTimestamp(message.createdAt),
+    content: message.content,
+    plainContent: removeAllHTMLTagsFromString(message.content),
+    emojies: [],
+    answerable: answerable,
+    mentionedUserIDs: [],
+    schemaVersion: getSchemaVersion('messages'),
+  };
+}
+
+
+/**
+ * Converts an ISO date of a fixture to a timestamp.
+ */
+function toTimestamp(isoDate: string): Timestamp {
+  return Timestamp.fromMillis(Date.parse(isoDate));
+}
+
+
+/**
+ * Creates the user of a fixture in the Auth emulator, with a verified email and the fixture ID as user ID.
+ * Existing users are left as they are. The `owner` token is only accepted by the emulator.
+ *
+ * @param emulators - The emulators of the environment.
+ * @param projectID - The project ID of the emulators.
+ * @param user - The user fixture.
+ * @returns A promise that resolves when the user exists.
+ * @throws {Error} If the emulator refuses the user for another reason.
+ */
+export async function createEmulatorAuthUser(emulators: EmulatorEnvironment, projectID: string, user: UserFixture) {
+  const url = 'http://' + emulators.host + ':' + emulators.authPort + '/identitytoolkit.googleapis.com/v1/projects/' + projectID + '/accounts';
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer owner' },
+    body: JSON.stringify({ localId: user.id, email: user.email, password: user.password, displayName: user.name, emailVerified: true }),
+  });
+  if (response.ok) return;
+  const message: string = (await response.json())?.error?.message ?? response.statusText;
+  if (!message.startsWith('DUPLICATE_LOCAL_ID') && !message.startsWith('EMAIL_EXISTS')) {
+    throw new Error('Auth emulator refused user ' + user.id + ': ' + message);
+  }
+}
+
+
+/**
+ * Collects writes in batches, with a new batch before the Firestore limit of writes per batch is reached.
+ */
+class BatchWriter {
+  private batches: RepositoryBatch[] = [];
+  private writesOfLastBatch = 0;
+
+  constructor(readonly repository: Repository) { }
+
+
+  /**
+   * Returns the batch for the next write.
+   */
+  batch(): RepositoryBatch {
+    if (this.batches.length === 0 || this.writesOfLastBatch === maxBatchWrites) {
+      this.batches.push(this.repository.batch());
+      this.writesOfLastBatch = 0;
+    }
+    this.writesOfLastBatch++;
+    return this.batches[this.batches.length - 1];
+  }
+
+
+  /**
+   * Commits all batches, one after another.
+   */
+  async commit() {
+    for (const batch of this.batches) {
+      await batch.commit();
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { WithFieldValue } from '@angular/fire/firestore';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { IReactions, Message, MessageData } from '../../shared/models/message.class';
+import { getObjectsPath, getParentObjectPath } from './utils';
+import { readReactions } from './migrations';
+import { messageConverter } from './converters';
+import { Repository } from './repository';
+
+
+/**
+ * Stores a new message and counts it with an increment of the `messagesCount` or `answerCount` of its parent,
+ * in one transaction. If the message already exists, e.g. because the outbox sends it again, it is overwritten without
+ * being counted again.
+ *
+ * A thread answer that is also sent to the channel or chat is stored together with a copy there. The answer stores
+ * the path of the copy and the copy the path of the answer, so edits and deletions of one of them are applied to both.
+ * The copy is a normal message of the channel, without own thread, and is counted in the `messagesCount` of the channel.
+ *
+ * @param repository - The repository.
+ * @param collectionObject - The channel, chat or message (thread) of the new message.
+ * @param messagePath - The path of the new message.
+ * @param messageObject - The data of the new message.
+ * @param parentUpdateData - Further fields of the parent that are updated with the count, e.g. `lastAnswerAt` of a thread.
+ * @param alsoSendToChannel - Only for thread answers: a copy of the answer is stored in the channel or chat of the thread.
+ * @returns A promise that resolves to the path of the copy, if any.
+ */
+export async function storeNewMessage(
+  repository: Repository,
+  collectionObject: Channel | Chat | Message,
+  messagePath: string,
+  messageObject: WithFieldValue<MessageData>,
+  parentUpdateData: { [field: string]: any } = {},
+  alsoSendToChannel: boolean = false
+): Promise<string | undefined> {
+  return await repository.runTransaction(async (transaction) => {
+    const messageDoc = await transaction.get(messagePath, messageConverter);
+    const storedCopyPath = messageDoc.data?.channelCopyPath;
+    let copyPath: string | undefined;
+    let copyExists = false;
+    if (alsoSendToChannel && collectionObject instanceof Message) {
+      copyPath = storedCopyPath ?? collectionObject.collectionPath + repository.createDocumentID(collectionObject.collectionPath);
+      copyExists = !!storedCopyPath && (await transaction.get(copyPath, messageConverter)).exists;
+    }
+    const countField = collectionObject instanceof Message ? 'answerCount' : 'messagesCount';
+    transaction.update(getObjectsPath(collectionObject), { ...parentUpdateData, [countField]: repository.increment(messageDoc.exists ? 0 : 1) });
+    if (copyPath && collectionObject instanceof Message) {
+      transaction.set(messagePath, { ...messageObject, channelCopyPath: copyPath }, messageConverter);
+      transaction.set(copyPath, { ...messageObject, answerable: true, threadAnswerPath: messagePath }, messageConverter);
+      if (!copyExists) transaction.update(getParentObjectPath(collectionObject.collectionPath), { messagesCount: repository.increment(1) });
+    } else transaction.set(messagePath, messageObject, messageConverter);
+    return copyPath;
+  });
+}
+
+
+/**
+ * Deletes a message and decrements the `messagesCount` or `answerCount` of its parent in one transaction.
+ * A message that was already deleted, e.g. by another client, isn't counted again. Answers are not deleted.
+ *
+ * @param repository - The repository.
+ * @param message - The message to delete.
+ * @returns A promise that resolves to `true` if the message was deleted, or `false` if it didn't exist.
+ */
+export async function deleteCountedMessage(repository: Repository, message: Message): Promise<boolean> {
+  return await repository.runTransaction(async (transaction) => {
+    const messageDoc = await transaction.get(message.messagePath, messageConverter);
+    if (!messageDoc.exists) return false;
+    transaction.delete(message.messagePath);
+    transaction.update(getParentObjectPath(message.collectionPath), { [message.answerable ? 'messagesCount' : 'answerCount']: repository.increment(-1) });
+    return true;
+  });
+}
+
+
+/**
+ * Toggles the reaction of a user to a message. The reactions are read and written in a transaction,
+ * so concurrent reactions of other users are not lost.
+ *
+ * @param repository - The repository.
+ * @param messagePath - The path of the message.
+ * @param emoji - The emoji of the reaction.
+ * @param userID - The user that reacts.
+ * @returns A promise that resolves to `true` if the reaction was added, or `false` if it was removed.
+ * @throws An error if the message doesn't exist.
+ */
+export async function toggleReaction(repository: Repository, messagePath: string, emoji: string, userID: string): Promise<boolean> {
+  return await repository.runTransaction(async (transaction) => {
+    const messageDoc = await transaction.get(messagePath, messageConverter);
+    if (!messageDoc.exists) throw new Error('Die Nachricht existiert nicht mehr.');
+    const reactions = readReactions(messageDoc.data?.emojies);
+    const reactionAdded = !reactions.some((reaction) => reaction.type === emoji && reaction.userIDs.includes(userID));
+    transaction.update(messagePath, { emojies: getToggledReactions(reactions, emoji, userID) }, messageConverter);
+    return reactionAdded;
+  });
+}
+
+
+/**
+ * Adds or removes the reaction of a user. A reaction without users is removed.
+ * Has no side effects, as it runs in transactions that may be repeated.
+ *
+ * @param reactions - The current reactions.
+ * @param emoji - The emoji of the reaction.
+ * @param userID - The user that reacts.
+ * @returns The new reactions.
+ */
+export function getToggledReactions(reactions: IReactions[], emoji: string, userID: string): IReactions[] {
+  const reaction = reactions.find((reaction) => reaction.type === emoji);
+  if (!reaction) return [...reactions, { type: emoji, userIDs: [userID] }];
+  const userIDs = reaction.userIDs.includes(userID) ? reaction.userIDs.filter((id) => id !== userID) : [...reaction.userIDs, userID];
+  return reactions
+    .map((otherReaction) => (otherReaction === reaction ? { type: emoji, userIDs: userIDs } : otherReaction))
+    .filter((otherReaction) => otherReaction.userIDs.length > 0);
+}
@@ -126,6 +126,20 @@ export function getObjectsPath(
     : collectionObject.messagePath;
 }
 
+/**
+ * Returns the path of the object that owns a message collection.
+ *
+ * - 'channels/{id}/messages/' returns 'channels/{id}'
+ * - 'chats/{id}/messages/' returns 'chats/{id}'
+ * - 'channels/{id}/messages/{messageID}/answers/' returns 'channels/{id}/messages/{messageID}'
+ *
+ * @param collectionPath - The path of the message or answer collection, with or without trailing slash.
+ * @returns The path of the channel, chat or message that owns the collection.
+ */
+export function getParentObjectPath(collectionPath: string): string {
+  return collectionPath.replace(/\/(messages|answers)\/?$/, '');
+}
+
 /**
  * Removes all HTML tags from a given string.
  *
@@ -135,3 +149,78 @@ export function getObjectsPath(
 export function removeAllHTMLTagsFromString(text: string): string {
   return text.replace(/<[^>]*>/g, '');
 }
+
+
+/**
+ * Returns the IDs of the users mentioned in the content of a message.
+ * Mentions are stored as spans with the class `highlight-user` and the ID of the user as `id`.
+ *
+ * @param content - The content of the message as HTML.
+ * @returns The IDs of the mentioned users, without duplicates.
+ */
+export function getMentionedUserIDs(content: string): string[] {
+  return getSpanIDs(content, 'highlight-user');
+}
+
+
+/**
+ * Returns the IDs of the user groups mentioned in the content of a message.
+ * Group mentions are stored as spans with the class `highlight-group` and the ID of the group as `id`.
+ *
+ * @param content - The content of the message as HTML.
+ * @returns The IDs of the mentioned groups, without duplicates.
+ */
+export function getMentionedGroupIDs(content: string): string[] {
+  return getSpanIDs(content, 'highlight-group');
+}
+
+
+/**
+ * Returns the `id` attributes of the spans with a class in the content of a message.
+ *
+ * @param content - The content of the message as HTML.
+ * @param spanClass - The class of the spans, e.g. `highlight-user`.
+ * @returns The IDs, without duplicates.
+ */
+function getSpanIDs(content: string, spanClass: string): string[] {
+  const ids: string[] = [];
+  for (const span of content.match(new RegExp('<span[^>]*class="' + spanClass + '"[^>]*>', 'g')) ?? []) {
+    const id = span.match(/\sid="([^"]+)"/)?.[1];
+    if (id && !ids.includes(id)) ids.push(id);
+  }
+  return ids;
+}
+
+
+/**
+ * The broadcast mentions of a channel: `@channel` mentions all members, `@here` the members that are online.
+ */
+export type BroadcastMentionKeyword = 'channel' | 'here';
+
+
+/**
+ * Returns the broadcast mentions in the content of a message.
+ * They are stored as spans with the class `highlight-broadcast` and the keyword as `id`.
+ *
+ * @param content - The content of the message as HTML.
+ * @returns The keywords of the broadcast mentions, without duplicates.
+ */
+export function getBroadcastMentions(content: string): BroadcastMentionKeyword[] {
+  const keywords: BroadcastMentionKeyword[] = [];
+  for (const span of content.match(/<span[^>]*class="highlight-broadcast"[^>]*>/g) ?? []) {
+    const keyword = span.match(/\sid="([^"]+)"/)?.[1];
+    if ((keyword === 'channel' || keyword === 'here') && !keywords.includes(keyword)) keywords.push(keyword);
+  }
+  return keywords;
+}
+
+
+/**
+ * Escapes the HTML special characters of a text, so it can be used as content of a message.
+ *
+ * @param text - The plain text.
+ * @returns The text with `&`, `<`, `>`, `"` and `'` replaced by HTML entities.
+ */
+export function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
@@ -1,11 +1,16 @@
 import { inject } from '@angular/core';
 import { CanActivateFn, Router } from '@angular/router';
 import { UsersService } from '../services/user.service';
+import { NavigationService } from '../services/navigation.service';
 
 export const currentUserExistsGuard: CanActivateFn = (route, state) => {
   const userservice = inject(UsersService);
   const router = inject(Router);
+  const navigationService = inject(NavigationService);
 
-  if(!userservice.currentUser) router.navigate(['']);
+  if(!userservice.currentUser) {
+    navigationService.setDeepLinkUrl(state.url);
+    router.navigate(['']);
+  }
   return true;
 };
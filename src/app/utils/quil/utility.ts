@@ -2,7 +2,9 @@ import Quill from 'quill';
 import { Range as QuillRange } from 'quill/core/selection';
 import { User } from '../../shared/models/user.class';
 import { Channel } from '../../shared/models/channel.class';
+import { UserGroup } from '../../shared/models/user-group.class';
 import { LockedSpanBlot } from '../../shared/models/lockedspan.class';
+import { BroadcastMentionKeyword } from '../firebase/utils';
 
 
 /**
@@ -20,6 +22,30 @@ export type EditedTextLength = {
 };
 
 
+/**
+ * A broadcast mention in the picker, inserted as `@channel` or `@here`.
+ *
+ * @typedef {Object} BroadcastMention
+ * @property {BroadcastMentionKeyword} id - The keyword, stored as `id` of the span.
+ * @property {string} name - The text after the `@`.
+ * @property {string} description - The description shown in the picker.
+ */
+export type BroadcastMention = {
+    id: BroadcastMentionKeyword;
+    name: string;
+    description: string;
+};
+
+
+/**
+ * The broadcast mentions offered in the picker of a channel.
+ */
+export const broadcastMentions: BroadcastMention[] = [
+    { id: 'channel', name: 'channel', description: 'Benachrichtigt alle Mitglieder des Channels' },
+    { id: 'here', name: 'here', description: 'Benachrichtigt alle Mitglieder, die gerade online sind' },
+];
+
+
 /**
  * Checks if the provided message is considered empty.
  *
@@ -94,16 +120,18 @@ export function removeWordAndSymbolFromEditor(quill: Quill, range: QuillRange |
 
 
 /**
- * Inserts a span element representing a User or Channel into the Quill editor at the current cursor position.
- * The span element is styled and tagged based on whether the item is a User or a Channel.
+ * Inserts a span element representing a User, Channel, user group or broadcast mention into the Quill editor at the current cursor position.
+ * The span element is styled and tagged based on the type of the item.
  *
- * @param item - The item to insert, which can be either a User or a Channel.
+ * @param item - The item to insert, which can be a User, a Channel, a user group or a broadcast mention.
  *               If the item is a User, it will be prefixed with '@' and styled with the 'highlight-user' class.
  *               If the item is a Channel, it will be prefixed with '#' and styled with the 'highlight-channel' class.
+ *               If the item is a user group, it will be prefixed with '@' and styled with the 'highlight-group' class.
+ *               If the item is a broadcast mention, it will be prefixed with '@' and styled with the 'highlight-broadcast' class.
  */
-export function insertItemAsSpan(quill: Quill, range: QuillRange | null, item: User | Channel) {
-    const tagSign = item instanceof User ? '@' : '#';
-    const tagClass = item instanceof User ? 'highlight-user' : 'highlight-channel';
+export function insertItemAsSpan(quill: Quill, range: QuillRange | null, item: User | Channel | UserGroup | BroadcastMention) {
+    const tagSign = item instanceof Channel ? '#' : '@';
+    const tagClass = item instanceof User ? 'highlight-user' : item instanceof Channel ? 'highlight-channel' : item instanceof UserGroup ? 'highlight-group' : 'highlight-broadcast';
     const boundingKey = ' ';
     let cursorPosition = removeWordAndSymbolFromEditor(quill, range, tagSign);
     if (cursorPosition === -1) {
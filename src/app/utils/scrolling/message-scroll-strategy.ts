@@ -0,0 +1,256 @@
+import { CdkVirtualScrollViewport, VirtualScrollStrategy } from '@angular/cdk/scrolling';
+import { distinctUntilChanged, Subject } from 'rxjs';
+
+type ScrollAnchor = { id: string; delta: number };
+
+
+/**
+ * A virtual scroll strategy for lists with items of variable height, like the messages of a chat.
+ *
+ * The items are identified by IDs (`setItemIDs`). Heights of rendered items are measured and stored
+ * by ID, items that were never rendered are calculated with an estimated height.
+ *
+ * While the heights of items become known or items are added in front of the visible items, the
+ * first visible item keeps its position on screen. If the list is scrolled to the bottom,
+ * it sticks to the bottom, so new items at the end of the list stay visible.
+ */
+export class MessageScrollStrategy implements VirtualScrollStrategy {
+  private scrolledIndexChangeSubject = new Subject<number>();
+  scrolledIndexChange = this.scrolledIndexChangeSubject.pipe(distinctUntilChanged());
+
+  private viewport: CdkVirtualScrollViewport | null = null;
+  private resizeObserver: ResizeObserver | undefined;
+  private itemIDs: string[] = [];
+  private heights = new Map<string, number>();
+  private offsets: number[] = [0];
+  private stickToBottom = true;
+  private pendingAnchor: ScrollAnchor | undefined;
+  private scrollRestorePending = false;
+
+
+  /**
+   * @param estimatedItemHeight - The height in pixels of items that were not rendered yet.
+   * @param minBufferPx - The minimum height in pixels of rendered items above and below the visible area.
+   * @param maxBufferPx - The height in pixels of rendered items above and below the visible area after the range was extended.
+   */
+  constructor(
+    private estimatedItemHeight = 100,
+    private minBufferPx = 400,
+    private maxBufferPx = 800
+  ) { }
+
+
+  attach(viewport: CdkVirtualScrollViewport): void {
+    this.viewport = viewport;
+    const contentWrapper = viewport.getElementRef().nativeElement.querySelector('.cdk-virtual-scroll-content-wrapper');
+    this.resizeObserver = new ResizeObserver(() => this.measureRenderedItems());
+    if (contentWrapper) this.resizeObserver.observe(contentWrapper);
+    this.updateLayout(undefined);
+  }
+
+
+  detach(): void {
+    this.resizeObserver?.disconnect();
+    this.scrolledIndexChangeSubject.complete();
+    this.viewport = null;
+  }
+
+
+  onContentScrolled(): void {
+    if (this.scrollRestorePending) return;
+    this.stickToBottom = this.isScrolledToBottom();
+    this.updateRenderedRange();
+  }
+
+
+  onDataLengthChanged(): void {
+    this.updateLayout(this.getAnchor());
+  }
+
+
+  onContentRendered(): void {
+    this.measureRenderedItems();
+  }
+
+
+  onRenderedOffsetChanged(): void { }
+
+
+  /**
+   * Scrolls to the start of the item at the given index.
+   * The item keeps its position while the heights of the items around it are measured.
+   *
+   * @param index - The index of the item.
+   */
+  scrollToIndex(index: number): void {
+    if (this.itemIDs.length === 0) return;
+    const itemIndex = Math.max(0, Math.min(index, this.itemIDs.length - 1));
+    this.stickToBottom = false;
+    this.scheduleScrollRestore({ id: this.itemIDs[itemIndex], delta: 0 });
+  }
+
+
+  /**
+   * Scrolls to the end of the list and keeps the list scrolled to the end while items are added.
+   */
+  scrollToBottom(): void {
+    this.stickToBottom = true;
+    this.scheduleScrollRestore(undefined);
+  }
+
+
+  /**
+   * Sets the IDs of the items in the order they are rendered.
+   * Must be called whenever the items of the list change.
+   *
+   * @param itemIDs - The IDs of the items.
+   */
+  setItemIDs(itemIDs: string[]): void {
+    const anchor = this.getAnchor();
+    this.itemIDs = itemIDs;
+    this.updateLayout(anchor);
+  }
+
+
+  /**
+   * Measures the heights of the rendered items, identified by their `data-item-id` attribute.
+   * If a height has changed, the layout is updated.
+   */
+  private measureRenderedItems(): void {
+    if (!this.viewport) return;
+    const anchor = this.getAnchor();
+    let heightsChanged = false;
+    this.viewport.getElementRef().nativeElement.querySelectorAll<HTMLElement>('[data-item-id]').forEach((element) => {
+      const id = element.dataset['itemId'];
+      if (id && this.heights.get(id) !== element.offsetHeight) {
+        this.heights.set(id, element.offsetHeight);
+        heightsChanged = true;
+      }
+    });
+    if (heightsChanged) this.updateLayout(anchor);
+  }
+
+
+  /**
+   * Recalculates the offsets of all items and the total content size.
+   * The rendered range is set for the scroll position the list will have after the update:
+   * scrolled to the bottom, or with the anchor item at its previous position.
+   *
+   * @param anchor - The first visible item and its distance to the start of the visible area before the update.
+   */
+  private updateLayout(anchor: ScrollAnchor | undefined): void {
+    if (!this.viewport) return;
+    this.offsets = [0];
+    this.itemIDs.forEach((id, index) => {
+      this.offsets.push(this.offsets[index] + (this.heights.get(id) ?? this.estimatedItemHeight));
+    });
+    this.viewport.setTotalContentSize(this.offsets[this.itemIDs.length]);
+    this.updateRenderedRange(this.getTargetScrollOffset(anchor));
+    this.scheduleScrollRestore(anchor);
+  }
+
+
+  /**
+   * Scrolls to the target position in the next animation frame.
+   * The viewport applies a new content size with its next change detection, so scrolling has to wait
+   * until then. Until the scroll position is restored, the pending anchor is used for all layout updates.
+   *
+   * @param anchor - The item to keep in position, `undefined` to keep the current position.
+   */
+  private scheduleScrollRestore(anchor: ScrollAnchor | undefined): void {
+    this.pendingAnchor = anchor;
+    if (this.scrollRestorePending) return;
+    this.scrollRestorePending = true;
+    requestAnimationFrame(() => {
+      this.scrollRestorePending = false;
+      if (!this.viewport) return;
+      const targetOffset = this.getTargetScrollOffset(this.pendingAnchor);
+      if (Math.abs(targetOffset - this.viewport.measureScrollOffset()) >= 1) {
+        this.viewport.scrollToOffset(targetOffset + this.viewport.measureViewportOffset());
+      }
+      this.updateRenderedRange(targetOffset);
+    });
+  }
+
+
+  /**
+   * Calculates the scroll offset the list should have.
+   *
+   * @param anchor - The item to keep in position.
+   * @returns The end of the list if it sticks to the bottom, the position of the anchor,
+   * or the current scroll offset if there is no anchor.
+   */
+  private getTargetScrollOffset(anchor: ScrollAnchor | undefined): number {
+    if (!this.viewport) return 0;
+    const endOffset = Math.max(0, this.offsets[this.itemIDs.length] - this.viewport.getViewportSize());
+    if (this.stickToBottom) return endOffset;
+    const anchorIndex = anchor ? this.itemIDs.indexOf(anchor.id) : -1;
+    if (anchor && anchorIndex !== -1) return Math.min(endOffset, this.offsets[anchorIndex] + anchor.delta);
+    return this.viewport.measureScrollOffset();
+  }
+
+
+  /**
+   * Sets the rendered range of the viewport, so that the visible area and a buffer above and below is rendered.
+   * The range is only changed if the buffer of the current range falls below `minBufferPx`.
+   *
+   * @param scrollOffset - The scroll offset to render the items for, defaults to the current scroll offset.
+   */
+  private updateRenderedRange(scrollOffset = this.viewport?.measureScrollOffset() ?? 0): void {
+    if (!this.viewport) return;
+    const viewportSize = this.viewport.getViewportSize();
+    let renderedRange = this.viewport.getRenderedRange();
+    const itemCount = this.itemIDs.length;
+    const rangeStillCovers = renderedRange.end <= itemCount && renderedRange.end > renderedRange.start &&
+      (renderedRange.start === 0 || this.offsets[renderedRange.start] <= scrollOffset - this.minBufferPx) &&
+      (renderedRange.end === itemCount || this.offsets[renderedRange.end] >= scrollOffset + viewportSize + this.minBufferPx);
+    if (!rangeStillCovers) {
+      const start = this.getIndexAtOffset(scrollOffset - this.maxBufferPx);
+      const end = Math.min(itemCount, this.getIndexAtOffset(scrollOffset + viewportSize + this.maxBufferPx) + 1);
+      renderedRange = { start, end };
+      this.viewport.setRenderedRange(renderedRange);
+    }
+    this.viewport.setRenderedContentOffset(this.offsets[renderedRange.start] ?? 0);
+    this.scrolledIndexChangeSubject.next(this.getIndexAtOffset(scrollOffset));
+  }
+
+
+  /**
+   * Determines the first visible item and its distance to the start of the visible area.
+   * While a scroll restore is pending, the pending anchor is returned, as the scroll position is outdated.
+   *
+   * @returns The anchor, or `undefined` if the list is empty.
+   */
+  private getAnchor(): ScrollAnchor | undefined {
+    if (this.scrollRestorePending) return this.pendingAnchor;
+    if (!this.viewport || this.itemIDs.length === 0) return undefined;
+    const scrollOffset = this.viewport.measureScrollOffset();
+    const index = this.getIndexAtOffset(scrollOffset);
+    return { id: this.itemIDs[index], delta: scrollOffset - this.offsets[index] };
+  }
+
+
+  /**
+   * Finds the item at the given offset with a binary search over the item offsets.
+   *
+   * @param offset - The offset in pixels from the start of the list.
+   * @returns The index of the item, clamped to the indices of the list.
+   */
+  private getIndexAtOffset(offset: number): number {
+    let low = 0;
+    let high = this.itemIDs.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.offsets[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return Math.max(0, low);
+  }
+
+
+  private isScrolledToBottom(): boolean {
+    if (!this.viewport) return true;
+    const scrollOffset = this.viewport.measureScrollOffset();
+    return scrollOffset + this.viewport.getViewportSize() >= this.offsets[this.itemIDs.length] - 50;
+  }
+}
@@ -0,0 +1,199 @@
+import { inject, Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { UsersService } from './user.service';
+import { Message } from '../../shared/models/message.class';
+import { Activity, ActivityType } from '../../shared/models/activity.class';
+import { removeAllHTMLTagsFromString } from '../firebase/utils';
+import { activityConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ActivityService {
+
+  private repository = inject(Repository);
+  private userservice = inject(UsersService);
+
+  readonly maxActivities = 100;
+  readonly maxExcerptLength = 120;
+  public activities: Activity[] = [];
+  private activitiesSubject = new BehaviorSubject<Activity[]>([]);
+  public activities$ = this.activitiesSubject.asObservable();
+
+  private unsubActivities: (() => void) | undefined;
+
+
+  /**
+   * Subscribes to the newest `maxActivities` activities of the current user, newest first.
+   * The activities are read with the `activityConverter`, invalid documents are skipped.
+   */
+  startActivityListener() {
+    this.stopActivityListener();
+    const activitiesQuery = {
+      collectionPath: this.getActivitiesPath(this.userservice.currentUserID),
+      orderBy: [{ field: 'createdAt', direction: 'desc' as const }],
+      limit: this.maxActivities,
+    };
+    this.unsubActivities = this.repository.subscribeDocuments(activitiesQuery, activityConverter, (changes) => {
+      changes.forEach((change) => {
+        this.activities = this.activities.filter((activity) => activity.id !== change.document.id);
+        if (change.type !== 'removed' && change.document.data) this.activities.push(new Activity(change.document.data, change.document.id));
+      });
+      this.activities.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      this.activitiesSubject.next(this.activities);
+    }, (error) => console.error('ActivityService: error loading activities', error));
+  }
+
+
+  /**
+   * Unsubscribes from the activities.
+   */
+  stopActivityListener() {
+    if (this.unsubActivities) this.unsubActivities();
+    this.unsubActivities = undefined;
+    this.activities = [];
+    this.activitiesSubject.next(this.activities);
+  }
+
+
+  /**
+   * Returns the number of unread activities of the current user.
+   *
+   * @returns The number of unread activities.
+   */
+  getUnreadActivitiesCount(): number {
+    return this.activities.filter((activity) => !activity.read).length;
+  }
+
+
+  /**
+   * Marks an activity of the current user as read.
+   *
+   * @param activity - The activity.
+   * @returns A promise that resolves to an empty string if successful, or an error message.
+   */
+  async markActivityRead(activity: Activity): Promise<string> {
+    if (activity.read) return '';
+    try {
+      await this.repository.updateDocument(this.getActivitiesPath(this.userservice.currentUserID) + activity.id, { read: true }, activityConverter);
+      return '';
+    } catch (error) {
+      console.error('ActivityService: error marking activity as read', error);
+      return 'Die Aktivität konnte nicht als gelesen markiert werden.';
+    }
+  }
+
+
+  /**
+   * Marks all loaded activities of the current user as read in one batch.
+   *
+   * @returns A promise that resolves to an empty string if successful, or an error message.
+   */
+  async markAllActivitiesRead(): Promise<string> {
+    const unreadActivities = this.activities.filter((activity) => !activity.read);
+    if (unreadActivities.length === 0) return '';
+    try {
+      const batch = this.repository.batch();
+      const activitiesPath = this.getActivitiesPath(this.userservice.currentUserID);
+      unreadActivities.forEach((activity) => batch.update(activitiesPath + activity.id, { read: true }, activityConverter));
+      await batch.commit();
+      return '';
+    } catch (error) {
+      console.error('ActivityService: error marking activities as read', error);
+      return 'Die Aktivitäten konnten nicht als gelesen markiert werden.';
+    }
+  }
+
+
+  /**
+   * Adds a `mention` activity for every mentioned user, except the creator of the message.
+   *
+   * @param messagePath - The path of the message.
+   * @param content - The content of the message.
+   * @param mentionedUserIDs - The IDs of the users that are mentioned for the first time in the message.
+   * @param actorID - The creator of the message.
+   */
+  async addMentionActivities(messagePath: string, content: string, mentionedUserIDs: string[], actorID: string) {
+    await this.addActivities(mentionedUserIDs.filter((userID) => userID !== actorID), 'mention', actorID, messagePath, content);
+  }
+
+
+  /**
+   * Adds a `reaction` activity for the creator of a message, if someone else reacted to it.
+   *
+   * @param message - The message the current user reacted to.
+   * @param emoji - The reaction.
+   */
+  async addReactionActivity(message: Message, emoji: string) {
+    const actorID = this.userservice.currentUserID;
+    if (message.creatorID === actorID) return;
+    await this.addActivities([message.creatorID], 'reaction', actorID, message.messagePath, message.content, emoji);
+  }
+
+
+  /**
+   * Adds a `reply` activity for the creator and the followers of a thread, when someone answers in it.
+   *
+   * @param threadMessage - The message of the thread.
+   * @param answerPath - The path of the new answer.
+   * @param content - The content of the answer.
+   * @param actorID - The creator of the answer.
+   * @param excludedUserIDs - Users that don't get a reply activity, e.g. because they are mentioned in the answer.
+   */
+  async addReplyActivities(threadMessage: Message, answerPath: string, content: string, actorID: string, excludedUserIDs: string[]) {
+    const userIDs = [...new Set([threadMessage.creatorID, ...threadMessage.threadFollowerIDs])]
+      .filter((userID) => userID && userID !== actorID && !excludedUserIDs.includes(userID));
+    await this.addActivities(userIDs, 'reply', actorID, answerPath, content);
+  }
+
+
+  /**
+   * Stores an activity for several users in one batch. Errors are logged, the message itself is already stored.
+   *
+   * @param userIDs - The users that get the activity.
+   * @param type - The type of the activity.
+   * @param actorID - The user that caused the activity.
+   * @param messagePath - The path of the message.
+   * @param content - The content of the message, stored as excerpt.
+   * @param emoji - The reaction, only for `reaction` activities.
+   */
+  private async addActivities(userIDs: string[], type: ActivityType, actorID: string, messagePath: string, content: string, emoji: string = '') {
+    if (userIDs.length === 0) return;
+    try {
+      const batch = this.repository.batch();
+      userIDs.forEach((userID) => {
+        const activitiesPath = this.getActivitiesPath(userID);
+        batch.set(activitiesPath + this.repository.createDocumentID(activitiesPath), {
+          type: type,
+          actorID: actorID,
+          messagePath: messagePath,
+          excerpt: this.getExcerpt(content),
+          emoji: emoji,
+          createdAt: this.repository.serverTimestamp(),
+          read: false,
+        }, activityConverter);
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('ActivityService: error adding activities', error);
+    }
+  }
+
+
+  /**
+   * Returns the beginning of the text of a message, stored with the activity.
+   *
+   * @param content - The content of the message as HTML.
+   * @returns The plain text, shortened to `maxExcerptLength` characters.
+   */
+  private getExcerpt(content: string): string {
+    const text = removeAllHTMLTagsFromString(content).trim();
+    return text.length > this.maxExcerptLength ? text.substring(0, this.maxExcerptLength) + '…' : text;
+  }
+
+
+  private getActivitiesPath(userID: string): string {
+    return 'users/' + userID + '/activities/';
+  }
+}
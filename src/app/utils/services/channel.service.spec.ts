@@ -0,0 +1,83 @@
+import { TestBed } from '@angular/core/testing';
+import { Timestamp } from '@angular/fire/firestore';
+import { LastReadMessage, User } from '../../shared/models/user.class';
+import { channelConverter, messageConverter } from '../firebase/converters';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { ChannelService } from './channel.service';
+import { provideRepositoryTesting, TestUsersService } from './testing';
+
+describe('ChannelService', () => {
+  let repository: MemoryRepository;
+  let usersService: TestUsersService;
+  let service: ChannelService;
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    usersService = new TestUsersService(repository);
+    await repository.setDocument('channels/c1', { name: 'Allgemein', memberIDs: ['anna', 'ben'] }, channelConverter);
+    TestBed.configureTestingModule({ providers: provideRepositoryTesting(repository, usersService) });
+    service = TestBed.inject(ChannelService);
+  });
+
+  afterEach(() => service.ngOnDestroy());
+
+  it('follows the channels of the repository', async () => {
+    expect(service.channels.map((channel) => channel.id)).toEqual(['', 'c1']);
+    await repository.updateDocument('channels/c1', { name: 'Umbenannt' }, channelConverter);
+    expect(service.getChannelByName('Umbenannt')?.id).toBe('c1');
+    await repository.deleteDocument('channels/c1');
+    expect(service.channels.map((channel) => channel.id)).toEqual(['']);
+  });
+
+  it('adds a new channel with the current user as creator', async () => {
+    usersService.setUsers([new User({ name: 'Anna' }, 'anna')], new User({ name: 'Anna' }, 'anna'));
+    expect(await service.addNewChannelToFirestore('Neu', 'Beschreibung', ['anna'])).toBeTrue();
+    const channel = service.getChannelByName('Neu');
+    expect(channel?.creatorID).toBe('anna');
+    expect(channel?.memberIDs).toEqual(['anna']);
+  });
+
+  describe('unread counting', () => {
+    beforeEach(async () => {
+      const lastRead: LastReadMessage = { collectionType: 'channel', collectionID: 'c1', messageID: 'm2', messageCreateAt: 2000 };
+      const anna = new User({ name: 'Anna', lastReadMessages: JSON.stringify([lastRead]) }, 'anna');
+      usersService.setUsers([anna, new User({ name: 'Ben' }, 'ben')], anna);
+      const messages = [
+        { id: 'm1', creatorID: 'ben', createdAt: 1000, mentionedUserIDs: ['anna'] },
+        { id: 'm2', creatorID: 'ben', createdAt: 2000, mentionedUserIDs: [] },
+        { id: 'm3', creatorID: 'ben', createdAt: 3000, mentionedUserIDs: [] },
+        { id: 'm4', creatorID: 'anna', createdAt: 4000, mentionedUserIDs: [] },
+        { id: 'm5', creatorID: 'ben', createdAt: 5000, mentionedUserIDs: ['anna'] },
+      ];
+      for (const message of messages) {
+        await repository.setDocument('channels/c1/messages/' + message.id, {
+          creatorID: message.creatorID,
+          content: message.id,
+          createdAt: Timestamp.fromMillis(message.createdAt),
+          mentionedUserIDs: message.mentionedUserIDs,
+        }, messageConverter);
+      }
+    });
+
+    it('counts the messages of other users after the last read message', async () => {
+      const channel = service.channels.find((channel) => channel.id === 'c1')!;
+      await service.calculateUnreadMessagesCount(channel);
+      expect(channel.unreadMessagesCount).toBe(2);
+    });
+
+    it('counts the unread messages that mention the current user', async () => {
+      const channel = service.channels.find((channel) => channel.id === 'c1')!;
+      await service.calculateUnreadMessagesCount(channel);
+      expect(channel.unreadMentionsCount).toBe(1);
+    });
+
+    it('counts all messages of other users after the signup without last read message', async () => {
+      const carla = new User({ name: 'Carla', signupAt: Timestamp.fromMillis(0) }, 'carla');
+      usersService.setUsers([...usersService.users, carla], carla);
+      const channel = service.channels.find((channel) => channel.id === 'c1')!;
+      await service.calculateUnreadMessagesCount(channel);
+      expect(channel.unreadMessagesCount).toBe(5);
+      expect(channel.unreadMentionsCount).toBe(0);
+    });
+  });
+});
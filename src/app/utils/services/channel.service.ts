@@ -5,14 +5,17 @@
  */
 
 import { inject, Injectable, OnDestroy } from '@angular/core';
-import { addDoc, collection, doc, Firestore, getDocs, onSnapshot, query, serverTimestamp, Timestamp, updateDoc, where, } from '@angular/fire/firestore';
+import { Timestamp, WithFieldValue } from '@angular/fire/firestore';
 import { UsersService } from './user.service';
-import { Channel } from '../../shared/models/channel.class';
-import { Chat } from '../../shared/models/chat.class';
+import { Channel, ChannelData } from '../../shared/models/channel.class';
+import { Chat, ChatData } from '../../shared/models/chat.class';
 import { User } from '../../shared/models/user.class';
 import { BehaviorSubject } from 'rxjs';
 import { Message } from '../../shared/models/message.class';
-import { dabubbleBotId, getCollectionPath, isRealUser } from '../firebase/utils';
+import { BroadcastMentionKeyword, dabubbleBotId, getCollectionPath, getObjectsPath, isRealUser } from '../firebase/utils';
+import { PinnedMessage } from '../../shared/models/pinned-message.class';
+import { channelConverter, chatConverter, messageConverter, SchemaConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
 
 export type ActivChat = {
   chat: Chat;
@@ -40,6 +43,11 @@ export class ChannelService implements OnDestroy {
   private chatListChange = new BehaviorSubject<Chat[]>([]);
   public chatListChange$ = this.chatListChange.asObservable();
 
+  private channelsLoaded = new BehaviorSubject<boolean>(false);
+  public channelsLoaded$ = this.channelsLoaded.asObservable();
+  private chatsLoaded = new BehaviorSubject<boolean>(false);
+  public chatsLoaded$ = this.chatsLoaded.asObservable();
+
   public activeChats$ = new BehaviorSubject<ActivChat[]>([]);
 
   public chats: Chat[] = [];
@@ -48,7 +56,7 @@ export class ChannelService implements OnDestroy {
 
   private updateAllowed = false;
 
-  private firestore: Firestore = inject(Firestore);
+  private repository: Repository = inject(Repository);
   private userservice: UsersService = inject(UsersService);
   private currentUserSubscription: any;
   private unsubChannels: any;
@@ -64,7 +72,7 @@ export class ChannelService implements OnDestroy {
     this.subscribeUserListChange = this.userservice.changeUserList$.subscribe(
       () => {
         this.defaultChannel.update({
-          members: this.userservice.getAllUserIDs(),
+          memberIDs: this.userservice.getAllUserIDs(),
         });
       }
     );
@@ -117,6 +125,7 @@ export class ChannelService implements OnDestroy {
    * @remarks
    * This method retrieves the last read message object for the given channel and calculates the number of messages
    * created after the last view time. It then updates the `unreadMessagesCount` property of the channel object.
+   * Unread messages that mention the current user, directly or with `@channel` and `@here`, are counted in `unreadMentionsCount`.
    * 
    * @throws Will throw an error if the Firestore query fails.
    */
@@ -124,15 +133,19 @@ export class ChannelService implements OnDestroy {
     const lrm = this.userservice.getLastReadMessageObject(channel);
     const lastViewTime: Date = new Date();
     lastViewTime.setTime(lrm ? lrm.messageCreateAt : this.userservice.currentUser?.signupAt.getTime() || 0);
-    const firestoreTimestamp = Timestamp.fromDate(lastViewTime);
-    const collectionRef = collection(this.firestore, getCollectionPath(channel));
-    const querySnapshot = await getDocs(
-      query(collectionRef, where('createdAt', '>', lastViewTime))
+    const messageDocs = await this.repository.getDocuments(
+      { collectionPath: getCollectionPath(channel), where: [{ field: 'createdAt', op: '>', value: lastViewTime }] },
+      messageConverter
     );
     let unreadMessagesCount = 0;
-    const test = querySnapshot.forEach((doc) => {
-      if (doc.data()['creatorID'] !== this.userservice.currentUserID) unreadMessagesCount++;
+    let unreadMentionsCount = 0;
+    messageDocs.forEach((messageDoc) => {
+      const messageData = messageDoc.data;
+      if (!messageData || messageData.creatorID === this.userservice.currentUserID) return;
+      unreadMessagesCount++;
+      if ((messageData.mentionedUserIDs ?? []).includes(this.userservice.currentUserID)) unreadMentionsCount++;
     });
+    channel.unreadMentionsCount = unreadMentionsCount;
     if (channel.unreadMessagesCount !== unreadMessagesCount) {
       channel.unreadMessagesCount = unreadMessagesCount;
       if (channel instanceof Chat) this.updateActiveChatsStream();
@@ -141,43 +154,49 @@ export class ChannelService implements OnDestroy {
 
 
   /**
-   * Initializes the channel collection by setting up a Firestore snapshot listener.
+   * Initializes the channel collection by subscribing the channels of the repository.
    * 
    * This method subscribes to changes in the '/channels' collection in Firestore.
    * It handles three types of changes:
    * - 'added': Adds a new channel to the local `channels` array.
    * - 'modified': Updates an existing channel in the local `channels` array and recalculates the unread messages count.
    * - 'removed': Removes a channel from the local `channels` array.
+   * `channelsLoaded$` emits `true` after the first snapshot, or if it fails.
    * 
    * @private
    * @returns {void}
    */
   private initChannelCollection(): void {
-    this.unsubChannels = onSnapshot(collection(this.firestore, '/channels'), (snapshot) => {
-      snapshot.docChanges().forEach((change) => {
-        if (change.type === 'added') {
-          const channel = new Channel(change.doc.data(), change.doc.id);
+    this.unsubChannels = this.repository.subscribeDocuments({ collectionPath: 'channels' }, channelConverter, (changes) => {
+      changes.forEach((change) => {
+        const channelData = change.document.data;
+        if (change.type === 'added' && channelData) {
+          const channel = new Channel(channelData, change.document.id);
           this.channels.push(channel);
         }
-        if (change.type === 'modified') {
-          const channel = this.channels.find((channel) => channel.id === change.doc.id);
+        if (change.type === 'modified' && channelData) {
+          const channel = this.channels.find((channel) => channel.id === change.document.id);
           if (channel) {
-            channel.update(change.doc.data());
+            channel.update(channelData);
             if (this.updateAllowed) this.calculateUnreadMessagesCount(channel);
           }
         }
         if (change.type === 'removed') {
-          this.channels = this.channels.filter((channel) => channel.id !== change.doc.id);
+          this.channels = this.channels.filter((channel) => channel.id !== change.document.id);
         }
       });
+      if (!this.channelsLoaded.value) this.channelsLoaded.next(true);
+    }, (error) => {
+      console.error('ChannelService: error loading channels', error);
+      if (!this.channelsLoaded.value) this.channelsLoaded.next(true);
     });
   }
 
 
   /**
-   * Initializes the chat collection by setting up a Firestore snapshot listener.
+   * Initializes the chat collection by subscribing the chats of the repository.
    * 
-   * This method listens for changes in the '/chats' collection in Firestore and updates the local
+   * This method listens for changes in the '/chats' collection and updates the local
    * `chats` array accordingly. It handles three types of changes:
    * 
    * - 'added': Adds a new chat to the `chats` array.
@@ -185,26 +204,32 @@ export class ChannelService implements OnDestroy {
    * - 'removed': Removes a chat from the `chats` array.
    * 
    * After processing the changes, it emits the updated `chats` array via the `chatListChange` subject.
+   * `chatsLoaded$` emits `true` after the first snapshot, or if it fails.
    * 
    * @private
    * @returns {void}
    */
   private initChatCollection(): void {
-    this.unsubChats = onSnapshot(collection(this.firestore, '/chats'), (snapshot) => {
-      snapshot.docChanges().forEach((change) => {
-        if (change.type === 'added') this.chats.push(new Chat(change.doc.data(), change.doc.id));
-        if (change.type === 'modified') {
-          const chat = this.chats.find((chat) => chat.id === change.doc.id);
+    this.unsubChats = this.repository.subscribeDocuments({ collectionPath: 'chats' }, chatConverter, (changes) => {
+      changes.forEach((change) => {
+        const chatData = change.document.data;
+        if (change.type === 'added' && chatData) this.chats.push(new Chat(chatData, change.document.id));
+        if (change.type === 'modified' && chatData) {
+          const chat = this.chats.find((chat) => chat.id === change.document.id);
           if (chat) {
-            chat.update(change.doc.data());
+            chat.update(chatData);
             if (this.updateAllowed) {
               this.calculateUnreadMessagesCount(chat);
             }
           }
         }
-        if (change.type === 'removed') this.chats = this.chats.filter((chat) => chat.id !== change.doc.data()['id']);
+        if (change.type === 'removed') this.chats = this.chats.filter((chat) => chat.id !== change.document.id);
       });
       this.chatListChange.next(this.chats);
+      if (!this.chatsLoaded.value) this.chatsLoaded.next(true);
+    }, (error) => {
+      console.error('ChannelService: error loading chats', error);
+      if (!this.chatsLoaded.value) this.chatsLoaded.next(true);
     });
   }
 
@@ -236,6 +261,23 @@ export class ChannelService implements OnDestroy {
   }
 
 
+  /**
+   * Returns the name of the channel or chat a path belongs to, e.g. the path of a message or thread.
+   *
+   * @param path - A path that starts with `channels/{channelID}` or `chats/{chatID}`.
+   * @returns '#channelname', the name of the chat partner or an empty string if the channel or chat isn't known.
+   */
+  getConversationName(path: string): string {
+    const [collection, objectID] = path.split('/');
+    if (collection === 'channels') {
+      const channel = this.channels.find((channel) => channel.id === objectID);
+      return channel ? '#' + channel.name : '';
+    }
+    const chat = this.getChatByID(objectID);
+    return chat ? this.getChatPartner(chat)?.name ?? '' : '';
+  }
+
+
   /**
    * Retrieves a chat between the current user and a specified user by their ID.
    *
@@ -293,6 +335,56 @@ export class ChannelService implements OnDestroy {
   }
 
 
+  /**
+   * Returns the channel a path belongs to, e.g. the path of a message or thread.
+   *
+   * @param path - A path that starts with `channels/{channelID}`.
+   * @returns The channel, or `undefined` for chats and unknown channels.
+   */
+  getChannelByPath(path: string): Channel | undefined {
+    const [collection, objectID] = path.split('/');
+    if (collection !== 'channels') return undefined;
+    return this.channels.find((channel) => channel.id === objectID);
+  }
+
+
+  /**
+   * Checks if a user may use `@channel` and `@here` in a conversation.
+   * They are only allowed for members of a channel and disabled in the default channel.
+   *
+   * @param path - The path of the channel, thread or message.
+   * @param userID - The user that writes the message, by default the current user.
+   * @returns An empty string if the broadcast mentions are allowed, otherwise the reason.
+   */
+  getBroadcastMentionsError(path: string, userID: string = this.userservice.currentUserID): string {
+    const channel = this.getChannelByPath(path);
+    if (!channel) return '@channel und @here können nur in Channels verwendet werden.';
+    if (channel.defaultChannel) return 'Im Standard-Channel sind @channel und @here deaktiviert.';
+    if (!channel.memberIDs.includes(userID)) return 'Nur Mitglieder des Channels dürfen @channel und @here verwenden.';
+    return '';
+  }
+
+
+  /**
+   * Returns the users that are mentioned by broadcast mentions: all members of the channel for `@channel`,
+   * the members that are online for `@here`. The creator of the message isn't mentioned.
+   *
+   * @param path - The path of the channel, thread or message.
+   * @param keywords - The broadcast mentions of the message.
+   * @param creatorID - The creator of the message.
+   * @returns The IDs of the mentioned members.
+   */
+  getBroadcastMentionedUserIDs(path: string, keywords: BroadcastMentionKeyword[], creatorID: string): string[] {
+    const channel = this.getChannelByPath(path);
+    if (!channel || channel.defaultChannel || keywords.length === 0) return [];
+    return channel.memberIDs.filter((memberID) => {
+      const member = this.userservice.getUserByID(memberID);
+      if (!member || !isRealUser(member) || memberID === creatorID) return false;
+      return keywords.includes('channel') || member.online;
+    });
+  }
+
+
   /**
    * Adds a new chat with a specified user to Firestore.
    * 
@@ -307,17 +399,16 @@ export class ChannelService implements OnDestroy {
    */
   async addChatWithUserOnFirestore(userID: string): Promise<string | undefined> {
     try {
-      const chatRef = collection(this.firestore, '/chats');
-      const chatObj = { memberIDs: [this.userservice.currentUserID, userID], createdAt: serverTimestamp() };
-      const chat = await addDoc(chatRef, chatObj);
-      this.userservice.updateCurrentUserDataOnFirestore({ chatIDs: [...(this.userservice.currentUser?.chatIDs || []), chat.id] });
+      const chatObj: WithFieldValue<ChatData> = { memberIDs: [this.userservice.currentUserID, userID], createdAt: this.repository.serverTimestamp() };
+      const chatID = await this.repository.addDocument('chats', chatObj, chatConverter);
+      this.userservice.updateCurrentUserDataOnFirestore({ chatIDs: [...(this.userservice.currentUser?.chatIDs || []), chatID] });
       if (this.userservice.currentUserID !== userID) {
         const user = this.userservice.getUserByID(userID);
         let userChatIDs = user?.chatIDs;
-        userChatIDs?.push(chat.id);
+        userChatIDs?.push(chatID);
         this.userservice.updateUserDataOnFirestore(userID, { chatIDs: userChatIDs });
       }
-      return chat.id;
+      return chatID;
     } catch (error) {
       console.error('userservice/chat: Error adding chat(' + (error as Error).message + ')');
       return undefined;
@@ -327,11 +418,10 @@ export class ChannelService implements OnDestroy {
 
   async addSelfChat(userID: string): Promise<string | undefined> {
     try {
-      const chatRef = collection(this.firestore, '/chats');
-      const chatObj = { memberIDs: [userID, userID], createdAt: serverTimestamp() };
-      const chat = await addDoc(chatRef, chatObj);
-      this.userservice.updateUserDataOnFirestore(userID, { chatIDs: [chat.id] });
-      return chat.id;
+      const chatObj: WithFieldValue<ChatData> = { memberIDs: [userID, userID], createdAt: this.repository.serverTimestamp() };
+      const chatID = await this.repository.addDocument('chats', chatObj, chatConverter);
+      this.userservice.updateUserDataOnFirestore(userID, { chatIDs: [chatID] });
+      return chatID;
     } catch (error) {
       console.error('userservice/chat: Error adding selfchat(' + (error as Error).message + ')');
       return undefined;
@@ -348,15 +438,15 @@ export class ChannelService implements OnDestroy {
    * @returns {Promise<boolean>} - A promise that resolves to `true` if the channel was added successfully, or `false` if there was an error.
    */
   async addNewChannelToFirestore(name: string, description: string, membersIDs: string[]): Promise<boolean> {
-    const newchannel = {
+    const newchannel: WithFieldValue<ChannelData> = {
       name: name,
       description: description,
       memberIDs: membersIDs,
-      createdAt: serverTimestamp(),
+      createdAt: this.repository.serverTimestamp(),
       creatorID: this.userservice.currentUserID,
     };
     try {
-      await addDoc(collection(this.firestore, '/channels'), newchannel);
+      await this.repository.addDocument('channels', newchannel, channelConverter);
       return true;
     } catch (error) {
       console.error('ChannelService: addNewChannelToFirestore: error adding channel' + newchannel.name + ' # ', error);
@@ -373,15 +463,132 @@ export class ChannelService implements OnDestroy {
    *  - `name` (optional): The new name of the channel.
    *  - `description` (optional): The new description of the channel.
    *  - `memberIDs` (optional): An array of member IDs to update the channel with.
-   * @returns A promise that resolves when the update operation is complete.
-   * @throws Will log an error message if the update operation fails.
+   * @returns A promise that resolves to an empty string on success, or an error message if the update failed.
    */
-  async updateChannelOnFirestore(channel: Channel, updateData: { name?: string; description?: string; memberIDs?: string[] }) {
-    const channelDocRef = doc(this.firestore, '/channels', channel.id);
+  async updateChannelOnFirestore(channel: Channel, updateData: { name?: string; description?: string; memberIDs?: string[] }): Promise<string> {
     try {
-      await updateDoc(channelDocRef, updateData);
+      await this.repository.updateDocument('channels/' + channel.id, updateData, channelConverter);
+      return '';
     } catch (error) {
       console.error('ChannelService: updateChannelOnFirestore: error updating channel ->', error);
+      return 'Der Channel konnte nicht gespeichert werden.';
+    }
+  }
+
+
+  /**
+   * Adds a user to the members of a channel. The ID is added with `arrayUnion`,
+   * so members that were added at the same time by someone else are kept.
+   *
+   * @param channel - The channel.
+   * @param userID - The ID of the user to add.
+   * @returns A promise that resolves to an empty string on success, or an error message if the update failed.
+   */
+  async addChannelMember(channel: Channel, userID: string): Promise<string> {
+    try {
+      await this.repository.updateDocument('channels/' + channel.id, { memberIDs: this.repository.arrayUnion(userID) }, channelConverter);
+      return '';
+    } catch (error) {
+      console.error('ChannelService: addChannelMember: error adding member ->', error);
+      return 'Die Person konnte nicht zum Channel hinzugefügt werden.';
+    }
+  }
+
+
+  /**
+   * Removes a user from the members of a channel with `arrayRemove`.
+   *
+   * @param channel - The channel.
+   * @param userID - The ID of the user to remove.
+   * @returns A promise that resolves to an empty string on success, or an error message if the update failed.
+   */
+  async removeChannelMember(channel: Channel, userID: string): Promise<string> {
+    try {
+      await this.repository.updateDocument('channels/' + channel.id, { memberIDs: this.repository.arrayRemove(userID) }, channelConverter);
+      return '';
+    } catch (error) {
+      console.error('ChannelService: removeChannelMember: error removing member ->', error);
+      return 'Die Person konnte nicht aus dem Channel entfernt werden.';
+    }
+  }
+
+
+  /**
+   * Checks if the current user may pin and unpin messages of a channel or chat.
+   * Only members of the channel or chat may change its pins.
+   *
+   * @param collectionObject - The channel or chat.
+   * @returns `true` if the current user is a member, otherwise `false`.
+   */
+  isAllowedToPinMessages(collectionObject: Channel | Chat): boolean {
+    return collectionObject.memberIDs.includes(this.userservice.currentUserID);
+  }
+
+
+  /**
+   * Checks if a message is pinned to a channel or chat.
+   *
+   * @param collectionObject - The channel or chat.
+   * @param messageID - The ID of the message.
+   * @returns `true` if the message is pinned, otherwise `false`.
+   */
+  isMessagePinned(collectionObject: Channel | Chat, messageID: string): boolean {
+    return collectionObject.pinnedMessages.some((pin) => pin.messageID === messageID);
+  }
+
+
+  /**
+   * Pins a message of a channel or chat. Only messages of the channel or chat itself can be pinned, no answers.
+   *
+   * @param collectionObject - The channel or chat.
+   * @param message - The message to pin.
+   * @returns A promise that resolves to an empty string if the message is pinned, or an error message.
+   */
+  async pinMessage(collectionObject: Channel | Chat, message: Message): Promise<string> {
+    if (!this.isAllowedToPinMessages(collectionObject)) return 'Nur Mitglieder dürfen Nachrichten anheften.';
+    if (!message.answerable || message.collectionPath !== getCollectionPath(collectionObject)) return 'Die Nachricht gehört nicht zu dieser Unterhaltung.';
+    return this.updatePinnedMessages(collectionObject, (pinnedMessages) => {
+      if (pinnedMessages.some((pin) => pin.messageID === message.id)) return pinnedMessages;
+      const pin = new PinnedMessage({ messageID: message.id, pinnedBy: this.userservice.currentUserID, pinnedAt: Timestamp.now() });
+      return [...pinnedMessages, pin];
+    });
+  }
+
+
+  /**
+   * Removes the pin of a message from a channel or chat.
+   *
+   * @param collectionObject - The channel or chat.
+   * @param messageID - The ID of the pinned message.
+   * @returns A promise that resolves to an empty string if the pin is removed, or an error message.
+   */
+  async unpinMessage(collectionObject: Channel | Chat, messageID: string): Promise<string> {
+    if (!this.isAllowedToPinMessages(collectionObject)) return 'Nur Mitglieder dürfen Nachrichten lösen.';
+    return this.updatePinnedMessages(collectionObject, (pinnedMessages) => pinnedMessages.filter((pin) => pin.messageID !== messageID));
+  }
+
+
+  /**
+   * Changes the pins of a channel or chat in a transaction, so concurrent changes of other members are not lost.
+   *
+   * @param collectionObject - The channel or chat.
+   * @param change - Returns the new pins for the pins currently stored.
+   * @returns A promise that resolves to an empty string if the pins are updated, or an error message.
+   */
+  private async updatePinnedMessages(collectionObject: Channel | Chat, change: (pinnedMessages: PinnedMessage[]) => PinnedMessage[]): Promise<string> {
+    const converter: SchemaConverter<ChannelData | ChatData> = collectionObject instanceof Channel ? channelConverter : chatConverter;
+    const path = getObjectsPath(collectionObject);
+    try {
+      await this.repository.runTransaction(async (transaction) => {
+        const storedDoc = await transaction.get(path, converter);
+        const storedPins = storedDoc.data?.pinnedMessages ?? [];
+        const pinnedMessages = change(storedPins.map((pin) => new PinnedMessage(pin)));
+        transaction.update(path, { pinnedMessages: pinnedMessages.map((pin) => pin.toFirestoreData()) }, converter);
+      });
+      return '';
+    } catch (error) {
+      console.error('ChannelService: error updating pinned messages', error);
+      return 'Die angehefteten Nachrichten konnten nicht geändert werden.';
     }
   }
 
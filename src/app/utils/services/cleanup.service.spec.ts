@@ -0,0 +1,91 @@
+import { TestBed } from '@angular/core/testing';
+import { User } from '../../shared/models/user.class';
+import { channelConverter, chatConverter, messageConverter, SchemaConverter, userConverter } from '../firebase/converters';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { CleanupService } from './cleanup.service';
+import { provideRepositoryTesting, TestUsersService } from './testing';
+
+describe('CleanupService', () => {
+  let repository: MemoryRepository;
+  let usersService: TestUsersService;
+  let service: CleanupService;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    spyOn(console, 'warn');
+    repository = new MemoryRepository();
+    usersService = new TestUsersService(repository);
+    const anna = new User({ name: 'Anna', chatIDs: ['chat1', 'chat2'] }, 'anna');
+    const guest = new User({ name: 'Gast', guest: true, chatIDs: ['chat1'] }, 'guest');
+    usersService.setUsers([anna, guest], anna);
+    await repository.setDocument('users/anna', { name: 'Anna', chatIDs: ['chat1', 'chat2'] }, userConverter);
+    await repository.setDocument('users/guest', { name: 'Gast', guest: true, chatIDs: ['chat1'] }, userConverter);
+    await repository.setDocument('channels/c1', { name: 'Von Anna', creatorID: 'anna', memberIDs: ['anna', 'guest'] }, channelConverter);
+    await repository.setDocument('channels/c2', { name: 'Vom Gast', creatorID: 'guest', memberIDs: ['anna', 'guest'] }, channelConverter);
+    await repository.setDocument('channels/c1/messages/m1', { creatorID: 'guest', content: 'Vom Gast', answerCount: 1 }, messageConverter);
+    await repository.setDocument('channels/c1/messages/m1/answers/a1', { creatorID: 'anna', content: 'Antwort von Anna' }, messageConverter);
+    await repository.setDocument('channels/c1/messages/m2', { creatorID: 'anna', content: 'Von Anna', answerCount: 2 }, messageConverter);
+    await repository.setDocument('channels/c1/messages/m2/answers/a2', { creatorID: 'guest', content: 'Antwort vom Gast' }, messageConverter);
+    await repository.setDocument('channels/c1/messages/m2/answers/a3', { creatorID: 'anna', content: 'Antwort von Anna' }, messageConverter);
+    await repository.setDocument('channels/c2/messages/m3', { creatorID: 'anna', content: 'Im Channel vom Gast' }, messageConverter);
+    await repository.setDocument('chats/chat1', { memberIDs: ['anna', 'guest'] }, chatConverter);
+    await repository.setDocument('chats/chat2', { memberIDs: ['anna', 'anna'] }, chatConverter);
+    TestBed.configureTestingModule({ providers: provideRepositoryTesting(repository, usersService) });
+    service = TestBed.inject(CleanupService);
+  });
+
+  afterEach(() => jasmine.clock().uninstall());
+
+  async function exists(path: string, converter: SchemaConverter<any> = messageConverter): Promise<boolean> {
+    return (await repository.getDocument(path, converter)).exists;
+  }
+
+  describe('deleting the content of a guest', () => {
+    beforeEach(async () => {
+      await service.deleteAllUserContentByID('guest');
+    });
+
+    it('deletes the messages and answers of the guest', async () => {
+      expect(await exists('channels/c1/messages/m1')).toBeFalse();
+      expect(await exists('channels/c1/messages/m1/answers/a1')).toBeFalse();
+      expect(await exists('channels/c1/messages/m2/answers/a2')).toBeFalse();
+      expect(await exists('channels/c1/messages/m2')).toBeTrue();
+      expect(await exists('channels/c1/messages/m2/answers/a3')).toBeTrue();
+    });
+
+    it('deletes the channels of the guest with their messages', async () => {
+      expect(await exists('channels/c2', channelConverter)).toBeFalse();
+      expect(await exists('channels/c2/messages/m3')).toBeFalse();
+      expect(await exists('channels/c1', channelConverter)).toBeTrue();
+    });
+
+    it('deletes the chats of the guest and removes them from the other users', async () => {
+      expect(await exists('chats/chat1', chatConverter)).toBeFalse();
+      expect(await exists('chats/chat2', chatConverter)).toBeTrue();
+      expect((await repository.getDocument('users/anna', userConverter)).data?.chatIDs).toEqual(['chat2']);
+    });
+
+    it('deletes the user document of the guest', async () => {
+      expect(await exists('users/guest', userConverter)).toBeFalse();
+    });
+  });
+
+  it('recalculates the answer counts and removes unknown members', async () => {
+    await service.recalculateFireStoreData();
+    expect((await repository.getDocument('channels/c1/messages/m2', messageConverter)).data?.answerCount).toBe(2);
+    expect((await repository.getDocument('channels/c1/messages/m1', messageConverter)).data?.answerCount).toBe(1);
+    await repository.deleteDocument('channels/c1/messages/m2/answers/a2');
+    await service.recalculateFireStoreData();
+    expect((await repository.getDocument('channels/c1/messages/m2', messageConverter)).data?.answerCount).toBe(1);
+    expect((await repository.getDocument('channels/c1', channelConverter)).data?.memberIDs).toEqual(['anna']);
+  });
+
+  it('deletes guests that were marked to delete and are offline', async () => {
+    await service.markAllGuestsToDelete();
+    expect((await repository.getDocument('users/guest', userConverter)).data?.markedToDeleteAT).toBeDefined();
+    jasmine.clock().mockDate(new Date(Date.now() + 5000));
+    await service.deleteAllGuestData();
+    expect(await exists('users/guest', userConverter)).toBeFalse();
+    expect(await exists('users/anna', userConverter)).toBeTrue();
+  });
+});
@@ -1,11 +1,13 @@
 import { inject, Injectable } from '@angular/core';
 import { UsersService } from './user.service';
-import { collection, deleteDoc, doc, DocumentData, Firestore, getDoc, getDocs, QueryDocumentSnapshot, updateDoc } from '@angular/fire/firestore';
 import { ChannelService } from './channel.service';
 import { Channel } from '../../shared/models/channel.class';
 import { Auth, signOut } from '@angular/fire/auth';
 import { NavigationService } from './navigation.service';
 import { isRealUser } from '../firebase/utils';
+import { Repository, RepositoryDocument } from '../firebase/repository';
+import { channelConverter, messageConverter, userConverter } from '../firebase/converters';
+import { MessageData } from '../../shared/models/message.class';
 
 @Injectable({
   providedIn: 'root'
@@ -14,7 +16,7 @@ export class CleanupService {
   private navigationservice = inject(NavigationService);
   private userservice = inject(UsersService);
   private channelservice = inject(ChannelService);
-  private firestore = inject(Firestore);
+  private repository = inject(Repository);
   private firebaseauth = inject(Auth);
 
   private docsToDelete: string[] = [];
@@ -49,7 +51,7 @@ export class CleanupService {
    * Deletes all guest user data that meets specific criteria.
    * 
    * This method iterates through all users and checks if they are guests and offline.
-   * If a guest user is offline, it retrieves the user's document from Firestore.
+   * If a guest user is offline, it retrieves the user's document from the repository.
    * If the document exists and the user was marked for deletion more than 4500 milliseconds ago,
    * it deletes all content associated with the user.
    * 
@@ -62,10 +64,9 @@ export class CleanupService {
       if (user.guest) {
         if (!user.online) {
           console.warn('cleanupservice: Deleting guest user data (' + user.id + ')');
-          const userDoc = await getDoc(doc(this.firestore, '/users/' + user.id));
-          if (userDoc.exists()) {
-            const userData = userDoc.data();
-            if (userData['markedToDeleteAT'] < Date.now() - 4500) {
+          const userData = (await this.repository.getDocument('users/' + user.id, userConverter)).data;
+          if (userData?.markedToDeleteAT !== undefined) {
+            if (userData.markedToDeleteAT < Date.now() - 4500) {
               await this.deleteAllUserContentByID(user.id);
             }
           }
@@ -81,7 +82,7 @@ export class CleanupService {
    * 
    * This method iterates through all users and checks if they are guests. 
    * If a guest user is found and they are currently online, a warning is logged 
-   * and the user's document in Firestore is updated.
+   * and the user's document is updated.
    * 
    * @returns {Promise<void>} A promise that resolves when all applicable users have been processed.
    */
@@ -91,7 +92,7 @@ export class CleanupService {
       const user = users[i];
       if (user.guest) {
         console.warn('cleanupservice: Marking guest for deletion (' + user.id + ')');
-        await updateDoc(doc(this.firestore, '/users/' + user.id), { online: false, markedToDeleteAT: Date.now() });
+        await this.repository.updateDocument('users/' + user.id, { online: false, markedToDeleteAT: Date.now() }, userConverter);
       }
     }
   }
@@ -107,7 +108,7 @@ export class CleanupService {
    *    - Deletes all messages from channels not created by the user.
    * 2. Deletes all chats involving the user as a guest.
    * 3. Logs a warning indicating that all user content has been deleted.
-   * 4. Deletes the user's document from Firestore.
+   * 4. Deletes the user's document.
    * 5. Deletes all documents associated with the user.
    * 
    * @param userID - The ID of the user whose content is to be deleted.
@@ -118,39 +119,36 @@ export class CleanupService {
       const channel = this.channelservice.channels[i];
       if (channel.defaultChannel) continue;
       if (channel.creatorID === userID) {
-        this.clearAndDeleteChannel(channel);
+        await this.clearAndDeleteChannel(channel);
       } else {
         await this.deleteAllMessagesFromChannel(channel, userID);
       }
     }
     await this.deleteAllChatsWithGuest(userID);
     console.warn('cleanupservice: All user content deleted (' + userID + ')');
-    await deleteDoc(doc(this.firestore, '/users/' + userID));
+    await this.repository.deleteDocument('users/' + userID);
     await this.deleteAllDocs();
   }
 
 
   /**
-   * Deletes all answers from a given message in Firestore. If a userID is provided,
+   * Deletes all answers from a given message. If a userID is provided,
    * only answers created by that user will be marked for deletion. If no userID is provided,
    * the message itself will also be marked for deletion.
    *
-   * @param message - The message object containing the reference path to the answers.
+   * @param message - The message document.
    * @param userID - (Optional) The ID of the user whose answers should be deleted. If not provided, all answers will be deleted.
    * @returns A promise that resolves when the operation is complete.
    */
-  private async deleteAllAnswersFromMessage(message: any, userID: string | undefined = undefined) {
-    const answerRef = collection(this.firestore, message.ref.path + '/answers');
-    if (answerRef) {
-      const answers = await getDocs(answerRef);
-      for (let k = 0; k < answers.docs.length; k++) {
-        const answer = answers.docs[k];
-        if (!userID || answer.data()['creatorID'] === userID) {
-          this.docsToDelete.push(message.ref.path + '/answers/' + answer.id);
-        }
+  private async deleteAllAnswersFromMessage(message: RepositoryDocument<MessageData>, userID: string | undefined = undefined) {
+    const answers = await this.repository.getDocuments({ collectionPath: message.path + '/answers' }, messageConverter);
+    for (let k = 0; k < answers.length; k++) {
+      const answer = answers[k];
+      if (!userID || answer.data?.creatorID === userID) {
+        this.docsToDelete.push(message.path + '/answers/' + answer.id);
       }
     }
-    if (!userID) this.docsToDelete.push(message.ref.path);
+    if (!userID) this.docsToDelete.push(message.path);
   }
 
 
@@ -162,13 +160,13 @@ export class CleanupService {
    * @returns A promise that resolves when all messages have been processed.
    */
   private async deleteAllMessagesFromChannel(channel: Channel, userID: string) {
-    const messages = await getDocs(collection(this.firestore, channel.channelMessagesPath));
-    for (let j = 0; j < messages.docs.length; j++) {
-      const message = messages.docs[j];
-      if (message.data()['creatorID'] === userID) {
-        this.deleteAllAnswersFromMessage(message);
+    const messages = await this.repository.getDocuments({ collectionPath: channel.channelMessagesPath }, messageConverter);
+    for (let j = 0; j < messages.length; j++) {
+      const message = messages[j];
+      if (message.data?.creatorID === userID) {
+        await this.deleteAllAnswersFromMessage(message);
       } else {
-        this.deleteAllAnswersFromMessage(message, userID);
+        await this.deleteAllAnswersFromMessage(message, userID);
       }
     }
   }
@@ -184,12 +182,12 @@ export class CleanupService {
    * @returns {Promise<void>} A promise that resolves when the operation is complete.
    */
   private async clearAndDeleteChannel(channel: Channel) {
-    const messages = await getDocs(collection(this.firestore, channel.channelMessagesPath));
-    for (let j = 0; j < messages.docs.length; j++) {
-      const message = messages.docs[j];
-      this.deleteAllAnswersFromMessage(message);
+    const messages = await this.repository.getDocuments({ collectionPath: channel.channelMessagesPath }, messageConverter);
+    for (let j = 0; j < messages.length; j++) {
+      const message = messages[j];
+      await this.deleteAllAnswersFromMessage(message);
     }
-    this.docsToDelete.push('/channels/' + channel.id);
+    this.docsToDelete.push('channels/' + channel.id);
   }
 
 
@@ -200,7 +198,7 @@ export class CleanupService {
    * 1. Retrieves the chat IDs associated with the given user ID.
    * 2. Adds the paths of the chats to be deleted to the `docsToDelete` array.
    * 3. Iterates through all users and removes the chat IDs associated with the given user ID from each user's chat list.
-   * 4. Updates the Firestore document for each user with the cleaned-up chat IDs.
+   * 4. Updates the document of each user with the cleaned-up chat IDs.
    *
    * @param userID - The ID of the user whose chats are to be deleted.
    * @returns A promise that resolves when all chat references have been deleted and user documents have been updated.
@@ -210,19 +208,19 @@ export class CleanupService {
     if (chatIDs) {
       for (let i = 0; i < chatIDs.length; i++) {
         const chatID = chatIDs[i];
-        this.docsToDelete.push('/chats/' + chatID);
+        this.docsToDelete.push('chats/' + chatID);
       }
     }
     for (let i = 0; i < this.userservice.users.length; i++) {
       const user = this.userservice.users[i];
       const cleanedupChatIDs = user.chatIDs.filter((chatID) => !chatIDs?.includes(chatID));
-      await updateDoc(doc(this.firestore, '/users/' + user.id), { chatIDs: cleanedupChatIDs });
+      await this.repository.updateDocument('users/' + user.id, { chatIDs: cleanedupChatIDs }, userConverter);
     }
   }
 
 
   /**
-   * Deletes all documents listed in the `docsToDelete` array from Firestore.
+   * Deletes all documents listed in the `docsToDelete` array.
    * 
    * @private
    * @async
@@ -230,7 +228,7 @@ export class CleanupService {
    */
   private async deleteAllDocs() {
     for (let i = 0; i < this.docsToDelete.length; i++) {
-      await deleteDoc(doc(this.firestore, this.docsToDelete[i]));
+      await this.repository.deleteDocument(this.docsToDelete[i]);
     }
     this.docsToDelete = [];
     setTimeout(() => { this.recalculateFireStoreData(); }, 3000);
@@ -262,7 +260,7 @@ export class CleanupService {
    * 
    * This method filters out users from the channel's member list who are not recognized
    * or are not considered real users. If any unknown users are found, the channel's 
-   * member list is updated in the Firestore database.
+   * member list is updated.
    * 
    * @param {Channel} channel - The channel from which to clear unknown users.
    * @returns {Promise<void>} A promise that resolves when the operation is complete.
@@ -282,7 +280,7 @@ export class CleanupService {
     });
     if (membersArrayNeedUpdate) {
       console.warn('cleanupservice: Clearing unknown users from channel (' + channel.name + ')');
-      await updateDoc(doc(this.firestore, 'channels/' + channel.id), { memberIDs: realMembers });
+      await this.repository.updateDocument('channels/' + channel.id, { memberIDs: realMembers }, channelConverter);
     }
   }
 
@@ -297,9 +295,9 @@ export class CleanupService {
    * @returns A promise that resolves when all messages have been recalculated.
    */
   async recalculateAllMessagesFormChannel(channel: Channel) {
-    const messages = await getDocs(collection(this.firestore, channel.channelMessagesPath));
-    for (let i = 0; i < messages.docs.length; i++) {
-      const message = messages.docs[i];
+    const messages = await this.repository.getDocuments({ collectionPath: channel.channelMessagesPath }, messageConverter);
+    for (let i = 0; i < messages.length; i++) {
+      const message = messages[i];
       await this.recalculateAnswersFromMessage(message);
     }
   }
@@ -308,17 +306,16 @@ export class CleanupService {
   /**
    * Recalculates the number of answers for a given message and updates the message document if the count has changed.
    *
-   * @param message - The message document snapshot from which to recalculate the answers.
+   * @param message - The message document from which to recalculate the answers.
    * @returns A promise that resolves when the recalculation and potential update are complete.
    */
-  async recalculateAnswersFromMessage(message: QueryDocumentSnapshot<DocumentData, DocumentData>) {
-    const answersRef = collection(this.firestore, message.ref.path + '/answers');
-    const answers = await getDocs(answersRef);
-    const realAnswerCount = answers ? answers.size : 0;
-    const currentAnswerCount = message.data()['answerCount'] ? message.data()['answerCount'] : 0;
+  async recalculateAnswersFromMessage(message: RepositoryDocument<MessageData>) {
+    const answers = await this.repository.getDocuments({ collectionPath: message.path + '/answers' }, messageConverter);
+    const realAnswerCount = answers.length;
+    const currentAnswerCount = message.data?.answerCount ? message.data.answerCount : 0;
     if (realAnswerCount !== currentAnswerCount) {
-      console.warn('cleanupservice: Recalculating answers for message (' + message.ref.path + ')');
-      updateDoc(doc(this.firestore, message.ref.path), { answerCount: realAnswerCount });
+      console.warn('cleanupservice: Recalculating answers for message (' + message.path + ')');
+      await this.repository.updateDocument(message.path, { answerCount: realAnswerCount }, messageConverter);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { inject, Injectable } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { UsersService } from './user.service';
+import { ChannelService } from './channel.service';
+import { MessageAttachment } from './message.service';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
+import { getObjectsPath } from '../firebase/utils';
+import { isEmptyMessage } from '../quil/utility';
+
+/**
+ * An unsent message of a channel, chat or thread.
+ *
+ * @property {string} path - The path of the channel or chat, or the path of the message for a thread.
+ * @property {string} content - The content of the editor as HTML.
+ * @property {MessageAttachment[]} attachments - The staged attachments, not uploaded yet.
+ * @property {number} updatedAt - The time the draft was changed last.
+ */
+export type Draft = {
+  path: string;
+  content: string;
+  attachments: MessageAttachment[];
+  updatedAt: number;
+};
+
+/**
+ * A draft as stored in the local storage. Attachments are stored as data URL.
+ */
+type StoredDraft = {
+  path: string;
+  content: string;
+  attachments: { name: string; type: string; size: number; lastModified: number; dataURL: string }[];
+  updatedAt: number;
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DraftService {
+
+  private userservice = inject(UsersService);
+  private channelService = inject(ChannelService);
+
+  readonly persistDelay = 1000;
+  public drafts: Draft[] = [];
+  private draftsSubject = new BehaviorSubject<Draft[]>([]);
+  public drafts$ = this.draftsSubject.asObservable();
+  private discardedDraftSubject = new Subject<string>();
+  public discardedDraft$ = this.discardedDraftSubject.asObservable();
+
+  private userID = '';
+  private persistTimeout: ReturnType<typeof setTimeout> | undefined;
+
+
+  /**
+   * Loads the drafts of the current user from the local storage.
+   * Called by the `ChatcontentComponent`, before the editors are created.
+   */
+  loadDrafts() {
+    this.userID = this.userservice.currentUserID;
+    this.drafts = [];
+    try {
+      const storedDrafts = localStorage.getItem(this.getStorageKey());
+      if (storedDrafts) this.drafts = (JSON.parse(storedDrafts) as StoredDraft[]).map((storedDraft) => this.restoreDraft(storedDraft));
+    } catch (error) {
+      console.error('DraftService: error loading drafts', error);
+    }
+    this.draftsSubject.next(this.drafts);
+  }
+
+
+  /**
+   * Returns the draft of a channel, chat or thread.
+   *
+   * @param collectionObject - The channel, chat or message (thread) of the editor.
+   * @returns The draft, or `undefined` if there is none.
+   */
+  getDraft(collectionObject: Channel | Chat | Message): Draft | undefined {
+    const path = getObjectsPath(collectionObject);
+    return this.drafts.find((draft) => draft.path === path);
+  }
+
+
+  /**
+   * Stores the content and the staged attachments of an editor as draft of its channel, chat or thread.
+   * An empty editor deletes the draft.
+   *
+   * @param collectionObject - The channel, chat or message (thread) of the editor.
+   * @param content - The content of the editor as HTML.
+   * @param attachments - The staged attachments of the editor.
+   */
+  saveDraft(collectionObject: Channel | Chat | Message, content: string, attachments: MessageAttachment[]) {
+    if (collectionObject instanceof Channel && collectionObject.defaultChannel) return;
+    const path = getObjectsPath(collectionObject);
+    if (isEmptyMessage(content) && attachments.length === 0) {
+      this.deleteDraft(path);
+      return;
+    }
+    const draft = this.drafts.find((draft) => draft.path === path);
+    if (draft && draft.content === content && this.hasSameAttachments(draft, attachments)) return;
+    const newDraft: Draft = { path: path, content: content, attachments: [...attachments], updatedAt: Date.now() };
+    this.drafts = [newDraft, ...this.drafts.filter((draft) => draft.path !== path)];
+    this.draftsSubject.next(this.drafts);
+    this.persistDrafts();
+  }
+
+
+  /**
+   * Deletes the draft of a channel, chat or thread, e.g. after the message was sent.
+   *
+   * @param path - The path of the channel or chat, or the path of the message for a thread.
+   */
+  deleteDraft(path: string) {
+    if (!this.drafts.some((draft) => draft.path === path)) return;
+    this.drafts = this.drafts.filter((draft) => draft.path !== path);
+    this.draftsSubject.next(this.drafts);
+    this.persistDrafts();
+  }
+
+
+  /**
+   * Deletes a draft on request of the user and emits its path on `discardedDraft$`,
+   * so an editor that shows the draft is cleared.
+   *
+   * @param path - The path of the draft.
+   */
+  discardDraft(path: string) {
+    this.deleteDraft(path);
+    this.discardedDraftSubject.next(path);
+  }
+
+
+  /**
+   * Returns the name of the conversation of a draft.
+   *
+   * @param draft - The draft.
+   * @returns '#channelname' or the name of the chat partner, with the prefix 'Thread in ' for threads.
+   */
+  getDraftName(draft: Draft): string {
+    const name = this.channelService.getConversationName(draft.path);
+    return draft.path.split('/').length > 2 ? 'Thread in ' + name : name;
+  }
+
+
+  /**
+   * Writes the drafts to the local storage, delayed by `persistDelay` milliseconds to bundle
+   * the changes while typing. If the attachments exceed the storage quota, the drafts are stored without them,
+   * the attachments are kept until the page is reloaded.
+   */
+  private persistDrafts() {
+    if (this.persistTimeout) clearTimeout(this.persistTimeout);
+    this.persistTimeout = setTimeout(() => this.writeDrafts(), this.persistDelay);
+  }
+
+
+  /**
+   * Writes the drafts to the local storage of the user the drafts were loaded for.
+   */
+  private async writeDrafts() {
+    this.persistTimeout = undefined;
+    const drafts = this.drafts;
+    try {
+      const storedDrafts = await Promise.all(drafts.map((draft) => this.toStoredDraft(draft)));
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(storedDrafts));
+    } catch (error) {
+      console.error('DraftService: error storing drafts with attachments', error);
+      try {
+        const storedDrafts = drafts.map((draft) => ({ path: draft.path, content: draft.content, attachments: [], updatedAt: draft.updatedAt }));
+        localStorage.setItem(this.getStorageKey(), JSON.stringify(storedDrafts));
+      } catch (error) {
+        console.error('DraftService: error storing drafts', error);
+      }
+    }
+  }
+
+
+  /**
+   * Converts a draft to be stored in the local storage, the attachment files are read as data URL.
+   *
+   * @param draft - The draft to convert.
+   * @returns A promise that resolves to the stored draft.
+   */
+  private async toStoredDraft(draft: Draft): Promise<StoredDraft> {
+    const attachments = await Promise.all(
+      draft.attachments.map(async (attachment) => ({
+        name: attachment.name,
+        type: attachment.file.type,
+        size: attachment.size,
+        lastModified: attachment.lastModified,
+        dataURL: await this.readFileAsDataURL(attachment.file),
+      }))
+    );
+    return { path: draft.path, content: draft.content, attachments: attachments, updatedAt: draft.updatedAt };
+  }
+
+
+  /**
+   * Converts a stored draft back to a draft, the attachment files are created from their data URL.
+   *
+   * @param storedDraft - The draft from the local storage.
+   * @returns The draft with staged attachments.
+   */
+  private restoreDraft(storedDraft: StoredDraft): Draft {
+    const attachments = storedDraft.attachments.map((attachment) => ({
+      name: attachment.name,
+      size: attachment.size,
+      lastModified: attachment.lastModified,
+      src: attachment.type.startsWith('image') ? attachment.dataURL : './assets/icons/chat/write-message/pdf.svg',
+      file: this.dataURLToFile(attachment.dataURL, attachment.name, attachment.type, attachment.lastModified),
+    }));
+    return { path: storedDraft.path, content: storedDraft.content, attachments: attachments, updatedAt: storedDraft.updatedAt };
+  }
+
+
+  private hasSameAttachments(draft: Draft, attachments: MessageAttachment[]): boolean {
+    return draft.attachments.length === attachments.length && draft.attachments.every((attachment, index) => attachment === attachments[index]);
+  }
+
+
+  private readFileAsDataURL(file: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+  }
+
+
+  private dataURLToFile(dataURL: string, name: string, type: string, lastModified: number): File {
+    const binary = atob(dataURL.substring(dataURL.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new File([bytes], name, { type: type, lastModified: lastModified });
+  }
+
+
+  private getStorageKey(): string {
+    return this.userID + '-drafts';
+  }
+}
@@ -0,0 +1,127 @@
+import { TestBed } from '@angular/core/testing';
+import { Channel } from '../../shared/models/channel.class';
+import { Message } from '../../shared/models/message.class';
+import { User } from '../../shared/models/user.class';
+import { channelConverter, messageConverter } from '../firebase/converters';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { ActivityService } from './activity.service';
+import { MessageService } from './message.service';
+import { provideRepositoryTesting, TestUsersService } from './testing';
+
+describe('MessageService', () => {
+  let repository: MemoryRepository;
+  let usersService: TestUsersService;
+  let service: MessageService;
+  let channel: Channel;
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    usersService = new TestUsersService(repository);
+    usersService.setUsers([new User({ name: 'Anna' }, 'anna'), new User({ name: 'Ben' }, 'ben')], new User({ name: 'Anna' }, 'anna'));
+    await repository.setDocument('channels/c1', { name: 'Allgemein', memberIDs: ['anna', 'ben'], messagesCount: 0 }, channelConverter);
+    channel = new Channel({ name: 'Allgemein', memberIDs: ['anna', 'ben'] }, 'c1');
+    TestBed.configureTestingModule({ providers: provideRepositoryTesting(repository, usersService) });
+    service = TestBed.inject(MessageService);
+  });
+
+  async function getMessage(path: string): Promise<Message> {
+    const messageDoc = await repository.getDocument(path, messageConverter);
+    return new Message(messageDoc.data!, path.substring(0, path.lastIndexOf('/') + 1), messageDoc.id);
+  }
+
+  async function getMessagesCount(): Promise<number | undefined> {
+    return (await repository.getDocument('channels/c1', channelConverter)).data?.messagesCount;
+  }
+
+  describe('sending', () => {
+    it('stores a new message and counts it in the channel', async () => {
+      expect(await service.addNewMessageToCollection(channel, '<p>Hallo</p>')).toBe('');
+      const messageDocs = await repository.getDocuments({ collectionPath: channel.channelMessagesPath }, messageConverter);
+      expect(messageDocs.length).toBe(1);
+      expect(messageDocs[0].data).toEqual(jasmine.objectContaining({ creatorID: 'anna', content: '<p>Hallo</p>', plainContent: 'Hallo', answerable: true }));
+      expect(await getMessagesCount()).toBe(1);
+    });
+
+    it('counts a message that is sent again with the same ID only once', async () => {
+      await service.addNewMessageToCollection(channel, 'Hallo', [], 'anna', undefined, { messageID: 'm1' });
+      await service.addNewMessageToCollection(channel, 'Hallo', [], 'anna', undefined, { messageID: 'm1' });
+      expect(await getMessagesCount()).toBe(1);
+    });
+
+    it('stores a thread answer with its copy in the channel', async () => {
+      await service.addNewMessageToCollection(channel, 'Frage', [], 'anna', undefined, { messageID: 'm1' });
+      const threadMessage = await getMessage('channels/c1/messages/m1');
+      await service.addNewMessageToCollection(threadMessage, 'Antwort', [], 'ben', undefined, { messageID: 'a1', alsoSendToChannel: true });
+      const updatedThreadMessage = await getMessage('channels/c1/messages/m1');
+      const answer = await getMessage('channels/c1/messages/m1/answers/a1');
+      expect(updatedThreadMessage.answerCount).toBe(1);
+      expect(updatedThreadMessage.threadFollowerIDs).toEqual(jasmine.arrayWithExactContents(['anna', 'ben']));
+      expect(answer.channelCopyPath).toBeDefined();
+      expect((await getMessage(answer.channelCopyPath!)).threadAnswerPath).toBe('channels/c1/messages/m1/answers/a1');
+      expect(await getMessagesCount()).toBe(2);
+    });
+
+    it('uploads attachments and stores them with the message', async () => {
+      const file = new File(['x'], 'bild.png', { type: 'image/png' });
+      await service.addNewMessageToCollection(channel, 'Mit Bild', [{ name: 'bild.png', src: '', size: 1, lastModified: 0, file: file }], 'anna', undefined, { messageID: 'm1' });
+      const message = await getMessage('channels/c1/messages/m1');
+      expect(message.attachments).toEqual([{ name: 'bild', url: 'memory://message-attachments/m1/bild.png', path: 'message-attachments/m1/bild.png', type: 'image' }]);
+      expect(repository.hasFile('message-attachments/m1/bild.png')).toBeTrue();
+    });
+  });
+
+  describe('editing', () => {
+    it('updates the content and stores the previous content as revision', async () => {
+      await service.addNewMessageToCollection(channel, 'Erste Version', [], 'anna', undefined, { messageID: 'm1' });
+      const message = await getMessage('channels/c1/messages/m1');
+      expect(await service.updateMessage(message, { content: '<b>Zweite Version</b>' })).toBe('');
+      const editedMessage = await getMessage('channels/c1/messages/m1');
+      expect(editedMessage.content).toBe('<b>Zweite Version</b>');
+      expect(editedMessage.edited).toBeTrue();
+      const revisions = await service.getMessageRevisions(editedMessage);
+      expect(revisions.length).toBe(1);
+      expect(revisions[0].previousContent).toBe('Erste Version');
+      expect(revisions[0].content).toBe('<b>Zweite Version</b>');
+    });
+
+    it('does not store a revision if the content is unchanged', async () => {
+      await service.addNewMessageToCollection(channel, 'Gleich', [], 'anna', undefined, { messageID: 'm1' });
+      const message = await getMessage('channels/c1/messages/m1');
+      await service.updateMessage(message, { content: 'Gleich' });
+      expect(await service.getMessageRevisions(message)).toEqual([]);
+      expect((await getMessage('channels/c1/messages/m1')).edited).toBeFalse();
+    });
+
+    it('only lets the creator restore an earlier content', async () => {
+      await service.addNewMessageToCollection(channel, 'Von Ben', [], 'ben', undefined, { messageID: 'm1' });
+      const message = await getMessage('channels/c1/messages/m1');
+      expect(await service.restoreMessageRevision(message, 'Früher')).toBe('Nur der Ersteller kann eine frühere Version wiederherstellen.');
+    });
+  });
+
+  describe('reactions', () => {
+    it('adds and removes the reaction of the current user', async () => {
+      await service.addNewMessageToCollection(channel, 'Hallo', [], 'ben', undefined, { messageID: 'm1' });
+      const message = await getMessage('channels/c1/messages/m1');
+      expect(await service.toggleReactionToMessage(message, '👍')).toBeTrue();
+      expect((await getMessage('channels/c1/messages/m1')).emojies).toEqual([{ type: '👍', userIDs: ['anna'] }]);
+      expect(await service.toggleReactionToMessage(message, '👍')).toBeTrue();
+      expect((await getMessage('channels/c1/messages/m1')).emojies).toEqual([]);
+      expect(TestBed.inject(ActivityService).addReactionActivity).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the reactions of other users', async () => {
+      await service.addNewMessageToCollection(channel, 'Hallo', [], 'ben', undefined, { messageID: 'm1' });
+      await repository.updateDocument('channels/c1/messages/m1', { emojies: [{ type: '👍', userIDs: ['ben'] }] }, messageConverter);
+      const message = await getMessage('channels/c1/messages/m1');
+      await service.toggleReactionToMessage(message, '👍');
+      expect((await getMessage('channels/c1/messages/m1')).emojies).toEqual([{ type: '👍', userIDs: ['ben', 'anna'] }]);
+    });
+
+    it('fails for a message that no longer exists', async () => {
+      spyOn(console, 'error');
+      const message = new Message({ creatorID: 'ben', content: 'Weg' }, channel.channelMessagesPath, 'missing');
+      expect(await service.toggleReactionToMessage(message, '👍')).toBeFalse();
+    });
+  });
+});
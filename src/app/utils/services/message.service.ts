@@ -1,12 +1,22 @@
 import { inject, Injectable } from '@angular/core';
-import { Firestore, collection, collectionGroup, query, orderBy, limit, doc, getDocs, addDoc, updateDoc, serverTimestamp, deleteDoc } from '@angular/fire/firestore';
-import { deleteObject, getDownloadURL, getStorage, ref, uploadBytes } from '@angular/fire/storage';
+import { Timestamp, UpdateData, WithFieldValue } from '@angular/fire/firestore';
 import { UsersService } from './user.service';
-import { IReactions, Message, StoredAttachment } from '../../shared/models/message.class';
+import { Message, MessageData, MessageReminder, StoredAttachment } from '../../shared/models/message.class';
 import { Channel } from '../../shared/models/channel.class';
 import { Chat } from '../../shared/models/chat.class';
 import { EmojipickerService } from './emojipicker.service';
-import { getMessagePath, getObjectsPath, removeAllHTMLTagsFromString } from '../firebase/utils';
+import { getBroadcastMentions, getMentionedGroupIDs, getMentionedUserIDs, getMessagePath, getParentObjectPath, removeAllHTMLTagsFromString } from '../firebase/utils';
+import { MessageRevision } from '../../shared/models/message-revision.class';
+import { BehaviorSubject } from 'rxjs';
+import { Poll } from '../../shared/models/poll.class';
+import { ActivityService } from './activity.service';
+import { ChannelService } from './channel.service';
+import { UserGroupService } from './user-group.service';
+import { CollectionType } from '../../shared/models/user.class';
+import { deleteCountedMessage, storeNewMessage, toggleReaction } from '../firebase/transactions';
+import { getSchemaVersion } from '../firebase/migrations';
+import { channelConverter, chatConverter, messageConverter, messageRevisionConverter } from '../firebase/converters';
+import { Repository, RepositoryDocument } from '../firebase/repository';
 
 export type MessageAttachment = {
   name: string;
@@ -16,23 +26,53 @@ export type MessageAttachment = {
   file: any;
 };
 
+/**
+ * Additional data of a new message.
+ *
+ * @property {Poll} [poll] - The poll of the message, the content of the message is the question.
+ * @property {MessageReminder} [reminder] - The reminder a message of the DABubble bot belongs to.
+ * @property {boolean} [alsoSendToChannel] - Only for thread answers: the answer is also sent as linked copy to the channel or chat of the thread.
+ * @property {string} [messageID] - The ID of the new message, e.g. generated by the outbox, so a retried message isn't stored twice.
+ */
+export type MessagePayload = {
+  poll?: Poll;
+  reminder?: MessageReminder;
+  alsoSendToChannel?: boolean;
+  messageID?: string;
+};
+
 @Injectable({
   providedIn: 'root',
 })
 export class MessageService {
 
-  private firestore = inject(Firestore);
+  private repository = inject(Repository);
   private userservice = inject(UsersService);
   private emojiService = inject(EmojipickerService);
-  private storage = getStorage();
+  private activityService = inject(ActivityService);
+  private channelService = inject(ChannelService);
+  private userGroupService = inject(UserGroupService);
+
+  private selectedRevisionsMessageSubject = new BehaviorSubject<Message | undefined>(undefined);
+  public selectedRevisionsMessage$ = this.selectedRevisionsMessageSubject.asObservable();
+
+  readonly deleteUndoTime = 8000;
+  private pendingDeletion: { message: Message; timeoutID: ReturnType<typeof setTimeout> } | undefined;
 
 
   /**
    * Adds a new message to the specified collection (Channel, Chat, or Message).
+   * Answers let their creator and the mentioned users follow the thread.
+   * The mentioned users and the users of the thread get an activity. `@channel` and `@here` mention the members
+   * of the channel, they are rejected if the creator isn't allowed to use them.
+   * The message is stored and counted in the `messagesCount` or `answerCount` of its parent in one transaction.
+   * The attachments are uploaded afterwards, if an upload fails the message is stored without the attachments and the error
+   * is returned. Sending the message again with the same `payload.messageID` overwrites it without counting it twice.
    * 
    * @param collectionObject - The collection object to which the message will be added. This can be a Channel, Chat, or Message.
    * @param messageContent - The content of the message to be added.
    * @param attachments - An optional array of message attachments.
+   * @param payload - Optional additional data, e.g. a poll, or for thread answers whether the answer is also sent to the channel.
    * @returns A promise that resolves to an empty string if the message is added successfully, or an error message if the operation fails.
    * 
    * @throws Will throw an error if the message path is not found.
@@ -42,18 +82,23 @@ export class MessageService {
     messageContent: string,
     attachments: MessageAttachment[] = [],
     creatorID: string = this.userservice.currentUserID,
-    createdAt: Date | undefined = undefined
+    createdAt: Date | undefined = undefined,
+    payload: MessagePayload = {}
   ): Promise<string> {
     const messagePath = getMessagePath(collectionObject);
-    const objectPath = getObjectsPath(collectionObject);
+    const broadcastMentionsError = this.getBroadcastMentionsError(messagePath, messageContent, creatorID);
+    if (broadcastMentionsError) return broadcastMentionsError;
+    const mentionedUserIDs = this.getMentionedUserIDsOfMessage(messagePath, messageContent, creatorID);
     try {
-      const messageCollectionRef = collection(this.firestore, messagePath);
-      if (!messageCollectionRef) throw new Error('Nachrichtenpfad "' + messagePath + '" nicht gefunden.');
-      const response = await addDoc(messageCollectionRef, this.createNewMessageObject(messageContent, !(collectionObject instanceof Message), creatorID, createdAt));
-      if (attachments.length > 0) this.uploadAndAddAttachmentsToMessage(response.id, response.path, attachments);
-      const messagesQuerySnapshot = await getDocs(messageCollectionRef);
-      const updateData = collectionObject instanceof Message ? { answerCount: messagesQuerySnapshot.size, lastAnswerAt: serverTimestamp() } : { messagesCount: messagesQuerySnapshot.size };
-      await updateDoc(doc(this.firestore, objectPath), updateData);
+      if (!messagePath) throw new Error('Nachrichtenpfad "' + messagePath + '" nicht gefunden.');
+      const messageID = payload.messageID ?? this.repository.createDocumentID(messagePath);
+      const messageObject = this.createNewMessageObject(messageContent, !(collectionObject instanceof Message), creatorID, createdAt, payload, mentionedUserIDs);
+      const parentUpdateData = collectionObject instanceof Message
+        ? { lastAnswerAt: this.repository.serverTimestamp(), threadFollowerIDs: this.repository.arrayUnion(...this.getNewThreadFollowerIDs(collectionObject, creatorID, mentionedUserIDs)) }
+        : {};
+      const channelCopyPath = await storeNewMessage(this.repository, collectionObject, messagePath + messageID, messageObject, parentUpdateData, payload.alsoSendToChannel);
+      if (attachments.length > 0) await this.uploadAndAddAttachmentsToMessage(messageID, messagePath + messageID, attachments, channelCopyPath);
+      this.addActivitiesOfNewMessage(collectionObject, messagePath + messageID, messageContent, creatorID, mentionedUserIDs);
       return '';
     } catch (error) {
       console.error('MessageService: error adding message', error);
@@ -62,53 +107,354 @@ export class MessageService {
   }
 
 
+  /**
+   * Checks if a new message can be sent, before it is queued in the outbox.
+   *
+   * @param collectionObject - The channel, chat or message (thread) of the new message.
+   * @param messageContent - The content of the new message.
+   * @param creatorID - The creator of the new message.
+   * @returns An error message, or an empty string if the message can be sent.
+   */
+  getNewMessageError(collectionObject: Channel | Chat | Message, messageContent: string, creatorID: string = this.userservice.currentUserID): string {
+    return this.getBroadcastMentionsError(getMessagePath(collectionObject), messageContent, creatorID);
+  }
+
+
+  /**
+   * Resolves the channel, chat or thread message of a stored path, e.g. the target of a scheduled or queued message.
+   * Channels and chats are read from the repository, if they are not loaded yet.
+   *
+   * @param collectionType - The type of the collection object.
+   * @param objectPath - The path of the channel or chat, or the path of the message for a thread.
+   * @returns A promise that resolves to the collection object, or `undefined` if it doesn't exist anymore.
+   */
+  async getCollectionObjectByPath(collectionType: CollectionType, objectPath: string): Promise<Channel | Chat | Message | undefined> {
+    const objectID = objectPath.split('/').pop() ?? '';
+    if (collectionType === 'message') return await this.getMessageByID(objectPath.substring(0, objectPath.length - objectID.length), objectID);
+    const loadedObject = collectionType === 'channel'
+      ? this.channelService.channels.find((channel) => channel.id === objectID)
+      : this.channelService.getChatByID(objectID);
+    if (loadedObject) return loadedObject;
+    try {
+      if (collectionType === 'channel') {
+        const channelData = (await this.repository.getDocument(objectPath, channelConverter)).data;
+        return channelData ? new Channel(channelData, objectID) : undefined;
+      }
+      const chatData = (await this.repository.getDocument(objectPath, chatConverter)).data;
+      return chatData ? new Chat(chatData, objectID) : undefined;
+    } catch (error) {
+      console.error('MessageService: error reading collection object', error);
+      return undefined;
+    }
+  }
+
+
+  /**
+   * Adds the activities of a new message: a `mention` for every mentioned user and, for thread answers,
+   * a `reply` for the creator and the followers of the thread that aren't mentioned.
+   *
+   * @param collectionObject - The channel, chat or message (thread) of the new message.
+   * @param messagePath - The path of the new message.
+   * @param messageContent - The content of the new message.
+   * @param creatorID - The creator of the new message.
+   * @param mentionedUserIDs - The users mentioned in the new message.
+   */
+  private async addActivitiesOfNewMessage(collectionObject: Channel | Chat | Message, messagePath: string, messageContent: string, creatorID: string, mentionedUserIDs: string[]) {
+    await this.activityService.addMentionActivities(messagePath, messageContent, mentionedUserIDs, creatorID);
+    if (collectionObject instanceof Message) {
+      await this.activityService.addReplyActivities(collectionObject, messagePath, messageContent, creatorID, mentionedUserIDs);
+    }
+  }
+
+
+  /**
+   * Returns the users that start to follow a thread with a new answer: the creator of the answer and the mentioned users.
+   * With the first answer the creator of the thread message follows the thread, too.
+   *
+   * @param threadMessage - The message of the thread.
+   * @param creatorID - The creator of the answer.
+   * @param mentionedUserIDs - The users mentioned in the answer.
+   * @returns The IDs of the users, without duplicates.
+   */
+  private getNewThreadFollowerIDs(threadMessage: Message, creatorID: string, mentionedUserIDs: string[]): string[] {
+    const followerIDs = [creatorID, ...mentionedUserIDs];
+    if (threadMessage.answerCount === 0 && threadMessage.creatorID) followerIDs.push(threadMessage.creatorID);
+    return [...new Set(followerIDs)];
+  }
+
+
+  /**
+   * Returns the users mentioned in a message: the users mentioned by name, the members of the mentioned
+   * user groups and the members of the channel mentioned with `@channel` or `@here`.
+   *
+   * @param path - The path of the message or its collection.
+   * @param messageContent - The content of the message.
+   * @param creatorID - The creator of the message.
+   * @returns The IDs of the mentioned users, without duplicates.
+   */
+  private getMentionedUserIDsOfMessage(path: string, messageContent: string, creatorID: string): string[] {
+    const broadcastMentionedUserIDs = this.channelService.getBroadcastMentionedUserIDs(path, getBroadcastMentions(messageContent), creatorID);
+    const groupMemberIDs = this.userGroupService.getMemberIDsOfUserGroups(getMentionedGroupIDs(messageContent)).filter((userID) => userID !== creatorID);
+    return [...new Set([...getMentionedUserIDs(messageContent), ...groupMemberIDs, ...broadcastMentionedUserIDs])];
+  }
+
+
+  /**
+   * Checks if the creator of a message may use the broadcast mentions of its content.
+   *
+   * @param path - The path of the message or its collection.
+   * @param messageContent - The content of the message.
+   * @param creatorID - The creator of the message.
+   * @returns An empty string if the message has no broadcast mentions or they are allowed, otherwise the reason.
+   */
+  private getBroadcastMentionsError(path: string, messageContent: string, creatorID: string): string {
+    if (getBroadcastMentions(messageContent).length === 0) return '';
+    return this.channelService.getBroadcastMentionsError(path, creatorID);
+  }
+
+
+  /**
+   * Retrieves a single message by its ID from the given message collection.
+   *
+   * @param collectionPath - The path of the message collection, e.g. `channels/{id}/messages/`.
+   * @param messageID - The ID of the message document.
+   * @returns A promise that resolves to the message, or `undefined` if it does not exist or the read fails.
+   */
+  async getMessageByID(collectionPath: string, messageID: string): Promise<Message | undefined> {
+    try {
+      const messageData = (await this.repository.getDocument(collectionPath + messageID, messageConverter)).data;
+      return messageData ? new Message(messageData, collectionPath, messageID) : undefined;
+    } catch (error) {
+      console.error('MessageService: error reading message', error);
+      return undefined;
+    }
+  }
+
+
+  /**
+   * Retrieves a single message by its path.
+   *
+   * @param messagePath - The path of the message document.
+   * @returns A promise that resolves to the message, or `undefined` if it does not exist or the read fails.
+   */
+  private async getMessageByPath(messagePath: string): Promise<Message | undefined> {
+    const separatorIndex = messagePath.lastIndexOf('/') + 1;
+    return this.getMessageByID(messagePath.substring(0, separatorIndex), messagePath.substring(separatorIndex));
+  }
+
+
   /**
    * Uploads the provided attachments to storage and updates the message document with the uploaded attachments.
+   * The channel copy of a thread answer references the same attachments.
    *
    * @param messageID - The unique identifier of the message.
    * @param messagePath - The Firestore path to the message document.
    * @param attachments - An array of attachments to be uploaded.
+   * @param linkedMessagePath - The path of the channel copy of a thread answer, if any.
    * @returns A promise that resolves when the attachments have been uploaded and the message document has been updated.
+   * @throws An error if not all attachments could be uploaded, the uploaded attachments are stored anyway.
    */
-  private async uploadAndAddAttachmentsToMessage(messageID: string, messagePath: string, attachments: MessageAttachment[]): Promise<void> {
+  private async uploadAndAddAttachmentsToMessage(messageID: string, messagePath: string, attachments: MessageAttachment[], linkedMessagePath: string | undefined = undefined): Promise<void> {
     const uploadedAttachments = await this.uploadAttachmentsToStorage(messageID, attachments);
-    if (uploadedAttachments.length > 0) await updateDoc(doc(this.firestore, messagePath), { attachments: JSON.stringify(uploadedAttachments) });
+    if (uploadedAttachments.length > 0) await this.updateMessageAndLinkedMessage(messagePath, linkedMessagePath, { attachments: uploadedAttachments });
+    if (uploadedAttachments.length < attachments.length) throw new Error('Nicht alle Anhänge konnten hochgeladen werden.');
   }
 
 
   /**
-   * Deletes a message from the Firestore database and updates the related collection object.
-   * 
+   * Updates a message and, for thread answers that were also sent to the channel, its other copy in one batch.
+   *
+   * @param messagePath - The path of the message.
+   * @param linkedMessagePath - The path of the other copy, if any.
+   * @param updateData - The fields to update.
+   */
+  private async updateMessageAndLinkedMessage(messagePath: string, linkedMessagePath: string | undefined, updateData: UpdateData<MessageData>): Promise<void> {
+    const batch = this.repository.batch();
+    batch.update(messagePath, updateData, messageConverter);
+    if (linkedMessagePath) batch.update(linkedMessagePath, updateData, messageConverter);
+    await batch.commit();
+  }
+
+
+  /**
+   * Soft deletes a message of the current user. The message stays as a tombstone ("Nachricht gelöscht"),
+   * so its thread stays intact. Until the undo time is over, the deletion can be undone with `undoDeleteMessage`.
+   * Afterwards the message is purged with `purgeDeletedMessage`. Both copies of a thread answer that was also sent to the channel are deleted.
+   *
+   * @param message - The message to delete.
+   * @returns A promise that resolves to an empty string if successful, or an error message if the deletion fails.
+   */
+  async softDeleteMessage(message: Message): Promise<string> {
+    if (message.creatorID !== this.userservice.currentUserID) return 'Nur der Ersteller kann die Nachricht löschen.';
+    try {
+      await this.finishPendingDeletion();
+      await this.updateMessageAndLinkedMessage(message.messagePath, message.linkedMessagePath, { deleted: true, deletedAt: this.repository.serverTimestamp() });
+      this.pendingDeletion = { message: message, timeoutID: setTimeout(() => this.finishPendingDeletion(), this.deleteUndoTime) };
+      document.getElementById('messageDeletedPopover')?.showPopover();
+      return '';
+    } catch (error) {
+      console.error('MessageService: error deleting message', error);
+      return (error as Error).message;
+    }
+  }
+
+
+  /**
+   * Undoes the last soft deletion, as long as the undo time is not over.
+   *
+   * @returns A promise that resolves to an empty string if successful, or an error message if the undo fails.
+   */
+  async undoDeleteMessage(): Promise<string> {
+    if (!this.pendingDeletion) return 'Die Nachricht kann nicht mehr wiederhergestellt werden.';
+    const message = this.pendingDeletion.message;
+    clearTimeout(this.pendingDeletion.timeoutID);
+    this.pendingDeletion = undefined;
+    document.getElementById('messageDeletedPopover')?.hidePopover();
+    try {
+      await this.updateMessageAndLinkedMessage(message.messagePath, message.linkedMessagePath, { deleted: false, deletedAt: this.repository.deleteField() });
+      return '';
+    } catch (error) {
+      console.error('MessageService: error restoring message', error);
+      return (error as Error).message;
+    }
+  }
+
+
+  /**
+   * Ends the undo time of the pending soft deletion and purges the message.
+   */
+  private async finishPendingDeletion(): Promise<void> {
+    if (!this.pendingDeletion) return;
+    const message = this.pendingDeletion.message;
+    clearTimeout(this.pendingDeletion.timeoutID);
+    this.pendingDeletion = undefined;
+    document.getElementById('messageDeletedPopover')?.hidePopover();
+    await this.purgeDeletedMessage(message);
+  }
+
+
+  /**
+   * Purges a soft deleted message of the current user, if its undo time is over.
+   * Used for messages whose purge was missed, e.g. because the page was closed during the undo time.
+   *
+   * @param message - The soft deleted message.
+   */
+  purgeDeletedMessageIfExpired(message: Message) {
+    if (!message.deleted || message.purged || !message.deletedAt) return;
+    if (message.creatorID !== this.userservice.currentUserID) return;
+    if (this.pendingDeletion?.message.id === message.id) return;
+    if (!this.isDeletionFinal(message)) return;
+    this.purgeDeletedMessage(message);
+  }
+
+
+  /**
+   * Checks if a message is deleted and its deletion can't be undone anymore.
+   *
+   * @param message - The message to check.
+   * @returns `true` if the message is purged or its undo time is over, otherwise `false`.
+   */
+  isDeletionFinal(message: Message): boolean {
+    if (!message.deleted) return false;
+    if (message.purged) return true;
+    return !!message.deletedAt && Date.now() - message.deletedAt.getTime() >= this.deleteUndoTime;
+  }
+
+
+  /**
+   * Hard deletes a soft deleted message.
+   *
+   * - The attachments of the message are deleted from the storage, the revisions from Firestore.
+   * - If the message still has answers that are not deleted, the message stays as a tombstone without
+   *   content, so the thread stays intact.
+   * - Otherwise the message is deleted with all answers and the message- or answer count of the
+   *   parent object is updated. If the message was the last answer of a deleted message, the parent
+   *   message is purged, too.
+   * - The channel copy of a thread answer is deleted together with the answer.
+   *
+   * @param message - The soft deleted message.
+   * @returns A promise that resolves to an empty string if successful, or an error message if the purge fails.
+   */
+  async purgeDeletedMessage(message: Message): Promise<string> {
+    try {
+      if (message.threadAnswerPath) {
+        const answer = await this.getMessageByPath(message.threadAnswerPath);
+        return answer ? await this.purgeDeletedMessage(answer) : await this.deleteMessage(message);
+      }
+      await this.deleteStoredAttachmentsFromStorage(message.attachments);
+      if (message.edited) await this.deleteAllRevisionsFromMessage(message);
+      if (message.answerable && message.answerCount > 0 && await this.hasUndeletedAnswers(message)) {
+        await this.repository.updateDocument(message.messagePath, { content: '', plainContent: '', attachments: [], emojies: [], poll: this.repository.deleteField(), pollVotes: this.repository.deleteField(), purged: true }, messageConverter);
+        return '';
+      }
+      const error = await this.deleteMessage(message);
+      if (!error && message.channelCopyPath) await this.deleteChannelCopy(message.channelCopyPath);
+      if (!error && !message.answerable) await this.purgeDeletedParentMessage(message);
+      return error;
+    } catch (error) {
+      console.error('MessageService: error purging message', error);
+      return (error as Error).message;
+    }
+  }
+
+
+  /**
+   * Deletes the channel copy of a deleted thread answer. Its attachments and revisions belong to the answer.
+   *
+   * @param channelCopyPath - The path of the copy.
+   */
+  private async deleteChannelCopy(channelCopyPath: string) {
+    const channelCopy = await this.getMessageByPath(channelCopyPath);
+    if (channelCopy) await this.deleteMessage(channelCopy);
+  }
+
+
+  /**
+   * Checks if a message has answers that are not deleted.
+   *
+   * @param message - The message to check.
+   * @returns A promise that resolves to `true` if there are undeleted answers, otherwise `false`.
+   */
+  private async hasUndeletedAnswers(message: Message): Promise<boolean> {
+    const answerDocs = await this.repository.getDocuments({ collectionPath: message.answerPath }, messageConverter);
+    return answerDocs.some((answerDoc) => !answerDoc.data?.deleted);
+  }
+
+
+  /**
+   * Purges the parent message of a deleted answer, if the parent message is a deleted tombstone.
+   *
+   * @param answer - The deleted answer.
+   */
+  private async purgeDeletedParentMessage(answer: Message) {
+    const parentPath = getParentObjectPath(answer.collectionPath);
+    const parentID = parentPath.substring(parentPath.lastIndexOf('/') + 1);
+    const parentMessage = await this.getMessageByID(parentPath.substring(0, parentPath.lastIndexOf('/') + 1), parentID);
+    if (parentMessage?.deleted) await this.purgeDeletedMessage(parentMessage);
+  }
+
+
+  /**
+   * Deletes a message with all answers from the repository and decrements the message- or answer count
+   * of the parent object in the same transaction. A message that was already deleted isn't counted again.
+   *
    * @param {Message} message - The message to be deleted.
-   * @param {Channel | Chat | Message} collectionObject - The collection object (Channel, Chat, or Message) that contains the message.
    * @returns {Promise<string>} - A promise that resolves to an empty string if the deletion is successful, or an error message if it fails.
-   * 
-   * @throws {Error} - Throws an error if the deletion process fails.
-   * 
-   * @remarks
-   * - If the message is answerable and has answers, all answers are deleted first.
-   * - The message is then deleted from Firestore.
-   * - The related collection object is updated with the new count of messages or answers.
-   * 
    */
-  private async deleteMessage(message: Message, collectionObject: Channel | Chat | Message): Promise<string> {
+  private async deleteMessage(message: Message): Promise<string> {
     try {
-      if (message.answerable && message.answerCount > 0) this.deleteAllAnswersFromMessage(message);
-      await deleteDoc(doc(this.firestore, message.messagePath));
-      const messageCollectionRef = collection(this.firestore, getMessagePath(collectionObject))
-      const messagesQuerySnapshot = await getDocs(messageCollectionRef)
-      const updateData = collectionObject instanceof Message ? { answerCount: messagesQuerySnapshot.size } : { messagesCount: messagesQuerySnapshot.size }
-      await updateDoc(doc(this.firestore, getObjectsPath(collectionObject)), updateData)
-      return ''
+      if (message.answerable && message.answerCount > 0) await this.deleteAllAnswersFromMessage(message);
+      await deleteCountedMessage(this.repository, message);
+      return '';
     } catch (error) {
-      console.error('MessageService: error deleting message', error)
-      return (error as Error).message
+      console.error('MessageService: error deleting message', error);
+      return (error as Error).message;
     }
   }
 
 
   /**
-   * Deletes all answers associated with a given message from the Firestore database.
+   * Deletes all answers associated with a given message and their attachments, and the channel copies of the answers.
    *
    * @param {Message} message - The message object containing the path to the answers.
    * @returns {Promise<string>} A promise that resolves to an empty string if successful, or an error message if an error occurs.
@@ -117,9 +463,17 @@ export class MessageService {
    */
   private async deleteAllAnswersFromMessage(message: Message): Promise<string> {
     try {
-      const answerCollectionRef = collection(this.firestore, message.answerPath);
-      const answersQuerySnapshot = await getDocs(answerCollectionRef);
-      const deletePromises = answersQuerySnapshot.docs.map(doc => deleteDoc(doc.ref));
+      const answerDocs = await this.repository.getDocuments({ collectionPath: message.answerPath }, messageConverter);
+      const deletePromises = answerDocs.map(async (answerDoc) => {
+        const answerData = answerDoc.data;
+        if (answerData) {
+          const answer = new Message(answerData, message.answerPath, answerDoc.id);
+          await this.deleteStoredAttachmentsFromStorage(answer.attachments);
+          if (answer.edited) await this.deleteAllRevisionsFromMessage(answer);
+          if (answer.channelCopyPath) await this.deleteChannelCopy(answer.channelCopyPath);
+        }
+        await this.repository.deleteDocument(answerDoc.path);
+      });
       await Promise.all(deletePromises);
       return '';
     } catch (error) {
@@ -130,7 +484,41 @@ export class MessageService {
 
 
   /**
-   * Deletes a stored attachment from a message.
+   * Deletes attachments from the storage. Errors of single attachments are logged and skipped.
+   *
+   * @param attachments - The stored attachments to delete.
+   */
+  private async deleteStoredAttachmentsFromStorage(attachments: StoredAttachment[]) {
+    for (const attachment of attachments) {
+      try {
+        await this.repository.deleteFile(attachment.path);
+      } catch (error) {
+        console.error('MessageService: error deleting attachment', attachment.name, ' / ', error);
+      }
+    }
+  }
+
+
+  /**
+   * Deletes all revisions of a given message from the repository.
+   *
+   * @param {Message} message - The message object containing the path to the revisions.
+   * @returns {Promise<string>} A promise that resolves to an empty string if successful, or an error message if an error occurs.
+   */
+  private async deleteAllRevisionsFromMessage(message: Message): Promise<string> {
+    try {
+      const revisionDocs = await this.repository.getDocuments({ collectionPath: message.revisionsPath }, messageRevisionConverter);
+      await Promise.all(revisionDocs.map(revisionDoc => this.repository.deleteDocument(revisionDoc.path)));
+      return '';
+    } catch (error) {
+      console.error('MessageService: error deleting revisions', error);
+      return (error as Error).message;
+    }
+  }
+
+
+  /**
+   * Deletes a stored attachment from a message, and from the other copy of a thread answer that was also sent to the channel.
    *
    * @param {Message} message - The message object containing the attachment.
    * @param {StoredAttachment} storedAttachment - The attachment to be deleted.
@@ -140,10 +528,9 @@ export class MessageService {
    */
   public async deleteStoredAttachment(message: Message, storedAttachment: StoredAttachment): Promise<string> {
     try {
-      const storageRef = ref(this.storage, storedAttachment.path)
-      await deleteObject(storageRef)
+      await this.repository.deleteFile(storedAttachment.path)
       const updatedAttachments = message.attachments.filter(attachment => attachment.name !== storedAttachment.name)
-      await updateDoc(doc(this.firestore, message.messagePath), { attachments: JSON.stringify(updatedAttachments) })
+      await this.updateMessageAndLinkedMessage(message.messagePath, message.linkedMessagePath, { attachments: updatedAttachments })
       return ''
     } catch (error) {
       console.error('MessageService: error deleting attachment', error)
@@ -165,10 +552,8 @@ export class MessageService {
     let uploadedAttachments: StoredAttachment[] = []
     for (const attachment of attachments) {
       const storagePath = 'message-attachments/' + messageID + '/' + attachment.name
-      const storageRef = ref(this.storage, storagePath)
       try {
-        const result = await uploadBytes(storageRef, attachment.file)
-        const url = await getDownloadURL(storageRef)
+        const url = await this.repository.uploadFile(storagePath, attachment.file)
         const nameWithoutExtension = attachment.name.replace(/\.[^/.]+$/, '')
         uploadedAttachments.push({
           name: nameWithoutExtension,
@@ -186,6 +571,9 @@ export class MessageService {
 
   /**
    * Updates a message with the provided update data.
+   * The previous and the new content are stored as a revision in the `revisions` subcollection of the message,
+   * together with the message update in one batch. The other copy of a thread answer that was also sent to the channel
+   * is updated in the same batch. The mentioned users are stored again, users that are mentioned for the first time get an activity.
    * 
    * @param message - The message object to be updated.
    * @param updateData - An object containing the fields to update. 
@@ -193,26 +581,87 @@ export class MessageService {
    *                     - `edited` (optional): A boolean indicating if the message has been edited.
    *                     - `editedAt` (optional): The timestamp when the message was edited.
    * 
-   * @returns A promise that resolves when the message has been successfully updated.
-   * 
-   * @throws Will throw an error if the update operation fails.
+   * @returns A promise that resolves to an empty string if the message was updated or unchanged, or an error message if the update fails.
    */
-  async updateMessage(message: Message, updateData: { content: string; plainContent?: string, edited?: boolean; editedAt?: any }) {
+  async updateMessage(message: Message, updateData: { content: string; plainContent?: string, mentionedUserIDs?: string[], edited?: boolean; editedAt?: any }): Promise<string> {
     try {
       if (updateData.content && updateData.content != message.content) {
+        const broadcastMentionsError = this.getBroadcastMentionsError(message.messagePath, updateData.content, message.creatorID);
+        if (broadcastMentionsError) return broadcastMentionsError;
         updateData.edited = true;
-        updateData.editedAt = serverTimestamp();
+        updateData.editedAt = this.repository.serverTimestamp();
         updateData.plainContent = removeAllHTMLTagsFromString(updateData.content);
-        await updateDoc(doc(this.firestore, message.messagePath), updateData)
+        updateData.mentionedUserIDs = this.getMentionedUserIDsOfMessage(message.messagePath, updateData.content, message.creatorID);
+        const batch = this.repository.batch();
+        batch.update(message.messagePath, updateData, messageConverter);
+        if (message.linkedMessagePath) batch.update(message.linkedMessagePath, updateData, messageConverter);
+        batch.set(message.revisionsPath + this.repository.createDocumentID(message.revisionsPath), {
+          editorID: this.userservice.currentUserID,
+          editedAt: this.repository.serverTimestamp(),
+          previousContent: message.content,
+          previousPlainContent: removeAllHTMLTagsFromString(message.content),
+          content: updateData.content,
+          plainContent: updateData.plainContent,
+        }, messageRevisionConverter);
+        await batch.commit();
+        const newMentionedUserIDs = updateData.mentionedUserIDs.filter((userID) => !message.mentionedUserIDs.includes(userID));
+        this.activityService.addMentionActivities(message.messagePath, updateData.content, newMentionedUserIDs, message.creatorID);
       }
+      return '';
     } catch (error) {
       console.error('MessageService: error updating message', error)
+      return (error as Error).message;
     }
   }
 
 
   /**
-   * Toggles a reaction (emoji) on a given message.
+   * Retrieves all revisions of a message, sorted from the oldest to the newest edit.
+   *
+   * @param message - The message to get the revisions for.
+   * @returns A promise that resolves to the revisions, or an empty array if an error occurs.
+   */
+  async getMessageRevisions(message: Message): Promise<MessageRevision[]> {
+    try {
+      const revisionDocs = await this.repository.getDocuments({ collectionPath: message.revisionsPath, orderBy: [{ field: 'editedAt' }] }, messageRevisionConverter);
+      return revisionDocs.flatMap((revisionDoc) => {
+        const revisionData = revisionDoc.data;
+        return revisionData ? [new MessageRevision(revisionData, revisionDoc.id)] : [];
+      });
+    } catch (error) {
+      console.error('MessageService: error loading revisions', error);
+      return [];
+    }
+  }
+
+
+  /**
+   * Restores an earlier content of a message. Only the creator of the message can restore a content.
+   * The restore is stored as a new revision, so no content gets lost.
+   *
+   * @param message - The message to restore the content for.
+   * @param content - The earlier content of the message.
+   * @returns A promise that resolves to an empty string if successful, or an error message if the restore fails.
+   */
+  async restoreMessageRevision(message: Message, content: string): Promise<string> {
+    if (message.creatorID !== this.userservice.currentUserID) return 'Nur der Ersteller kann eine frühere Version wiederherstellen.';
+    return this.updateMessage(message, { content: content });
+  }
+
+
+  /**
+   * Selects the message whose revisions are shown in the revisions popover.
+   *
+   * @param message - The message to show the revisions for.
+   */
+  showMessageRevisions(message: Message | undefined) {
+    this.selectedRevisionsMessageSubject.next(message);
+  }
+
+
+  /**
+   * Toggles a reaction (emoji) on a given message. The creator of the message gets an activity, if the reaction is added.
+   * The reactions are read and written in a transaction, so concurrent reactions of other users are not lost.
    *
    * @param {Message} message - The message object to which the reaction is to be toggled.
    * @param {string} emoji - The emoji to be toggled on the message.
@@ -222,8 +671,11 @@ export class MessageService {
    */
   async toggleReactionToMessage(message: Message, emoji: string): Promise<boolean> {
     try {
-      const newReactionArray = this.getModifiedReactionArray(message.emojies, emoji)
-      await updateDoc(doc(this.firestore, message.messagePath), { emojies: newReactionArray })
+      const reactionAdded = await toggleReaction(this.repository, message.messagePath, emoji, this.userservice.currentUserID)
+      if (reactionAdded) {
+        this.emojiService.addEmojiToUserEmojis(emoji)
+        this.activityService.addReactionActivity(message, emoji)
+      }
       return true
     } catch (error) {
       console.error('MessageService: error toggling reaction', error)
@@ -232,58 +684,32 @@ export class MessageService {
   }
 
 
-  /**
-   * Modifies the array of reactions based on the current user's reaction.
-   * 
-   * @param reactionsArray - The array of reactions to be modified.
-   * @param reaction - The type of reaction to be added or removed.
-   * @returns The modified array of reactions as strings.
-   * 
-   * This method performs the following operations:
-   * - If the reaction already exists and the current user has reacted, it removes the user's reaction.
-   * - If the reaction exists but the current user has not reacted, it adds the user's reaction.
-   * - If the reaction does not exist, it creates a new reaction with the current user's reaction.
-   * - It ensures that if a reaction has no users left, it is removed from the array.
-   * - It updates the user's emoji list using the emojiService.
-   */
-  private getModifiedReactionArray(reactionsArray: IReactions[], reaction: string) {
-    const currentUserID = this.userservice.currentUserID
-    let currentReaction = reactionsArray.find(emoji => emoji.type === reaction)
-    if (currentReaction) {
-      if (currentReaction.userIDs.includes(currentUserID)) {
-        currentReaction.userIDs = currentReaction.userIDs.filter(userID => userID !== currentUserID)
-        if (currentReaction.userIDs.length == 0) {
-          const reactionIndex = reactionsArray.findIndex(currentReaction => currentReaction.type === reaction)
-          reactionsArray.splice(reactionIndex, 1)
-        }
-      } else {
-        this.emojiService.addEmojiToUserEmojis(reaction)
-        currentReaction.userIDs.push(currentUserID)
-      }
-    } else {
-      this.emojiService.addEmojiToUserEmojis(reaction)
-      reactionsArray.push({ type: reaction, userIDs: [currentUserID] })
-    }
-    return reactionsArray.map(reaction => JSON.stringify(reaction))
-  }
-
-
   /**
    * Creates a new message object with the provided text and answerable status.
    *
    * @param messageText - The text content of the message.
    * @param answerable - A boolean indicating if the message is answerable.
+   * @param payload - The additional data of the message. A poll is stored with an empty `pollVotes` map.
+   * @param mentionedUserIDs - The users mentioned in the message, including the members mentioned with `@channel` and `@here`.
    * @returns An object representing the new message.
    */
-  private createNewMessageObject(messageText: string, answerable: boolean, createdBy: string, createdAt: Date | undefined): any {
-    return {
+  private createNewMessageObject(messageText: string, answerable: boolean, createdBy: string, createdAt: Date | undefined, payload: MessagePayload, mentionedUserIDs: string[]): WithFieldValue<MessageData> {
+    const messageObject: WithFieldValue<MessageData> = {
       creatorID: createdBy,
-      createdAt: createdAt ? createdAt : serverTimestamp(),
+      createdAt: createdAt ? Timestamp.fromDate(createdAt) : this.repository.serverTimestamp(),
       content: messageText,
       plainContent: removeAllHTMLTagsFromString(messageText),
+      mentionedUserIDs: mentionedUserIDs,
       emojies: [],
       answerable: answerable,
+      schemaVersion: getSchemaVersion('messages'),
     };
+    if (payload.poll) {
+      messageObject.poll = payload.poll.toFirestoreData();
+      messageObject.pollVotes = {};
+    }
+    if (payload.reminder) messageObject.reminder = { reminderID: payload.reminder.reminderID, messagePath: payload.reminder.messagePath };
+    return messageObject;
   }
 
 
@@ -291,7 +717,7 @@ export class MessageService {
 
 
   /**
-   * Searches for messages in the Firestore database that match the provided search query.
+   * Searches for messages in the repository that match the provided search query.
    *
    * @param searchQuery - The search query to use for finding matching messages.
    * @returns A Promise that resolves to an array of `Message` objects that match the search query.
@@ -299,32 +725,30 @@ export class MessageService {
   async searchMessages(searchQuery: string, messagesPath: string): Promise<Message[]> {
     const searchLower = searchQuery.toLowerCase();
     if (messagesPath === '') {
-      const messagesRef = collectionGroup(this.firestore, 'messages');
-      const q = query(messagesRef, orderBy('createdAt', 'desc'), limit(100));
-      const querySnapshot = await getDocs(q);
-      return await this.getMessagesFromQuerySnapshot(querySnapshot, searchLower);
+      const messageDocs = await this.repository.getDocuments({ collectionPath: 'messages', collectionGroup: true, orderBy: [{ field: 'createdAt', direction: 'desc' }], limit: 100 }, messageConverter);
+      return await this.getMessagesFromDocuments(messageDocs, searchLower);
     } else {
-      const colRef = collection(this.firestore, messagesPath);
-      const allDocs = await getDocs(colRef);
-      return await this.getMessagesFromQuerySnapshot(allDocs, searchLower);
+      const messageDocs = await this.repository.getDocuments({ collectionPath: messagesPath }, messageConverter);
+      return await this.getMessagesFromDocuments(messageDocs, searchLower);
     }
   }
 
 
   /**
-   * Retrieves messages from a Firestore query snapshot that match a search term.
+   * Retrieves messages from read message documents that match a search term.
    *
-   * @param querySnapshot - The Firestore query snapshot containing message documents.
+   * @param messageDocs - The message documents.
    * @param searchLower - The search term in lowercase to match against message content.
    * @returns A promise that resolves to an array of messages that contain the search term.
    */
-  private async getMessagesFromQuerySnapshot(querySnapshot: any, searchLower: string): Promise<Message[]> {
+  private async getMessagesFromDocuments(messageDocs: RepositoryDocument<MessageData>[], searchLower: string): Promise<Message[]> {
     const results: Message[] = [];
-    querySnapshot.forEach((doc: any) => {
-      const messageData = doc.data();
-      const content = removeAllHTMLTagsFromString(messageData['content']).toLowerCase();
+    messageDocs.forEach((messageDoc) => {
+      const messageData = messageDoc.data;
+      if (!messageData || messageData.deleted) return;
+      const content = removeAllHTMLTagsFromString(messageData.content).toLowerCase();
       if (content.includes(searchLower)) {
-        const message = new Message(messageData, doc.ref.parent.path, doc.id);
+        const message = new Message(messageData, messageDoc.path.substring(0, messageDoc.path.lastIndexOf('/')), messageDoc.id);
         results.push(message);
       }
     });
@@ -0,0 +1,51 @@
+import { inject, Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { MigrationProgress, MigrationReport, runMigrations } from '../firebase/migrations';
+import { Repository } from '../firebase/repository';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class MigrationService {
+
+  private repository = inject(Repository);
+
+  private migrationProgress = new BehaviorSubject<MigrationProgress | undefined>(undefined);
+  public migrationProgress$ = this.migrationProgress.asObservable();
+
+  readonly isEmulatorEnvironment = !!environment.emulators;
+
+
+  /**
+   * Upgrades all documents with pending migrations to their newest version. Only one run is possible at a time.
+   * The progress is published on `migrationProgress$` and logged after every page of documents.
+   * Only possible with the emulator configuration, users of the app can't start a migration of the Firebase project.
+   *
+   * @param dryRun - Only counts the documents that would be upgraded, nothing is written.
+   * @returns A promise that resolves to the report of the run, or `undefined` outside the emulators, if a run is
+   * already in progress or failed.
+   */
+  async runMigrations(dryRun: boolean): Promise<MigrationReport | undefined> {
+    if (!this.isEmulatorEnvironment) {
+      console.error('MigrationService: migrations only run against the emulators');
+      return undefined;
+    }
+    if (this.migrationProgress.value) return undefined;
+    this.migrationProgress.next({ collectionID: '', scannedDocuments: 0, upgradedDocuments: 0, failedDocuments: 0 });
+    try {
+      return await runMigrations(this.repository, {
+        dryRun: dryRun,
+        onProgress: (progress) => {
+          this.migrationProgress.next(progress);
+          console.info(`MigrationService: ${progress.collectionID}: ${progress.scannedDocuments} documents scanned, ${progress.upgradedDocuments} ${dryRun ? 'to upgrade' : 'upgraded'}, ${progress.failedDocuments} failed`);
+        },
+      });
+    } catch (error) {
+      console.error('MigrationService: error running migrations', error);
+      return undefined;
+    } finally {
+      this.migrationProgress.next(undefined);
+    }
+  }
+}
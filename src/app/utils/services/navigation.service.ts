@@ -2,11 +2,28 @@ import { inject, Injectable, OnDestroy, EventEmitter } from '@angular/core';
 import { Channel } from '../../shared/models/channel.class';
 import { Chat } from '../../shared/models/chat.class';
 import { Message } from '../../shared/models/message.class';
-import { BehaviorSubject } from 'rxjs';
+import { BehaviorSubject, filter, firstValueFrom, Observable } from 'rxjs';
 import { UsersService } from './user.service';
 import { User } from '../../shared/models/user.class';
 import { ChannelService } from './channel.service';
 import { ifChatWhitSelf } from '../firebase/utils';
+import { Router } from '@angular/router';
+import { MessageService } from './message.service';
+
+/**
+ * The parameters of a chatcontent route.
+ *
+ * @property channelID - The ID of the channel from `/chatcontent/channel/:channelId`.
+ * @property userID - The ID of the chat partner from `/chatcontent/chat/:userId`.
+ * @property messageID - The ID of the message from `.../message/:messageId`.
+ * @property thread - True if the route ends with `/thread`.
+ */
+export type ChatRouteParams = {
+  channelID?: string;
+  userID?: string;
+  messageID?: string;
+  thread?: boolean;
+};
 
 type ChangeNavigation = 'unknow' | 'chatViewObjectSetAsChannel' | 'chatViewObjectSetAsChat' | 'threadViewObjectSet' | 'threadViewObjectCleared';
 @Injectable({
@@ -29,8 +46,11 @@ export class NavigationService {
 
   private userService: UsersService = inject(UsersService);
   private channelService: ChannelService = inject(ChannelService);
+  private messageService: MessageService = inject(MessageService);
+  private router: Router = inject(Router);
 
   private previousUrl: string = '/';
+  private deepLinkUrl: string | undefined;
 
 
   setPreviousUrl(url: string) {
@@ -42,6 +62,28 @@ export class NavigationService {
   }
 
 
+  /**
+   * Stores a chatcontent url that was requested before a user was logged in.
+   *
+   * @param url - The requested url, e.g. `/chatcontent/channel/{id}`.
+   */
+  setDeepLinkUrl(url: string) {
+    this.deepLinkUrl = url;
+  }
+
+
+  /**
+   * Returns the stored deep link url once and clears it afterwards.
+   *
+   * @returns The stored url or `/chatcontent` if no deep link was requested.
+   */
+  consumeDeepLinkUrl(): string {
+    const url = this.deepLinkUrl ?? '/chatcontent';
+    this.deepLinkUrl = undefined;
+    return url;
+  }
+
+
   /**
    * Sets the profile target by toggling the visibility of profile details.
    *
@@ -94,12 +136,13 @@ export class NavigationService {
    * Sets the main object (channel or chat) and updates the main message list path.
    *
    * @param object - The object to set as the main message object.
+   * @param updateUrl - If false, the browser url is left untouched (used when the url itself triggered the change).
    * @returns void
    */
-  async setChatViewObject(object: Channel | User | Chat): Promise<void> {
+  async setChatViewObject(object: Channel | User | Chat, updateUrl: boolean = true): Promise<void> {
 
     if (object instanceof Channel) this.setChatViewObjectAsChannel(object);
-    else if (object instanceof User) this.setChatViewObjectAsChat(object);
+    else if (object instanceof User) await this.setChatViewObjectAsChat(object, updateUrl);
     else {
       this._chatViewObject = object;
       this._chatViewPath = object.chatMessagesPath;
@@ -107,7 +150,8 @@ export class NavigationService {
       this.userService.isUserMemberOfCurrentChannel = true;
     }
 
-    this.clearThreadViewObject();
+    this.clearThreadViewObject(false);
+    if (updateUrl) this.updateUrl();
 
     await new Promise((resolve) => setTimeout(resolve, 100));
     this.navigationCompleteSubject.next();
@@ -140,9 +184,10 @@ export class NavigationService {
    * to chat list changes to update the chat view object and path once the new chat is available.
    * 
    * @param user - The user object for whom the chat view object is to be set.
+   * @param updateUrl - If true, the url is updated as soon as a newly created chat is available.
    * @returns A promise that resolves when the chat view object is set.
    */
-  private async setChatViewObjectAsChat(user: User): Promise<void> {
+  private async setChatViewObjectAsChat(user: User, updateUrl: boolean): Promise<void> {
     const chat = await this.channelService.getChatWithUserByID(user.id);
     if (chat) {
       this._chatViewObject = chat;
@@ -157,6 +202,7 @@ export class NavigationService {
             this._chatViewObject = chat;
             this._chatViewPath = chat.chatMessagesPath;
             this.userService.isUserMemberOfCurrentChannel = true;
+            if (updateUrl) this.updateUrl();
             setTimeout(() => chatListChangeSubscription.unsubscribe(), 100);
           }
         });
@@ -188,24 +234,222 @@ export class NavigationService {
    * Sets the thread message path and updates the current message.
    *
    * @param message - The message object containing the answer path.
+   * @param updateUrl - If false, the browser url is left untouched.
    * @returns void
    */
-  setThreadViewObject(message: Message): void {
+  setThreadViewObject(message: Message, updateUrl: boolean = true): void {
     if (message.answerable) {
       this._threadViewPath = message.answerPath;
       this._threadViewObject = message;
       this.changeSubject.next('threadViewObjectSet');
+      if (updateUrl) this.updateUrl();
     }
   }
 
 
   /**
    * Clears the thread by resetting the messageAnswersPath and message properties.
+   *
+   * @param updateUrl - If false, the browser url is left untouched.
    */
-  clearThreadViewObject(): void {
+  clearThreadViewObject(updateUrl: boolean = true): void {
     this._threadViewPath = undefined;
     this._threadViewObject = undefined;
     this.changeSubject.next('threadViewObjectCleared');
+    if (updateUrl) this.updateUrl();
+  }
+
+
+  // ############################################################################################################
+  // methodes for routing
+  // ############################################################################################################
+
+
+  /**
+   * Builds the router commands that represent the current chat- and threadview.
+   *
+   * - Channel: `/chatcontent/channel/{channelID}`
+   * - Chat: `/chatcontent/chat/{partnerID}`
+   * - Thread: the chatview url followed by `/message/{messageID}/thread`
+   * - Default channel: `/chatcontent`
+   *
+   * @returns The router commands for the current navigation state.
+   */
+  getRouteCommands(): string[] {
+    const commands = ['/chatcontent'];
+    if (this._chatViewObject instanceof Channel && !this._chatViewObject.defaultChannel) {
+      commands.push('channel', this._chatViewObject.id);
+    } else if (this._chatViewObject instanceof Chat) {
+      const partner = this.getChatPartnerAsUser();
+      if (!partner) return commands;
+      commands.push('chat', partner.id);
+    } else return commands;
+    if (this._threadViewObject) commands.push('message', this._threadViewObject.id, 'thread');
+    return commands;
+  }
+
+
+  /**
+   * Builds the router commands of the deep link to a message.
+   *
+   * - Message: `/chatcontent/channel/{channelID}/message/{messageID}` or `/chatcontent/chat/{partnerID}/message/{messageID}`
+   * - Thread answer: the url of the thread of its parent message, `.../message/{parentID}/thread`
+   *
+   * @param messagePath - The path of the message, e.g. `channels/{channelID}/messages/{messageID}`.
+   * @returns The router commands, or `undefined` if the channel or chat of the message isn't known.
+   */
+  getMessageRouteCommands(messagePath: string): string[] | undefined {
+    const [collection, objectID, , messageID, answers] = messagePath.split('/');
+    const commands = this.getChatViewRouteCommands(collection, objectID);
+    if (!commands) return undefined;
+    commands.push('message', messageID);
+    if (answers) commands.push('thread');
+    return commands;
+  }
+
+
+  /**
+   * Builds the router commands of a channel, chat or thread.
+   *
+   * @param objectPath - The path of the channel or chat, or the path of a message for its thread.
+   * @returns The router commands, or `undefined` if the channel or chat isn't known.
+   */
+  getConversationRouteCommands(objectPath: string): string[] | undefined {
+    const [collection, objectID, , messageID] = objectPath.split('/');
+    const commands = this.getChatViewRouteCommands(collection, objectID);
+    if (commands && messageID) commands.push('message', messageID, 'thread');
+    return commands;
+  }
+
+
+  /**
+   * Builds the router commands of the chatview of a channel or chat.
+   *
+   * @param collection - 'channels' or 'chats'.
+   * @param objectID - The ID of the channel or chat.
+   * @returns The router commands, or `undefined` if the channel or chat isn't known.
+   */
+  private getChatViewRouteCommands(collection: string, objectID: string): string[] | undefined {
+    if (collection === 'channels') {
+      if (!this.channelService.channels.some((channel) => channel.id === objectID)) return undefined;
+      return ['/chatcontent', 'channel', objectID];
+    }
+    if (collection === 'chats') {
+      const chat = this.channelService.getChatByID(objectID);
+      const partner = chat ? this.channelService.getChatPartner(chat) : undefined;
+      return partner ? ['/chatcontent', 'chat', partner.id] : undefined;
+    }
+    return undefined;
+  }
+
+
+  /**
+   * Navigates to the deep link of a message, the chatcontent scrolls the message into view.
+   * The navigation is also executed if the url of the message is already active.
+   *
+   * @param messagePath - The path of the message or thread answer.
+   * @returns A promise that resolves to `true` if the message could be opened, otherwise `false`.
+   */
+  async openMessagePath(messagePath: string): Promise<boolean> {
+    const commands = this.getMessageRouteCommands(messagePath);
+    if (!commands) return false;
+    return this.router.navigate(commands, { onSameUrlNavigation: 'reload' });
+  }
+
+
+  /**
+   * Navigates to a channel, chat or thread.
+   *
+   * @param objectPath - The path of the channel or chat, or the path of a message for its thread.
+   * @returns A promise that resolves to `true` if the conversation could be opened, otherwise `false`.
+   */
+  async openConversationPath(objectPath: string): Promise<boolean> {
+    const commands = this.getConversationRouteCommands(objectPath);
+    if (!commands) return false;
+    return this.router.navigate(commands);
+  }
+
+
+  /**
+   * Navigates the browser to the url of the current navigation state.
+   * Navigating to the url that is already active is ignored by the router.
+   *
+   * @param replaceUrl - If true, the current history entry is replaced instead of adding a new one.
+   */
+  private updateUrl(replaceUrl: boolean = false): void {
+    if (!this.router.url.startsWith('/chatcontent')) return;
+    this.router.navigate(this.getRouteCommands(), { replaceUrl });
+  }
+
+
+  /**
+   * Sets the chat- and threadview according to the params of a chatcontent route.
+   *
+   * This is called whenever the url changes, e.g. on reload, on opened bookmarks or shared links
+   * and on browser back and forward. Only the parts that differ from the current state are changed.
+   * If the channel, user or message can not be found, the url is corrected to the current state.
+   *
+   * @param params - The params of the chatcontent route.
+   * @returns A promise that resolves to the message to scroll to, if the route points to a message without thread.
+   */
+  async openRoute(params: ChatRouteParams): Promise<Message | undefined> {
+    if (!await this.openChatViewRoute(params)) {
+      this.updateUrl(true);
+      return undefined;
+    }
+    if (!params.messageID || !this._chatViewPath) {
+      if (this._threadViewObject) this.clearThreadViewObject(false);
+      return undefined;
+    }
+    if (params.thread && this._threadViewObject?.id === params.messageID) return undefined;
+    const message = await this.messageService.getMessageByID(this._chatViewPath, params.messageID);
+    if (!message) {
+      this.updateUrl(true);
+      return undefined;
+    }
+    if (params.thread) {
+      this.setThreadViewObject(message, false);
+      return undefined;
+    }
+    if (this._threadViewObject) this.clearThreadViewObject(false);
+    return message;
+  }
+
+
+  /**
+   * Sets the chatview to the channel or chat of the route params, if it is not already set.
+   *
+   * @param params - The params of the chatcontent route.
+   * @returns A promise that resolves to false if the channel or user of the route does not exist.
+   */
+  private async openChatViewRoute(params: ChatRouteParams): Promise<boolean> {
+    await this.waitForRouteTargets(params);
+    if (params.channelID) {
+      const channel = this.channelService.channels.find((channel) => channel.id === params.channelID);
+      if (!channel) return false;
+      if (this._chatViewObject !== channel) await this.setChatViewObject(channel, false);
+    } else if (params.userID) {
+      const user = this.userService.getUserByID(params.userID);
+      if (!user) return false;
+      if (this.getChatPartnerAsUser() !== user) await this.setChatViewObject(user, false);
+    } else if (this._chatViewObject !== undefined && this._chatViewObject !== this.channelService.defaultChannel) {
+      await this.setChatViewObject(this.channelService.defaultChannel, false);
+    }
+    return true;
+  }
+
+
+  /**
+   * Waits for the first load of the lists the route is resolved against, so a deep link opened on a cold reload
+   * isn't replaced before the channels, chats and users are there.
+   *
+   * @param params - The params of the chatcontent route.
+   * @returns A promise that resolves when the channels, or the users and chats of a chat route, are loaded.
+   */
+  private async waitForRouteTargets(params: ChatRouteParams): Promise<void> {
+    const loaded = (loaded$: Observable<boolean>) => firstValueFrom(loaded$.pipe(filter((loaded) => loaded)));
+    if (params.channelID) await loaded(this.channelService.channelsLoaded$);
+    else if (params.userID) await Promise.all([loaded(this.userService.usersLoaded$), loaded(this.channelService.chatsLoaded$)]);
   }
 
 
@@ -0,0 +1,130 @@
+import { TestBed } from '@angular/core/testing';
+import { Channel } from '../../shared/models/channel.class';
+import { User } from '../../shared/models/user.class';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { Repository } from '../firebase/repository';
+import { MessageService } from './message.service';
+import { OutboxService } from './outbox.service';
+import { TestUsersService } from './testing';
+import { UsersService } from './user.service';
+
+describe('OutboxService', () => {
+  let messageService: jasmine.SpyObj<MessageService>;
+  let service: OutboxService;
+  let channel: Channel;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(0));
+    spyOn(console, 'error');
+    // The messages are kept in memory, so the tests don't share the IndexedDB of the outbox.
+    spyOn(indexedDB, 'open').and.throwError('IndexedDB disabled in tests');
+    const repository = new MemoryRepository();
+    const usersService = new TestUsersService(repository);
+    usersService.setUsers([new User({ name: 'Anna' }, 'anna')], new User({ name: 'Anna' }, 'anna'));
+    channel = new Channel({ name: 'Allgemein', memberIDs: ['anna'] }, 'c1');
+    messageService = jasmine.createSpyObj<MessageService>('MessageService', ['getNewMessageError', 'getCollectionObjectByPath', 'addNewMessageToCollection']);
+    messageService.getNewMessageError.and.returnValue('');
+    messageService.getCollectionObjectByPath.and.resolveTo(channel);
+    messageService.addNewMessageToCollection.and.resolveTo('');
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: Repository, useValue: repository },
+        { provide: UsersService, useValue: usersService },
+        { provide: MessageService, useValue: messageService },
+      ],
+    });
+    service = TestBed.inject(OutboxService);
+    await service.startOutbox();
+  });
+
+  afterEach(() => {
+    service.stopOutbox();
+    jasmine.clock().uninstall();
+  });
+
+  async function enqueueAndSend(content: string) {
+    expect(await service.enqueueMessage(channel, content, [])).toBe('');
+    await service.sendDueMessages();
+  }
+
+  async function advanceAndSend(milliseconds: number) {
+    jasmine.clock().tick(milliseconds);
+    await service.sendDueMessages();
+  }
+
+  it('sends a queued message with its ID and removes it from the outbox', async () => {
+    await enqueueAndSend('Hallo');
+    expect(messageService.addNewMessageToCollection).toHaveBeenCalledOnceWith(channel, 'Hallo', [], 'anna', undefined, jasmine.objectContaining({ messageID: jasmine.any(String) }));
+    expect(service.outboxMessages).toEqual([]);
+  });
+
+  it('doesn\'t queue a message that can\'t be sent', async () => {
+    messageService.getNewMessageError.and.returnValue('@channel ist nicht erlaubt.');
+    expect(await service.enqueueMessage(channel, '@channel', [])).toBe('@channel ist nicht erlaubt.');
+    expect(service.outboxMessages).toEqual([]);
+  });
+
+  it('delays the next attempts exponentially', async () => {
+    messageService.addNewMessageToCollection.and.resolveTo('Fehler');
+    await enqueueAndSend('Hallo');
+    expect(service.outboxMessages[0]).toEqual(jasmine.objectContaining({ status: 'pending', attempts: 1, nextAttemptAt: 4000, error: 'Fehler' }));
+    await advanceAndSend(3999);
+    expect(messageService.addNewMessageToCollection).toHaveBeenCalledTimes(1);
+    await advanceAndSend(1);
+    expect(messageService.addNewMessageToCollection).toHaveBeenCalledTimes(2);
+    expect(service.outboxMessages[0]).toEqual(jasmine.objectContaining({ attempts: 2, nextAttemptAt: 4000 + 8000 }));
+  });
+
+  it('fails a message after maxAttempts attempts and stops sending it', async () => {
+    messageService.addNewMessageToCollection.and.resolveTo('Fehler');
+    await enqueueAndSend('Hallo');
+    while (service.outboxMessages[0].status === 'pending') {
+      await advanceAndSend(service.outboxMessages[0].nextAttemptAt - Date.now());
+    }
+    expect(service.outboxMessages[0]).toEqual(jasmine.objectContaining({ status: 'failed', attempts: service.maxAttempts }));
+    await advanceAndSend(service.retryMaxDelay);
+    expect(messageService.addNewMessageToCollection).toHaveBeenCalledTimes(service.maxAttempts);
+  });
+
+  it('fails a message right away if its conversation doesn\'t exist anymore', async () => {
+    messageService.getCollectionObjectByPath.and.resolveTo(undefined);
+    await enqueueAndSend('Hallo');
+    expect(service.outboxMessages[0]).toEqual(jasmine.objectContaining({ status: 'failed', attempts: 1, error: 'Die Unterhaltung existiert nicht mehr.' }));
+  });
+
+  it('retries a failed message with a new series of attempts', async () => {
+    messageService.getCollectionObjectByPath.and.resolveTo(undefined);
+    await enqueueAndSend('Hallo');
+    messageService.getCollectionObjectByPath.and.resolveTo(channel);
+    messageService.addNewMessageToCollection.and.resolveTo('Fehler');
+    await service.retryMessage(service.outboxMessages[0].id);
+    await service.sendDueMessages();
+    expect(service.outboxMessages[0]).toEqual(jasmine.objectContaining({ status: 'pending', attempts: 1 }));
+    messageService.addNewMessageToCollection.and.resolveTo('');
+    await advanceAndSend(service.retryBaseDelay * 2);
+    expect(service.outboxMessages).toEqual([]);
+  });
+
+  it('discards only failed messages', async () => {
+    messageService.addNewMessageToCollection.and.resolveTo('Fehler');
+    await enqueueAndSend('Hallo');
+    await service.discardMessage(service.outboxMessages[0].id);
+    expect(service.outboxMessages.length).toBe(1);
+    messageService.getCollectionObjectByPath.and.resolveTo(undefined);
+    await advanceAndSend(service.retryMaxDelay);
+    await service.discardMessage(service.outboxMessages[0].id);
+    expect(service.outboxMessages).toEqual([]);
+  });
+
+  it('keeps sending after sending a message threw an error', async () => {
+    messageService.getCollectionObjectByPath.and.rejectWith(new Error('offline'));
+    await enqueueAndSend('Erste');
+    expect(service.outboxMessages[0]).toEqual(jasmine.objectContaining({ status: 'pending', attempts: 1, error: 'Die Nachricht konnte nicht gesendet werden.' }));
+    messageService.getCollectionObjectByPath.and.resolveTo(channel);
+    await enqueueAndSend('Zweite');
+    expect(service.outboxMessages.map((outboxMessage) => outboxMessage.content)).toEqual(['Erste']);
+    await advanceAndSend(service.retryBaseDelay * 2);
+    expect(service.outboxMessages).toEqual([]);
+  });
+});
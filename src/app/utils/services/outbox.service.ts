@@ -0,0 +1,449 @@
+import { inject, Injectable } from '@angular/core';
+import { Timestamp } from '@angular/fire/firestore';
+import { BehaviorSubject } from 'rxjs';
+import { UsersService } from './user.service';
+import { MessageAttachment, MessageService } from './message.service';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { Message, StoredAttachment } from '../../shared/models/message.class';
+import { CollectionType } from '../../shared/models/user.class';
+import { Repository } from '../firebase/repository';
+import { getCollectionType, getMessagePath, getObjectsPath } from '../firebase/utils';
+
+/**
+ * A message that was sent by the current user, but is not stored in firestore yet.
+ *
+ * @property {string} id - The ID of the message, generated when it is queued, so a retried message isn't stored twice.
+ * @property {string} targetType - The type of the channel, chat or message (thread) the message is sent to.
+ * @property {string} targetPath - The path of the channel or chat, or the path of the message for a thread.
+ * @property {OutboxAttachment[]} attachments - The attachments, uploaded when the message is sent.
+ * @property {'pending' | 'failed'} status - 'pending' while the message is sent or waits for the next attempt,
+ *   'failed' after `maxAttempts` attempts, until the user retries or discards it.
+ * @property {number} attempts - The number of failed attempts.
+ * @property {number} nextAttemptAt - The earliest time of the next attempt.
+ * @property {string} error - The error of the last attempt.
+ */
+export type OutboxMessage = {
+  id: string;
+  creatorID: string;
+  targetType: CollectionType;
+  targetPath: string;
+  content: string;
+  attachments: OutboxAttachment[];
+  alsoSendToChannel: boolean;
+  createdAt: number;
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  error: string;
+};
+
+/**
+ * An attachment of a queued message. The file is stored as blob in the IndexedDB.
+ */
+type OutboxAttachment = {
+  name: string;
+  size: number;
+  lastModified: number;
+  file: File;
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class OutboxService {
+
+  private repository = inject(Repository);
+  private userservice = inject(UsersService);
+  private messageService = inject(MessageService);
+
+  readonly databaseName = 'dabubble-outbox';
+  readonly storeName = 'messages';
+  readonly maxAttempts = 5;
+  readonly retryBaseDelay = 2000;
+  readonly retryMaxDelay = 60000;
+
+  public outboxMessages: OutboxMessage[] = [];
+  private outboxMessagesSubject = new BehaviorSubject<OutboxMessage[]>([]);
+  public outboxMessages$ = this.outboxMessagesSubject.asObservable();
+
+  private database: Promise<IDBDatabase | undefined> | undefined;
+  private previewMessages = new Map<string, { message: Message; objectURLs: string[] }>();
+  private retryTimeout: ReturnType<typeof setTimeout> | undefined;
+  private sendingRun: Promise<void> | undefined;
+  private sendAgain = false;
+  private started = false;
+  private onlineListener = () => this.sendDueMessages();
+
+
+  /**
+   * Loads the queued messages of the current user and sends the due ones.
+   * Messages that were queued before the page was closed are sent again.
+   * Sending is continued whenever the browser gets online again.
+   */
+  async startOutbox() {
+    this.stopOutbox();
+    this.started = true;
+    window.addEventListener('online', this.onlineListener);
+    await this.sendDueMessages();
+  }
+
+
+  /**
+   * Stops sending the queued messages, e.g. on logout. The messages stay in the IndexedDB.
+   */
+  stopOutbox() {
+    this.started = false;
+    window.removeEventListener('online', this.onlineListener);
+    if (this.retryTimeout) clearTimeout(this.retryTimeout);
+    this.retryTimeout = undefined;
+    this.setOutboxMessages([]);
+  }
+
+
+  /**
+   * Queues a new message and starts sending it. The message is shown right away in a pending state,
+   * the editor doesn't wait until it is stored. Broadcast mentions are checked before the message is queued.
+   *
+   * @param collectionObject - The channel, chat or message (thread) to send the message to.
+   * @param content - The content of the message as HTML.
+   * @param attachments - The attachments of the message.
+   * @param alsoSendToChannel - Only for thread answers: the answer is also sent to the channel or chat of the thread.
+   * @returns A promise that resolves to an empty string if the message is queued, or an error message.
+   */
+  async enqueueMessage(collectionObject: Channel | Chat | Message, content: string, attachments: MessageAttachment[], alsoSendToChannel: boolean = false): Promise<string> {
+    const error = this.messageService.getNewMessageError(collectionObject, content);
+    if (error) return error;
+    const now = Date.now();
+    const outboxMessage: OutboxMessage = {
+      id: this.repository.createDocumentID(getMessagePath(collectionObject)),
+      creatorID: this.userservice.currentUserID,
+      targetType: getCollectionType(collectionObject),
+      targetPath: getObjectsPath(collectionObject),
+      content: content,
+      attachments: attachments.map((attachment) => ({ name: attachment.name, size: attachment.size, lastModified: attachment.lastModified, file: attachment.file })),
+      alsoSendToChannel: alsoSendToChannel,
+      createdAt: now,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      error: '',
+    };
+    await this.saveOutboxMessage(outboxMessage);
+    this.sendDueMessages();
+    return '';
+  }
+
+
+  /**
+   * Sends a failed message again, starting with a new series of attempts.
+   *
+   * @param messageID - The ID of the failed message.
+   */
+  async retryMessage(messageID: string) {
+    const outboxMessage = this.outboxMessages.find((outboxMessage) => outboxMessage.id === messageID);
+    if (!outboxMessage || outboxMessage.status !== 'failed') return;
+    await this.saveOutboxMessage({ ...outboxMessage, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: '' });
+    this.sendDueMessages();
+  }
+
+
+  /**
+   * Removes a failed message from the outbox without sending it.
+   *
+   * @param messageID - The ID of the failed message.
+   */
+  async discardMessage(messageID: string) {
+    const outboxMessage = this.outboxMessages.find((outboxMessage) => outboxMessage.id === messageID);
+    if (!outboxMessage || outboxMessage.status !== 'failed') return;
+    await this.removeOutboxMessage(messageID);
+  }
+
+
+  /**
+   * Returns the queued message with the given ID.
+   *
+   * @param messageID - The ID of the message.
+   * @returns The queued message, or `undefined` if the message isn't in the outbox.
+   */
+  getOutboxMessage(messageID: string): OutboxMessage | undefined {
+    return this.outboxMessages.find((outboxMessage) => outboxMessage.id === messageID);
+  }
+
+
+  /**
+   * Returns the queued messages of a message collection as messages, to be shown in the messages list
+   * until they are stored. The messages are cached, their `sendState` is the status of the queued message.
+   * Image attachments are shown from object URLs of the queued files.
+   *
+   * @param messagesPath - The path of the message collection, e.g. `channels/{id}/messages/`.
+   * @returns The messages, sorted by the time they were queued.
+   */
+  getPreviewMessages(messagesPath: string): Message[] {
+    return this.outboxMessages
+      .filter((outboxMessage) => this.getMessagesPathOfOutboxMessage(outboxMessage) === messagesPath)
+      .map((outboxMessage) => {
+        const previewMessage = this.getPreviewMessage(outboxMessage, messagesPath);
+        previewMessage.sendState = outboxMessage.status;
+        return previewMessage;
+      });
+  }
+
+
+  /**
+   * Sends all pending messages that are due, one after another in the order they were queued.
+   * The messages are read from the IndexedDB first, so messages queued in other tabs are included.
+   * Nothing is sent while the browser is offline. Calls while messages are sent are repeated afterwards.
+   * Called by the retry timer, when the browser gets online and after a message is queued or retried.
+   *
+   * @returns A promise that resolves when the current run, including the repeated calls, is finished.
+   */
+  async sendDueMessages(): Promise<void> {
+    if (!this.started) return;
+    if (this.sendingRun) {
+      this.sendAgain = true;
+      return await this.sendingRun;
+    }
+    this.sendingRun = this.runSendLoop();
+    await this.sendingRun;
+  }
+
+
+  /**
+   * Sends the due messages until no call came in while they were sent, then starts the timer for the next attempt.
+   * The outbox is released in any case, so a failed run doesn't stop it for the rest of the session.
+   */
+  private async runSendLoop() {
+    try {
+      do {
+        this.sendAgain = false;
+        await this.lockOutbox(async () => {
+          this.setOutboxMessages(await this.readOutboxMessages());
+          for (const outboxMessage of this.outboxMessages.filter((outboxMessage) => outboxMessage.status === 'pending')) {
+            if (!this.started || !navigator.onLine) break;
+            if (outboxMessage.nextAttemptAt <= Date.now()) await this.sendOutboxMessage(outboxMessage);
+          }
+        });
+      } while (this.sendAgain && this.started);
+    } catch (error) {
+      console.error('OutboxService: error sending outbox messages', error);
+    } finally {
+      this.sendingRun = undefined;
+      this.scheduleNextAttempt();
+    }
+  }
+
+
+  /**
+   * Sends a queued message through `MessageService.addNewMessageToCollection`. On success the message is removed
+   * from the outbox. Otherwise the next attempt is delayed exponentially, after `maxAttempts` attempts the message fails.
+   * Attempts that failed because the browser went offline are not counted. Errors thrown while sending count as
+   * failed attempts.
+   *
+   * @param outboxMessage - The queued message.
+   */
+  private async sendOutboxMessage(outboxMessage: OutboxMessage) {
+    let targetMissing = false;
+    let error: string;
+    try {
+      const target = await this.messageService.getCollectionObjectByPath(outboxMessage.targetType, outboxMessage.targetPath);
+      targetMissing = !target;
+      error = target
+        ? await this.messageService.addNewMessageToCollection(target, outboxMessage.content, this.getMessageAttachments(outboxMessage), outboxMessage.creatorID, undefined, {
+          alsoSendToChannel: outboxMessage.alsoSendToChannel,
+          messageID: outboxMessage.id,
+        })
+        : 'Die Unterhaltung existiert nicht mehr.';
+    } catch (sendError) {
+      console.error('OutboxService: error sending outbox message', sendError);
+      error = 'Die Nachricht konnte nicht gesendet werden.';
+    }
+    if (!error) {
+      await this.removeOutboxMessage(outboxMessage.id);
+      return;
+    }
+    const attempts = navigator.onLine ? outboxMessage.attempts + 1 : outboxMessage.attempts;
+    await this.saveOutboxMessage({
+      ...outboxMessage,
+      status: targetMissing || attempts >= this.maxAttempts ? 'failed' : 'pending',
+      attempts: attempts,
+      nextAttemptAt: Date.now() + Math.min(this.retryBaseDelay * 2 ** attempts, this.retryMaxDelay),
+      error: error,
+    });
+  }
+
+
+  /**
+   * Starts a timer for the earliest next attempt of the pending messages.
+   */
+  private scheduleNextAttempt() {
+    if (this.retryTimeout) clearTimeout(this.retryTimeout);
+    this.retryTimeout = undefined;
+    const pendingMessages = this.outboxMessages.filter((outboxMessage) => outboxMessage.status === 'pending');
+    if (!this.started || pendingMessages.length === 0) return;
+    const nextAttemptAt = Math.min(...pendingMessages.map((outboxMessage) => outboxMessage.nextAttemptAt));
+    this.retryTimeout = setTimeout(() => this.sendDueMessages(), Math.max(nextAttemptAt - Date.now(), 0));
+  }
+
+
+  /**
+   * Runs a callback while no other tab sends the outbox, so a message isn't sent by two tabs at once.
+   * If another tab holds the lock, the callback is skipped. Without Web Locks the callback runs directly.
+   *
+   * @param callback - The callback.
+   */
+  private async lockOutbox(callback: () => Promise<void>) {
+    if (!navigator.locks) return await callback();
+    await navigator.locks.request(this.databaseName + '-' + this.userservice.currentUserID, { ifAvailable: true }, async (lock) => {
+      if (lock) await callback();
+    });
+  }
+
+
+  /**
+   * Stores a queued message in the IndexedDB and in the list of queued messages.
+   *
+   * @param outboxMessage - The queued message.
+   */
+  private async saveOutboxMessage(outboxMessage: OutboxMessage) {
+    this.setOutboxMessages([...this.outboxMessages.filter((queuedMessage) => queuedMessage.id !== outboxMessage.id), outboxMessage].sort((a, b) => a.createdAt - b.createdAt));
+    try {
+      await this.requestStore('readwrite', (store) => store.put(outboxMessage));
+    } catch (error) {
+      console.error('OutboxService: error storing outbox message', error);
+    }
+  }
+
+
+  /**
+   * Removes a queued message from the IndexedDB and from the list of queued messages.
+   *
+   * @param messageID - The ID of the message.
+   */
+  private async removeOutboxMessage(messageID: string) {
+    this.setOutboxMessages(this.outboxMessages.filter((outboxMessage) => outboxMessage.id !== messageID));
+    try {
+      await this.requestStore('readwrite', (store) => store.delete(messageID));
+    } catch (error) {
+      console.error('OutboxService: error removing outbox message', error);
+    }
+  }
+
+
+  /**
+   * Reads the queued messages of the current user from the IndexedDB.
+   * If the IndexedDB isn't available, the messages are only kept in memory.
+   *
+   * @returns A promise that resolves to the queued messages, sorted by the time they were queued.
+   */
+  private async readOutboxMessages(): Promise<OutboxMessage[]> {
+    try {
+      const storedMessages = await this.requestStore<OutboxMessage[]>('readonly', (store) => store.getAll());
+      if (!storedMessages) return this.outboxMessages;
+      return storedMessages
+        .filter((outboxMessage) => outboxMessage.creatorID === this.userservice.currentUserID)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+      console.error('OutboxService: error loading outbox messages', error);
+      return this.outboxMessages;
+    }
+  }
+
+
+  /**
+   * Runs a request on the object store of the queued messages.
+   *
+   * @param mode - The mode of the transaction.
+   * @param request - Creates the request.
+   * @returns A promise that resolves to the result of the request, or `undefined` if the IndexedDB isn't available.
+   */
+  private async requestStore<T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> {
+    const database = await this.openDatabase();
+    if (!database) return undefined;
+    return new Promise<T>((resolve, reject) => {
+      const storeRequest = request(database.transaction(this.storeName, mode).objectStore(this.storeName));
+      storeRequest.onsuccess = () => resolve(storeRequest.result);
+      storeRequest.onerror = () => reject(storeRequest.error);
+    });
+  }
+
+
+  /**
+   * Opens the IndexedDB of the outbox once and creates its object store.
+   *
+   * @returns A promise that resolves to the database, or `undefined` if the IndexedDB isn't available.
+   */
+  private openDatabase(): Promise<IDBDatabase | undefined> {
+    if (!this.database) {
+      this.database = new Promise((resolve) => {
+        try {
+          const openRequest = indexedDB.open(this.databaseName, 1);
+          openRequest.onupgradeneeded = () => openRequest.result.createObjectStore(this.storeName, { keyPath: 'id' });
+          openRequest.onsuccess = () => resolve(openRequest.result);
+          openRequest.onerror = () => {
+            console.error('OutboxService: error opening IndexedDB', openRequest.error);
+            resolve(undefined);
+          };
+        } catch (error) {
+          console.error('OutboxService: IndexedDB not available', error);
+          resolve(undefined);
+        }
+      });
+    }
+    return this.database;
+  }
+
+
+  /**
+   * Replaces the list of queued messages and releases the preview messages of messages that left the outbox.
+   *
+   * @param outboxMessages - The queued messages.
+   */
+  private setOutboxMessages(outboxMessages: OutboxMessage[]) {
+    this.outboxMessages = outboxMessages;
+    this.previewMessages.forEach((preview, messageID) => {
+      if (outboxMessages.some((outboxMessage) => outboxMessage.id === messageID)) return;
+      preview.objectURLs.forEach((objectURL) => URL.revokeObjectURL(objectURL));
+      this.previewMessages.delete(messageID);
+    });
+    this.outboxMessagesSubject.next(this.outboxMessages);
+  }
+
+
+  /**
+   * Returns the cached preview message of a queued message, or creates it.
+   *
+   * @param outboxMessage - The queued message.
+   * @param messagesPath - The path of the message collection.
+   * @returns The preview message.
+   */
+  private getPreviewMessage(outboxMessage: OutboxMessage, messagesPath: string): Message {
+    const preview = this.previewMessages.get(outboxMessage.id);
+    if (preview) return preview.message;
+    const objectURLs: string[] = [];
+    const attachments: StoredAttachment[] = outboxMessage.attachments.map((attachment) => {
+      const isImage = attachment.file.type.startsWith('image');
+      if (isImage) objectURLs.push(URL.createObjectURL(attachment.file));
+      return { name: attachment.name.replace(/\.[^/.]+$/, ''), type: isImage ? 'image' : 'pdf', url: isImage ? objectURLs[objectURLs.length - 1] : '', path: '' };
+    });
+    const message = new Message({
+      creatorID: outboxMessage.creatorID,
+      createdAt: Timestamp.fromMillis(outboxMessage.createdAt),
+      content: outboxMessage.content,
+      answerable: outboxMessage.targetType !== 'message',
+      attachments: attachments,
+    }, messagesPath, outboxMessage.id);
+    this.previewMessages.set(outboxMessage.id, { message: message, objectURLs: objectURLs });
+    return message;
+  }
+
+
+  private getMessageAttachments(outboxMessage: OutboxMessage): MessageAttachment[] {
+    return outboxMessage.attachments.map((attachment) => ({ ...attachment, src: '' }));
+  }
+
+
+  private getMessagesPathOfOutboxMessage(outboxMessage: OutboxMessage): string {
+    return outboxMessage.targetPath + (outboxMessage.targetType === 'message' ? '/answers/' : '/messages/');
+  }
+}
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { Timestamp } from '@angular/fire/firestore';
+import { Message } from '../../shared/models/message.class';
+import { User } from '../../shared/models/user.class';
+import { messageConverter } from '../firebase/converters';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { PollService } from './poll.service';
+import { provideRepositoryTesting, TestUsersService } from './testing';
+
+describe('PollService', () => {
+  const messagePath = 'channels/c1/messages/m1';
+  let repository: MemoryRepository;
+  let service: PollService;
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    const usersService = new TestUsersService(repository);
+    usersService.setUsers([new User({ name: 'Anna' }, 'anna'), new User({ name: 'Ben' }, 'ben')], new User({ name: 'Anna' }, 'anna'));
+    TestBed.configureTestingModule({ providers: provideRepositoryTesting(repository, usersService) });
+    service = TestBed.inject(PollService);
+  });
+
+  async function storePoll(multipleChoice: boolean, closesAt: Timestamp | null = null) {
+    await repository.setDocument(messagePath, {
+      creatorID: 'ben',
+      content: '<p>Pizza oder Pasta?</p>',
+      poll: { question: 'Pizza oder Pasta?', options: [{ id: 'o0', text: 'Pizza' }, { id: 'o1', text: 'Pasta' }], multipleChoice: multipleChoice, anonymous: false, closesAt: closesAt },
+      pollVotes: { o0: ['ben'] },
+    }, messageConverter);
+  }
+
+  async function getMessage(): Promise<Message> {
+    return new Message((await repository.getDocument(messagePath, messageConverter)).data!, 'channels/c1/messages/', 'm1');
+  }
+
+  it('moves the vote of single choice polls and keeps the votes of other users', async () => {
+    await storePoll(false);
+    expect(await service.toggleVote(await getMessage(), 'o0')).toBe('');
+    expect(await service.toggleVote(await getMessage(), 'o1')).toBe('');
+    expect((await getMessage()).pollVotes).toEqual({ o0: ['ben'], o1: ['anna'] });
+  });
+
+  it('adds and removes votes of multiple choice polls', async () => {
+    await storePoll(true);
+    await service.toggleVote(await getMessage(), 'o0');
+    await service.toggleVote(await getMessage(), 'o1');
+    expect((await getMessage()).pollVotes).toEqual({ o0: ['ben', 'anna'], o1: ['anna'] });
+    await service.toggleVote(await getMessage(), 'o0');
+    expect((await getMessage()).pollVotes).toEqual({ o0: ['ben'], o1: ['anna'] });
+  });
+
+  it('rejects votes for closed polls', async () => {
+    await storePoll(false, Timestamp.fromMillis(Date.now() - 1000));
+    expect(await service.toggleVote(await getMessage(), 'o1')).toBe('Die Umfrage ist beendet.');
+    expect((await getMessage()).pollVotes).toEqual({ o0: ['ben'] });
+  });
+});
@@ -0,0 +1,181 @@
+import { inject, Injectable } from '@angular/core';
+import { Timestamp } from '@angular/fire/firestore';
+import { UsersService } from './user.service';
+import { MessageService } from './message.service';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
+import { Poll } from '../../shared/models/poll.class';
+import { escapeHTML } from '../firebase/utils';
+import { messageConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PollService {
+
+  private repository = inject(Repository);
+  private userservice = inject(UsersService);
+  private messageService = inject(MessageService);
+
+  readonly minOptions = 2;
+  readonly maxOptions = 10;
+  readonly maxQuestionLength = 200;
+  readonly maxOptionLength = 80;
+
+
+  /**
+   * Checks the input of a new poll locally.
+   *
+   * @param question - The question of the poll.
+   * @param options - The texts of the options, empty options are ignored.
+   * @param closesAt - The optional closing time of the poll.
+   * @returns An error message, or an empty string if the poll is valid.
+   */
+  validatePoll(question: string, options: string[], closesAt: Date | undefined): string {
+    const filledOptions = options.map((option) => option.trim()).filter((option) => option !== '');
+    if (!question.trim()) return 'Bitte gib eine Frage ein.';
+    if (question.trim().length > this.maxQuestionLength) return `Die Frage darf maximal ${this.maxQuestionLength} Zeichen lang sein.`;
+    if (filledOptions.length < this.minOptions) return `Bitte gib mindestens ${this.minOptions} Antworten ein.`;
+    if (filledOptions.length > this.maxOptions) return `Maximal ${this.maxOptions} Antworten erlaubt.`;
+    if (filledOptions.some((option) => option.length > this.maxOptionLength)) return `Antworten dürfen maximal ${this.maxOptionLength} Zeichen lang sein.`;
+    if (new Set(filledOptions.map((option) => option.toLowerCase())).size !== filledOptions.length) return 'Die Antworten müssen sich unterscheiden.';
+    if (closesAt && closesAt.getTime() <= Date.now()) return 'Das Ende der Umfrage muss in der Zukunft liegen.';
+    return '';
+  }
+
+
+  /**
+   * Sends a poll as new message to a channel, chat or thread. The question is the content of the message.
+   *
+   * @param collectionObject - The channel, chat or message (thread) to send the poll to.
+   * @param question - The question of the poll.
+   * @param options - The texts of the options, empty options are ignored.
+   * @param multipleChoice - Whether a user may vote for several options.
+   * @param anonymous - Whether the names of the voters are hidden.
+   * @param closesAt - The optional closing time, afterwards no more votes are accepted.
+   * @returns A promise that resolves to an empty string if the poll is sent, or an error message.
+   */
+  async createPoll(collectionObject: Channel | Chat | Message, question: string, options: string[], multipleChoice: boolean, anonymous: boolean, closesAt: Date | undefined): Promise<string> {
+    const error = this.validatePoll(question, options, closesAt);
+    if (error) return error;
+    const poll = new Poll({
+      question: question.trim(),
+      options: options
+        .map((option) => option.trim())
+        .filter((option) => option !== '')
+        .map((option, index) => ({ id: 'o' + index, text: option })),
+      multipleChoice: multipleChoice,
+      anonymous: anonymous,
+      closesAt: closesAt ? Timestamp.fromDate(closesAt) : null,
+    });
+    return await this.messageService.addNewMessageToCollection(collectionObject, '<p>' + escapeHTML(poll.question) + '</p>', [], undefined, undefined, { poll: poll });
+  }
+
+
+  /**
+   * Adds or removes the vote of the current user for an option of a poll.
+   * The vote is written with `arrayUnion` and `arrayRemove` on the field of the option in the `pollVotes` map,
+   * so concurrent votes of other users are never overwritten. For single choice polls the vote
+   * is removed from all other options in the same update.
+   *
+   * @param message - The message of the poll.
+   * @param optionID - The ID of the option.
+   * @returns A promise that resolves to an empty string if the vote is changed, or an error message.
+   */
+  async toggleVote(message: Message, optionID: string): Promise<string> {
+    const poll = message.poll;
+    if (!poll || !poll.options.some((option) => option.id === optionID)) return 'Die Antwort gibt es nicht.';
+    if (poll.isClosed()) return 'Die Umfrage ist beendet.';
+    const currentUserID = this.userservice.currentUserID;
+    const updateData: { [field: string]: any } = {};
+    if (this.hasVoted(message, optionID)) {
+      updateData['pollVotes.' + optionID] = this.repository.arrayRemove(currentUserID);
+    } else {
+      updateData['pollVotes.' + optionID] = this.repository.arrayUnion(currentUserID);
+      if (!poll.multipleChoice) {
+        poll.options
+          .filter((option) => option.id !== optionID)
+          .forEach((option) => (updateData['pollVotes.' + option.id] = this.repository.arrayRemove(currentUserID)));
+      }
+    }
+    try {
+      await this.repository.updateDocument(message.messagePath, updateData, messageConverter);
+      return '';
+    } catch (error) {
+      console.error('PollService: error voting', error);
+      return 'Deine Stimme konnte nicht gespeichert werden.';
+    }
+  }
+
+
+  /**
+   * Checks if the current user voted for an option of a poll.
+   *
+   * @param message - The message of the poll.
+   * @param optionID - The ID of the option.
+   * @returns `true` if the current user voted for the option, otherwise `false`.
+   */
+  hasVoted(message: Message, optionID: string): boolean {
+    return this.getVoterIDs(message, optionID).includes(this.userservice.currentUserID);
+  }
+
+
+  /**
+   * Returns the number of votes for an option of a poll.
+   *
+   * @param message - The message of the poll.
+   * @param optionID - The ID of the option.
+   * @returns The number of votes.
+   */
+  getVoteCount(message: Message, optionID: string): number {
+    return this.getVoterIDs(message, optionID).length;
+  }
+
+
+  /**
+   * Returns the number of users that voted in a poll, users with several votes are counted once.
+   *
+   * @param message - The message of the poll.
+   * @returns The number of voters.
+   */
+  getVoterCount(message: Message): number {
+    const voterIDs = (message.poll?.options ?? []).flatMap((option) => this.getVoterIDs(message, option.id));
+    return new Set(voterIDs).size;
+  }
+
+
+  /**
+   * Returns the share of the voters that voted for an option, used for the bar of the option.
+   *
+   * @param message - The message of the poll.
+   * @param optionID - The ID of the option.
+   * @returns The share in percent, rounded.
+   */
+  getVotePercentage(message: Message, optionID: string): number {
+    const voterCount = this.getVoterCount(message);
+    return voterCount === 0 ? 0 : Math.round((this.getVoteCount(message, optionID) / voterCount) * 100);
+  }
+
+
+  /**
+   * Returns the names of the users that voted for an option.
+   *
+   * @param message - The message of the poll.
+   * @param optionID - The ID of the option.
+   * @returns The names separated by commas, empty for anonymous polls.
+   */
+  getVoterNames(message: Message, optionID: string): string {
+    if (!message.poll || message.poll.anonymous) return '';
+    return this.getVoterIDs(message, optionID)
+      .map((userID) => (userID === this.userservice.currentUserID ? 'Du' : this.userservice.getUserByID(userID)?.name))
+      .filter((name) => name)
+      .join(', ');
+  }
+
+
+  private getVoterIDs(message: Message, optionID: string): string[] {
+    return message.pollVotes[optionID] ?? [];
+  }
+}
@@ -0,0 +1,109 @@
+import { TestBed } from '@angular/core/testing';
+import { Timestamp } from '@angular/fire/firestore';
+import { Message } from '../../shared/models/message.class';
+import { User } from '../../shared/models/user.class';
+import { channelConverter, chatConverter, messageConverter, reminderConverter } from '../firebase/converters';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { dabubbleBotId } from '../firebase/utils';
+import { ChannelService } from './channel.service';
+import { MessageService } from './message.service';
+import { REMINDER_CLOCK, ReminderService } from './reminder.service';
+import { SavedMessageService } from './saved-message.service';
+import { provideRepositoryTesting, TestUsersService } from './testing';
+
+describe('ReminderService', () => {
+  let repository: MemoryRepository;
+  let service: ReminderService;
+  let message: Message;
+  let now: number;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    repository = new MemoryRepository();
+    const usersService = new TestUsersService(repository);
+    const anna = new User({ name: 'Anna', savedMessages: [{ messagePath: 'channels/c1/messages/m1', savedAt: 500 }] }, 'anna');
+    usersService.setUsers([anna, new User({ name: 'Ben' }, 'ben')], anna);
+    await repository.setDocument('channels/c1', { name: 'Allgemein', memberIDs: ['anna', 'ben'], messagesCount: 1 }, channelConverter);
+    await repository.setDocument('channels/c1/messages/m1', { creatorID: 'ben', content: '<p>Bitte lesen</p>' }, messageConverter);
+    await repository.setDocument('chats/bot', { memberIDs: ['anna', dabubbleBotId], messagesCount: 0 }, chatConverter);
+    message = new Message({ creatorID: 'ben', content: '<p>Bitte lesen</p>' }, 'channels/c1/messages/', 'm1');
+    now = 1000;
+    TestBed.configureTestingModule({
+      providers: [...provideRepositoryTesting(repository, usersService), { provide: REMINDER_CLOCK, useValue: () => new Date(now) }],
+    });
+    service = TestBed.inject(ReminderService);
+    service.startReminderJob();
+  });
+
+  afterEach(() => {
+    service.stopReminderJob();
+    jasmine.clock().uninstall();
+  });
+
+  function getReminderPath(): string {
+    return 'users/anna/reminders/' + service.reminders[0].id;
+  }
+
+  async function getBotMessageIDs(): Promise<string[]> {
+    return (await repository.getDocuments({ collectionPath: 'chats/bot/messages' }, messageConverter)).map((messageDoc) => messageDoc.id);
+  }
+
+  it('sends only the reminders that are due at the time of the clock', async () => {
+    expect(await service.addReminder(message, new Date(2000))).toBe('');
+    expect(await service.sendDueReminders()).toBe(0);
+    now = 3000;
+    expect(await service.sendDueReminders()).toBe(1);
+    expect((await getBotMessageIDs()).length).toBe(1);
+    const reminderData = (await repository.getDocument(getReminderPath(), reminderConverter)).data!;
+    expect(reminderData.status).toBe('sent');
+    expect(reminderData.claimedAt).toBeUndefined();
+    expect(await service.sendDueReminders()).toBe(0);
+  });
+
+  it('keeps the reminder pending and releases the claim if the message is not sent', async () => {
+    spyOn(console, 'error');
+    const addNewMessage = spyOn(TestBed.inject(MessageService), 'addNewMessageToCollection').and.resolveTo('Fehler');
+    await service.addReminder(message, new Date(2000));
+    now = 3000;
+    expect(await service.sendDueReminders()).toBe(0);
+    const reminderData = (await repository.getDocument(getReminderPath(), reminderConverter)).data!;
+    expect(reminderData.status).toBe('pending');
+    expect(reminderData.claimedAt).toBeUndefined();
+    addNewMessage.and.callThrough();
+    expect(await service.sendDueReminders()).toBe(1);
+  });
+
+  it('keeps running after sending failed with an error', async () => {
+    spyOn(console, 'error');
+    const addNewMessage = spyOn(TestBed.inject(MessageService), 'addNewMessageToCollection').and.rejectWith(new Error('offline'));
+    await service.addReminder(message, new Date(2000));
+    now = 3000;
+    expect(await service.sendDueReminders()).toBe(0);
+    addNewMessage.and.callThrough();
+    expect(await service.sendDueReminders()).toBe(1);
+  });
+
+  it('stores the reminder of a saved message as the reminder of the message', async () => {
+    const savedMessageService = TestBed.inject(SavedMessageService);
+    expect(await service.addReminder(message, new Date(2000))).toBe('');
+    expect(await savedMessageService.setReminder(message, new Date(4000))).toBe('');
+    expect(service.reminders.length).toBe(1);
+    expect(savedMessageService.getReminder(message)?.remindAt).toEqual(new Date(4000));
+    expect(await savedMessageService.setReminder(message, undefined)).toBe('');
+    expect(service.reminders).toEqual([]);
+  });
+
+  it('sends a reminder of a closed tab again after the claim expired, without a copy', async () => {
+    await service.addReminder(message, new Date(2000));
+    now = 3000;
+    const reminderID = service.reminders[0].id;
+    await repository.updateDocument(getReminderPath(), { claimedAt: Timestamp.fromMillis(now), claimedBy: 'closed-tab' }, reminderConverter);
+    const botChat = TestBed.inject(ChannelService).getChatWithUserByID(dabubbleBotId)!;
+    await TestBed.inject(MessageService).addNewMessageToCollection(botChat, 'Erinnerung', [], dabubbleBotId, undefined, { messageID: reminderID + '_2000' });
+    expect(await service.sendDueReminders()).toBe(0);
+    now += service.claimTimeout;
+    expect(await service.sendDueReminders()).toBe(1);
+    expect(await getBotMessageIDs()).toEqual([reminderID + '_2000']);
+    expect((await repository.getDocument('chats/bot', chatConverter)).data?.messagesCount).toBe(1);
+  });
+});
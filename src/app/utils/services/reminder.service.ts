@@ -0,0 +1,339 @@
+import { inject, Injectable, InjectionToken } from '@angular/core';
+import { Timestamp } from '@angular/fire/firestore';
+import { BehaviorSubject } from 'rxjs';
+import { UsersService } from './user.service';
+import { MessageService } from './message.service';
+import { ChannelService } from './channel.service';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
+import { Reminder } from '../../shared/models/reminder.class';
+import { dabubbleBotId, escapeHTML, removeAllHTMLTagsFromString } from '../firebase/utils';
+import { reminderConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
+
+/**
+ * The clock of the reminder job. Returns the current date.
+ * Can be replaced by a fake clock, e.g. to test the reminder job without waiting.
+ */
+export const REMINDER_CLOCK = new InjectionToken<() => Date>('REMINDER_CLOCK', {
+  providedIn: 'root',
+  factory: () => () => new Date(),
+});
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ReminderService {
+
+  private repository = inject(Repository);
+  private userservice = inject(UsersService);
+  private messageService = inject(MessageService);
+  private channelService = inject(ChannelService);
+  private now = inject(REMINDER_CLOCK);
+
+  readonly reminderInterval = 15000;
+  readonly claimTimeout = 60000;
+  private readonly senderID = Math.random().toString(36).substring(2);
+  readonly snoozeMinutes = 20;
+  readonly maxExcerptLength = 120;
+  public reminders: Reminder[] = [];
+  private remindersSubject = new BehaviorSubject<Reminder[]>([]);
+  public reminders$ = this.remindersSubject.asObservable();
+  private selectedReminderMessageSubject = new BehaviorSubject<Message | undefined>(undefined);
+  public selectedReminderMessage$ = this.selectedReminderMessageSubject.asObservable();
+
+  private unsubReminders: (() => void) | undefined;
+  private reminderIntervalID: ReturnType<typeof setInterval> | undefined;
+  private sending = false;
+
+
+  /**
+   * Subscribes to the reminders of the current user and starts the job, that sends the due reminders
+   * every `reminderInterval` milliseconds. Reminders that became due while the user was offline are sent when the job starts.
+   * The reminders are read with the `reminderConverter`, invalid documents are skipped.
+   */
+  startReminderJob() {
+    this.stopReminderJob();
+    const userID = this.userservice.currentUserID;
+    this.unsubReminders = this.repository.subscribeDocuments({ collectionPath: this.getRemindersPath(userID) }, reminderConverter, (changes) => {
+      changes.forEach((change) => {
+        this.reminders = this.reminders.filter((reminder) => reminder.id !== change.document.id);
+        if (change.type !== 'removed' && change.document.data) this.reminders.push(new Reminder(change.document.data, change.document.id));
+      });
+      this.reminders.sort((a, b) => a.remindAt.getTime() - b.remindAt.getTime());
+      this.remindersSubject.next(this.reminders);
+      this.sendDueReminders();
+    }, (error) => console.error('ReminderService: error loading reminders', error));
+    this.reminderIntervalID = setInterval(() => this.sendDueReminders(), this.reminderInterval);
+  }
+
+
+  /**
+   * Stops the reminder job and unsubscribes from the reminders.
+   */
+  stopReminderJob() {
+    if (this.reminderIntervalID) clearInterval(this.reminderIntervalID);
+    this.reminderIntervalID = undefined;
+    if (this.unsubReminders) this.unsubReminders();
+    this.unsubReminders = undefined;
+    this.reminders = [];
+    this.remindersSubject.next(this.reminders);
+  }
+
+
+  /**
+   * Selects the message the reminder popover is opened for.
+   *
+   * @param message - The message, or `undefined` to clear the selection.
+   */
+  selectReminderMessage(message: Message | undefined) {
+    this.selectedReminderMessageSubject.next(message);
+  }
+
+
+  /**
+   * Returns a reminder of the current user by its ID.
+   *
+   * @param reminderID - The ID of the reminder.
+   * @returns The reminder, or `undefined` if it is done or doesn't exist.
+   */
+  getReminder(reminderID: string): Reminder | undefined {
+    return this.reminders.find((reminder) => reminder.id === reminderID);
+  }
+
+
+  /**
+   * Returns the pending reminder of the current user on a message.
+   *
+   * @param message - The message.
+   * @returns The reminder, or `undefined` if no reminder is pending.
+   */
+  getPendingReminderOfMessage(message: Message): Reminder | undefined {
+    return this.reminders.find((reminder) => reminder.status === 'pending' && reminder.messagePath === message.messagePath);
+  }
+
+
+  /**
+   * Stores a reminder of the current user on a message. A pending reminder on the same message is moved to the new date.
+   *
+   * @param message - The message to be reminded of.
+   * @param remindAt - The date of the reminder.
+   * @returns A promise that resolves to an empty string if the reminder is stored, or an error message.
+   */
+  async addReminder(message: Message, remindAt: Date): Promise<string> {
+    if (remindAt.getTime() <= this.now().getTime()) return 'Der Zeitpunkt muss in der Zukunft liegen.';
+    const pendingReminder = this.getPendingReminderOfMessage(message);
+    if (pendingReminder) return this.rescheduleReminder(pendingReminder, remindAt);
+    try {
+      await this.repository.addDocument(this.getRemindersPath(this.userservice.currentUserID), {
+        messagePath: message.messagePath,
+        messageCreatorID: message.creatorID,
+        conversationName: this.channelService.getConversationName(message.messagePath),
+        excerpt: this.getExcerpt(message),
+        remindAt: Timestamp.fromDate(remindAt),
+        createdAt: this.repository.serverTimestamp(),
+        status: 'pending',
+      }, reminderConverter);
+      return '';
+    } catch (error) {
+      console.error('ReminderService: error adding reminder', error);
+      return 'Die Erinnerung konnte nicht gespeichert werden.';
+    }
+  }
+
+
+  /**
+   * Moves a reminder to a new date. A reminder that was already sent is pending again.
+   *
+   * @param reminder - The reminder.
+   * @param remindAt - The new date of the reminder.
+   * @returns A promise that resolves to an empty string if the reminder is moved, or an error message.
+   */
+  async rescheduleReminder(reminder: Reminder, remindAt: Date): Promise<string> {
+    if (remindAt.getTime() <= this.now().getTime()) return 'Der Zeitpunkt muss in der Zukunft liegen.';
+    try {
+      await this.repository.updateDocument(this.getRemindersPath(this.userservice.currentUserID) + reminder.id, {
+        remindAt: Timestamp.fromDate(remindAt),
+        status: 'pending',
+      }, reminderConverter);
+      return '';
+    } catch (error) {
+      console.error('ReminderService: error rescheduling reminder', error);
+      return 'Die Erinnerung konnte nicht verschoben werden.';
+    }
+  }
+
+
+  /**
+   * Reminds the user again in `snoozeMinutes` minutes.
+   *
+   * @param reminder - The reminder to snooze.
+   * @returns A promise that resolves to an empty string if the reminder is snoozed, or an error message.
+   */
+  async snoozeReminder(reminder: Reminder): Promise<string> {
+    return this.rescheduleReminder(reminder, new Date(this.now().getTime() + this.snoozeMinutes * 60 * 1000));
+  }
+
+
+  /**
+   * Marks a reminder as done by deleting it, it disappears from the list of reminders.
+   *
+   * @param reminder - The reminder.
+   * @returns A promise that resolves to an empty string if the reminder is deleted, or an error message.
+   */
+  async markReminderDone(reminder: Reminder): Promise<string> {
+    try {
+      await this.repository.deleteDocument(this.getRemindersPath(this.userservice.currentUserID) + reminder.id);
+      return '';
+    } catch (error) {
+      console.error('ReminderService: error deleting reminder', error);
+      return 'Die Erinnerung konnte nicht als erledigt markiert werden.';
+    }
+  }
+
+
+  /**
+   * Sends all pending reminders that are due at the current time of the clock as message of the DABubble bot.
+   * Runs only once at a time, calls while a run is in progress are ignored.
+   * Waits until the chats are loaded, so the chat with the bot is found instead of created again.
+   *
+   * @returns A promise that resolves to the number of sent reminders.
+   */
+  async sendDueReminders(): Promise<number> {
+    if (this.sending || this.channelService.chats.length === 0) return 0;
+    this.sending = true;
+    try {
+      const now = this.now().getTime();
+      const dueReminders = this.reminders.filter((reminder) => reminder.status === 'pending' && reminder.remindAt.getTime() <= now);
+      let sentCount = 0;
+      for (const reminder of dueReminders) {
+        if (await this.sendReminder(reminder)) sentCount++;
+      }
+      return sentCount;
+    } finally {
+      this.sending = false;
+    }
+  }
+
+
+  /**
+   * Sends a reminder as message of the DABubble bot to the chat of the user with the bot.
+   *
+   * The reminder is claimed first with `claimedAt` and `claimedBy` in a transaction, so it is sent only once,
+   * even if the job runs in several tabs. After the message is stored, the reminder is marked as `sent`.
+   * If the tab is closed in between, the claim expires after `claimTimeout` and the reminder is sent again
+   * with the same message ID, which overwrites the stored message instead of adding a copy.
+   * If the message can't be sent, the claim is released and the reminder stays pending.
+   *
+   * @param reminder - The due reminder.
+   * @returns A promise that resolves to `true` if the reminder was sent, otherwise `false`.
+   */
+  private async sendReminder(reminder: Reminder): Promise<boolean> {
+    const reminderPath = this.getRemindersPath(this.userservice.currentUserID) + reminder.id;
+    try {
+      if (!await this.claimReminder(reminderPath)) return false;
+    } catch (error) {
+      console.error('ReminderService: error claiming reminder', error);
+      return false;
+    }
+    let error: string;
+    try {
+      const botChat = await this.getBotChat();
+      error = botChat
+        ? await this.messageService.addNewMessageToCollection(botChat, this.getReminderContent(reminder), [], dabubbleBotId, undefined, {
+          messageID: reminder.id + '_' + reminder.remindAt.getTime(),
+          reminder: { reminderID: reminder.id, messagePath: reminder.messagePath },
+        })
+        : 'Der Chat mit dem DABubble Bot wurde nicht gefunden.';
+    } catch (sendError) {
+      console.error('ReminderService: error sending reminder', sendError);
+      error = 'Die Erinnerung konnte nicht gesendet werden.';
+    }
+    if (error) console.error('ReminderService: error sending reminder', error);
+    await this.releaseReminder(reminderPath, !error);
+    return !error;
+  }
+
+
+  /**
+   * Claims a due reminder for this reminder job.
+   *
+   * @param reminderPath - The path of the reminder.
+   * @returns A promise that resolves to `false` if the reminder is gone, not due, not pending or claimed by another job.
+   */
+  private async claimReminder(reminderPath: string): Promise<boolean> {
+    const now = this.now().getTime();
+    return await this.repository.runTransaction(async (transaction) => {
+      const reminderData = (await transaction.get(reminderPath, reminderConverter)).data;
+      if (!reminderData || reminderData.status !== 'pending' || reminderData.remindAt.toMillis() > now) return false;
+      if (reminderData.claimedAt && now - reminderData.claimedAt.toMillis() < this.claimTimeout) return false;
+      transaction.update(reminderPath, { claimedAt: Timestamp.fromMillis(now), claimedBy: this.senderID }, reminderConverter);
+      return true;
+    });
+  }
+
+
+  /**
+   * Releases the claim of a reminder and marks it as `sent` if its message was stored.
+   * If that fails, the expired claim lets the next run send the reminder again with the same message ID.
+   *
+   * @param reminderPath - The path of the reminder.
+   * @param sent - Whether the message of the reminder was stored.
+   */
+  private async releaseReminder(reminderPath: string, sent: boolean) {
+    try {
+      await this.repository.updateDocument(reminderPath, {
+        ...(sent ? { status: 'sent' as const } : {}),
+        claimedAt: this.repository.deleteField(),
+        claimedBy: this.repository.deleteField(),
+      }, reminderConverter);
+    } catch (error) {
+      console.error('ReminderService: error releasing reminder', error);
+    }
+  }
+
+
+  /**
+   * Returns the chat of the current user with the DABubble bot, the chat is created if it doesn't exist.
+   *
+   * @returns A promise that resolves to the chat, or `undefined` if it can't be created.
+   */
+  private async getBotChat(): Promise<Chat | undefined> {
+    const botChat = this.channelService.getChatWithUserByID(dabubbleBotId);
+    if (botChat) return botChat;
+    const botChatID = await this.channelService.addChatWithUserOnFirestore(dabubbleBotId);
+    return botChatID ? this.channelService.getChatByID(botChatID) : undefined;
+  }
+
+
+  /**
+   * Returns the content of the reminder message of the DABubble bot.
+   *
+   * @param reminder - The due reminder.
+   * @returns The content as HTML.
+   */
+  private getReminderContent(reminder: Reminder): string {
+    const creatorName = this.userservice.getUserByID(reminder.messageCreatorID)?.name ?? 'Unbekannt';
+    const location = reminder.conversationName ? ' in ' + reminder.conversationName : '';
+    return '<p>⏰ Erinnerung an eine Nachricht von ' + escapeHTML(creatorName + location) + ':</p>'
+      + '<p>„' + escapeHTML(reminder.excerpt) + '“</p>';
+  }
+
+
+  /**
+   * Returns the beginning of the text of a message, stored with the reminder.
+   *
+   * @param message - The message.
+   * @returns The plain text of the message, shortened to `maxExcerptLength` characters.
+   */
+  private getExcerpt(message: Message): string {
+    const text = removeAllHTMLTagsFromString(message.content).trim();
+    if (text === '') return message.attachments.length > 0 ? 'Anhang' : '';
+    return text.length > this.maxExcerptLength ? text.substring(0, this.maxExcerptLength) + '…' : text;
+  }
+
+
+  private getRemindersPath(userID: string): string {
+    return 'users/' + userID + '/reminders/';
+  }
+}
@@ -0,0 +1,194 @@
+import { inject, Injectable } from '@angular/core';
+import { UsersService } from './user.service';
+import { MessageService } from './message.service';
+import { ChannelService } from './channel.service';
+import { ReminderService } from './reminder.service';
+import { Message } from '../../shared/models/message.class';
+import { Reminder } from '../../shared/models/reminder.class';
+import { SavedMessage } from '../../shared/models/user.class';
+
+/**
+ * A saved message as shown in the list of saved messages.
+ *
+ * @property {SavedMessage} savedMessage - The bookmark of the current user.
+ * @property {Message} message - The saved message or thread answer.
+ */
+export type SavedMessageEntry = {
+  savedMessage: SavedMessage;
+  message: Message;
+};
+
+/**
+ * The saved messages of one channel or chat, thread answers are grouped with their channel or chat.
+ *
+ * @property {string} name - '#channelname' or the name of the chat partner.
+ * @property {SavedMessageEntry[]} entries - The saved messages, newest first.
+ */
+export type SavedMessageGroup = {
+  name: string;
+  entries: SavedMessageEntry[];
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SavedMessageService {
+
+  private userservice = inject(UsersService);
+  private messageService = inject(MessageService);
+  private channelService = inject(ChannelService);
+  private reminderService = inject(ReminderService);
+
+
+  /**
+   * The saved messages of the current user, synced with the user document.
+   */
+  get savedMessages(): SavedMessage[] {
+    return this.userservice.currentUser?.savedMessages ?? [];
+  }
+
+
+  /**
+   * Checks if the current user has saved a message.
+   *
+   * @param message - The message or thread answer to check.
+   * @returns `true` if the message is saved, otherwise `false`.
+   */
+  isMessageSaved(message: Message): boolean {
+    return this.savedMessages.some((savedMessage) => savedMessage.messagePath === message.messagePath);
+  }
+
+
+  /**
+   * Returns the saved message of a message.
+   *
+   * @param messagePath - The path of the message.
+   * @returns The saved message, or `undefined` if the message isn't saved.
+   */
+  getSavedMessage(messagePath: string): SavedMessage | undefined {
+    return this.savedMessages.find((savedMessage) => savedMessage.messagePath === messagePath);
+  }
+
+
+  /**
+   * Saves a message, or removes it from the saved messages if it is already saved.
+   *
+   * @param message - The message or thread answer.
+   */
+  async toggleSavedMessage(message: Message) {
+    if (this.isMessageSaved(message)) await this.removeSavedMessage(message.messagePath);
+    else await this.saveMessage(message);
+  }
+
+
+  /**
+   * Adds a message to the saved messages of the current user.
+   *
+   * @param message - The message or thread answer to save.
+   */
+  async saveMessage(message: Message) {
+    if (this.isMessageSaved(message) || message.deleted) return;
+    await this.updateSavedMessages([...this.savedMessages, { messagePath: message.messagePath, savedAt: Date.now() }]);
+  }
+
+
+  /**
+   * Removes a message from the saved messages of the current user.
+   *
+   * @param messagePath - The path of the message to remove.
+   */
+  async removeSavedMessage(messagePath: string) {
+    if (!this.getSavedMessage(messagePath)) return;
+    await this.updateSavedMessages(this.savedMessages.filter((savedMessage) => savedMessage.messagePath !== messagePath));
+  }
+
+
+  /**
+   * Returns the pending reminder of a saved message, the same reminder as set with "Erinnere mich" on the message.
+   *
+   * @param message - The saved message.
+   * @returns The reminder, or `undefined` if no reminder is pending.
+   */
+  getReminder(message: Message): Reminder | undefined {
+    return this.reminderService.getPendingReminderOfMessage(message);
+  }
+
+
+  /**
+   * Sets or clears the reminder of a saved message through the `ReminderService`.
+   * A pending reminder on the message is moved instead of adding a second one.
+   *
+   * @param message - The saved message.
+   * @param remindAt - The date to remind the user, or `undefined` to clear the reminder.
+   * @returns A promise that resolves to an empty string, or an error message.
+   */
+  async setReminder(message: Message, remindAt: Date | undefined): Promise<string> {
+    if (!this.isMessageSaved(message)) return 'Die Nachricht ist nicht gespeichert.';
+    if (remindAt) return await this.reminderService.addReminder(message, remindAt);
+    const reminder = this.getReminder(message);
+    return reminder ? await this.reminderService.markReminderDone(reminder) : '';
+  }
+
+
+  /**
+   * Removes a message from the saved messages, once its deletion can't be undone anymore.
+   *
+   * @param message - The changed message.
+   */
+  removeSavedMessageIfDeleted(message: Message) {
+    if (!this.isMessageSaved(message)) return;
+    if (this.messageService.isDeletionFinal(message)) this.removeSavedMessage(message.messagePath);
+  }
+
+
+  /**
+   * Loads all saved messages of the current user, grouped by channel or chat.
+   * Saved messages that don't exist anymore or are finally deleted are removed from the saved messages.
+   *
+   * @returns A promise that resolves to the groups, sorted by name.
+   */
+  async loadSavedMessageGroups(): Promise<SavedMessageGroup[]> {
+    const savedMessages = [...this.savedMessages].sort((a, b) => b.savedAt - a.savedAt);
+    const messages = await Promise.all(savedMessages.map((savedMessage) => this.loadMessage(savedMessage.messagePath)));
+    const groups: SavedMessageGroup[] = [];
+    const removedPaths: string[] = [];
+    savedMessages.forEach((savedMessage, index) => {
+      const message = messages[index];
+      if (!message || this.messageService.isDeletionFinal(message)) {
+        removedPaths.push(savedMessage.messagePath);
+        return;
+      }
+      const name = this.channelService.getConversationName(savedMessage.messagePath);
+      const group = groups.find((group) => group.name === name);
+      if (group) group.entries.push({ savedMessage: savedMessage, message: message });
+      else groups.push({ name: name, entries: [{ savedMessage: savedMessage, message: message }] });
+    });
+    if (removedPaths.length > 0) {
+      await this.updateSavedMessages(this.savedMessages.filter((savedMessage) => !removedPaths.includes(savedMessage.messagePath)));
+    }
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+
+  /**
+   * Loads a message or thread answer by its path.
+   *
+   * @param messagePath - The path of the message.
+   * @returns A promise that resolves to the message, or `undefined` if it doesn't exist.
+   */
+  private async loadMessage(messagePath: string): Promise<Message | undefined> {
+    const messageID = messagePath.split('/').pop() ?? '';
+    return await this.messageService.getMessageByID(messagePath.substring(0, messagePath.length - messageID.length), messageID);
+  }
+
+
+  /**
+   * Writes the saved messages to the user document of the current user.
+   * The user model is updated by the snapshot listener of the users.
+   *
+   * @param savedMessages - The new saved messages.
+   */
+  private async updateSavedMessages(savedMessages: SavedMessage[]) {
+    await this.userservice.updateCurrentUserDataOnFirestore({ savedMessages: savedMessages });
+  }
+}
@@ -0,0 +1,97 @@
+import { TestBed } from '@angular/core/testing';
+import { Timestamp } from '@angular/fire/firestore';
+import { Channel } from '../../shared/models/channel.class';
+import { User } from '../../shared/models/user.class';
+import { channelConverter, messageConverter, scheduledMessageConverter } from '../firebase/converters';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { MessageService } from './message.service';
+import { SCHEDULED_MESSAGE_CLOCK, ScheduledMessageService } from './scheduled-message.service';
+import { provideRepositoryTesting, TestUsersService } from './testing';
+
+describe('ScheduledMessageService', () => {
+  let repository: MemoryRepository;
+  let service: ScheduledMessageService;
+  let channel: Channel;
+  let now: number;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    repository = new MemoryRepository();
+    const usersService = new TestUsersService(repository);
+    usersService.setUsers([new User({ name: 'Anna' }, 'anna')], new User({ name: 'Anna' }, 'anna'));
+    await repository.setDocument('channels/c1', { name: 'Allgemein', memberIDs: ['anna'], messagesCount: 0 }, channelConverter);
+    channel = new Channel({ name: 'Allgemein', memberIDs: ['anna'] }, 'c1');
+    now = 1000;
+    TestBed.configureTestingModule({
+      providers: [...provideRepositoryTesting(repository, usersService), { provide: SCHEDULED_MESSAGE_CLOCK, useValue: () => new Date(now) }],
+    });
+    service = TestBed.inject(ScheduledMessageService);
+    service.startPublishJob();
+  });
+
+  afterEach(() => {
+    service.stopPublishJob();
+    jasmine.clock().uninstall();
+  });
+
+  function getScheduledMessagePath(): string {
+    return 'users/anna/scheduledMessages/' + service.scheduledMessages[0].id;
+  }
+
+  async function getMessagesCount(): Promise<number | undefined> {
+    return (await repository.getDocument('channels/c1', channelConverter)).data?.messagesCount;
+  }
+
+  it('publishes only the messages that are due at the time of the clock', async () => {
+    expect(await service.scheduleMessage(channel, 'Früher', new Date(2000))).toBe('');
+    expect(await service.scheduleMessage(channel, 'Später', new Date(5000))).toBe('');
+    expect(await service.publishDueMessages()).toBe(0);
+    now = 3000;
+    const dueMessageID = service.scheduledMessages[0].id;
+    expect(await service.publishDueMessages()).toBe(1);
+    expect((await repository.getDocument(channel.channelMessagesPath + dueMessageID, messageConverter)).data?.content).toBe('Früher');
+    expect(service.scheduledMessages.map((scheduledMessage) => scheduledMessage.content)).toEqual(['Später']);
+    expect(await getMessagesCount()).toBe(1);
+  });
+
+  it('rejects send dates that are not in the future', async () => {
+    expect(await service.scheduleMessage(channel, 'Jetzt', new Date(now))).toBe('Der Zeitpunkt muss in der Zukunft liegen.');
+    expect(service.scheduledMessages).toEqual([]);
+  });
+
+  it('keeps a message with an error if its target does not exist anymore', async () => {
+    await service.scheduleMessage(new Channel({ name: 'Gelöscht', memberIDs: ['anna'] }, 'missing'), 'Ins Leere', new Date(2000));
+    now = 3000;
+    expect(await service.publishDueMessages()).toBe(0);
+    const scheduledMessageData = (await repository.getDocument(getScheduledMessagePath(), scheduledMessageConverter)).data!;
+    expect(scheduledMessageData.error).toBe('Das Ziel der Nachricht existiert nicht mehr.');
+    expect(scheduledMessageData.claimedAt).toBeUndefined();
+    expect(await service.publishDueMessages()).toBe(0);
+  });
+
+  it('restores the message and keeps publishing if reading the target fails', async () => {
+    spyOn(console, 'error');
+    const messageService = TestBed.inject(MessageService);
+    const getCollectionObject = spyOn(messageService, 'getCollectionObjectByPath').and.rejectWith(new Error('offline'));
+    await service.scheduleMessage(channel, 'Hallo', new Date(2000));
+    now = 3000;
+    expect(await service.publishDueMessages()).toBe(0);
+    expect(service.scheduledMessages[0].error).toBe('Die Nachricht konnte nicht gesendet werden.');
+    getCollectionObject.and.callThrough();
+    expect(await service.updateScheduledMessage(service.scheduledMessages[0], { sendAt: new Date(4000) })).toBe('');
+    now = 5000;
+    expect(await service.publishDueMessages()).toBe(1);
+    expect(service.scheduledMessages).toEqual([]);
+  });
+
+  it('publishes a message of a closed tab again after the claim expired, without a copy', async () => {
+    await service.scheduleMessage(channel, 'Hallo', new Date(2000));
+    now = 3000;
+    await repository.updateDocument(getScheduledMessagePath(), { claimedAt: Timestamp.fromMillis(now), claimedBy: 'closed-tab' }, scheduledMessageConverter);
+    await TestBed.inject(MessageService).addNewMessageToCollection(channel, 'Hallo', [], 'anna', undefined, { messageID: service.scheduledMessages[0].id });
+    expect(await service.publishDueMessages()).toBe(0);
+    now += service.claimTimeout;
+    expect(await service.publishDueMessages()).toBe(1);
+    expect(await getMessagesCount()).toBe(1);
+  });
+});
@@ -0,0 +1,278 @@
+import { inject, Injectable, InjectionToken } from '@angular/core';
+import { Timestamp, UpdateData } from '@angular/fire/firestore';
+import { BehaviorSubject } from 'rxjs';
+import { UsersService } from './user.service';
+import { MessageService } from './message.service';
+import { ChannelService } from './channel.service';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
+import { ScheduledMessage, ScheduledMessageData } from '../../shared/models/scheduled-message.class';
+import { scheduledMessageConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
+import { getCollectionType, getObjectsPath } from '../firebase/utils';
+
+/**
+ * The clock of the publish job. Returns the current date.
+ * Can be replaced by a fake clock, e.g. to test the publish job without waiting.
+ */
+export const SCHEDULED_MESSAGE_CLOCK = new InjectionToken<() => Date>('SCHEDULED_MESSAGE_CLOCK', {
+  providedIn: 'root',
+  factory: () => () => new Date(),
+});
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ScheduledMessageService {
+
+  private repository = inject(Repository);
+  private userservice = inject(UsersService);
+  private messageService = inject(MessageService);
+  private channelService = inject(ChannelService);
+  private now = inject(SCHEDULED_MESSAGE_CLOCK);
+
+  readonly publishInterval = 15000;
+  readonly claimTimeout = 60000;
+  private readonly publisherID = Math.random().toString(36).substring(2);
+  public scheduledMessages: ScheduledMessage[] = [];
+  private scheduledMessagesSubject = new BehaviorSubject<ScheduledMessage[]>([]);
+  public scheduledMessages$ = this.scheduledMessagesSubject.asObservable();
+
+  private unsubScheduledMessages: (() => void) | undefined;
+  private publishIntervalID: ReturnType<typeof setInterval> | undefined;
+  private publishing = false;
+
+
+  /**
+   * Subscribes to the scheduled messages of the current user and starts the publish job,
+   * that publishes all due messages every `publishInterval` milliseconds.
+   * Messages that became due while the user was offline are published when the job starts.
+   */
+  startPublishJob() {
+    this.stopPublishJob();
+    const userID = this.userservice.currentUserID;
+    this.unsubScheduledMessages = this.repository.subscribeDocuments({ collectionPath: this.getScheduledMessagesPath(userID) }, scheduledMessageConverter, (changes) => {
+      changes.forEach((change) => {
+        this.scheduledMessages = this.scheduledMessages.filter((scheduledMessage) => scheduledMessage.id !== change.document.id);
+        if (change.type !== 'removed' && change.document.data) this.scheduledMessages.push(new ScheduledMessage(change.document.data, change.document.id));
+      });
+      this.scheduledMessages.sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+      this.scheduledMessagesSubject.next(this.scheduledMessages);
+      this.publishDueMessages();
+    }, (error) => console.error('ScheduledMessageService: error loading scheduled messages', error));
+    this.publishIntervalID = setInterval(() => this.publishDueMessages(), this.publishInterval);
+  }
+
+
+  /**
+   * Stops the publish job and unsubscribes from the scheduled messages.
+   */
+  stopPublishJob() {
+    if (this.publishIntervalID) clearInterval(this.publishIntervalID);
+    this.publishIntervalID = undefined;
+    if (this.unsubScheduledMessages) this.unsubScheduledMessages();
+    this.unsubScheduledMessages = undefined;
+    this.scheduledMessages = [];
+    this.scheduledMessagesSubject.next(this.scheduledMessages);
+  }
+
+
+  /**
+   * Stores a message as pending document, to be published to the collection at the given date.
+   * Attachments can't be scheduled, as they are uploaded with the message.
+   *
+   * @param collectionObject - The channel, chat or message (thread) to publish the message to.
+   * @param content - The content of the message as HTML.
+   * @param sendAt - The date to publish the message.
+   * @returns A promise that resolves to an empty string if the message is scheduled, or an error message.
+   */
+  async scheduleMessage(collectionObject: Channel | Chat | Message, content: string, sendAt: Date): Promise<string> {
+    if (sendAt.getTime() <= this.now().getTime()) return 'Der Zeitpunkt muss in der Zukunft liegen.';
+    try {
+      await this.repository.addDocument(this.getScheduledMessagesPath(this.userservice.currentUserID), {
+        creatorID: this.userservice.currentUserID,
+        targetType: getCollectionType(collectionObject),
+        targetPath: getObjectsPath(collectionObject),
+        targetName: this.getTargetName(collectionObject),
+        content: content,
+        sendAt: Timestamp.fromDate(sendAt),
+        createdAt: this.repository.serverTimestamp(),
+      }, scheduledMessageConverter);
+      return '';
+    } catch (error) {
+      console.error('ScheduledMessageService: error scheduling message', error);
+      return 'Die Nachricht konnte nicht geplant werden.';
+    }
+  }
+
+
+  /**
+   * Changes the content and/or the send date of a scheduled message.
+   * A previous publish error is cleared, so the message is published again when it is due.
+   *
+   * @param scheduledMessage - The scheduled message to update.
+   * @param updateData - The new content and/or send date.
+   * @returns A promise that resolves to an empty string if the message is updated, or an error message.
+   */
+  async updateScheduledMessage(scheduledMessage: ScheduledMessage, updateData: { content?: string; sendAt?: Date }): Promise<string> {
+    if (updateData.sendAt && updateData.sendAt.getTime() <= this.now().getTime()) return 'Der Zeitpunkt muss in der Zukunft liegen.';
+    const data: UpdateData<ScheduledMessageData> = { error: '' };
+    if (updateData.content !== undefined) data.content = updateData.content;
+    if (updateData.sendAt) data.sendAt = Timestamp.fromDate(updateData.sendAt);
+    try {
+      await this.repository.updateDocument(this.getScheduledMessagesPath(scheduledMessage.creatorID) + scheduledMessage.id, data, scheduledMessageConverter);
+      return '';
+    } catch (error) {
+      console.error('ScheduledMessageService: error updating scheduled message', error);
+      return 'Die geplante Nachricht konnte nicht geändert werden.';
+    }
+  }
+
+
+  /**
+   * Cancels a scheduled message by deleting its pending document.
+   *
+   * @param scheduledMessage - The scheduled message to cancel.
+   * @returns A promise that resolves to an empty string if the message is cancelled, or an error message.
+   */
+  async cancelScheduledMessage(scheduledMessage: ScheduledMessage): Promise<string> {
+    try {
+      await this.repository.deleteDocument(this.getScheduledMessagesPath(scheduledMessage.creatorID) + scheduledMessage.id);
+      return '';
+    } catch (error) {
+      console.error('ScheduledMessageService: error cancelling scheduled message', error);
+      return 'Die geplante Nachricht konnte nicht abgebrochen werden.';
+    }
+  }
+
+
+  /**
+   * Publishes all scheduled messages that are due at the current time of the clock.
+   * Messages with a publish error are skipped until they are rescheduled.
+   * Runs only once at a time, calls while a run is in progress are ignored.
+   *
+   * @returns A promise that resolves to the number of published messages.
+   */
+  async publishDueMessages(): Promise<number> {
+    if (this.publishing) return 0;
+    this.publishing = true;
+    try {
+      const now = this.now().getTime();
+      const dueMessages = this.scheduledMessages.filter((scheduledMessage) => !scheduledMessage.error && scheduledMessage.sendAt.getTime() <= now);
+      let publishedCount = 0;
+      for (const scheduledMessage of dueMessages) {
+        if (await this.publishScheduledMessage(scheduledMessage)) publishedCount++;
+      }
+      return publishedCount;
+    } finally {
+      this.publishing = false;
+    }
+  }
+
+
+  /**
+   * Publishes a scheduled message through `MessageService.addNewMessageToCollection`.
+   *
+   * The pending document is claimed first with `claimedAt` and `claimedBy` in a transaction, so a message is
+   * published only once, even if the job runs in several tabs. It is deleted after the message is stored.
+   * If the tab is closed in between, the claim expires after `claimTimeout` and the message is published again
+   * with the ID of the pending document, which overwrites the stored message instead of adding a copy.
+   * If the message can't be published, the claim is replaced by the error, so the user can reschedule or cancel it.
+   *
+   * @param scheduledMessage - The scheduled message to publish.
+   * @returns A promise that resolves to `true` if the message was published, otherwise `false`.
+   */
+  private async publishScheduledMessage(scheduledMessage: ScheduledMessage): Promise<boolean> {
+    const scheduledMessagePath = this.getScheduledMessagesPath(scheduledMessage.creatorID) + scheduledMessage.id;
+    try {
+      if (!await this.claimScheduledMessage(scheduledMessagePath)) return false;
+    } catch (error) {
+      console.error('ScheduledMessageService: error claiming scheduled message', error);
+      return false;
+    }
+    let error: string;
+    try {
+      const target = await this.messageService.getCollectionObjectByPath(scheduledMessage.targetType, scheduledMessage.targetPath);
+      error = target
+        ? await this.messageService.addNewMessageToCollection(target, scheduledMessage.content, [], scheduledMessage.creatorID, undefined, { messageID: scheduledMessage.id })
+        : 'Das Ziel der Nachricht existiert nicht mehr.';
+    } catch (publishError) {
+      console.error('ScheduledMessageService: error publishing scheduled message', publishError);
+      error = 'Die Nachricht konnte nicht gesendet werden.';
+    }
+    if (error) await this.restoreScheduledMessage(scheduledMessagePath, error);
+    else await this.deletePublishedMessage(scheduledMessagePath);
+    return !error;
+  }
+
+
+  /**
+   * Claims the pending document of a scheduled message for this publish job.
+   *
+   * @param scheduledMessagePath - The path of the pending document.
+   * @returns A promise that resolves to `false` if the document is gone, has an error or is claimed by another job.
+   */
+  private async claimScheduledMessage(scheduledMessagePath: string): Promise<boolean> {
+    const now = this.now().getTime();
+    return await this.repository.runTransaction(async (transaction) => {
+      const scheduledMessageData = (await transaction.get(scheduledMessagePath, scheduledMessageConverter)).data;
+      if (!scheduledMessageData || scheduledMessageData.error) return false;
+      if (scheduledMessageData.claimedAt && now - scheduledMessageData.claimedAt.toMillis() < this.claimTimeout) return false;
+      transaction.update(scheduledMessagePath, { claimedAt: Timestamp.fromMillis(now), claimedBy: this.publisherID }, scheduledMessageConverter);
+      return true;
+    });
+  }
+
+
+  /**
+   * Deletes the pending document of a published message.
+   * If that fails, the expired claim lets the next run publish the message again with the same ID.
+   *
+   * @param scheduledMessagePath - The path of the pending document.
+   */
+  private async deletePublishedMessage(scheduledMessagePath: string) {
+    try {
+      await this.repository.deleteDocument(scheduledMessagePath);
+    } catch (error) {
+      console.error('ScheduledMessageService: error deleting published scheduled message', error);
+    }
+  }
+
+
+  /**
+   * Releases the claim of a scheduled message that couldn't be published and stores the error.
+   *
+   * @param scheduledMessagePath - The path of the pending document.
+   * @param error - The error that occurred while publishing.
+   */
+  private async restoreScheduledMessage(scheduledMessagePath: string, error: string) {
+    try {
+      await this.repository.updateDocument(scheduledMessagePath, {
+        error: error,
+        claimedAt: this.repository.deleteField(),
+        claimedBy: this.repository.deleteField(),
+      }, scheduledMessageConverter);
+    } catch (restoreError) {
+      console.error('ScheduledMessageService: error restoring scheduled message', restoreError);
+    }
+  }
+
+
+  /**
+   * Returns a readable name of the target, shown in the list of scheduled messages.
+   *
+   * @param collectionObject - The channel, chat or message (thread) the message is published to.
+   * @returns '#channelname', the name of the chat partner or 'Thread'.
+   */
+  private getTargetName(collectionObject: Channel | Chat | Message): string {
+    if (collectionObject instanceof Channel) return '#' + collectionObject.name;
+    if (collectionObject instanceof Chat) return this.channelService.getChatPartner(collectionObject)?.name ?? '';
+    return 'Thread';
+  }
+
+
+  private getScheduledMessagesPath(userID: string): string {
+    return 'users/' + userID + '/scheduledMessages/';
+  }
+}
@@ -5,11 +5,12 @@ import { NavigationService } from './navigation.service';
 import { UsersService } from './user.service';
 import { ChannelService } from './channel.service';
 import { MessageService } from './message.service';
-import { Message } from '../../shared/models/message.class';
-import { Firestore, collection, query, where, orderBy, limit, getDocs, startAt, collectionGroup } from '@angular/fire/firestore';
+import { Message, MessageData } from '../../shared/models/message.class';
+import { Firestore, collection, query, where, orderBy, limit, getDocs, startAt, collectionGroup, QueryDocumentSnapshot } from '@angular/fire/firestore';
 import { Chat } from '../../shared/models/chat.class';
 import { Channel } from '../../shared/models/channel.class';
 import { isRealUser } from '../firebase/utils';
+import { chatConverter, getValidatedData, messageConverter } from '../firebase/converters';
 
 export interface GroupedSearchResults {
   users: { text: string; type: 'user'; hasChat: boolean }[];
@@ -159,7 +160,7 @@ export class SearchService {
    *
    * @param message - The message to scroll to.
    */
-  private scrollToMessage(message: Message): void {
+  public scrollToMessage(message: Message): void {
     this.messageScrollRequested.emit(message);
   }
 
@@ -206,7 +207,7 @@ export class SearchService {
    * no such chat is found.
    */
   private async getChatIdWithUser(userId: string): Promise<string | null> {
-    const chatsRef = collection(this.firestore, 'chats');
+    const chatsRef = collection(this.firestore, 'chats').withConverter(chatConverter);
     const q = query(chatsRef, where('memberIDs', 'array-contains', userId));
     const querySnapshot = await getDocs(q);
     if (!querySnapshot.empty) return querySnapshot.docs[0].id;
@@ -224,7 +225,7 @@ export class SearchService {
    * @returns The nearest message to the target date, or `null` if no such message is found.
    */
   private async findNearestMessage(collectionPath: string, targetDate: Date): Promise<Message | null> {
-    const messagesRef = collection(this.firestore, collectionPath);
+    const messagesRef = collection(this.firestore, collectionPath).withConverter(messageConverter);
     const qBefore = query(messagesRef, orderBy('createdAt', 'desc'), startAt(targetDate), limit(1));
     const querySnapshotBefore = await getDocs(qBefore);
 
@@ -247,11 +248,11 @@ export class SearchService {
    * This method extracts the necessary data from the Firestore document and uses it to construct a new `Message` object.
    *
    * @param doc - The Firestore document containing the message data.
-   * @returns A new `Message` instance representing the message data from the provided document.
+   * @returns A new `Message` instance representing the message data from the provided document, or `null` if the document is invalid.
    */
-  private createMessageFromDoc(doc: any): Message {
-    const data = doc.data();
-    return new Message(data, doc.ref.parent.path, doc.id);
+  private createMessageFromDoc(doc: QueryDocumentSnapshot<MessageData>): Message | null {
+    const data = getValidatedData(doc);
+    return data ? new Message(data, doc.ref.parent.path, doc.id) : null;
   }
 
 
@@ -0,0 +1,74 @@
+import { inject, Injectable } from '@angular/core';
+import { environment } from '../../../environments/environment';
+import { userConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
+import { createEmulatorAuthUser, seedWorkspace, validateWorkspaceFixture, WorkspaceFixture } from '../firebase/seeding';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SeedService {
+
+  private repository = inject(Repository);
+
+  readonly isEmulatorEnvironment = !!environment.emulators;
+
+
+  /**
+   * Seeds the workspace fixtures of the environment into the emulators, if there are no users yet.
+   * Called once at startup by the emulator configuration, see `app.config.ts`.
+   *
+   * @returns A promise that resolves to `true` if the fixtures were seeded.
+   */
+  async seedEmulatorsIfEmpty(): Promise<boolean> {
+    if (!environment.emulators) return false;
+    try {
+      const userDocs = await this.repository.getDocuments({ collectionPath: 'users', limit: 1 }, userConverter);
+      if (userDocs.length > 0) return false;
+    } catch (error) {
+      console.error('SeedService: error checking the emulators, are they running?', error);
+      return false;
+    }
+    return (await this.seedEmulators()) === '';
+  }
+
+
+  /**
+   * Seeds the workspace fixtures of the environment into the emulators. Documents of earlier runs are overwritten.
+   * Only possible with the emulator configuration, never against the Firebase project.
+   *
+   * @returns A promise that resolves to an empty string on success, or an error message.
+   */
+  async seedEmulators(): Promise<string> {
+    const emulators = environment.emulators;
+    if (!emulators) return 'Fixtures können nur in die Emulatoren geladen werden.';
+    try {
+      for (const fixtureName of emulators.fixtures) {
+        const fixture = await this.loadFixture(fixtureName);
+        validateWorkspaceFixture(fixture);
+        for (const user of fixture.users) {
+          await createEmulatorAuthUser(emulators, environment.firebase.projectId ?? '', user);
+        }
+        await seedWorkspace(this.repository, fixture);
+        console.info(`SeedService: workspace ${fixture.name} seeded with ${fixture.users.length} users and ${fixture.channels.length} channels`);
+      }
+      return '';
+    } catch (error) {
+      console.error('SeedService: error seeding the fixtures', error);
+      return 'Die Fixtures konnten nicht geladen werden.';
+    }
+  }
+
+
+  /**
+   * Loads a workspace fixture, copied from `src/fixtures` to `fixtures/` by the emulator configuration.
+   *
+   * @param fixtureName - The file name of the fixture without `.json`.
+   * @returns A promise that resolves to the parsed fixture.
+   */
+  private async loadFixture(fixtureName: string): Promise<WorkspaceFixture> {
+    const response = await fetch('fixtures/' + fixtureName + '.json');
+    if (!response.ok) throw new Error('Fixture ' + fixtureName + ' not found (' + response.status + ')');
+    return await response.json() as WorkspaceFixture;
+  }
+}
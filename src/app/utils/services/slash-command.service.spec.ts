@@ -0,0 +1,63 @@
+import { TestBed } from '@angular/core/testing';
+import { Channel } from '../../shared/models/channel.class';
+import { User } from '../../shared/models/user.class';
+import { channelConverter } from '../firebase/converters';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { ChannelService } from './channel.service';
+import { NavigationService } from './navigation.service';
+import { SlashCommandService } from './slash-command.service';
+import { provideRepositoryTesting, TestUsersService } from './testing';
+import { UsersService } from './user.service';
+
+describe('SlashCommandService', () => {
+  let repository: MemoryRepository;
+  let service: SlashCommandService;
+  let channel: Channel;
+
+  beforeEach(async () => {
+    repository = new MemoryRepository();
+    const usersService = new TestUsersService(repository);
+    const anna = new User({ name: 'Anna' }, 'anna');
+    usersService.setUsers([anna, new User({ name: 'Ben' }, 'ben'), new User({ name: 'Carla' }, 'carla')], anna);
+    await repository.setDocument('channels/c1', { name: 'Projekt', creatorID: 'anna', memberIDs: ['anna'] }, channelConverter);
+    TestBed.configureTestingModule({ providers: provideRepositoryTesting(repository, usersService) });
+    service = TestBed.inject(SlashCommandService);
+    channel = TestBed.inject(ChannelService).getChannelByName('Projekt')!;
+  });
+
+  afterEach(() => TestBed.inject(ChannelService).ngOnDestroy());
+
+  async function getMemberIDs(): Promise<string[] | undefined> {
+    return (await repository.getDocument('channels/c1', channelConverter)).data?.memberIDs;
+  }
+
+  it('invites a user and keeps the members that were added in the meantime', async () => {
+    await repository.updateDocument('channels/c1', { memberIDs: repository.arrayUnion('carla') }, channelConverter);
+    const staleChannel = new Channel({ name: 'Projekt', creatorID: 'anna', memberIDs: ['anna'] }, 'c1');
+    expect(await service.executeCommand('/invite @Ben', staleChannel)).toEqual({ error: '', info: 'Ben wurde zu #Projekt hinzugefügt.' });
+    expect(await getMemberIDs()).toEqual(['anna', 'carla', 'ben']);
+  });
+
+  it('reports a failed update of the description', async () => {
+    spyOn(console, 'error');
+    await repository.deleteDocument('channels/c1');
+    expect(await service.executeCommand('/topic Neue Beschreibung', channel)).toEqual({ error: 'Der Channel konnte nicht gespeichert werden.' });
+  });
+
+  it('reports a failed update of the status', async () => {
+    spyOn(TestBed.inject(UsersService), 'updateCurrentUserDataOnFirestore').and.resolveTo('Die Benutzerdaten konnten nicht gespeichert werden.');
+    expect(await service.executeCommand('/status Im Meeting', channel)).toEqual({ error: 'Die Benutzerdaten konnten nicht gespeichert werden.' });
+  });
+
+  it('opens the default channel only after the channel was left', async () => {
+    spyOn(console, 'error');
+    const setChatViewObject = TestBed.inject(NavigationService).setChatViewObject as jasmine.Spy;
+    await repository.deleteDocument('channels/c1');
+    expect(await service.executeCommand('/leave', channel)).toEqual({ error: 'Die Person konnte nicht aus dem Channel entfernt werden.' });
+    expect(setChatViewObject).not.toHaveBeenCalled();
+    await repository.setDocument('channels/c1', { name: 'Projekt', creatorID: 'anna', memberIDs: ['anna', 'ben'] }, channelConverter);
+    expect((await service.executeCommand('/leave', channel)).error).toBe('');
+    expect(await getMemberIDs()).toEqual(['ben']);
+    expect(setChatViewObject).toHaveBeenCalledWith(TestBed.inject(ChannelService).defaultChannel);
+  });
+});
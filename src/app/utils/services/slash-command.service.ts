@@ -0,0 +1,347 @@
+import { inject, Injectable } from '@angular/core';
+import { UsersService } from './user.service';
+import { ChannelService } from './channel.service';
+import { NavigationService } from './navigation.service';
+import { ScheduledMessageService } from './scheduled-message.service';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
+import { User } from '../../shared/models/user.class';
+import { escapeHTML, isRealUser } from '../firebase/utils';
+import { getFormatedDateTime, parseReminderTime } from '../date';
+
+/**
+ * An entry of the picker of the message editor while a slash command is typed.
+ *
+ * @property {string} label - The text shown in the picker, e.g. '/remind' or '@Max Mustermann'.
+ * @property {string} description - A short explanation shown next to the label.
+ * @property {string} insertText - The text that replaces the typed command when the entry is chosen.
+ */
+export type SlashCommandSuggestion = {
+  label: string;
+  description: string;
+  insertText: string;
+};
+
+/**
+ * The result of an executed slash command.
+ *
+ * @property {string} error - An error message, empty if the command was executed.
+ * @property {string} [info] - A confirmation shown to the user.
+ * @property {string} [messageContent] - The content of a message to send as result of the command, as HTML.
+ */
+export type SlashCommandResult = {
+  error: string;
+  info?: string;
+  messageContent?: string;
+};
+
+/**
+ * A command of the registry. The argument is the text after the command name.
+ *
+ * @property {string} name - The name of the command without the slash, e.g. 'remind'.
+ * @property {string} usage - The syntax of the command, shown in the picker.
+ * @property {string} description - A short explanation of the command.
+ * @property getSuggestions - Returns the autocomplete entries for the typed argument.
+ * @property validate - Checks the argument locally, returns an error message or an empty string.
+ * @property execute - Executes the validated command.
+ */
+export type SlashCommand = {
+  name: string;
+  usage: string;
+  description: string;
+  getSuggestions: (argument: string, collectionObject: Channel | Chat | Message) => SlashCommandSuggestion[];
+  validate: (argument: string, collectionObject: Channel | Chat | Message) => string;
+  execute: (argument: string, collectionObject: Channel | Chat | Message) => Promise<SlashCommandResult>;
+};
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SlashCommandService {
+
+  private userservice = inject(UsersService);
+  private channelService = inject(ChannelService);
+  private navigationService = inject(NavigationService);
+  private scheduledMessageService = inject(ScheduledMessageService);
+
+  readonly maxStatusLength = 100;
+  private commands: SlashCommand[] = [];
+
+  constructor() {
+    this.registerCommand(this.createRemindCommand());
+    this.registerCommand(this.createShrugCommand());
+    this.registerCommand(this.createTopicCommand());
+    this.registerCommand(this.createInviteCommand());
+    this.registerCommand(this.createLeaveCommand());
+    this.registerCommand(this.createStatusCommand());
+  }
+
+
+  /**
+   * Adds a command to the registry. A command with the same name is replaced.
+   *
+   * @param command - The command to register.
+   */
+  registerCommand(command: SlashCommand) {
+    this.commands = [...this.commands.filter((c) => c.name !== command.name), command];
+  }
+
+
+  /**
+   * Returns the registered command with the given name.
+   *
+   * @param name - The name of the command without the slash.
+   * @returns The command, or `undefined` if no command with the name is registered.
+   */
+  getCommand(name: string): SlashCommand | undefined {
+    return this.commands.find((command) => command.name === name.toLowerCase());
+  }
+
+
+  /**
+   * Splits the plain text of a message into command name and argument.
+   *
+   * @param text - The plain text of the message.
+   * @returns The name and the trimmed argument, or `undefined` if the text doesn't start with a slash.
+   */
+  parseCommand(text: string): { name: string; argument: string } | undefined {
+    const match = text.trim().match(/^\/(\S*)\s*([\s\S]*)$/);
+    if (!match) return undefined;
+    return { name: match[1], argument: match[2].trim() };
+  }
+
+
+  /**
+   * Returns the autocomplete entries for the text typed in the editor so far.
+   * While the command name is typed, the matching commands are returned, afterwards the suggestions of the command.
+   *
+   * @param text - The plain text of the editor up to the cursor, starting with a slash.
+   * @param collectionObject - The channel, chat or message (thread) of the editor.
+   * @returns The suggestions, empty if there are none.
+   */
+  getSuggestions(text: string, collectionObject: Channel | Chat | Message): SlashCommandSuggestion[] {
+    const match = text.match(/^\/(\S*)(\s+([\s\S]*))?$/);
+    if (!match || text.includes('\n')) return [];
+    if (match[2] === undefined) {
+      return this.commands
+        .filter((command) => command.name.startsWith(match[1].toLowerCase()))
+        .map((command) => ({ label: command.usage, description: command.description, insertText: '/' + command.name + ' ' }));
+    }
+    const command = this.getCommand(match[1]);
+    return command ? command.getSuggestions(match[3], collectionObject) : [];
+  }
+
+
+  /**
+   * Validates and executes the command of a message.
+   *
+   * @param text - The plain text of the message, starting with a slash.
+   * @param collectionObject - The channel, chat or message (thread) of the editor.
+   * @returns A promise that resolves to the result of the command.
+   */
+  async executeCommand(text: string, collectionObject: Channel | Chat | Message): Promise<SlashCommandResult> {
+    const parsedCommand = this.parseCommand(text);
+    if (!parsedCommand) return { error: 'Befehle beginnen mit "/".' };
+    const command = this.getCommand(parsedCommand.name);
+    if (!command) return { error: `Unbekannter Befehl: /${parsedCommand.name}` };
+    const error = command.validate(parsedCommand.argument, collectionObject);
+    if (error) return { error: error };
+    try {
+      return await command.execute(parsedCommand.argument, collectionObject);
+    } catch (error) {
+      console.error('SlashCommandService: error executing command /' + command.name, error);
+      return { error: `Der Befehl /${command.name} konnte nicht ausgeführt werden.` };
+    }
+  }
+
+
+  /**
+   * Returns the channel a command refers to: the channel of the editor or of the thread.
+   *
+   * @param collectionObject - The channel, chat or message (thread) of the editor.
+   * @returns The channel, or `undefined` in chats and the default channel.
+   */
+  private getChannel(collectionObject: Channel | Chat | Message): Channel | undefined {
+    const channel = collectionObject instanceof Message ? this.navigationService.chatViewObject : collectionObject;
+    return channel instanceof Channel && !channel.defaultChannel ? channel : undefined;
+  }
+
+
+  /**
+   * `/remind [Zeitpunkt] [Text]` - sends a message with the text to the own chat of the user at the given time.
+   */
+  private createRemindCommand(): SlashCommand {
+    const timeSuggestions = ['in 15 min', 'in 1 h', 'morgen', 'um 9:00'];
+    return {
+      name: 'remind',
+      usage: '/remind [Zeitpunkt] [Text]',
+      description: 'Erinnert dich in deinem eigenen Chat an etwas.',
+      getSuggestions: (argument) => {
+        if (parseReminderTime(argument)) return [];
+        return timeSuggestions
+          .filter((time) => time.startsWith(argument.toLowerCase()))
+          .map((time) => ({ label: time, description: 'Zeitpunkt', insertText: '/remind ' + time + ' ' }));
+      },
+      validate: (argument) => {
+        const reminderTime = parseReminderTime(argument);
+        if (!reminderTime) return 'Bitte gib einen Zeitpunkt an, z.B. "in 30 min", "in 2 h", "morgen" oder "um 14:30".';
+        if (!reminderTime.rest) return 'Bitte gib an, woran du erinnert werden möchtest.';
+        return '';
+      },
+      execute: async (argument) => {
+        const reminderTime = parseReminderTime(argument)!;
+        const selfChat = this.channelService.getChatWithUserByID(this.userservice.currentUserID);
+        if (!selfChat) return { error: 'Dein eigener Chat wurde nicht gefunden.' };
+        const content = '<p>Erinnerung: ' + escapeHTML(reminderTime.rest) + '</p>';
+        const error = await this.scheduledMessageService.scheduleMessage(selfChat, content, reminderTime.date);
+        return error ? { error: error } : { error: '', info: `Erinnerung für ${getFormatedDateTime(reminderTime.date)} gesetzt.` };
+      },
+    };
+  }
+
+
+  /**
+   * `/shrug [Text]` - sends the text followed by ¯\_(ツ)_/¯.
+   */
+  private createShrugCommand(): SlashCommand {
+    return {
+      name: 'shrug',
+      usage: '/shrug [Text]',
+      description: 'Sendet ¯\\_(ツ)_/¯ im Anschluss an deine Nachricht.',
+      getSuggestions: () => [],
+      validate: () => '',
+      execute: async (argument) => ({ error: '', messageContent: '<p>' + escapeHTML((argument + ' ¯\\_(ツ)_/¯').trim()) + '</p>' }),
+    };
+  }
+
+
+  /**
+   * `/topic [Beschreibung]` - sets the description of the channel, only the creator of the channel may change it.
+   */
+  private createTopicCommand(): SlashCommand {
+    return {
+      name: 'topic',
+      usage: '/topic [Beschreibung]',
+      description: 'Setzt die Beschreibung des Channels.',
+      getSuggestions: (argument, collectionObject) => {
+        const channel = this.getChannel(collectionObject);
+        if (!channel || argument !== '' || !channel.description) return [];
+        return [{ label: channel.description, description: 'Aktuelle Beschreibung', insertText: '/topic ' + channel.description }];
+      },
+      validate: (argument, collectionObject) => {
+        const channel = this.getChannel(collectionObject);
+        if (!channel) return 'Die Beschreibung kann nur in einem Channel gesetzt werden.';
+        if (channel.creatorID !== this.userservice.currentUserID) return 'Nur der Ersteller des Channels darf die Beschreibung ändern.';
+        if (!argument) return 'Bitte gib eine Beschreibung an.';
+        return '';
+      },
+      execute: async (argument, collectionObject) => {
+        const channel = this.getChannel(collectionObject)!;
+        const error = await this.channelService.updateChannelOnFirestore(channel, { description: argument });
+        if (error) return { error: error };
+        return { error: '', info: `Die Beschreibung von #${channel.name} wurde geändert.` };
+      },
+    };
+  }
+
+
+  /**
+   * `/invite @Name` - adds a user to the channel, only members of the channel may invite.
+   */
+  private createInviteCommand(): SlashCommand {
+    return {
+      name: 'invite',
+      usage: '/invite @Name',
+      description: 'Fügt eine Person zum Channel hinzu.',
+      getSuggestions: (argument, collectionObject) => {
+        const channel = this.getChannel(collectionObject);
+        if (!channel || this.getUserOfArgument(argument)) return [];
+        const searchTerm = argument.replace(/^@/, '').toLowerCase();
+        return this.userservice.users
+          .filter((user) => isRealUser(user) && !channel.memberIDs.includes(user.id) && user.name.toLowerCase().includes(searchTerm))
+          .map((user) => ({ label: '@' + user.name, description: user.email, insertText: '/invite @' + user.name }));
+      },
+      validate: (argument, collectionObject) => {
+        const channel = this.getChannel(collectionObject);
+        if (!channel) return 'Personen können nur in einen Channel eingeladen werden.';
+        if (!channel.memberIDs.includes(this.userservice.currentUserID)) return 'Nur Channelmitglieder dürfen Personen einladen.';
+        const user = this.getUserOfArgument(argument);
+        if (!user || !isRealUser(user)) return 'Bitte gib eine Person an, z.B. "/invite @Name".';
+        if (channel.memberIDs.includes(user.id)) return `${user.name} ist bereits Mitglied von #${channel.name}.`;
+        return '';
+      },
+      execute: async (argument, collectionObject) => {
+        const channel = this.getChannel(collectionObject)!;
+        const user = this.getUserOfArgument(argument)!;
+        const error = await this.channelService.addChannelMember(channel, user.id);
+        if (error) return { error: error };
+        return { error: '', info: `${user.name} wurde zu #${channel.name} hinzugefügt.` };
+      },
+    };
+  }
+
+
+  /**
+   * `/leave` - removes the current user from the channel and opens the default channel.
+   */
+  private createLeaveCommand(): SlashCommand {
+    return {
+      name: 'leave',
+      usage: '/leave',
+      description: 'Verlässt den aktuellen Channel.',
+      getSuggestions: () => [],
+      validate: (argument, collectionObject) => {
+        const channel = this.getChannel(collectionObject);
+        if (!channel) return 'Nur Channels können verlassen werden.';
+        if (!channel.memberIDs.includes(this.userservice.currentUserID)) return `Du bist kein Mitglied von #${channel.name}.`;
+        if (argument) return '/leave erwartet keine weiteren Angaben.';
+        return '';
+      },
+      execute: async (argument, collectionObject) => {
+        const channel = this.getChannel(collectionObject)!;
+        const error = await this.channelService.removeChannelMember(channel, this.userservice.currentUserID);
+        if (error) return { error: error };
+        await this.navigationService.setChatViewObject(this.channelService.defaultChannel);
+        return { error: '', info: `Du hast #${channel.name} verlassen.` };
+      },
+    };
+  }
+
+
+  /**
+   * `/status [Text]` - sets the status of the current user, without text the status is removed.
+   */
+  private createStatusCommand(): SlashCommand {
+    const statusSuggestions = ['🗓️ Im Meeting', '🏠 Im Homeoffice', '🤒 Krank', '🌴 Im Urlaub'];
+    return {
+      name: 'status',
+      usage: '/status [Text]',
+      description: 'Setzt deinen Status, ohne Text wird er entfernt.',
+      getSuggestions: (argument) =>
+        statusSuggestions
+          .filter((status) => status.toLowerCase().includes(argument.toLowerCase()) && status !== argument)
+          .map((status) => ({ label: status, description: 'Status', insertText: '/status ' + status })),
+      validate: (argument) => {
+        if (argument.length > this.maxStatusLength) return `Der Status darf maximal ${this.maxStatusLength} Zeichen lang sein.`;
+        return '';
+      },
+      execute: async (argument) => {
+        const error = await this.userservice.updateCurrentUserDataOnFirestore({ status: argument });
+        if (error) return { error: error };
+        return { error: '', info: argument ? 'Dein Status wurde gesetzt.' : 'Dein Status wurde entfernt.' };
+      },
+    };
+  }
+
+
+  /**
+   * Finds the user an argument like '@Max Mustermann' refers to.
+   *
+   * @param argument - The argument of the command.
+   * @returns The user, or `undefined` if no user has the name.
+   */
+  private getUserOfArgument(argument: string): User | undefined {
+    return this.userservice.getUserByName(argument.replace(/^@/, '').trim());
+  }
+}
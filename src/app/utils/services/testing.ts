@@ -0,0 +1,139 @@
+import { Provider } from '@angular/core';
+import { Auth } from '@angular/fire/auth';
+import { UpdateData } from '@angular/fire/firestore';
+import { BehaviorSubject } from 'rxjs';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
+import { LastReadMessage, User, UserData } from '../../shared/models/user.class';
+import { userConverter } from '../firebase/converters';
+import { MemoryRepository } from '../firebase/memory-repository';
+import { Repository } from '../firebase/repository';
+import { getCollectionType, isRealUser } from '../firebase/utils';
+import { ActivityService } from './activity.service';
+import { EmojipickerService } from './emojipicker.service';
+import { NavigationService } from './navigation.service';
+import { UserGroupService } from './user-group.service';
+import { CurrentUserChange, UsersService } from './user.service';
+
+/**
+ * The part of the `UsersService` the services under test use, with the users set by the test instead of
+ * read from Firestore and Auth. User updates are written to the repository.
+ */
+export class TestUsersService {
+  public users: User[] = [];
+  public currentUser: User | undefined;
+  public currentGuestUserID = '';
+  get currentUserID(): string { return this.currentUser ? this.currentUser.id : 'no user logged in'; }
+
+  private changeUserListSubject = new BehaviorSubject<User[]>([]);
+  public changeUserList$ = this.changeUserListSubject.asObservable();
+  private changeCurrentUserSubject = new BehaviorSubject<CurrentUserChange>('init');
+  public changeCurrentUser$ = this.changeCurrentUserSubject.asObservable();
+
+  constructor(private repository: Repository) { }
+
+
+  /**
+   * Sets the users and logs in one of them, without the login side effects of the `ChannelService`.
+   *
+   * @param users - All users.
+   * @param currentUser - The logged in user.
+   */
+  setUsers(users: User[], currentUser: User | undefined) {
+    this.users = users;
+    this.currentUser = currentUser;
+    if (currentUser?.guest) this.currentGuestUserID = currentUser.id;
+    this.changeUserListSubject.next(this.users);
+  }
+
+
+  /**
+   * Returns the IDs of all real users, see `UsersService.getAllUserIDs`.
+   */
+  getAllUserIDs(): string[] {
+    return this.users.filter((user) => isRealUser(user)).map((user) => user.id);
+  }
+
+
+  /**
+   * Returns the user with the given ID.
+   */
+  getUserByID(id: string): User | undefined {
+    return this.users.find((user) => user.id === id);
+  }
+
+
+  /**
+   * Returns the user with the given name.
+   */
+  getUserByName(name: string): User | undefined {
+    return this.users.find((user) => user.name === name);
+  }
+
+
+  /**
+   * Returns the last read message of the current user, see `UsersService.getLastReadMessageObject`.
+   */
+  getLastReadMessageObject(collection: Channel | Chat | Message): LastReadMessage | undefined {
+    if (!this.currentUser) return undefined;
+    const result = this.currentUser.lastReadMessages.find((lrm) => lrm.collectionType === getCollectionType(collection) && lrm.collectionID === collection.id);
+    return result ? result : { collectionType: getCollectionType(collection), collectionID: collection.id, messageID: '', messageCreateAt: this.currentUser.signupAt.getTime() };
+  }
+
+
+  /**
+   * Writes the changes of the current user to the repository.
+   */
+  async updateCurrentUserDataOnFirestore(userChangeData: UpdateData<UserData>): Promise<string> {
+    return await this.updateUserDataOnFirestore(this.currentUserID, userChangeData);
+  }
+
+
+  /**
+   * Writes the changes of a user to the repository.
+   */
+  async updateUserDataOnFirestore(userID: string, userChangeData: UpdateData<UserData>): Promise<string> {
+    await this.repository.updateDocument('users/' + userID, userChangeData, userConverter);
+    return '';
+  }
+
+
+  /**
+   * Logs out the current user.
+   */
+  async clearCurrentUser() {
+    this.currentUser = undefined;
+    this.currentGuestUserID = '';
+    this.changeCurrentUserSubject.next('logout');
+  }
+}
+
+
+/**
+ * Returns the providers to test the services that store their data through the `Repository`, e.g. with `TestBed`.
+ * The services that only add side effects, like activities, are replaced by spies.
+ *
+ * @param repository - The repository of the test, usually a new `MemoryRepository`.
+ * @param usersService - The users of the test.
+ * @returns The providers.
+ */
+export function provideRepositoryTesting(repository: MemoryRepository, usersService: TestUsersService): Provider[] {
+  const activityService = jasmine.createSpyObj<ActivityService>('ActivityService', ['addMentionActivities', 'addReplyActivities', 'addReactionActivity']);
+  activityService.addMentionActivities.and.resolveTo();
+  activityService.addReplyActivities.and.resolveTo();
+  activityService.addReactionActivity.and.resolveTo();
+  const userGroupService = jasmine.createSpyObj<UserGroupService>('UserGroupService', ['getMemberIDsOfUserGroups']);
+  userGroupService.getMemberIDsOfUserGroups.and.returnValue([]);
+  const navigationService = jasmine.createSpyObj<NavigationService>('NavigationService', ['setChatViewObject']);
+  navigationService.setChatViewObject.and.resolveTo();
+  return [
+    { provide: Repository, useValue: repository },
+    { provide: UsersService, useValue: usersService },
+    { provide: ActivityService, useValue: activityService },
+    { provide: UserGroupService, useValue: userGroupService },
+    { provide: EmojipickerService, useValue: jasmine.createSpyObj<EmojipickerService>('EmojipickerService', ['addEmojiToUserEmojis']) },
+    { provide: NavigationService, useValue: navigationService },
+    { provide: Auth, useValue: {} },
+  ];
+}
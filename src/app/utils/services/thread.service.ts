@@ -0,0 +1,126 @@
+import { inject, Injectable } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { UsersService } from './user.service';
+import { ChannelService } from './channel.service';
+import { NavigationService } from './navigation.service';
+import { Message } from '../../shared/models/message.class';
+import { messageConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ThreadService {
+
+  private repository = inject(Repository);
+  private userservice = inject(UsersService);
+  private channelService = inject(ChannelService);
+  private navigationService = inject(NavigationService);
+
+  private followedMessages: Message[] = [];
+  public followedThreads: Message[] = [];
+  private followedThreadsSubject = new BehaviorSubject<Message[]>([]);
+  public followedThreads$ = this.followedThreadsSubject.asObservable();
+
+  private unsubFollowedThreads: (() => void) | undefined;
+  private navigationSubscription: Subscription | undefined;
+
+
+  /**
+   * Subscribes to the threads the current user follows, over the messages of all channels and chats.
+   * Threads without answers are not listed. The unread answers are calculated again when a thread is closed.
+   * The messages are read with the `messageConverter`, invalid documents are skipped.
+   */
+  startFollowedThreadsListener() {
+    this.stopFollowedThreadsListener();
+    const followedThreadsQuery = { collectionPath: 'messages', collectionGroup: true, where: [{ field: 'threadFollowerIDs', op: 'array-contains' as const, value: this.userservice.currentUserID }] };
+    this.unsubFollowedThreads = this.repository.subscribeDocuments(followedThreadsQuery, messageConverter, async (changes) => {
+      changes.forEach((change) => {
+        const message = this.followedMessages.find((message) => message.messagePath === change.document.path);
+        if (change.type === 'removed') {
+          this.followedMessages = this.followedMessages.filter((message) => message.messagePath !== change.document.path);
+        } else if (!change.document.data) {
+          return;
+        } else if (message) {
+          message.update(change.document.data);
+        } else {
+          this.followedMessages.push(new Message(change.document.data, change.document.path.slice(0, -change.document.id.length), change.document.id));
+        }
+      });
+      this.followedThreads = this.followedMessages
+        .filter((message) => message.answerCount > 0)
+        .sort((a, b) => b.lastAnswerAt.getTime() - a.lastAnswerAt.getTime());
+      await this.calculateUnreadAnswersCounts();
+    }, (error) => console.error('ThreadService: error loading followed threads', error));
+    this.navigationSubscription = this.navigationService.change$.subscribe((change) => {
+      if (change === 'threadViewObjectCleared') this.calculateUnreadAnswersCounts();
+    });
+  }
+
+
+  /**
+   * Unsubscribes from the followed threads.
+   */
+  stopFollowedThreadsListener() {
+    if (this.unsubFollowedThreads) this.unsubFollowedThreads();
+    this.unsubFollowedThreads = undefined;
+    if (this.navigationSubscription) this.navigationSubscription.unsubscribe();
+    this.navigationSubscription = undefined;
+    this.followedMessages = [];
+    this.followedThreads = [];
+    this.followedThreadsSubject.next(this.followedThreads);
+  }
+
+
+  /**
+   * Calculates the unread answers of every followed thread from the last read message of the thread,
+   * the `LastReadMessage` of type `message` of the current user.
+   */
+  async calculateUnreadAnswersCounts() {
+    await Promise.all(this.followedThreads.map((thread) => this.channelService.calculateUnreadMessagesCount(thread)));
+    this.followedThreadsSubject.next(this.followedThreads);
+  }
+
+
+  /**
+   * Returns the number of followed threads with unread answers.
+   *
+   * @returns The number of threads.
+   */
+  getUnreadThreadsCount(): number {
+    return this.followedThreads.filter((thread) => thread.unreadMessagesCount > 0).length;
+  }
+
+
+  /**
+   * Checks if the current user follows the thread of a message.
+   *
+   * @param message - The message of the thread.
+   * @returns `true` if the current user follows the thread, otherwise `false`.
+   */
+  isFollowingThread(message: Message): boolean {
+    return message.threadFollowerIDs.includes(this.userservice.currentUserID);
+  }
+
+
+  /**
+   * Follows the thread of a message, or stops following it.
+   * The follower is written with `arrayUnion` and `arrayRemove`, so concurrent changes of other users are kept.
+   *
+   * @param message - The message of the thread.
+   * @returns A promise that resolves to an empty string if successful, or an error message.
+   */
+  async toggleFollowThread(message: Message): Promise<string> {
+    if (!message.answerable) return 'Nur Threads können verfolgt werden.';
+    const currentUserID = this.userservice.currentUserID;
+    try {
+      await this.repository.updateDocument(message.messagePath, {
+        threadFollowerIDs: this.isFollowingThread(message) ? this.repository.arrayRemove(currentUserID) : this.repository.arrayUnion(currentUserID),
+      }, messageConverter);
+      return '';
+    } catch (error) {
+      console.error('ThreadService: error following thread', error);
+      return 'Das Verfolgen des Threads konnte nicht geändert werden.';
+    }
+  }
+}
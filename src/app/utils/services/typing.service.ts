@@ -0,0 +1,111 @@
+import { inject, Injectable } from '@angular/core';
+import { Timestamp } from '@angular/fire/firestore';
+import { UsersService } from './user.service';
+import { Channel } from '../../shared/models/channel.class';
+import { Chat } from '../../shared/models/chat.class';
+import { Message } from '../../shared/models/message.class';
+import { getObjectsPath } from '../firebase/utils';
+import { typingEntryConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TypingService {
+
+  private repository = inject(Repository);
+  private userservice = inject(UsersService);
+
+  readonly typingThrottle = 3000;
+  readonly typingTimeout = 8000;
+  readonly expiryCheckInterval = 1000;
+
+  private ownTypingEntry: { path: string; writtenAt: number } | undefined;
+
+
+  /**
+   * Stores that the current user is typing in a conversation, or removes the entry.
+   * While typing the entry is written at most every `typingThrottle` milliseconds. Every write
+   * extends `expiresAt` by `typingTimeout` milliseconds, so the entry expires when the user stops
+   * typing without sending or clearing the message, e.g. because the tab crashed.
+   *
+   * @param collectionObject - The channel, chat or message (thread) of the editor.
+   * @param typing - `true` if the editor contains text, `false` if it was cleared or the message was sent.
+   */
+  async setTyping(collectionObject: Channel | Chat | Message, typing: boolean) {
+    if (collectionObject instanceof Channel && collectionObject.defaultChannel) return;
+    const path = this.getTypingPath(collectionObject) + this.userservice.currentUserID;
+    if (!typing) {
+      if (this.ownTypingEntry?.path === path) await this.stopTyping();
+      return;
+    }
+    const now = Date.now();
+    if (this.ownTypingEntry?.path === path && now - this.ownTypingEntry.writtenAt < this.typingThrottle) return;
+    if (this.ownTypingEntry && this.ownTypingEntry.path !== path) await this.stopTyping();
+    this.ownTypingEntry = { path: path, writtenAt: now };
+    try {
+      await this.repository.setDocument(path, { expiresAt: Timestamp.fromMillis(now + this.typingTimeout) }, typingEntryConverter);
+    } catch (error) {
+      console.error('TypingService: error storing typing entry', error);
+    }
+  }
+
+
+  /**
+   * Removes the typing entry of the current user, e.g. when the user leaves the conversation.
+   */
+  async stopTyping() {
+    if (!this.ownTypingEntry) return;
+    const path = this.ownTypingEntry.path;
+    this.ownTypingEntry = undefined;
+    try {
+      await this.repository.deleteDocument(path);
+    } catch (error) {
+      console.error('TypingService: error removing typing entry', error);
+    }
+  }
+
+
+  /**
+   * Subscribes to the users typing in a conversation. The current user is never included.
+   * An entry counts as long as its `expiresAt` lies in the future and it was updated in the last
+   * `typingTimeout` milliseconds, the latter doesn't depend on the clock of the typing user.
+   * The entries are checked every `expiryCheckInterval` milliseconds, so stale entries disappear without a new snapshot.
+   * Invalid entries are skipped.
+   *
+   * @param collectionObject - The channel, chat or message (thread).
+   * @param callback - Called with the IDs of the typing users whenever they change.
+   * @returns A function that unsubscribes.
+   */
+  subscribeTypingUsers(collectionObject: Channel | Chat | Message, callback: (userIDs: string[]) => void): () => void {
+    if (collectionObject instanceof Channel && collectionObject.defaultChannel) return () => { };
+    const entries = new Map<string, { expiresAt: number; receivedAt: number }>();
+    let typingUserIDs: string[] = [];
+    const update = () => {
+      const now = Date.now();
+      const userIDs = [...entries.entries()]
+        .filter(([userID, entry]) => userID !== this.userservice.currentUserID && entry.expiresAt > now && now - entry.receivedAt < this.typingTimeout)
+        .map(([userID]) => userID);
+      if (userIDs.join() === typingUserIDs.join()) return;
+      typingUserIDs = userIDs;
+      callback(typingUserIDs);
+    };
+    const unsubTyping = this.repository.subscribeDocuments({ collectionPath: this.getTypingPath(collectionObject) }, typingEntryConverter, (changes) => {
+      changes.forEach((change) => {
+        if (change.type === 'removed' || !change.document.data) entries.delete(change.document.id);
+        else entries.set(change.document.id, { expiresAt: change.document.data.expiresAt.toMillis(), receivedAt: Date.now() });
+      });
+      update();
+    }, (error) => console.error('TypingService: error loading typing entries', error));
+    const intervalID = setInterval(update, this.expiryCheckInterval);
+    return () => {
+      unsubTyping();
+      clearInterval(intervalID);
+    };
+  }
+
+
+  private getTypingPath(collectionObject: Channel | Chat | Message): string {
+    return getObjectsPath(collectionObject) + '/typing/';
+  }
+}
@@ -0,0 +1,170 @@
+import { inject, Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { UsersService } from './user.service';
+import { UserGroup } from '../../shared/models/user-group.class';
+import { userGroupConverter } from '../firebase/converters';
+import { Repository } from '../firebase/repository';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class UserGroupService {
+
+  private repository = inject(Repository);
+  private userservice = inject(UsersService);
+
+  readonly userGroupsPath = 'userGroups/';
+  readonly reservedNames = ['channel', 'here'];
+  public userGroups: UserGroup[] = [];
+  private userGroupsSubject = new BehaviorSubject<UserGroup[]>([]);
+  public userGroups$ = this.userGroupsSubject.asObservable();
+
+  private unsubUserGroups: (() => void) | undefined;
+
+
+  /**
+   * Subscribes to the user groups of the workspace, sorted by name.
+   * The groups are read with the `userGroupConverter`, invalid documents are skipped.
+   */
+  startUserGroupsListener() {
+    this.stopUserGroupsListener();
+    this.unsubUserGroups = this.repository.subscribeDocuments({ collectionPath: this.userGroupsPath }, userGroupConverter, (changes) => {
+      changes.forEach((change) => {
+        this.userGroups = this.userGroups.filter((group) => group.id !== change.document.id);
+        if (change.type !== 'removed' && change.document.data) this.userGroups.push(new UserGroup(change.document.data, change.document.id));
+      });
+      this.userGroups.sort((a, b) => a.name.localeCompare(b.name));
+      this.userGroupsSubject.next(this.userGroups);
+    }, (error) => console.error('UserGroupService: error loading user groups', error));
+  }
+
+
+  /**
+   * Unsubscribes from the user groups.
+   */
+  stopUserGroupsListener() {
+    if (this.unsubUserGroups) this.unsubUserGroups();
+    this.unsubUserGroups = undefined;
+    this.userGroups = [];
+    this.userGroupsSubject.next(this.userGroups);
+  }
+
+
+  /**
+   * Retrieves a user group by its ID.
+   *
+   * @param groupID - The ID of the group.
+   * @returns The group, or `undefined` if it doesn't exist (anymore).
+   */
+  getUserGroupByID(groupID: string): UserGroup | undefined {
+    return this.userGroups.find((group) => group.id === groupID);
+  }
+
+
+  /**
+   * Returns the members of the mentioned groups, e.g. to notify them.
+   *
+   * @param groupIDs - The IDs of the mentioned groups. Deleted groups are ignored.
+   * @returns The IDs of the members, without duplicates.
+   */
+  getMemberIDsOfUserGroups(groupIDs: string[]): string[] {
+    const memberIDs = groupIDs.flatMap((groupID) => this.getUserGroupByID(groupID)?.memberIDs ?? []);
+    return [...new Set(memberIDs)];
+  }
+
+
+  /**
+   * Checks if the current user may create, edit and delete user groups. Guests may only mention them.
+   *
+   * @returns `true` if the current user is logged in and not a guest, otherwise `false`.
+   */
+  isAllowedToManageUserGroups(): boolean {
+    return !!this.userservice.currentUser && !this.userservice.currentUser.guest;
+  }
+
+
+  /**
+   * Checks the name of a new or renamed group. A name consists of 2 to 30 lowercase letters,
+   * so it can be typed after the `@` in the mention picker, and must be unique.
+   *
+   * @param name - The name of the group.
+   * @param groupID - The ID of the renamed group, it may keep its name.
+   * @returns An empty string if the name is valid, otherwise the reason.
+   */
+  validateUserGroupName(name: string, groupID: string = ''): string {
+    if (!/^[a-z]{2,30}$/.test(name)) return 'Der Gruppenname darf nur aus 2 bis 30 Kleinbuchstaben bestehen.';
+    if (this.reservedNames.includes(name)) return '@' + name + ' ist reserviert.';
+    if (this.userGroups.some((group) => group.name === name && group.id !== groupID)) return 'Eine Gruppe mit diesem Namen existiert bereits.';
+    return '';
+  }
+
+
+  /**
+   * Adds a new user group.
+   *
+   * @param name - The name of the group.
+   * @param description - The description of the group.
+   * @param memberIDs - The IDs of the members.
+   * @returns A promise that resolves to an empty string if successful, or an error message.
+   */
+  async addUserGroup(name: string, description: string, memberIDs: string[]): Promise<string> {
+    if (!this.isAllowedToManageUserGroups()) return 'Gäste dürfen keine Gruppen verwalten.';
+    const nameError = this.validateUserGroupName(name);
+    if (nameError) return nameError;
+    try {
+      await this.repository.addDocument(this.userGroupsPath, {
+        name: name,
+        description: description,
+        memberIDs: memberIDs,
+        creatorID: this.userservice.currentUserID,
+        createdAt: this.repository.serverTimestamp(),
+      }, userGroupConverter);
+      return '';
+    } catch (error) {
+      console.error('UserGroupService: error adding user group', error);
+      return 'Die Gruppe konnte nicht erstellt werden.';
+    }
+  }
+
+
+  /**
+   * Updates the name, description or members of a user group.
+   * Messages that mention the group show its new name.
+   *
+   * @param group - The group.
+   * @param updateData - The changed fields.
+   * @returns A promise that resolves to an empty string if successful, or an error message.
+   */
+  async updateUserGroup(group: UserGroup, updateData: { name?: string; description?: string; memberIDs?: string[] }): Promise<string> {
+    if (!this.isAllowedToManageUserGroups()) return 'Gäste dürfen keine Gruppen verwalten.';
+    if (updateData.name !== undefined) {
+      const nameError = this.validateUserGroupName(updateData.name, group.id);
+      if (nameError) return nameError;
+    }
+    try {
+      await this.repository.updateDocument(this.userGroupsPath + group.id, updateData, userGroupConverter);
+      return '';
+    } catch (error) {
+      console.error('UserGroupService: error updating user group', error);
+      return 'Die Gruppe konnte nicht gespeichert werden.';
+    }
+  }
+
+
+  /**
+   * Deletes a user group. Existing mentions of the group no longer notify anyone.
+   *
+   * @param group - The group.
+   * @returns A promise that resolves to an empty string if successful, or an error message.
+   */
+  async deleteUserGroup(group: UserGroup): Promise<string> {
+    if (!this.isAllowedToManageUserGroups()) return 'Gäste dürfen keine Gruppen verwalten.';
+    try {
+      await this.repository.deleteDocument(this.userGroupsPath + group.id);
+      return '';
+    } catch (error) {
+      console.error('UserGroupService: error deleting user group', error);
+      return 'Die Gruppe konnte nicht gelöscht werden.';
+    }
+  }
+}
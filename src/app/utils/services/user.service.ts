@@ -1,13 +1,14 @@
 import { inject, Injectable, OnDestroy } from '@angular/core';
-import { CollectionType, LastReadMessage, User } from '../../shared/models/user.class';
+import { CollectionType, LastReadMessage, User, UserData } from '../../shared/models/user.class';
 import { BehaviorSubject } from 'rxjs';
-import { updateDoc, collection, Firestore, onSnapshot, doc, serverTimestamp } from '@angular/fire/firestore';
+import { updateDoc, collection, Firestore, onSnapshot, doc, serverTimestamp, writeBatch, deleteField, Unsubscribe, UpdateData } from '@angular/fire/firestore';
 import { Auth, sendEmailVerification, user } from '@angular/fire/auth';
 import { EmojipickerService } from './emojipicker.service';
 import { Message } from '../../shared/models/message.class';
 import { Chat } from '../../shared/models/chat.class';
 import { Channel } from '../../shared/models/channel.class';
 import { getCollectionType, isRealUser } from '../firebase/utils';
+import { getValidatedData, lastReadMessageConverter, userConverter } from '../firebase/converters';
 
 export type CurrentUserChange = 'init' | 'login' | 'logout' | 'update';
 
@@ -23,11 +24,17 @@ export class UsersService implements OnDestroy {
   private user$: any = null;
   private currentAuthUser: any = undefined;
   private updateCurrentUserDataFunction: any = undefined;
+  private unsubLastReadMessages: Unsubscribe | undefined;
+  private pendingLastReadMessages: LastReadMessage[] = [];
+  readonly lastReadMessageWriteDelay = 3000;
   public isUserMemberOfCurrentChannel = false;
 
   private changeUserListSubject = new BehaviorSubject<User[]>([]);
   public changeUserList$ = this.changeUserListSubject.asObservable();
 
+  private usersLoadedSubject = new BehaviorSubject<boolean>(false);
+  public usersLoaded$ = this.usersLoadedSubject.asObservable();
+
   private changeCurrentUserSubject = new BehaviorSubject<CurrentUserChange>('init');
   public changeCurrentUser$ = this.changeCurrentUserSubject.asObservable();
 
@@ -89,10 +96,10 @@ export class UsersService implements OnDestroy {
    * the current user's data in the Firestore database.
    *
    * @param userChangeData - An object containing the changes to be applied to the current user's data.
-   * @returns A promise that resolves when the update operation is complete.
+   * @returns A promise that resolves to an empty string on success, or an error message if the update failed.
    */
-  async updateCurrentUserDataOnFirestore(userChangeData: {}) {
-    await this.updateUserDataOnFirestore(this.currentUserID, userChangeData);
+  async updateCurrentUserDataOnFirestore(userChangeData: UpdateData<UserData>): Promise<string> {
+    return await this.updateUserDataOnFirestore(this.currentUserID, userChangeData);
   }
 
 
@@ -101,14 +108,15 @@ export class UsersService implements OnDestroy {
    *
    * @param userID - The ID of the user whose data is to be updated.
    * @param userChangeData - An object containing the user data changes.
-   * @returns A promise that resolves when the update is complete.
-   * @throws Will log an error message if the update fails.
+   * @returns A promise that resolves to an empty string on success, or an error message if the update failed.
    */
-  async updateUserDataOnFirestore(userID: string, userChangeData: {}) {
+  async updateUserDataOnFirestore(userID: string, userChangeData: UpdateData<UserData>): Promise<string> {
     try {
-      await updateDoc(doc(this.firestore, '/users/' + userID), userChangeData);
+      await updateDoc(this.getUserRef(userID), userConverter.toUpdateData(userChangeData));
+      return '';
     } catch (error) {
       console.error('userservice/firestore: ', (error as Error).message);
+      return 'Die Benutzerdaten konnten nicht gespeichert werden.';
     }
   }
 
@@ -125,31 +133,37 @@ export class UsersService implements OnDestroy {
    * and notifies subscribers of the current user subject.
    * 
    * After processing all changes, the method sorts the `users` array by name and notifies subscribers
-   * of the user list subject.
+   * of the user list subject. `usersLoaded$` emits `true` after the first snapshot, or if it fails.
    * 
    * @private
    * @returns {void}
    */
   private initUserSubscription(): void {
     this.unsubUsers = onSnapshot(
-      collection(this.firestore, '/users'),
+      collection(this.firestore, '/users').withConverter(userConverter),
       (snapshot) => {
         snapshot.docChanges().forEach((change) => {
-          if (change.type === 'added') {
-            this.users.push(new User(change.doc.data(), change.doc.id));
+          const userData = getValidatedData(change.doc);
+          if (change.type === 'added' && userData) {
+            this.users.push(new User(userData, change.doc.id));
           }
-          else if (change.type === 'modified') {
+          else if (change.type === 'modified' && userData) {
             const user = this.users.find((user) => user.id === change.doc.id);
-            if (user) user.update(change.doc.data());
+            if (user) user.update(userData);
           }
-          else if (change.type === 'removed') this.users = this.users.filter((user) => user.email !== change.doc.data()['email']);
+          else if (change.type === 'removed') this.users = this.users.filter((user) => user.id !== change.doc.id);
           if (this.currentUserID === change.doc.id) {
-            if (change.doc.data()['online'] === false) this.updateCurrentUserDataOnFirestore({ online: true });
+            if (userData?.online === false) this.updateCurrentUserDataOnFirestore({ online: true });
             this.changeCurrentUserSubject.next('update');
           }
         });
         this.users.sort((a, b) => a.name.localeCompare(b.name));
         this.changeUserListSubject.next(this.users);
+        if (!this.usersLoadedSubject.value) this.usersLoadedSubject.next(true);
+      },
+      (error) => {
+        console.error('userservice/firestore: error loading users', error);
+        if (!this.usersLoadedSubject.value) this.usersLoadedSubject.next(true);
       }
     );
   }
@@ -288,6 +302,7 @@ export class UsersService implements OnDestroy {
     if (this.currentUser && user) return;
     this.currentUser = user;
     if (user.guest) this.currentGuestUserID = user.id;
+    this.initLastReadMessagesSubscription(user);
     await this.emojiService.loadUserEmojis(user.id);
     let userData: { online: boolean; lastLoginAt: any; emailVerified?: boolean } = { online: true, lastLoginAt: serverTimestamp() };
     if (this.currentAuthUser) userData.emailVerified = this.currentAuthUser.emailVerified;
@@ -305,8 +320,8 @@ export class UsersService implements OnDestroy {
    * 
    * This method checks if the current user is not a guest and updates the last read message
    * for the specified collection if the message is newer than the previously recorded one.
-   * If no record exists for the collection, it creates a new one. The updated data is then
-   * saved to Firestore.
+   * If no record exists for the collection, it creates a new one. The changed records are
+   * saved to the `lastReadMessages` subcollection after `lastReadMessageWriteDelay` milliseconds.
    */
   setLastReadMessage(message: Message, collection: Channel | Chat | Message) {
     if (this.currentUser) {
@@ -319,28 +334,145 @@ export class UsersService implements OnDestroy {
         if (lrm.messageCreateAt < messageCreatedAt) {
           lrm.messageID = message.id;
           lrm.messageCreateAt = messageCreatedAt;
+          this.addPendingLastReadMessage(lrm);
           updateNeeded = true;
         }
       } else {
         if (this.currentUser.signupAt < message.createdAt) {
           const type = getCollectionType(collection);
-          this.currentUser.lastReadMessages.push({ collectionType: type, collectionID: collection.id, messageID: message.id, messageCreateAt: messageCreatedAt });
+          const newLRM: LastReadMessage = { collectionType: type, collectionID: collection.id, messageID: message.id, messageCreateAt: messageCreatedAt };
+          this.currentUser.lastReadMessages.push(newLRM);
+          this.addPendingLastReadMessage(newLRM);
           updateNeeded = true;
         }
       }
       this.changeCurrentUserSubject.next('update');
       if (updateNeeded && this.updateCurrentUserDataFunction === undefined) {
         this.updateCurrentUserDataFunction = setTimeout(() => {
-          if (this.currentUser) {
-            this.updateCurrentUserDataOnFirestore({ lastReadMessages: JSON.stringify(this.currentUser.lastReadMessages) });
-          }
           this.updateCurrentUserDataFunction = undefined;
-        }, 10000);
+          this.savePendingLastReadMessages();
+        }, this.lastReadMessageWriteDelay);
       }
     }
   }
 
 
+  /**
+   * Subscribes to the last read messages of the current user, stored as one document per channel,
+   * chat and thread in `users/{userID}/lastReadMessages/`. Records that aren't saved yet are kept.
+   * Last read messages of older versions, stored as JSON string on the user document, are moved
+   * to the subcollection with the first snapshot.
+   *
+   * @param user - The current user.
+   */
+  private initLastReadMessagesSubscription(user: User) {
+    if (this.unsubLastReadMessages) this.unsubLastReadMessages();
+    let legacyLastReadMessages = [...user.lastReadMessages];
+    this.unsubLastReadMessages = onSnapshot(collection(this.firestore, this.getLastReadMessagesPath(user.id)).withConverter(lastReadMessageConverter), (snapshot) => {
+      let lastReadMessages = snapshot.docs.flatMap((doc) => getValidatedData(doc) ?? []);
+      if (legacyLastReadMessages.length > 0) {
+        const newerLegacyLastReadMessages = legacyLastReadMessages.filter((legacyLRM) => this.isNewerLastReadMessage(legacyLRM, lastReadMessages));
+        legacyLastReadMessages = [];
+        newerLegacyLastReadMessages.forEach((legacyLRM) => this.addPendingLastReadMessage(legacyLRM));
+        this.savePendingLastReadMessages(true);
+      }
+      this.pendingLastReadMessages.forEach((pendingLRM) => {
+        lastReadMessages = lastReadMessages.filter((lrm) => !this.isSameCollection(lrm, pendingLRM));
+        lastReadMessages.push(pendingLRM);
+      });
+      user.setLastReadMessages(lastReadMessages);
+      if (this.currentUser === user) this.changeCurrentUserSubject.next('update');
+    }, (error) => console.error('userservice/firestore: error loading last read messages', error));
+  }
+
+
+  /**
+   * Saves the changed last read messages of the current user in one batch.
+   *
+   * @param removeLegacyField - Removes the last read messages of older versions from the user document.
+   */
+  private async savePendingLastReadMessages(removeLegacyField: boolean = false) {
+    if (!this.currentUser || (this.pendingLastReadMessages.length === 0 && !removeLegacyField)) return;
+    const lastReadMessagesPath = this.getLastReadMessagesPath(this.currentUser.id);
+    const pendingLastReadMessages = this.pendingLastReadMessages;
+    this.pendingLastReadMessages = [];
+    try {
+      const batch = writeBatch(this.firestore);
+      pendingLastReadMessages.forEach((lrm) => batch.set(doc(this.firestore, lastReadMessagesPath + lrm.collectionType + '_' + lrm.collectionID).withConverter(lastReadMessageConverter), { ...lrm }));
+      if (removeLegacyField) batch.update(this.getUserRef(this.currentUser.id), userConverter.toUpdateData({ lastReadMessages: deleteField() }));
+      await batch.commit();
+    } catch (error) {
+      console.error('userservice/firestore: ', (error as Error).message);
+    }
+  }
+
+
+  /**
+   * Marks a last read message to be saved, it replaces a not yet saved record of the same collection.
+   *
+   * @param lrm - The last read message.
+   */
+  private addPendingLastReadMessage(lrm: LastReadMessage) {
+    this.pendingLastReadMessages = this.pendingLastReadMessages.filter((pendingLRM) => !this.isSameCollection(pendingLRM, lrm));
+    this.pendingLastReadMessages.push(lrm);
+  }
+
+
+  /**
+   * Checks if a last read message is newer than the record of the same collection in a list.
+   *
+   * @param lrm - The last read message.
+   * @param lastReadMessages - The list.
+   * @returns `true` if the list has no record of the collection or an older one, otherwise `false`.
+   */
+  private isNewerLastReadMessage(lrm: LastReadMessage, lastReadMessages: LastReadMessage[]): boolean {
+    const storedLRM = lastReadMessages.find((storedLRM) => this.isSameCollection(storedLRM, lrm));
+    return !storedLRM || storedLRM.messageCreateAt < lrm.messageCreateAt;
+  }
+
+
+  private isSameCollection(lrm1: LastReadMessage, lrm2: LastReadMessage): boolean {
+    return lrm1.collectionType === lrm2.collectionType && lrm1.collectionID === lrm2.collectionID;
+  }
+
+
+  private getLastReadMessagesPath(userID: string): string {
+    return 'users/' + userID + '/lastReadMessages/';
+  }
+
+
+  private getUserRef(userID: string) {
+    return doc(this.firestore, '/users/' + userID).withConverter(userConverter);
+  }
+
+
+  /**
+   * Subscribes to the last read message of a user in a chat, e.g. the chat partner, to show read receipts.
+   *
+   * @param userID - The ID of the user.
+   * @param chat - The chat.
+   * @param callback - Called with the last read message, or `undefined` if the user hasn't read a message of the chat yet.
+   * @returns A function that unsubscribes.
+   */
+  subscribeLastReadMessageOfUser(userID: string, chat: Chat, callback: (lrm: LastReadMessage | undefined) => void): Unsubscribe {
+    const lrmPath = this.getLastReadMessagesPath(userID) + getCollectionType(chat) + '_' + chat.id;
+    return onSnapshot(doc(this.firestore, lrmPath).withConverter(lastReadMessageConverter), (snapshot) => {
+      callback(getValidatedData(snapshot));
+    }, (error) => console.error('userservice/firestore: error loading last read message', error));
+  }
+
+
+  /**
+   * Turns the read receipts of the current user on or off. Without read receipts, the chat partners
+   * don't see if the user read their messages and the user doesn't see it of the partners either.
+   *
+   * @param readReceipts - `true` to send and show read receipts.
+   */
+  async setReadReceipts(readReceipts: boolean) {
+    await this.updateCurrentUserDataOnFirestore({ readReceipts: readReceipts });
+  }
+
+
   /**
    * Retrieves the last read message object for the given collection.
    * 
@@ -361,6 +493,7 @@ export class UsersService implements OnDestroy {
    * 
    * This method performs the following actions:
    * - If a current user exists, it logs out the user.
+   * - Saves the changed last read messages and unsubscribes from them.
    * - Sets the current user to undefined.
    * - Removes the guest user email from local storage.
    * - Resets the current guest user ID.
@@ -372,11 +505,15 @@ export class UsersService implements OnDestroy {
   public async clearCurrentUser() {
     if (this.currentUser) {
       const logoutUser = this.currentUser;
-      await this.updateCurrentUserDataOnFirestore({ lastReadMessages: JSON.stringify(this.currentUser.lastReadMessages) });
+      if (this.updateCurrentUserDataFunction) clearTimeout(this.updateCurrentUserDataFunction);
+      this.updateCurrentUserDataFunction = undefined;
+      await this.savePendingLastReadMessages();
+      if (this.unsubLastReadMessages) this.unsubLastReadMessages();
+      this.unsubLastReadMessages = undefined;
       this.currentUser = undefined;
       localStorage.removeItem('guestuseremail'); // this is only for guest user
       this.currentGuestUserID = '';
-      updateDoc(doc(this.firestore, '/users/' + logoutUser.id), { online: false });
+      updateDoc(this.getUserRef(logoutUser.id), userConverter.toUpdateData({ online: false }));
       this.changeCurrentUserSubject.next('logout');
     }
   }
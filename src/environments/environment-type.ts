@@ -0,0 +1,26 @@
+import { FirebaseOptions } from '@angular/fire/app';
+
+/**
+ * The local Firebase emulators, started with `npm run emulators`.
+ *
+ * @property {string} host - The host of all emulators.
+ * @property {number} authPort - The port of the Auth emulator.
+ * @property {number} firestorePort - The port of the Firestore emulator.
+ * @property {number} storagePort - The port of the Storage emulator.
+ * @property {string[]} fixtures - The names of the workspace fixtures in `src/fixtures`, seeded into an empty emulator.
+ */
+export type EmulatorEnvironment = {
+  host: string;
+  authPort: number;
+  firestorePort: number;
+  storagePort: number;
+  fixtures: string[];
+};
+
+/**
+ * The environment of a build configuration. Without `emulators`, the app uses the Firebase project of `firebase`.
+ */
+export type Environment = {
+  firebase: FirebaseOptions;
+  emulators?: EmulatorEnvironment;
+};
@@ -0,0 +1,18 @@
+import { Environment } from './environment-type';
+
+// The `demo-` project ID can't reach a real Firebase project, so nothing is written outside the emulators.
+export const environment: Environment = {
+  firebase: {
+    apiKey: "demo-api-key",
+    authDomain: "demo-dabubble.firebaseapp.com",
+    projectId: "demo-dabubble",
+    storageBucket: "demo-dabubble.appspot.com",
+  },
+  emulators: {
+    host: 'localhost',
+    authPort: 9099,
+    firestorePort: 8080,
+    storagePort: 9199,
+    fixtures: ['dabubble'],
+  },
+};